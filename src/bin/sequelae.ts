@@ -1,6 +1,7 @@
 #!/usr/bin/env node
 
 import { SqlAgentMcpServer } from '../mcp';
+import { loadProjectConfig } from '../core/config';
 import { logger } from '../utils/logger';
 import { RateLimiterOptions } from '../utils/rate-limiter';
 
@@ -10,8 +11,24 @@ const isMcpMode = process.env.MCP_MODE === 'true' || args.includes('--mcp');
 
 async function main(): Promise<void> {
   if (isMcpMode) {
-    // Remove --mcp from args if present
-    const filteredArgs = args.filter(arg => arg !== '--mcp');
+    // Load the project's .env and config file; the environment overrides the file
+    const loaded = loadProjectConfig();
+    if (loaded) {
+      logger.info('Loaded config file', { path: loaded.path });
+    }
+
+    // Remove --mcp, --read-only and --policy <file> from args if present
+    const readOnly = args.includes('--read-only') || process.env.POSTGRES_READ_ONLY === 'true';
+    const policyIndex = args.indexOf('--policy');
+    if (policyIndex !== -1 && args[policyIndex + 1]) {
+      process.env.SEQUELAE_POLICY_FILE = args[policyIndex + 1];
+    }
+    const filteredArgs = args.filter(
+      (arg, index) =>
+        arg !== '--mcp' &&
+        arg !== '--read-only' &&
+        (policyIndex === -1 || (index !== policyIndex && index !== policyIndex + 1))
+    );
     process.argv = [process.argv[0], process.argv[1], ...filteredArgs];
 
     // Configure rate limiting from environment variables
@@ -45,8 +62,12 @@ async function main(): Promise<void> {
       }
     }
 
+    if (readOnly) {
+      logger.info('Read-only mode enabled: write tools are hidden');
+    }
+
     // Start MCP server
-    const server = new SqlAgentMcpServer(rateLimiterOptions);
+    const server = new SqlAgentMcpServer(rateLimiterOptions, { readOnly });
     await server.start();
   } else {
     // Run as CLI - import dynamically to avoid loading unnecessary code
@@ -1,32 +1,35 @@
 #!/usr/bin/env node
 import { Pool } from 'pg';
 import { PoolManager } from './core/pool-manager';
-import { config } from 'dotenv';
 import { readFileSync, existsSync } from 'fs';
 import { resolve } from 'path';
+import { createInterface } from 'readline';
 import * as packageJson from '../package.json';
-import { SqlExecutor } from './core/sql-executor';
+import { SqlExecutor, StatementResult, ImpactPreview } from './core/sql-executor';
+import { SqlAgentError } from './core/errors';
+import { resolveConnectionString } from './core/connections';
+import { LoadedConfig, loadProjectConfig, effectiveConfig } from './core/config';
+import { QueryParams } from './core/query-params';
+import { classifySql } from './core/sql-classifier';
+import { ConfirmationReason, requiredConfirmations } from './core/sql-policy';
+import { formatPlanSummary } from './core/plan-summary';
+import { ExportFormat } from './core/query-export';
+import { ImportFormat, ImportOptions, importStatements } from './core/data-import';
+import {
+  formatColumn,
+  formatColumnMatches,
+  formatJsonbStructure,
+  formatTableDetails,
+  formatViewsAndEnums,
+  withJsonbStructures,
+  ConstraintInfo,
+  SchemaResult,
+} from './core/schema-introspection';
 import { BackupOptions } from './types/backup';
 import { logger } from './utils/logger';
-import { sampleJsonbColumn, analyzeJsonStructure, formatJsonStructure } from './jsonb-analyzer';
-
-interface Constraint {
-  constraint_type: string;
-  constraint_name: string;
-  column_name: string;
-}
-
-interface Column {
-  column_name: string;
-  data_type: string;
-  is_nullable: string;
-  column_default: string | null;
-  character_maximum_length: number | null;
-}
-
-// Load .env from the package root (handles both root and subdirectory execution)
-const envPath = resolve(__dirname, '../.env');
-config({ path: envPath });
+import { createRowWriter, formatRows, RowFormat, ROW_FORMATS } from './utils/row-writer';
+import { JSONB_FORMATS, JsonbFormat, SamplingOptions, SamplingStrategy } from './jsonb-analyzer';
+import { formatJsonbDrift } from './core/jsonb-drift';
 
 // CLI output helpers that maintain console output but also log
 const cliOutput = {
@@ -61,49 +64,109 @@ export function handleHelp(jsonMode: boolean): string {
   if (jsonMode) {
     return JSON.stringify({
       usage: [
+        'sequelae repl                     Start an interactive shell (default in a terminal)',
         'sequelae exec "SQL query"         Execute a SQL query',
         'sequelae file path/to/query.sql   Execute SQL from file',
+        'sequelae explain "SQL query"      Summarize the query plan (--analyze, --buffers, --plan)',
+        'sequelae export "SQL query" --out <file>  Stream rows to a file (csv, ndjson, json, columnar)',
+        'sequelae import <file> --table <name>     Load a CSV or NDJSON file with COPY',
+        'sequelae generate types [tables] --out <file>  Write TypeScript types for the schema',
         'sequelae schema                   Show all tables in public schema',
         'sequelae schema [tables]          Show specific table(s) - comma separated',
         'sequelae schema --all             Show all schemas including system tables',
+        'sequelae schema --jsonb-format <fmt>  Show JSONB structures as text, jsonschema, zod or typescript',
+        'sequelae schema --sample <strategy>   Sample JSONB rows: first, system, bernoulli, recent or full',
+        'sequelae jsonb snapshot <table.column,...> --out <file>  Save the structure of JSONB columns',
+        'sequelae jsonb diff <file>        Report JSONB fields added, removed or changed since a snapshot',
         'sequelae backup                   Create a database backup',
+        'sequelae config show              Print the effective configuration',
         'sequelae exit                     Exit sequelae',
         'sequelae --json                   Output results in JSON format',
+        'sequelae --read-only              Reject any statement that writes to the database',
+        'sequelae --policy <file>          Check statements against a JSON policy file',
+        'sequelae --db <name>              Use the named connection DATABASE_URL_<NAME>',
+        'sequelae --yes                    Run destructive statements without asking',
+        'sequelae --dry-run                Run exec/file in a transaction that is rolled back',
+        'sequelae --stream                 Stream rows through a cursor as they arrive',
+        'sequelae --format <fmt>           Output rows as table, csv, tsv, markdown, ndjson, json or vertical',
+        'sequelae --param <value>          Bind a positional parameter ($1, $2, ...)',
+        'sequelae --named-param <k>=<v>    Bind a named parameter (:name)',
       ],
       examples: [
         'sequelae exec "SELECT * FROM users"',
         'sequelae exec "CREATE TABLE posts (id serial primary key, title text)"',
         'sequelae file migrations/001_init.sql',
+        'sequelae explain "SELECT * FROM orders WHERE status = \'open\'" --analyze',
+        'sequelae export "SELECT * FROM events" --out events.ndjson',
+        'sequelae import users.csv --table users --upsert id',
+        'sequelae generate types --out src/db.d.ts',
         'sequelae schema',
         'sequelae schema users,posts',
+        'sequelae schema events --sample recent --sample-order created_at --sample-size 500',
+        'sequelae jsonb snapshot events.payload --out jsonb-snapshot.json --sample full',
+        'sequelae jsonb diff jsonb-snapshot.json --sample full',
         'sequelae backup --output db_backup.sql',
         'sequelae backup --tables users,posts --format custom',
         'sequelae --json exec "SELECT * FROM users"',
+        'sequelae exec "SELECT * FROM users WHERE id = $1" --param 42',
+        'sequelae exec "SELECT * FROM users WHERE email = :email" --named-param email=a@b.co',
+        'sequelae exec "SELECT * FROM events" --stream --format csv > events.csv',
+        'sequelae exec "SELECT * FROM users" --format markdown',
       ],
     });
   } else {
     return `
 Usage:
+  sequelae repl                     Start an interactive shell (default in a terminal)
   sequelae exec "SQL query"         Execute a SQL query
   sequelae file path/to/query.sql   Execute SQL from file
+  sequelae explain "SQL query"      Summarize the query plan (--analyze, --buffers, --plan)
+  sequelae export "SQL query" --out <file>  Stream rows to a file (csv, ndjson, json, columnar)
+  sequelae import <file> --table <name>     Load a CSV or NDJSON file with COPY
+  sequelae generate types [tables] --out <file>  Write TypeScript types for the schema
   sequelae schema                   Show all tables in public schema
   sequelae schema [tables]          Show specific table(s) - comma separated
   sequelae schema --all             Show all schemas including system tables
+  sequelae schema --jsonb-format <fmt>  Show JSONB structures as text, jsonschema, zod or typescript
+  sequelae schema --sample <strategy>   Sample JSONB rows: first, system, bernoulli, recent or full
+  sequelae jsonb snapshot <table.column,...> --out <file>  Save the structure of JSONB columns
+  sequelae jsonb diff <file>        Report JSONB fields added, removed or changed since a snapshot
   sequelae backup                   Create a database backup
+  sequelae config show              Print the effective configuration
   sequelae exit                     Exit sequelae
   sequelae --json                   Output results in JSON format
   sequelae --no-transaction         Disable automatic transactions
   sequelae --timeout <ms>           Set query timeout in milliseconds
+  sequelae --read-only              Reject any statement that writes to the database
+  sequelae --policy <file>          Check statements against a JSON policy file
+  sequelae --db <name>              Use the named connection DATABASE_URL_<NAME>
+  sequelae --yes                    Run destructive statements without asking
+  sequelae --dry-run                Run exec/file in a transaction that is rolled back
+  sequelae --stream                 Stream rows through a cursor as they arrive
+  sequelae --format <fmt>           Output rows as table, csv, tsv, markdown, ndjson, json or vertical
+  sequelae --param <value>          Bind a positional parameter ($1, $2, ...)
+  sequelae --named-param <k>=<v>    Bind a named parameter (:name)
   
 Examples:
   sequelae exec "SELECT * FROM users"
   sequelae exec "CREATE TABLE posts (id serial primary key, title text)"
   sequelae file migrations/001_init.sql
+  sequelae explain "SELECT * FROM orders WHERE status = 'open'" --analyze
+  sequelae export "SELECT * FROM events" --out events.ndjson
+  sequelae import users.csv --table users --upsert id
+  sequelae generate types --out src/db.d.ts
   sequelae schema
   sequelae schema users,posts
+  sequelae schema events --sample recent --sample-order created_at --sample-size 500
+  sequelae jsonb snapshot events.payload --out jsonb-snapshot.json --sample full
+  sequelae jsonb diff jsonb-snapshot.json --sample full
   sequelae backup --output db_backup.sql
   sequelae backup --tables users,posts --format custom
   sequelae --json exec "SELECT * FROM users"
+  sequelae exec "SELECT * FROM users WHERE id = $1" --param 42
+  sequelae exec "SELECT * FROM users WHERE email = :email" --named-param email=a@b.co
+  sequelae exec "SELECT * FROM events" --stream --format csv > events.csv
+  sequelae exec "SELECT * FROM users" --format markdown
     `;
   }
 }
@@ -132,7 +195,16 @@ export interface ParsedArguments {
   jsonMode: boolean;
   allSchemas: boolean;
   noTransaction: boolean;
+  readOnly: boolean;
+  yes: boolean;
+  dryRun: boolean;
+  stream: boolean;
   timeout?: number;
+  policyFile?: string;
+  db?: string;
+  format?: string;
+  params?: string[];
+  namedParams?: Record<string, string>;
   filteredArgs: string[];
 }
 
@@ -140,6 +212,10 @@ export function parseArguments(args: string[]): ParsedArguments {
   const jsonMode = args.includes('--json');
   const allSchemas = args.includes('--all');
   const noTransaction = args.includes('--no-transaction');
+  const readOnly = args.includes('--read-only');
+  const yes = args.includes('--yes');
+  const dryRun = args.includes('--dry-run');
+  const stream = args.includes('--stream');
 
   // Extract timeout value
   let timeout: number | undefined;
@@ -158,9 +234,59 @@ export function parseArguments(args: string[]): ParsedArguments {
     }
   }
 
+  // Extract policy file path
+  let policyFile: string | undefined;
+  const policyIndex = args.indexOf('--policy');
+  if (policyIndex !== -1 && policyIndex + 1 < args.length) {
+    policyFile = args[policyIndex + 1];
+  }
+
+  // Extract named connection
+  let db: string | undefined;
+  const dbIndex = args.indexOf('--db');
+  if (dbIndex !== -1 && dbIndex + 1 < args.length) {
+    db = args[dbIndex + 1];
+  }
+
+  // Extract bind parameters: --param <value> (positional) and --named-param <name>=<value>
+  let params: string[] | undefined;
+  let namedParams: Record<string, string> | undefined;
+  const paramIndexes = new Set<number>();
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] !== '--param' && args[i] !== '--named-param') {
+      continue;
+    }
+    paramIndexes.add(i);
+    if (i + 1 >= args.length) {
+      continue;
+    }
+    const value = args[++i];
+    paramIndexes.add(i);
+    if (args[i - 1] === '--param') {
+      params = [...(params || []), value];
+    } else {
+      const separator = value.indexOf('=');
+      if (separator > 0) {
+        namedParams = { ...namedParams, [value.slice(0, separator)]: value.slice(separator + 1) };
+      }
+    }
+  }
+
   const filteredArgs = args.filter((arg, index) => {
     // Remove flags
-    if (arg === '--json' || arg === '--all' || arg === '--no-transaction') {
+    if (
+      arg === '--json' ||
+      arg === '--all' ||
+      arg === '--no-transaction' ||
+      arg === '--read-only' ||
+      arg === '--yes' ||
+      arg === '--dry-run' ||
+      arg === '--stream'
+    ) {
+      return false;
+    }
+    // Remove --param/--named-param and their values
+    if (paramIndexes.has(index)) {
       return false;
     }
     // Remove --timeout and its value
@@ -170,14 +296,39 @@ export function parseArguments(args: string[]): ParsedArguments {
     if (timeoutValueIndex !== undefined && index === timeoutValueIndex) {
       return false;
     }
+    // Remove --policy and its value
+    if (policyIndex !== -1 && (index === policyIndex || index === policyIndex + 1)) {
+      return false;
+    }
+    // Remove --db and its value
+    if (dbIndex !== -1 && (index === dbIndex || index === dbIndex + 1)) {
+      return false;
+    }
     return true;
   });
 
+  // Extract output format (backup reads its own --format)
+  let format: string | undefined;
+  const formatIndex = filteredArgs.indexOf('--format');
+  if (formatIndex !== -1 && filteredArgs[0] !== 'backup') {
+    format = filteredArgs[formatIndex + 1];
+    filteredArgs.splice(formatIndex, 2);
+  }
+
   return {
     jsonMode,
     allSchemas,
     noTransaction,
+    readOnly,
+    yes,
+    dryRun,
+    stream,
     timeout,
+    policyFile,
+    db,
+    format,
+    params,
+    namedParams,
     filteredArgs,
   };
 }
@@ -213,7 +364,14 @@ export function getCommandInfo(command: string): CommandInfo | null {
   const commands: Record<string, CommandInfo> = {
     exec: { command: 'exec', needsArgument: true, argumentName: 'SQL query' },
     file: { command: 'file', needsArgument: true, argumentName: 'file path' },
+    explain: { command: 'explain', needsArgument: true, argumentName: 'SQL query' },
+    export: { command: 'export', needsArgument: true, argumentName: 'SQL query' },
+    import: { command: 'import', needsArgument: true, argumentName: 'file path' },
+    generate: { command: 'generate', needsArgument: true, argumentName: 'generator' },
+    jsonb: { command: 'jsonb', needsArgument: true, argumentName: 'jsonb command' },
     schema: { command: 'schema', needsArgument: false },
+    config: { command: 'config', needsArgument: true, argumentName: 'config command' },
+    repl: { command: 'repl', needsArgument: false },
   };
 
   return commands[command] || null;
@@ -246,6 +404,9 @@ export interface QueryResult {
   rowCount?: number;
   rows?: Record<string, unknown>[];
   duration?: number;
+  statements?: StatementResult[];
+  dryRun?: boolean;
+  warnings?: string[];
 }
 
 export function formatQueryResultsJson(result: QueryResult, duration: number): string {
@@ -255,24 +416,65 @@ export function formatQueryResultsJson(result: QueryResult, duration: number): s
     rowCount: result.rowCount || 0,
     rows: result.rows || [],
     duration: duration,
+    ...(result.statements && { statements: result.statements }),
+    ...(result.dryRun && { dryRun: true }),
+    ...(result.warnings && { warnings: result.warnings }),
   };
   return JSON.stringify(output);
 }
 
+/**
+ * Query result in one of the row formats. Table and vertical output keep the per-statement
+ * sections and summary line; the other formats print only the rows of the last statement
+ * so they can be piped into other tools.
+ */
+export function formatQueryResultRows(result: QueryResult, format: RowFormat): string {
+  if (format !== 'table' && format !== 'vertical') {
+    return formatRows(format, result.rows ?? []);
+  }
+  const lines: string[] = [];
+  if (result.statements) {
+    result.statements.forEach((statement, index) => {
+      lines.push(`[${index + 1}/${result.statements?.length}] line ${statement.line}`);
+      if (statement.rows && statement.rows.length > 0) {
+        lines.push(formatRows(format, statement.rows));
+      }
+      lines.push(
+        formatCommandResult(
+          statement.command || '',
+          statement.rowCount || 0,
+          statement.duration || 0
+        ).trimStart(),
+        ''
+      );
+    });
+    lines.push(`✓ ${result.statements.length} statements executed - ${result.duration}ms`);
+  } else {
+    if (result.rows && result.rows.length > 0) {
+      lines.push(formatRows(format, result.rows), '');
+    }
+    lines.push(
+      formatCommandResult(
+        result.command || '',
+        result.rowCount || 0,
+        result.duration || 0
+      ).trimStart()
+    );
+  }
+  if (result.dryRun) {
+    lines.push('Dry run: all changes were rolled back');
+  }
+  return lines.join('\n');
+}
+
 export interface SqlError extends Error {
   position?: number;
+  statementIndex?: number;
+  line?: number;
+  column?: number;
 }
 
-export class SqlAgentError extends Error {
-  constructor(
-    message: string,
-    public readonly code: string,
-    public readonly hint?: string
-  ) {
-    super(message);
-    this.name = 'SqlAgentError';
-  }
-}
+export { SqlAgentError };
 
 export function createNoCommandError(): SqlAgentError {
   return new SqlAgentError(
@@ -290,6 +492,30 @@ export function createNoFilePathError(): SqlAgentError {
   return new SqlAgentError('No file path provided', 'NO_FILE_PATH');
 }
 
+export function createNoOutputPathError(): SqlAgentError {
+  return new SqlAgentError('No output file provided', 'NO_OUTPUT_PATH', 'Pass --out <file>');
+}
+
+export function createNoTableError(): SqlAgentError {
+  return new SqlAgentError('No table provided', 'NO_TABLE', 'Pass --table <name>');
+}
+
+export function createUnknownGeneratorError(generator?: string): SqlAgentError {
+  return new SqlAgentError(
+    generator ? `Unknown generator: ${generator}` : 'No generator provided',
+    'UNKNOWN_GENERATOR',
+    'Use sequelae generate types [tables] --out <file>'
+  );
+}
+
+export function createUnknownJsonbCommandError(command?: string): SqlAgentError {
+  return new SqlAgentError(
+    command ? `Unknown jsonb command: ${command}` : 'No jsonb command provided',
+    'UNKNOWN_JSONB_COMMAND',
+    'Use sequelae jsonb snapshot <table.column,...> --out <file> or sequelae jsonb diff <file>'
+  );
+}
+
 export function createFileNotFoundError(filepath: string): SqlAgentError {
   return new SqlAgentError(`File not found: ${filepath}`, 'FILE_NOT_FOUND');
 }
@@ -300,17 +526,48 @@ export function formatSqlError(error: SqlError, jsonMode: boolean): string {
       success: false,
       error: error.message,
       position: error.position,
+      ...(error.statementIndex !== undefined && {
+        statementIndex: error.statementIndex,
+        line: error.line,
+        column: error.column,
+      }),
+      ...(error instanceof SqlAgentError && { code: error.code, hint: error.hint }),
     };
     return JSON.stringify(errorOutput);
   } else {
     let output = `\nError: ${error.message}`;
-    if (error.position) {
+    if (error.statementIndex !== undefined) {
+      output += `\nStatement: ${error.statementIndex + 1} (line ${error.line}, column ${error.column})`;
+    } else if (error.position) {
       output += `\nPosition: ${error.position}`;
     }
+    if (error instanceof SqlAgentError && error.hint) {
+      output += `\n${error.hint}`;
+    }
     return output;
   }
 }
 
+export function formatImpactPreview(preview: ImpactPreview): string {
+  let output = '\nThis query needs confirmation:';
+  for (const impact of preview.statements) {
+    output += `\n  Statement ${impact.statementIndex + 1} (${impact.command}): ${impact.reasons.join('; ')}`;
+    if (impact.affectedRows !== undefined) {
+      output += `\n    Affected rows: ${impact.affectedRows}`;
+    }
+    if (impact.dependentObjects.length > 0) {
+      output += `\n    Dependent objects: ${impact.dependentObjects.join(', ')}`;
+    }
+    if (impact.error) {
+      output += `\n    Dry run failed: ${impact.error}`;
+    }
+  }
+  for (const warning of preview.warnings ?? []) {
+    output += `\n  Warning: ${warning}`;
+  }
+  return output;
+}
+
 export function formatCommandResult(
   command: string,
   rowCount: number | null,
@@ -321,10 +578,72 @@ export function formatCommandResult(
   return `\n✓ ${commandText} ${rowCountText} - ${duration}ms`;
 }
 
-export function buildSchemaCondition(allSchemas: boolean): string {
-  return allSchemas
-    ? "table_schema NOT IN ('pg_catalog', 'information_schema')"
-    : "table_schema = 'public'";
+/**
+ * Print tables with their columns, the inferred structure of their JSONB columns,
+ * keys, indexes and checks, then views, enum types and tables that were not found
+ */
+function printSchema(schema: SchemaResult, jsonbFormat: JsonbFormat): void {
+  if (schema.tables.length === 0 && !schema.views && !schema.enums && !schema.missingTables) {
+    return;
+  }
+  cliOutput.log('DATABASE SCHEMA:\n');
+
+  for (const table of schema.tables) {
+    cliOutput.log(`📋 ${table.schema}.${table.name}`);
+    if (table.comment) {
+      cliOutput.log(`  ${table.comment}`);
+    }
+
+    cliOutput.log('  Columns:');
+    for (const col of table.columns) {
+      cliOutput.log(formatColumn(col));
+    }
+    for (const col of table.columns) {
+      for (const line of formatJsonbStructure(col, jsonbFormat)) {
+        cliOutput.log(line);
+      }
+    }
+
+    if (table.constraints.length > 0) {
+      cliOutput.log('  Constraints:');
+      const constraintsByType = table.constraints.reduce(
+        (acc: Record<string, ConstraintInfo[]>, c: ConstraintInfo) => {
+          if (!acc[c.constraint_type]) acc[c.constraint_type] = [];
+          acc[c.constraint_type].push(c);
+          return acc;
+        },
+        {}
+      );
+
+      for (const [type, consts] of Object.entries(constraintsByType)) {
+        const columns = consts.map(c => c.column_name).join(', ');
+        cliOutput.log(`    - ${type}: ${columns}`);
+      }
+    }
+    for (const line of formatTableDetails(table)) {
+      cliOutput.log(line);
+    }
+    cliOutput.log('');
+  }
+
+  for (const line of formatViewsAndEnums(schema)) {
+    cliOutput.log(line);
+  }
+
+  // Display missing tables with suggestions
+  if (schema.missingTables) {
+    cliOutput.log('❌ TABLES NOT FOUND:\n');
+    for (const missing of schema.missingTables) {
+      cliOutput.log(`  - "${missing.table_name}"`);
+      if (missing.suggestions.length > 0) {
+        cliOutput.log(`    Did you mean: ${missing.suggestions.join(', ')}?`);
+      }
+      if (missing.columnMatches) {
+        cliOutput.log(`    Found as a column: ${formatColumnMatches(missing.columnMatches)}`);
+      }
+    }
+    cliOutput.log('');
+  }
 }
 
 async function cleanupPool(pool: Pool): Promise<void> {
@@ -343,6 +662,34 @@ async function _cleanupSharedPool(): Promise<void> {
   await poolManager.close();
 }
 
+// Part of the schema query, re-exported for existing callers
+export { buildSchemaCondition } from './core/schema-introspection';
+
+/**
+ * Take the JSONB sampling flags out of command arguments: --sample <strategy>,
+ * --sample-size <n>, --sample-percent <p> and --sample-order <column>. Returns
+ * undefined without any of them, so the command's own default applies.
+ */
+export function takeSamplingOptions(args: string[]): SamplingOptions | undefined {
+  const take = (name: string): string | undefined => {
+    const index = args.indexOf(name);
+    return index === -1 ? undefined : args.splice(index, 2)[1];
+  };
+  const strategy = take('--sample');
+  const size = take('--sample-size');
+  const percent = take('--sample-percent');
+  const orderBy = take('--sample-order');
+  if ([strategy, size, percent, orderBy].every(value => value === undefined)) {
+    return undefined;
+  }
+  return {
+    strategy: strategy as SamplingStrategy | undefined,
+    limit: size !== undefined ? Number(size) : undefined,
+    percent: percent !== undefined ? Number(percent) : undefined,
+    orderBy,
+  };
+}
+
 export function buildTableList(tables: string): string[] {
   return tables
     .split(',')
@@ -350,34 +697,116 @@ export function buildTableList(tables: string): string[] {
     .filter(t => t.length > 0);
 }
 
+function askQuestion(question: string): Promise<string> {
+  const rl = createInterface({ input: process.stdin, output: process.stderr });
+  return new Promise(resolvePromise => {
+    rl.question(question, answer => {
+      rl.close();
+      resolvePromise(answer);
+    });
+  });
+}
+
+/**
+ * Ask before running destructive statements or statements the policy marks `confirm`.
+ * Returns whether the statements were confirmed; throws if the user declines or
+ * there is no terminal to ask on. `preview` replaces the dry run of `sql`, e.g. for
+ * an import, whose load cannot be dry-run.
+ */
+async function confirmStatements(
+  executor: SqlExecutor,
+  sql: string,
+  params: QueryParams | undefined,
+  assumeYes: boolean,
+  preview = (confirmations: ConfirmationReason[]): Promise<ImpactPreview> =>
+    executor.previewImpact(sql, params, confirmations)
+): Promise<boolean> {
+  if (executor.readOnly) {
+    return false;
+  }
+  const confirmations = requiredConfirmations(classifySql(sql), executor.sqlPolicy);
+  if (confirmations.length === 0) {
+    return false;
+  }
+  if (assumeYes) {
+    return true;
+  }
+  if (!process.stdin.isTTY) {
+    throw new SqlAgentError(
+      `Statement ${confirmations[0].statementIndex + 1} (${confirmations[0].command}) needs confirmation: ${confirmations[0].reason}`,
+      'CONFIRMATION_REQUIRED',
+      'Pass --yes to run it without a prompt'
+    );
+  }
+
+  cliOutput.error(formatImpactPreview(await preview(confirmations)));
+  const answer = await askQuestion('\nProceed? [y/N] ');
+  if (!/^y(es)?$/i.test(answer.trim())) {
+    throw new SqlAgentError('Cancelled: the query was not executed', 'CONFIRMATION_REQUIRED');
+  }
+  return true;
+}
+
 export function isDirectSqlCommand(command: string): boolean {
-  const sqlKeywords = [
-    'SELECT',
-    'INSERT',
-    'UPDATE',
-    'DELETE',
-    'CREATE',
-    'DROP',
-    'ALTER',
-    'TRUNCATE',
-  ];
-  const upperCommand = command.toUpperCase();
-  return sqlKeywords.some(keyword => upperCommand.startsWith(keyword));
+  const [statement] = classifySql(command);
+  return statement !== undefined && statement.category !== 'unknown';
 }
 
 async function main(): Promise<void> {
   const args = process.argv.slice(2);
 
-  // Parse arguments
-  const { jsonMode, allSchemas, noTransaction, timeout, filteredArgs } = parseArguments(args);
+  // Load the project's .env and config file; the environment overrides the file
+  let loadedConfig: LoadedConfig | undefined;
+  try {
+    loadedConfig = loadProjectConfig();
+  } catch (error) {
+    const err = error as SqlAgentError;
+    const output = formatError(err.message, args.includes('--json'), err.hint);
+    if (args.includes('--json')) {
+      cliOutput.json(JSON.parse(output));
+    } else {
+      cliOutput.error(output);
+    }
+    process.exit(1);
+  }
 
-  // Skip header when running in Jest or JSON mode
-  if (typeof jest === 'undefined' && !jsonMode) {
+  // Parse arguments
+  const {
+    jsonMode: jsonFlag,
+    allSchemas,
+    noTransaction,
+    readOnly,
+    yes,
+    dryRun,
+    stream,
+    timeout,
+    policyFile,
+    db,
+    format,
+    params,
+    namedParams,
+    filteredArgs,
+  } = parseArguments(args);
+  // Output defaults can come from the config file (output.json, output.format)
+  const jsonMode = jsonFlag || process.env.SEQUELAE_JSON === 'true';
+  const outputFormat = (format ?? process.env.SEQUELAE_FORMAT) as RowFormat | undefined;
+  const rowFormat = outputFormat ?? (jsonMode ? 'ndjson' : 'table');
+
+  // Skip header when running in Jest, JSON mode or when writing machine-readable rows to stdout
+  if (
+    typeof jest === 'undefined' &&
+    !jsonMode &&
+    !((stream || outputFormat) && rowFormat !== 'table')
+  ) {
     cliOutput.log('🔗 sequelae-mcp - PostgreSQL SQL executor\n');
   }
 
+  // Without a command, an interactive terminal gets the REPL
+  const startRepl =
+    filteredArgs[0] === 'repl' || (filteredArgs.length === 0 && !jsonMode && !!process.stdin.isTTY);
+
   // Handle no arguments
-  if (filteredArgs.length === 0) {
+  if (filteredArgs.length === 0 && !startRepl) {
     const error = createNoCommandError();
     const output = formatError(error.message, jsonMode, error.hint);
     if (jsonMode) {
@@ -421,13 +850,94 @@ async function main(): Promise<void> {
     process.exit(0);
   }
 
-  const databaseUrl = process.env.DATABASE_URL;
+  if (params && namedParams) {
+    const output = formatError('Cannot combine --param and --named-param', jsonMode);
+    if (jsonMode) {
+      cliOutput.json(JSON.parse(output));
+    } else {
+      cliOutput.error(output);
+    }
+    process.exit(1);
+  }
+  const queryParams: QueryParams | undefined = params || namedParams;
+
+  // export and import check their own formats
+  if (!['export', 'import'].includes(filteredArgs[0]) && !ROW_FORMATS.includes(rowFormat)) {
+    const output = formatError(
+      `Unknown format: ${rowFormat}. Use one of ${ROW_FORMATS.join(', ')}`,
+      jsonMode
+    );
+    if (jsonMode) {
+      cliOutput.json(JSON.parse(output));
+    } else {
+      cliOutput.error(output);
+    }
+    process.exit(1);
+  }
+
+  let databaseUrl: string | undefined;
+  try {
+    databaseUrl = resolveConnectionString(db);
+  } catch (error) {
+    const err = error as SqlAgentError;
+    const output = formatError(err.message, jsonMode, err.hint);
+    if (jsonMode) {
+      cliOutput.json(JSON.parse(output));
+    } else {
+      cliOutput.error(output);
+    }
+    process.exit(1);
+  }
 
   // Set timeout environment variable if provided
   if (timeout) {
     process.env.POSTGRES_STATEMENT_TIMEOUT = timeout.toString();
   }
 
+  // Set read-only environment variable if requested
+  if (readOnly) {
+    process.env.POSTGRES_READ_ONLY = 'true';
+  }
+
+  // Set policy file environment variable if provided
+  if (policyFile) {
+    process.env.SEQUELAE_POLICY_FILE = policyFile;
+  }
+
+  // Handle config command (needs no database)
+  if (filteredArgs[0] === 'config') {
+    if (filteredArgs[1] !== 'show') {
+      const output = formatError(
+        filteredArgs[1]
+          ? `Unknown config command: ${filteredArgs[1]}`
+          : 'No config command provided',
+        jsonMode,
+        'Use: sequelae config show'
+      );
+      if (jsonMode) {
+        cliOutput.json(JSON.parse(output));
+      } else {
+        cliOutput.error(output);
+      }
+      process.exit(1);
+    }
+
+    // Flags that are not passed through the environment override the output defaults
+    const effective = effectiveConfig();
+    effective.output = {
+      ...effective.output,
+      ...(format !== undefined && { format: rowFormat }),
+      ...(jsonFlag && { json: true }),
+    };
+    if (jsonMode) {
+      cliOutput.json({ configFile: loadedConfig?.path ?? null, config: effective });
+    } else {
+      cliOutput.log(`Config file: ${loadedConfig?.path ?? 'none found'}`);
+      cliOutput.log(JSON.stringify(effective, null, 2));
+    }
+    process.exit(0);
+  }
+
   const dbError = validateDatabaseUrl(databaseUrl, jsonMode);
   if (dbError) {
     if (jsonMode) {
@@ -444,6 +954,19 @@ async function main(): Promise<void> {
   try {
     let sql: string;
 
+    if (startRepl) {
+      // Loaded on demand like the MCP server; one-shot commands don't need it
+      const { SqlRepl } = await import('./repl');
+      const executor = new SqlExecutor(databaseUrl as string, { connection: db });
+      try {
+        await new SqlRepl(executor, { timeout, assumeYes: yes }).start();
+      } finally {
+        await executor.close();
+      }
+      await cleanupPool(pool);
+      process.exit(0);
+    }
+
     if (filteredArgs[0] === 'exec') {
       if (!filteredArgs[1]) {
         const error = createNoSqlQueryError();
@@ -487,177 +1010,69 @@ async function main(): Promise<void> {
       sql = readFileSync(filepath, 'utf8');
     } else if (filteredArgs[0] === 'schema') {
       // Schema command - show database structure
+      const schemaArgs = filteredArgs.slice(1);
+      const jsonbFormatIndex = schemaArgs.indexOf('--jsonb-format');
+      const jsonbFormat =
+        jsonbFormatIndex !== -1 ? schemaArgs.splice(jsonbFormatIndex, 2)[1] : undefined;
+      if (jsonbFormat !== undefined && !JSONB_FORMATS.includes(jsonbFormat as JsonbFormat)) {
+        const output = formatError(
+          `Unknown JSONB format: ${jsonbFormat}`,
+          jsonMode,
+          `Use one of ${JSONB_FORMATS.join(', ')}`
+        );
+        if (jsonMode) {
+          cliOutput.json(JSON.parse(output));
+        } else {
+          cliOutput.error(output);
+        }
+        await cleanupPool(pool);
+        process.exit(1);
+      }
+
+      const sampling = takeSamplingOptions(schemaArgs);
+
       // Join all remaining arguments as they might be space-separated table names
-      const specificTables = filteredArgs.slice(1).join(' '); // Could be comma-separated list
+      const specificTables = schemaArgs.join(' '); // Could be comma-separated list
+      const tableList = buildTableList(specificTables);
 
-      if (specificTables) {
-        // Schema for specific tables
-        const tableList = specificTables
-          .split(',')
-          .map(t => t.trim())
-          .filter(t => t.length > 0); // Remove empty strings
+      if (specificTables && tableList.length === 0) {
+        if (jsonMode) {
+          cliOutput.json({ error: 'No table names provided' });
+        } else {
+          cliOutput.error('Error: No table names provided');
+        }
+        await cleanupPool(pool);
+        process.exit(1);
+      }
 
-        if (tableList.length === 0) {
-          if (jsonMode) {
-            cliOutput.json({ error: 'No table names provided' });
-          } else {
-            cliOutput.error('Error: No table names provided');
-          }
-          await cleanupPool(pool);
-          process.exit(1);
+      const executor = new SqlExecutor(databaseUrl as string, { connection: db });
+      try {
+        const start = Date.now();
+        let schema = await executor.getSchema(
+          tableList.length > 0 ? tableList : undefined,
+          allSchemas
+        );
+        // Text output always shows JSONB structures, JSON output when a format is given
+        if (!jsonMode || jsonbFormat) {
+          schema = withJsonbStructures(
+            schema,
+            await executor.inferJsonbStructures(schema.tables, sampling),
+            (jsonbFormat as JsonbFormat | undefined) ?? 'text'
+          );
         }
+        const duration = Date.now() - start;
 
-        const tableCondition = tableList.map(t => `'${t}'`).join(',');
-
-        sql = `
-        WITH requested_tables AS (
-          SELECT unnest(ARRAY[${tableCondition}]) as table_name
-        ),
-        existing_tables AS (
-          SELECT table_schema, table_name 
-          FROM information_schema.tables 
-          WHERE table_type = 'BASE TABLE' 
-            AND ${allSchemas ? "table_schema NOT IN ('pg_catalog', 'information_schema')" : "table_schema = 'public'"}
-        ),
-        table_info AS (
-          SELECT 
-            t.table_schema,
-            t.table_name,
-            json_agg(
-              json_build_object(
-                'column_name', c.column_name,
-                'data_type', c.data_type,
-                'is_nullable', c.is_nullable,
-                'column_default', c.column_default,
-                'character_maximum_length', c.character_maximum_length
-              ) ORDER BY c.ordinal_position
-            )::text as columns
-          FROM information_schema.tables t
-          JOIN information_schema.columns c 
-            ON t.table_schema = c.table_schema 
-            AND t.table_name = c.table_name
-          JOIN requested_tables rt ON t.table_name = rt.table_name
-          WHERE ${allSchemas ? "t.table_schema NOT IN ('pg_catalog', 'information_schema')" : "t.table_schema = 'public'"}
-            AND t.table_type = 'BASE TABLE'
-          GROUP BY t.table_schema, t.table_name
-        ),
-        constraint_info AS (
-          SELECT 
-            tc.table_schema,
-            tc.table_name,
-            json_agg(
-              json_build_object(
-                'constraint_name', tc.constraint_name,
-                'constraint_type', tc.constraint_type,
-                'column_name', kcu.column_name
-              )
-            )::text as constraints
-          FROM information_schema.table_constraints tc
-          JOIN information_schema.key_column_usage kcu
-            ON tc.constraint_name = kcu.constraint_name
-            AND tc.table_schema = kcu.table_schema
-          JOIN requested_tables rt ON tc.table_name = rt.table_name
-          WHERE ${allSchemas ? "tc.table_schema NOT IN ('pg_catalog', 'information_schema')" : "tc.table_schema = 'public'"}
-          GROUP BY tc.table_schema, tc.table_name
-        ),
-        missing_tables AS (
-          SELECT rt.table_name as missing_table,
-                 string_agg(et.table_name, ', ') as suggestions
-          FROM requested_tables rt
-          LEFT JOIN existing_tables et ON rt.table_name = et.table_name
-          WHERE et.table_name IS NULL
-          GROUP BY rt.table_name
-        )
-        SELECT 
-          'found' as type,
-          ti.table_schema,
-          ti.table_name,
-          ti.columns,
-          COALESCE(ci.constraints, '[]') as constraints,
-          NULL as missing_table,
-          NULL as suggestions
-        FROM table_info ti
-        LEFT JOIN constraint_info ci
-          ON ti.table_schema = ci.table_schema
-          AND ti.table_name = ci.table_name
-        UNION ALL
-        SELECT 
-          'missing' as type,
-          NULL as table_schema,
-          NULL as table_name,
-          NULL as columns,
-          NULL as constraints,
-          mt.missing_table,
-          (SELECT string_agg(tn, ', ') FROM (
-             SELECT table_name as tn
-             FROM existing_tables
-             WHERE LOWER(table_name) LIKE LOWER(LEFT(mt.missing_table, 3) || '%')
-                OR LOWER(table_name) LIKE '%' || LOWER(LEFT(mt.missing_table, 3)) || '%'
-             ORDER BY 
-               CASE WHEN LOWER(table_name) LIKE LOWER(LEFT(mt.missing_table, 3) || '%') THEN 0 ELSE 1 END,
-               LENGTH(table_name)
-             LIMIT 3
-           ) s) as suggestions
-        FROM missing_tables mt
-        ORDER BY type, table_schema, table_name;
-        `;
-      } else {
-        // Show all tables
-        sql = `
-        WITH table_info AS (
-          SELECT 
-            t.table_schema,
-            t.table_name,
-            json_agg(
-              json_build_object(
-                'column_name', c.column_name,
-                'data_type', c.data_type,
-                'is_nullable', c.is_nullable,
-                'column_default', c.column_default,
-                'character_maximum_length', c.character_maximum_length
-              ) ORDER BY c.ordinal_position
-            )::text as columns
-          FROM information_schema.tables t
-          JOIN information_schema.columns c 
-            ON t.table_schema = c.table_schema 
-            AND t.table_name = c.table_name
-          WHERE ${allSchemas ? "t.table_schema NOT IN ('pg_catalog', 'information_schema')" : "t.table_schema = 'public'"}
-            AND t.table_type = 'BASE TABLE'
-          GROUP BY t.table_schema, t.table_name
-        ),
-        constraint_info AS (
-          SELECT 
-            tc.table_schema,
-            tc.table_name,
-            json_agg(
-              json_build_object(
-                'constraint_name', tc.constraint_name,
-                'constraint_type', tc.constraint_type,
-                'column_name', kcu.column_name
-              )
-            )::text as constraints
-          FROM information_schema.table_constraints tc
-          JOIN information_schema.key_column_usage kcu
-            ON tc.constraint_name = kcu.constraint_name
-            AND tc.table_schema = kcu.table_schema
-          WHERE ${allSchemas ? "tc.table_schema NOT IN ('pg_catalog', 'information_schema')" : "tc.table_schema = 'public'"}
-          GROUP BY tc.table_schema, tc.table_name
-        )
-        SELECT 
-          'found' as type,
-          ti.table_schema,
-          ti.table_name,
-          ti.columns,
-          COALESCE(ci.constraints, '[]') as constraints,
-          NULL as missing_table,
-          NULL as suggestions
-        FROM table_info ti
-        LEFT JOIN constraint_info ci
-          ON ti.table_schema = ci.table_schema
-          AND ti.table_name = ci.table_name
-        ORDER BY ti.table_schema, ti.table_name;
-        `;
+        if (jsonMode) {
+          cliOutput.json({ success: true, ...schema, duration });
+        } else {
+          printSchema(schema, (jsonbFormat as JsonbFormat | undefined) ?? 'text');
+          cliOutput.log(`\n✓ ${schema.tables.length} tables - ${duration}ms`);
+        }
+      } finally {
+        await executor.close();
       }
+      await cleanupPool(pool);
+      process.exit(0);
     } else if (filteredArgs[0] === 'exec' || filteredArgs[0] === 'file') {
       // Command recognized but missing argument
       if (jsonMode) {
@@ -668,16 +1083,308 @@ async function main(): Promise<void> {
       await cleanupPool(pool);
       process.exit(1);
     } else {
-      // Check if it looks like a SQL command
-      const sqlKeywords = ['SELECT', 'INSERT', 'UPDATE', 'DELETE', 'CREATE', 'DROP', 'ALTER'];
-      const firstWord = filteredArgs[0].toUpperCase();
+      if (filteredArgs[0] === 'explain') {
+        // Explain command - summarize the plan instead of running the query
+        const explainArgs = filteredArgs.slice(1);
+        const query = explainArgs.find(arg => !arg.startsWith('--'));
+        if (!query) {
+          const error = createNoSqlQueryError();
+          const output = formatError(error.message, jsonMode, error.hint);
+          if (jsonMode) {
+            cliOutput.json(JSON.parse(output));
+          } else {
+            cliOutput.error(output);
+          }
+          await cleanupPool(pool);
+          process.exit(1);
+        }
+        const includePlan = explainArgs.includes('--plan');
 
-      if (sqlKeywords.includes(firstWord)) {
-        // Direct SQL command
-        sql = filteredArgs.join(' ');
+        const executor = new SqlExecutor(databaseUrl as string, { connection: db });
+        try {
+          const result = await executor.explain(query as string, queryParams, {
+            analyze: explainArgs.includes('--analyze'),
+            buffers: explainArgs.includes('--buffers'),
+            timeoutMs: timeout,
+          });
+
+          if (jsonMode) {
+            cliOutput.json({
+              success: true,
+              analyzed: result.analyzed,
+              summary: result.summary,
+              duration: result.duration,
+              ...(result.warnings && { warnings: result.warnings }),
+              ...(includePlan && { plan: result.plan }),
+            });
+          } else {
+            cliOutput.log(formatPlanSummary(result.summary));
+            if (includePlan) {
+              cliOutput.log(`\n${JSON.stringify(result.plan, null, 2)}`);
+            }
+            if (result.analyzed) {
+              cliOutput.log('\nThe query was run and rolled back');
+            }
+            for (const warning of result.warnings ?? []) {
+              cliOutput.error(`Warning: ${warning}`);
+            }
+          }
+        } finally {
+          await executor.close();
+        }
+        await cleanupPool(pool);
+        process.exit(0);
+      } else if (filteredArgs[0] === 'export') {
+        // Export command - stream the rows into a file instead of printing them
+        const exportArgs = filteredArgs.slice(1);
+        const outIndex = exportArgs.indexOf('--out');
+        const outputPath = outIndex !== -1 ? exportArgs[outIndex + 1] : undefined;
+        const query = exportArgs.find(
+          (arg, index) => !arg.startsWith('--') && (outIndex === -1 || index !== outIndex + 1)
+        );
+        const missing = !query
+          ? createNoSqlQueryError()
+          : !outputPath
+            ? createNoOutputPathError()
+            : undefined;
+        if (missing) {
+          const output = formatError(missing.message, jsonMode, missing.hint);
+          if (jsonMode) {
+            cliOutput.json(JSON.parse(output));
+          } else {
+            cliOutput.error(output);
+          }
+          await cleanupPool(pool);
+          process.exit(1);
+        }
+
+        const executor = new SqlExecutor(databaseUrl as string, { connection: db });
+        try {
+          const result = await executor.exportQuery(query as string, queryParams, {
+            outputPath: outputPath as string,
+            format: format as ExportFormat | undefined,
+            timeoutMs: timeout,
+          });
+
+          if (jsonMode) {
+            cliOutput.json({ success: true, ...result });
+          } else {
+            cliOutput.log(
+              `✓ Exported ${result.rowCount} rows to ${result.outputPath} (${result.format}, ${result.bytes} bytes) - ${result.duration}ms`
+            );
+          }
+        } finally {
+          await executor.close();
+        }
+        await cleanupPool(pool);
+        process.exit(0);
+      } else if (filteredArgs[0] === 'import') {
+        // Import command - load a CSV or NDJSON file with COPY FROM STDIN
+        const importArgs = filteredArgs.slice(1);
+        const valueFlags = ['--table', '--delimiter', '--null', '--map', '--upsert'];
+        const option = (name: string): string | undefined => {
+          const index = importArgs.indexOf(name);
+          return index === -1 ? undefined : importArgs[index + 1];
+        };
+        const filepath = importArgs.find(
+          (arg, index) => !arg.startsWith('--') && !valueFlags.includes(importArgs[index - 1])
+        );
+        const table = option('--table');
+        const missing = !filepath
+          ? createNoFilePathError()
+          : !table
+            ? createNoTableError()
+            : undefined;
+        if (missing) {
+          const output = formatError(missing.message, jsonMode, missing.hint);
+          if (jsonMode) {
+            cliOutput.json(JSON.parse(output));
+          } else {
+            cliOutput.error(output);
+          }
+          await cleanupPool(pool);
+          process.exit(1);
+        }
+
+        // --map "E-mail:email,Name:full_name" renames file columns to table columns
+        const mapping = option('--map')
+          ?.split(',')
+          .map(pair => pair.split(':').map(part => part.trim()))
+          .filter(pair => pair.length === 2 && pair[0] && pair[1]);
+        const upsertKeys = option('--upsert')
+          ?.split(',')
+          .map(key => key.trim())
+          .filter(Boolean);
+
+        let reported = 0;
+        const executor = new SqlExecutor(databaseUrl as string, { connection: db });
+        try {
+          const options: ImportOptions = {
+            table: table as string,
+            format: format as ImportFormat | undefined,
+            header: importArgs.includes('--header')
+              ? true
+              : importArgs.includes('--no-header')
+                ? false
+                : undefined,
+            columns: mapping && Object.fromEntries(mapping),
+            delimiter: option('--delimiter'),
+            nullMarker: option('--null'),
+            truncate: importArgs.includes('--truncate'),
+            upsertKeys,
+            timeoutMs: timeout,
+          };
+          // A truncating load asks first, like a TRUNCATE run with exec
+          const statements = importStatements(options);
+          const confirmed = await confirmStatements(
+            executor,
+            statements.join(';\n'),
+            undefined,
+            yes,
+            confirmations => executor.previewImport(statements, confirmations)
+          );
+          const result = await executor.importFile(filepath as string, {
+            ...options,
+            confirmed,
+            onProgress: ({ bytesRead, totalBytes }) => {
+              const percent = totalBytes > 0 ? Math.floor((bytesRead / totalBytes) * 10) * 10 : 100;
+              if (!jsonMode && percent > reported) {
+                reported = percent;
+                cliOutput.error(`Importing: ${percent}% (${bytesRead} of ${totalBytes} bytes)`);
+              }
+            },
+          });
+
+          if (jsonMode) {
+            cliOutput.json({ success: true, ...result });
+          } else {
+            cliOutput.log(
+              `✓ Imported ${result.rowCount} rows into ${result.table} (${result.columns.join(', ')}) - ${result.duration}ms`
+            );
+          }
+        } finally {
+          await executor.close();
+        }
+        await cleanupPool(pool);
+        process.exit(0);
+      } else if (filteredArgs[0] === 'generate') {
+        // Generate command - TypeScript declarations for the tables, views and enum types
+        const generateArgs = filteredArgs.slice(1);
+        const valueFlags = ['--out', '--samples'];
+        const option = (name: string): string | undefined => {
+          const index = generateArgs.indexOf(name);
+          return index === -1 ? undefined : generateArgs[index + 1];
+        };
+        const [generator, ...names] = generateArgs.filter(
+          (arg, index) => !arg.startsWith('--') && !valueFlags.includes(generateArgs[index - 1])
+        );
+        if (generator !== 'types') {
+          const error = createUnknownGeneratorError(generator);
+          const output = formatError(error.message, jsonMode, error.hint);
+          if (jsonMode) {
+            cliOutput.json(JSON.parse(output));
+          } else {
+            cliOutput.error(output);
+          }
+          await cleanupPool(pool);
+          process.exit(1);
+        }
+        const tableList = buildTableList(names.join(' '));
+        const samples = option('--samples');
+
+        const executor = new SqlExecutor(databaseUrl as string, { connection: db });
+        try {
+          const result = await executor.generateTypes({
+            tables: tableList.length > 0 ? tableList : undefined,
+            allSchemas,
+            jsonbSamples: samples !== undefined ? parseInt(samples, 10) || 0 : undefined,
+            outputPath: option('--out'),
+          });
+
+          if (jsonMode) {
+            cliOutput.json({ success: true, ...result });
+          } else if (result.outputPath) {
+            cliOutput.log(
+              `✓ Generated types for ${result.tables} tables, ${result.views} views and ${result.enums} enum types in ${result.outputPath} (${result.bytes} bytes) - ${result.duration}ms`
+            );
+          } else {
+            cliOutput.log(result.source.trimEnd());
+          }
+        } finally {
+          await executor.close();
+        }
+        await cleanupPool(pool);
+        process.exit(0);
+      } else if (filteredArgs[0] === 'jsonb') {
+        // JSONB command - snapshot the structure of JSONB columns or diff against a snapshot
+        const jsonbArgs = filteredArgs.slice(1);
+        const sampling = takeSamplingOptions(jsonbArgs);
+        const outIndex = jsonbArgs.indexOf('--out');
+        const outputPath = outIndex !== -1 ? jsonbArgs.splice(outIndex, 2)[1] : undefined;
+        const [command, ...names] = jsonbArgs.filter(arg => !arg.startsWith('--'));
+        // Columns to snapshot, or the snapshot file to diff against
+        const target = names.join(' ');
+        const columns = buildTableList(target);
+        const invalid =
+          command !== 'snapshot' && command !== 'diff'
+            ? createUnknownJsonbCommandError(command)
+            : command === 'snapshot' && columns.length === 0
+              ? new SqlAgentError(
+                  'No columns provided',
+                  'NO_COLUMNS',
+                  'Name columns as table.column or schema.table.column'
+                )
+              : command === 'snapshot' && !outputPath
+                ? createNoOutputPathError()
+                : command === 'diff' && !target
+                  ? createNoFilePathError()
+                  : undefined;
+        if (invalid) {
+          const output = formatError(invalid.message, jsonMode, invalid.hint);
+          if (jsonMode) {
+            cliOutput.json(JSON.parse(output));
+          } else {
+            cliOutput.error(output);
+          }
+          await cleanupPool(pool);
+          process.exit(1);
+        }
+
+        let drift = false;
+        const executor = new SqlExecutor(databaseUrl as string, { connection: db });
+        try {
+          if (command === 'snapshot') {
+            const result = await executor.snapshotJsonb(columns, outputPath as string, sampling);
+            if (jsonMode) {
+              cliOutput.json({ success: true, ...result });
+            } else {
+              cliOutput.log(
+                `✓ Saved the structure of ${result.columns.length} columns to ${result.outputPath} (${result.bytes} bytes) - ${result.duration}ms`
+              );
+            }
+          } else {
+            const result = await executor.diffJsonb(target, sampling);
+            drift = result.changes.length > 0;
+            if (jsonMode) {
+              cliOutput.json({ success: true, drift, ...result });
+            } else {
+              cliOutput.log(formatJsonbDrift(result).join('\n'));
+              if (drift) {
+                cliOutput.log(
+                  `\n✗ ${result.changes.length} changes since the snapshot - ${result.duration}ms`
+                );
+              }
+            }
+          }
+        } finally {
+          await executor.close();
+        }
+        await cleanupPool(pool);
+        // Drift fails the command, so CI can catch it
+        process.exit(drift ? 1 : 0);
       } else if (filteredArgs[0] === 'backup') {
         // Handle backup command
-        const executor = new SqlExecutor(databaseUrl as string);
+        const executor = new SqlExecutor(databaseUrl as string, { connection: db });
         try {
           // Parse backup options
           const options: BackupOptions = {};
@@ -750,6 +1457,9 @@ async function main(): Promise<void> {
         } finally {
           await executor.close();
         }
+      } else if (isDirectSqlCommand(filteredArgs.join(' '))) {
+        // Direct SQL command, checked after the subcommands so `explain` is not taken as SQL
+        sql = filteredArgs.join(' ');
       } else {
         // Unknown command
         if (jsonMode) {
@@ -763,148 +1473,102 @@ async function main(): Promise<void> {
       }
     }
 
+    // Stream rows through a cursor instead of buffering the whole result
+    if (stream) {
+      const executor = new SqlExecutor(databaseUrl as string, { connection: db });
+      const writer = createRowWriter(rowFormat, line => process.stdout.write(`${line}\n`));
+      const start = Date.now();
+      try {
+        for await (const row of executor.streamQuery(sql, queryParams, { timeoutMs: timeout })) {
+          writer.write(row);
+        }
+      } finally {
+        await executor.close();
+      }
+      const rowCount = writer.end();
+      if (rowFormat === 'table') {
+        cliOutput.log(`\n✓ ${rowCount} rows streamed - ${Date.now() - start}ms`);
+      }
+      await cleanupPool(pool);
+      process.exit(0);
+    }
+
     // Execute the query using SqlExecutor
-    const executor = new SqlExecutor(databaseUrl as string);
+    const executor = new SqlExecutor(databaseUrl as string, { connection: db });
     let result: QueryResult;
 
     try {
+      // A dry run changes nothing, so there is nothing to confirm
+      const confirmed = !dryRun && (await confirmStatements(executor, sql, queryParams, yes));
       if (filteredArgs[0] === 'file') {
-        result = await executor.executeFile(filteredArgs[1], !noTransaction, timeout);
+        result = await executor.executeFile(filteredArgs[1], !noTransaction, timeout, queryParams, {
+          confirmed,
+          dryRun,
+        });
       } else {
-        result = await executor.executeQuery(sql, !noTransaction, timeout);
+        result = await executor.executeQuery(sql, !noTransaction, timeout, queryParams, {
+          confirmed,
+          dryRun,
+        });
       }
     } finally {
       await executor.close();
     }
 
     // Display results
-    if (jsonMode) {
-      const output = {
-        success: true,
-        command: result.command || 'Query executed',
-        rowCount: result.rowCount || 0,
-        rows: result.rows || [],
-        duration: result.duration || 0,
-      };
-      cliOutput.json(output);
+    if (outputFormat) {
+      const output = formatQueryResultRows(result, outputFormat);
+      if (output) {
+        cliOutput.log(output);
+      }
+      for (const warning of result.warnings ?? []) {
+        cliOutput.error(`Warning: ${warning}`);
+      }
+    } else if (jsonMode) {
+      cliOutput.json(JSON.parse(formatQueryResultsJson(result, result.duration || 0)));
     } else {
       // Special handling for schema command
-      if (filteredArgs[0] === 'schema' && result.rows && result.rows.length > 0) {
-        cliOutput.log('DATABASE SCHEMA:\n');
-
-        // Separate found and missing tables
-        const foundTables = result.rows.filter(r => r.type === 'found');
-        const missingTables = result.rows.filter(r => r.type === 'missing');
-
-        // Display found tables
-        for (const table of foundTables) {
-          cliOutput.log(`📋 ${table.table_schema}.${table.table_name}`);
-
-          // Display columns
-          const columns: Column[] = JSON.parse(table.columns as string);
-          cliOutput.log('  Columns:');
-
-          // Collect JSONB columns for analysis
-          const jsonbColumns: { column: Column; tableName: string; schemaName: string }[] = [];
-
-          for (const col of columns) {
-            const nullable = col.is_nullable === 'YES' ? ' (nullable)' : '';
-            const dataType = col.character_maximum_length
-              ? `${col.data_type}(${col.character_maximum_length})`
-              : col.data_type;
-            const defaultVal = col.column_default ? ` DEFAULT ${col.column_default}` : '';
-            cliOutput.log(`    - ${col.column_name}: ${dataType}${nullable}${defaultVal}`);
-
-            // Check if this is a JSONB column
-            if (col.data_type === 'jsonb') {
-              jsonbColumns.push({
-                column: col,
-                tableName: table.table_name as string,
-                schemaName: table.table_schema as string,
-              });
-            }
+      if (result.statements) {
+        // One section per statement for multi-statement scripts
+        result.statements.forEach((statement, index) => {
+          cliOutput.log(`\n[${index + 1}/${result.statements?.length}] line ${statement.line}`);
+          if (statement.rows && statement.rows.length > 0) {
+            cliOutput.table(statement.rows);
           }
-
-          // Analyze JSONB columns if any
-          if (jsonbColumns.length > 0) {
-            const client = await pool.connect();
-            try {
-              for (const { column, tableName, schemaName } of jsonbColumns) {
-                const samples = await sampleJsonbColumn(
-                  client,
-                  `${schemaName}.${tableName}`,
-                  column.column_name,
-                  10
-                );
-
-                const structure = analyzeJsonStructure(samples);
-                const formatted = formatJsonStructure(structure);
-                if (formatted.trim()) {
-                  cliOutput.log(`      Structure of ${column.column_name}:`);
-                  cliOutput.log(formatted);
-                }
-              }
-            } finally {
-              client.release();
-            }
-          }
-
-          // Display constraints
-          const constraints: Constraint[] = JSON.parse(table.constraints as string);
-          if (constraints.length > 0) {
-            cliOutput.log('  Constraints:');
-            const constraintsByType = constraints.reduce(
-              (acc: Record<string, Constraint[]>, c: Constraint) => {
-                if (!acc[c.constraint_type]) acc[c.constraint_type] = [];
-                acc[c.constraint_type].push(c);
-                return acc;
-              },
-              {}
-            );
-
-            for (const [type, consts] of Object.entries(constraintsByType)) {
-              const columns = consts.map(c => c.column_name).join(', ');
-              cliOutput.log(`    - ${type}: ${columns}`);
-            }
-          }
-          cliOutput.log('');
-        }
-
-        // Display missing tables with suggestions
-        if (missingTables.length > 0) {
-          cliOutput.log('❌ TABLES NOT FOUND:\n');
-          for (const missing of missingTables) {
-            cliOutput.log(`  - "${missing.missing_table}"`);
-            if (missing.suggestions) {
-              cliOutput.log(`    Did you mean: ${missing.suggestions}?`);
-            }
-          }
-          cliOutput.log('');
-        }
+          cliOutput.log(
+            formatCommandResult(
+              statement.command || '',
+              statement.rowCount || 0,
+              statement.duration || 0
+            ).trimStart()
+          );
+        });
       } else if (result.rows && result.rows.length > 0) {
         cliOutput.table(result.rows);
       }
 
       // Show execution info
-      const command = result.command || 'Query executed';
-      cliOutput.log(
-        `\n✓ ${command} ${result.rowCount ? `(${result.rowCount} rows)` : ''} - ${result.duration}ms`
-      );
+      if (result.statements) {
+        cliOutput.log(`\n✓ ${result.statements.length} statements executed - ${result.duration}ms`);
+      } else {
+        const command = result.command || 'Query executed';
+        cliOutput.log(
+          `\n✓ ${command} ${result.rowCount ? `(${result.rowCount} rows)` : ''} - ${result.duration}ms`
+        );
+      }
+      if (result.dryRun) {
+        cliOutput.log('Dry run: all changes were rolled back');
+      }
+      for (const warning of result.warnings ?? []) {
+        cliOutput.error(`Warning: ${warning}`);
+      }
     }
   } catch (error) {
-    const err = error as Error & { position?: number };
+    const err = error as SqlError;
     if (jsonMode) {
-      const errorOutput = {
-        success: false,
-        error: err.message,
-        position: err.position,
-      };
-      cliOutput.json(errorOutput);
+      cliOutput.json(JSON.parse(formatSqlError(err, true)));
     } else {
-      cliOutput.error(`\nError: ${err.message}`);
-      if (err.position) {
-        cliOutput.error(`Position: ${err.position}`);
-      }
+      cliOutput.error(formatSqlError(err, false));
     }
     await pool.end();
     process.exit(1);
@@ -0,0 +1,468 @@
+/**
+ * Project configuration file
+ * sequelae.config.json or .sequelaerc (both JSON), found by searching upward from the
+ * working directory. Every setting corresponds to an environment variable and is applied
+ * as that variable, so variables that are already set - from the environment, the
+ * project's .env or CLI flags - take precedence over the file.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { config as loadDotenv } from 'dotenv';
+import { SqlAgentError } from './errors';
+import {
+  DEFAULT_CONNECTION,
+  connectionEnvSuffix,
+  listConnections,
+  resolveConnectionString,
+} from './connections';
+import { LogLevel, logger } from '../utils/logger';
+import { ROW_FORMATS, RowFormat } from '../utils/row-writer';
+
+export const CONFIG_FILE_NAMES = ['sequelae.config.json', '.sequelaerc'];
+
+export const SSL_MODES = ['disable', 'require', 'verify-ca', 'verify-full'] as const;
+export type SslMode = (typeof SSL_MODES)[number];
+
+export interface SslConfig {
+  mode?: SslMode;
+  rejectUnauthorized?: boolean;
+}
+
+export interface PoolSettings {
+  maxConnections?: number;
+  idleTimeout?: number;
+  connectionTimeout?: number;
+  statementTimeout?: number;
+}
+
+export interface ConnectionConfig {
+  url: string;
+  // Override the top-level settings for this connection
+  ssl?: SslConfig;
+  pool?: PoolSettings;
+  readOnly?: boolean;
+}
+
+export interface RateLimitConfig {
+  maxRequests?: number;
+  windowMs?: number;
+  tools?: Record<string, { maxRequests: number; windowMs: number }>;
+}
+
+export interface OutputConfig {
+  format?: RowFormat;
+  json?: boolean;
+}
+
+export interface LoggingConfig {
+  level?: LogLevel;
+  format?: 'text' | 'json';
+}
+
+export interface SequelaeConfig {
+  // Connection strings, or connections with their own settings, keyed by name
+  connections?: Record<string, string | ConnectionConfig>;
+  ssl?: SslConfig;
+  pool?: PoolSettings;
+  readOnly?: boolean;
+  // Statement policy file, relative to the config file
+  policy?: string;
+  rateLimit?: RateLimitConfig;
+  output?: OutputConfig;
+  logging?: LoggingConfig;
+}
+
+export interface LoadedConfig {
+  path: string;
+  config: SequelaeConfig;
+}
+
+interface Setting {
+  // Section and key in the config file; top-level settings have no section
+  section?: keyof SequelaeConfig;
+  key: string;
+  env: string;
+  type: 'number' | 'boolean' | 'string' | 'json';
+  values?: readonly string[];
+  // Can be overridden per connection
+  perConnection?: boolean;
+}
+
+const SETTINGS: Setting[] = [
+  {
+    section: 'ssl',
+    key: 'mode',
+    env: 'POSTGRES_SSL_MODE',
+    type: 'string',
+    values: SSL_MODES,
+    perConnection: true,
+  },
+  {
+    section: 'ssl',
+    key: 'rejectUnauthorized',
+    env: 'POSTGRES_SSL_REJECT_UNAUTHORIZED',
+    type: 'boolean',
+    perConnection: true,
+  },
+  {
+    section: 'pool',
+    key: 'maxConnections',
+    env: 'POSTGRES_MAX_CONNECTIONS',
+    type: 'number',
+    perConnection: true,
+  },
+  {
+    section: 'pool',
+    key: 'idleTimeout',
+    env: 'POSTGRES_IDLE_TIMEOUT',
+    type: 'number',
+    perConnection: true,
+  },
+  {
+    section: 'pool',
+    key: 'connectionTimeout',
+    env: 'POSTGRES_CONNECTION_TIMEOUT',
+    type: 'number',
+    perConnection: true,
+  },
+  {
+    section: 'pool',
+    key: 'statementTimeout',
+    env: 'POSTGRES_STATEMENT_TIMEOUT',
+    type: 'number',
+    perConnection: true,
+  },
+  { key: 'readOnly', env: 'POSTGRES_READ_ONLY', type: 'boolean', perConnection: true },
+  { key: 'policy', env: 'SEQUELAE_POLICY_FILE', type: 'string' },
+  { section: 'rateLimit', key: 'maxRequests', env: 'MCP_RATE_LIMIT_MAX_REQUESTS', type: 'number' },
+  { section: 'rateLimit', key: 'windowMs', env: 'MCP_RATE_LIMIT_WINDOW_MS', type: 'number' },
+  { section: 'rateLimit', key: 'tools', env: 'MCP_RATE_LIMIT_TOOLS', type: 'json' },
+  { section: 'output', key: 'format', env: 'SEQUELAE_FORMAT', type: 'string', values: ROW_FORMATS },
+  { section: 'output', key: 'json', env: 'SEQUELAE_JSON', type: 'boolean' },
+  {
+    section: 'logging',
+    key: 'level',
+    env: 'LOG_LEVEL',
+    type: 'string',
+    values: Object.values(LogLevel),
+  },
+  {
+    section: 'logging',
+    key: 'format',
+    env: 'LOG_FORMAT',
+    type: 'string',
+    values: ['text', 'json'],
+  },
+];
+
+const SECTIONS = ['connections', 'ssl', 'pool', 'rateLimit', 'output', 'logging'];
+
+/**
+ * Find the nearest config file in `from` or one of its parent directories
+ */
+export function findConfigFile(from: string = process.cwd()): string | undefined {
+  let dir = resolve(from);
+  for (;;) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const candidate = join(dir, name);
+      if (existsSync(candidate)) {
+        return candidate;
+      }
+    }
+    const parent = dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Validate a parsed config file
+ */
+export function parseConfig(value: unknown, source = 'config'): SequelaeConfig {
+  const fail = (message: string, hint = 'See the README for the config file format'): never => {
+    throw new SqlAgentError(`Invalid ${source}: ${message}`, 'INVALID_CONFIG', hint);
+  };
+
+  if (!isObject(value)) {
+    return fail('expected a JSON object');
+  }
+  const topLevel = [...SECTIONS, ...SETTINGS.filter(s => !s.section).map(s => s.key)];
+  for (const key of Object.keys(value)) {
+    if (!topLevel.includes(key)) {
+      fail(`unknown key "${key}"`);
+    }
+  }
+
+  validateSettings(value, SETTINGS, '', fail);
+
+  if (value.connections !== undefined) {
+    if (!isObject(value.connections)) {
+      fail('connections must be an object');
+    }
+    const perConnection = SETTINGS.filter(setting => setting.perConnection);
+    for (const [name, connection] of Object.entries(value.connections as object)) {
+      const path = `connections.${name}`;
+      if (typeof connection === 'string') {
+        continue;
+      }
+      if (!isObject(connection) || typeof connection.url !== 'string') {
+        fail(`${path} must be a connection string or an object with a url`);
+        continue;
+      }
+      const allowed = ['url', ...new Set(perConnection.map(s => s.section ?? s.key))];
+      for (const key of Object.keys(connection)) {
+        if (!allowed.includes(key)) {
+          fail(`${path} has unknown key "${key}"`);
+        }
+        // The shared settings are the default connection's, so it cannot override them
+        if (name === DEFAULT_CONNECTION && key !== 'url') {
+          fail(
+            `${path}.${key} is not supported`,
+            `Set "${key}" at the top level of the config; it applies to the default connection`
+          );
+        }
+      }
+      validateSettings(connection, perConnection, `${path}.`, fail);
+    }
+  }
+
+  return value as SequelaeConfig;
+}
+
+/**
+ * Read and validate a config file. The policy path is resolved against the file's directory.
+ */
+export function loadConfig(filepath: string): SequelaeConfig {
+  const resolvedPath = resolve(process.cwd(), filepath);
+  if (!existsSync(resolvedPath)) {
+    throw new SqlAgentError(`Config file not found: ${resolvedPath}`, 'INVALID_CONFIG');
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(resolvedPath, 'utf8'));
+  } catch (error) {
+    throw new SqlAgentError(
+      `Invalid config file ${resolvedPath}: ${error instanceof Error ? error.message : String(error)}`,
+      'INVALID_CONFIG'
+    );
+  }
+  const config = parseConfig(parsed, `config file ${resolvedPath}`);
+  if (config.policy !== undefined) {
+    config.policy = resolve(dirname(resolvedPath), config.policy);
+  }
+  return config;
+}
+
+/**
+ * Environment variables that correspond to a config
+ */
+export function configToEnv(config: SequelaeConfig): Record<string, string> {
+  const env: Record<string, string> = {};
+  const set = (source: Record<string, unknown>, settings: Setting[], suffix: string): void => {
+    for (const setting of settings) {
+      const value = readSetting(source, setting);
+      if (value !== undefined) {
+        env[`${setting.env}${suffix}`] =
+          setting.type === 'json' ? JSON.stringify(value) : String(value);
+      }
+    }
+  };
+
+  set(config as Record<string, unknown>, SETTINGS, '');
+  for (const [name, connection] of Object.entries(config.connections ?? {})) {
+    const suffix = name === DEFAULT_CONNECTION ? '' : `_${connectionEnvSuffix(name)}`;
+    if (typeof connection === 'string') {
+      env[`DATABASE_URL${suffix}`] = connection;
+      continue;
+    }
+    const { url, ...settings } = connection;
+    env[`DATABASE_URL${suffix}`] = url;
+    // The default connection takes the top-level settings; parseConfig rejects its own
+    if (suffix) {
+      set(
+        settings,
+        SETTINGS.filter(setting => setting.perConnection),
+        suffix
+      );
+    }
+  }
+  return env;
+}
+
+/**
+ * Set the environment variables of a config that are not set yet
+ */
+export function applyConfig(config: SequelaeConfig, env: NodeJS.ProcessEnv = process.env): void {
+  for (const [name, value] of Object.entries(configToEnv(config))) {
+    if (env[name] === undefined) {
+      env[name] = value;
+    }
+  }
+}
+
+/**
+ * Load the project's .env and config file and apply them to the environment. The
+ * project is the directory of the nearest config file, or the working directory.
+ */
+export function loadProjectConfig(cwd: string = process.cwd()): LoadedConfig | undefined {
+  const path = findConfigFile(cwd);
+  loadDotenv({ path: join(path ? dirname(path) : cwd, '.env') });
+
+  let loaded: LoadedConfig | undefined;
+  if (path) {
+    loaded = { path, config: loadConfig(path) };
+    applyConfig(loaded.config);
+  }
+  // The logger was set up before LOG_LEVEL and LOG_FORMAT could come from a file
+  logger.configureFromEnv();
+  return loaded;
+}
+
+/**
+ * The configuration in effect, read back from the environment, with passwords masked
+ */
+export function effectiveConfig(): SequelaeConfig {
+  const config: Record<string, unknown> = {};
+  const connections: Record<string, string | ConnectionConfig> = {};
+
+  for (const name of listConnections()) {
+    const url = maskPassword(resolveConnectionString(name) as string);
+    const overrides: Record<string, unknown> = {};
+    if (name !== DEFAULT_CONNECTION) {
+      for (const setting of SETTINGS.filter(s => s.perConnection)) {
+        const raw = process.env[`${setting.env}_${connectionEnvSuffix(name)}`];
+        writeSetting(overrides, setting, raw);
+      }
+    }
+    connections[name] =
+      Object.keys(overrides).length > 0 ? ({ url, ...overrides } as ConnectionConfig) : url;
+  }
+  if (Object.keys(connections).length > 0) {
+    config.connections = connections;
+  }
+
+  for (const setting of SETTINGS) {
+    writeSetting(config, setting, process.env[setting.env]);
+  }
+  return config as SequelaeConfig;
+}
+
+/**
+ * Replace the password of a connection string with ****
+ */
+export function maskPassword(connectionString: string): string {
+  // The password ends at the last @ before the path, as it may contain unescaped @
+  return connectionString.replace(/^([a-z]+:\/\/[^:/@]*:)[^/]*@/i, '$1****@');
+}
+
+function validateSettings(
+  source: Record<string, unknown>,
+  settings: Setting[],
+  prefix: string,
+  fail: (message: string) => never
+): void {
+  const sections = new Set(settings.map(setting => setting.section).filter(Boolean));
+  for (const section of sections) {
+    const value = source[section as string];
+    if (value === undefined) continue;
+    if (!isObject(value)) {
+      fail(`${prefix}${section} must be an object`);
+      continue;
+    }
+    const keys = settings.filter(s => s.section === section).map(s => s.key);
+    for (const key of Object.keys(value)) {
+      if (!keys.includes(key)) {
+        fail(`${prefix}${section} has unknown key "${key}"`);
+      }
+    }
+  }
+
+  for (const setting of settings) {
+    const value = readSetting(source, setting);
+    if (value === undefined) continue;
+    const path = `${prefix}${setting.section ? `${setting.section}.` : ''}${setting.key}`;
+    switch (setting.type) {
+      case 'number':
+        if (!Number.isInteger(value) || (value as number) <= 0) {
+          fail(`${path} must be a positive integer`);
+        }
+        break;
+      case 'boolean':
+        if (typeof value !== 'boolean') {
+          fail(`${path} must be true or false`);
+        }
+        break;
+      case 'string':
+        if (typeof value !== 'string') {
+          fail(`${path} must be a string`);
+        } else if (setting.values && !setting.values.includes(value)) {
+          fail(`${path} must be one of ${setting.values.join(', ')}`);
+        }
+        break;
+      default:
+        validateToolLimits(value, path, fail);
+    }
+  }
+}
+
+function validateToolLimits(value: unknown, path: string, fail: (message: string) => never): void {
+  if (!isObject(value)) {
+    fail(`${path} must be an object of tool limits`);
+    return;
+  }
+  for (const [tool, limit] of Object.entries(value)) {
+    if (
+      !isObject(limit) ||
+      !Number.isInteger(limit.maxRequests) ||
+      !Number.isInteger(limit.windowMs)
+    ) {
+      fail(`${path}.${tool} must have integer maxRequests and windowMs`);
+    }
+  }
+}
+
+function readSetting(source: Record<string, unknown>, setting: Setting): unknown {
+  if (!setting.section) {
+    return source[setting.key];
+  }
+  const section = source[setting.section];
+  return isObject(section) ? section[setting.key] : undefined;
+}
+
+function writeSetting(
+  target: Record<string, unknown>,
+  setting: Setting,
+  raw: string | undefined
+): void {
+  if (raw === undefined || raw === '') {
+    return;
+  }
+  let value: unknown = raw;
+  if (setting.type === 'number') {
+    value = parseInt(raw);
+  } else if (setting.type === 'boolean') {
+    value = raw === 'true';
+  } else if (setting.type === 'json') {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      // Shown as the raw text; the rate limiter reports it as invalid
+    }
+  }
+
+  if (!setting.section) {
+    target[setting.key] = value;
+    return;
+  }
+  const section = (target[setting.section] ?? {}) as Record<string, unknown>;
+  section[setting.key] = value;
+  target[setting.section] = section;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,71 @@
+/**
+ * Named connections
+ * Besides the default DATABASE_URL, connections are defined as DATABASE_URL_<NAME>,
+ * e.g. DATABASE_URL_STAGING for the connection `staging`. Connection settings such as
+ * POSTGRES_SSL_MODE can be set per connection with the same suffix
+ * (POSTGRES_SSL_MODE_STAGING) and fall back to the unsuffixed variable.
+ */
+
+import { SqlAgentError } from './errors';
+
+export const DEFAULT_CONNECTION = 'default';
+
+const CONNECTION_URL_PREFIX = 'DATABASE_URL_';
+
+/**
+ * Environment variable suffix for a connection name: `prod-replica` becomes `PROD_REPLICA`
+ */
+export function connectionEnvSuffix(name: string): string {
+  return name.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+}
+
+function isDefault(name: string | undefined): boolean {
+  return name === undefined || name === DEFAULT_CONNECTION;
+}
+
+/**
+ * Read a setting for a connection, preferring its suffixed variable over the shared one
+ */
+export function connectionSetting(name: string | undefined, key: string): string | undefined {
+  if (!isDefault(name)) {
+    const value = process.env[`${key}_${connectionEnvSuffix(name as string)}`];
+    if (value !== undefined) {
+      return value;
+    }
+  }
+  return process.env[key];
+}
+
+/**
+ * Names of the configured connections, the default one first
+ */
+export function listConnections(): string[] {
+  const names = Object.keys(process.env)
+    .filter(key => key.startsWith(CONNECTION_URL_PREFIX) && process.env[key])
+    .map(key => key.slice(CONNECTION_URL_PREFIX.length).toLowerCase())
+    .sort();
+  return process.env.DATABASE_URL ? [DEFAULT_CONNECTION, ...names] : names;
+}
+
+/**
+ * Connection string of a named connection, or of the default one (DATABASE_URL, which
+ * may be unset) when no name is given. Throws UNKNOWN_CONNECTION for undefined names.
+ */
+export function resolveConnectionString(name?: string): string | undefined {
+  if (isDefault(name)) {
+    return process.env.DATABASE_URL;
+  }
+  const variable = `${CONNECTION_URL_PREFIX}${connectionEnvSuffix(name as string)}`;
+  const connectionString = process.env[variable];
+  if (!connectionString) {
+    const available = listConnections();
+    throw new SqlAgentError(
+      `Unknown connection: ${name}`,
+      'UNKNOWN_CONNECTION',
+      available.length > 0
+        ? `Available connections: ${available.join(', ')}. Define ${variable} to add this one`
+        : `Define ${variable} to add this connection`
+    );
+  }
+  return connectionString;
+}
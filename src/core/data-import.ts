@@ -0,0 +1,467 @@
+/**
+ * Bulk loading of CSV and NDJSON files
+ * The file is streamed to the server with COPY ... FROM STDIN, so it is never read
+ * into memory. The whole load runs in one transaction: a failure anywhere leaves
+ * the table as it was. Upserts copy into a temporary staging table first and
+ * merge it with INSERT ... ON CONFLICT.
+ */
+
+import { createReadStream, promises as fsp } from 'fs';
+import { extname } from 'path';
+import { createInterface } from 'readline';
+import { Connection, PoolClient, Submittable } from 'pg';
+import { cellText } from '../utils/row-writer';
+import { SqlAgentError } from './errors';
+import { quoteIdentifier, quoteLiteral } from './sql-tokenizer';
+
+export type ImportFormat = 'csv' | 'ndjson';
+
+export const IMPORT_FORMATS: ImportFormat[] = ['csv', 'ndjson'];
+
+export interface ImportProgress {
+  bytesRead: number;
+  totalBytes: number;
+}
+
+export interface ImportOptions {
+  // Target table, optionally schema-qualified
+  table: string;
+  // Defaults to ndjson for .ndjson / .jsonl files, else csv
+  format?: ImportFormat;
+  // Whether the first CSV line names the columns; by default it does when every
+  // field matches a column of the table
+  header?: boolean;
+  // File column name -> table column name, for files whose names differ
+  columns?: Record<string, string>;
+  // CSV field delimiter (defaults to a comma)
+  delimiter?: string;
+  // CSV text that stands for NULL (defaults to an unquoted empty field)
+  nullMarker?: string;
+  // Empty the table before loading
+  truncate?: boolean;
+  // Merge into the table on these unique columns instead of appending
+  upsertKeys?: string[];
+  timeoutMs?: number;
+  // Run even when the SQL policy marks the load's statements `confirm`
+  confirmed?: boolean;
+  onProgress?: (progress: ImportProgress) => void;
+}
+
+export interface ImportResult {
+  table: string;
+  format: ImportFormat;
+  // Table columns that were loaded, in file order
+  columns: string[];
+  // Rows inserted, or inserted and updated for upserts
+  rowCount: number;
+  bytes: number;
+  duration: number;
+}
+
+const EXTENSION_FORMATS: Record<string, ImportFormat> = {
+  '.ndjson': 'ndjson',
+  '.jsonl': 'ndjson',
+};
+
+const STAGING_TABLE = 'sequelae_import_staging';
+
+// The first line of a CSV file is looked for within this many bytes
+const HEADER_PEEK_SIZE = 64 * 1024;
+
+/**
+ * Import format for a file: the requested one, else the one its extension implies, else CSV
+ */
+export function resolveImportFormat(filepath: string, format?: string): ImportFormat {
+  if (format === undefined) {
+    return EXTENSION_FORMATS[extname(filepath).toLowerCase()] ?? 'csv';
+  }
+  if (!IMPORT_FORMATS.includes(format as ImportFormat)) {
+    throw new SqlAgentError(
+      `Unknown import format: ${format}`,
+      'INVALID_IMPORT_FORMAT',
+      `Use one of ${IMPORT_FORMATS.join(', ')}`
+    );
+  }
+  return format as ImportFormat;
+}
+
+/**
+ * Quote a table name given as `table`, `schema.table` or already quoted
+ */
+export function quoteTableName(name: string): string {
+  if (name.includes('"')) {
+    return name;
+  }
+  return name.split('.').map(quoteIdentifier).join('.');
+}
+
+/**
+ * Statements an import runs, in the shape the policy checks classify
+ */
+export function importStatements(options: ImportOptions): string[] {
+  const table = quoteTableName(options.table);
+  return [
+    ...(options.truncate ? [`TRUNCATE ${table}`] : []),
+    options.upsertKeys?.length
+      ? `INSERT INTO ${table} SELECT * FROM ${STAGING_TABLE}`
+      : `COPY ${table} FROM STDIN`,
+  ];
+}
+
+/**
+ * Split one CSV record into its fields, undoing quoting
+ */
+export function parseCsvLine(line: string, delimiter = ','): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.replace(/\r$/, ''));
+  return fields;
+}
+
+/**
+ * A CSV field as COPY reads it: NULL is an unquoted empty field, so empty strings
+ * are quoted, and json values are serialized
+ */
+function copyField(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = cellText(value);
+  return text === '' || /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * COPY FROM STDIN as a query the pg client can run. Once the server asks for data,
+ * the chunks of `source` are sent as they come, waiting whenever the socket buffer
+ * is full. An error from `source` aborts the COPY with CopyFail.
+ */
+class CopyFromStdin implements Submittable {
+  private done = false;
+  private sourceError?: Error;
+  private rowCount = 0;
+
+  constructor(
+    private text: string,
+    private source: AsyncIterable<Buffer | string>,
+    private callback: (error: Error | null, rowCount?: number) => void
+  ) {}
+
+  submit(connection: Connection): void {
+    connection.query(this.text);
+  }
+
+  handleCopyInResponse(connection: CopyConnection): void {
+    void this.sendData(connection);
+  }
+
+  handleCommandComplete(message: { text: string }): void {
+    this.rowCount = parseInt(message.text.split(' ').pop() ?? '0', 10) || 0;
+  }
+
+  handleError(error: Error): void {
+    this.finish(this.sourceError ?? error);
+  }
+
+  handleReadyForQuery(): void {
+    this.finish(null);
+  }
+
+  // Messages COPY FROM does not produce
+  handleRowDescription(): void {}
+  handleDataRow(): void {}
+  handlePortalSuspended(): void {}
+  handleEmptyQuery(): void {}
+  handleCopyData(): void {}
+
+  private async sendData(connection: CopyConnection): Promise<void> {
+    try {
+      for await (const chunk of this.source) {
+        if (this.done) {
+          return;
+        }
+        connection.sendCopyFromChunk(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+        if (connection.stream.writableNeedDrain) {
+          await new Promise(resolve => connection.stream.once('drain', resolve));
+        }
+      }
+      connection.endCopyFrom();
+    } catch (error) {
+      this.sourceError = error as Error;
+      connection.sendCopyFail(this.sourceError.message);
+    }
+  }
+
+  private finish(error: Error | null): void {
+    if (this.done) {
+      return;
+    }
+    this.done = true;
+    this.callback(error, this.rowCount);
+  }
+}
+
+type CopyConnection = Connection & {
+  stream: NodeJS.WritableStream & { writableNeedDrain?: boolean };
+  sendCopyFromChunk(chunk: Buffer): void;
+  endCopyFrom(): void;
+  sendCopyFail(message: string): void;
+};
+
+function copyFromStdin(
+  client: PoolClient,
+  sql: string,
+  source: AsyncIterable<Buffer | string>
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    client.query(
+      new CopyFromStdin(sql, source, (error, rowCount) =>
+        error ? reject(error) : resolve(rowCount ?? 0)
+      )
+    );
+  });
+}
+
+/**
+ * Columns of a table in definition order
+ */
+async function tableColumns(client: PoolClient, table: string): Promise<string[]> {
+  const result = await client.query(
+    `SELECT a.attname
+       FROM pg_attribute a
+      WHERE a.attrelid = to_regclass($1) AND a.attnum > 0 AND NOT a.attisdropped
+      ORDER BY a.attnum`,
+    [quoteTableName(table)]
+  );
+  if (result.rows.length === 0) {
+    throw new SqlAgentError(
+      `Table not found: ${table}`,
+      'UNKNOWN_TABLE',
+      'Create the table first; imports do not create tables'
+    );
+  }
+  return result.rows.map(row => row.attname as string);
+}
+
+async function readFirstLine(filepath: string): Promise<string> {
+  const handle = await fsp.open(filepath, 'r');
+  try {
+    const buffer = Buffer.alloc(HEADER_PEEK_SIZE);
+    const { bytesRead } = await handle.read(buffer, 0, HEADER_PEEK_SIZE, 0);
+    const text = buffer
+      .subarray(0, bytesRead)
+      .toString('utf8')
+      .replace(/^\uFEFF/, '');
+    const end = text.indexOf('\n');
+    return end === -1 ? text : text.slice(0, end);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Lines of a file; the file is closed when the caller stops early
+ */
+async function* readLines(filepath: string): AsyncGenerator<string> {
+  const input = createReadStream(filepath);
+  const lines = createInterface({ input, crlfDelay: Infinity });
+  try {
+    yield* lines;
+  } finally {
+    lines.close();
+    input.destroy();
+  }
+}
+
+function mapColumn(name: string, mapping: Record<string, string> | undefined): string {
+  return mapping?.[name] ?? name;
+}
+
+function invalidRow(message: string): SqlAgentError {
+  return new SqlAgentError(
+    message,
+    'IMPORT_INVALID_ROW',
+    'Every line must be a JSON object with the fields of the first line'
+  );
+}
+
+/**
+ * Convert NDJSON to CSV for COPY, line by line. The fields of the first object
+ * decide the columns; later objects may leave fields out (NULL) but not add any.
+ */
+async function* ndjsonToCsv(
+  filepath: string,
+  fields: string[],
+  onLine: (bytes: number) => void
+): AsyncGenerator<string> {
+  const known = new Set(fields);
+  let lineNumber = 0;
+  for await (const line of readLines(filepath)) {
+    lineNumber++;
+    onLine(Buffer.byteLength(line) + 1);
+    if (line.trim() === '') {
+      continue;
+    }
+    let row: unknown;
+    try {
+      row = JSON.parse(line);
+    } catch {
+      throw invalidRow(`Invalid JSON on line ${lineNumber}`);
+    }
+    if (row === null || typeof row !== 'object' || Array.isArray(row)) {
+      throw invalidRow(`Line ${lineNumber} is not a JSON object`);
+    }
+    const record = row as Record<string, unknown>;
+    const extra = Object.keys(record).find(key => !known.has(key));
+    if (extra !== undefined) {
+      throw invalidRow(`Unexpected field "${extra}" on line ${lineNumber}`);
+    }
+    yield `${fields.map(field => copyField(record[field])).join(',')}\n`;
+  }
+}
+
+async function firstNdjsonFields(filepath: string): Promise<string[]> {
+  for await (const line of readLines(filepath)) {
+    if (line.trim() === '') {
+      continue;
+    }
+    try {
+      const row = JSON.parse(line);
+      if (row !== null && typeof row === 'object' && !Array.isArray(row)) {
+        return Object.keys(row);
+      }
+    } catch {
+      // Reported with its line number while loading
+    }
+    break;
+  }
+  return [];
+}
+
+/**
+ * Load a file into a table on `client`, inside a transaction the caller has begun
+ */
+export async function loadFileIntoTable(
+  client: PoolClient,
+  filepath: string,
+  options: ImportOptions
+): Promise<Omit<ImportResult, 'duration'>> {
+  const format = resolveImportFormat(filepath, options.format);
+  const delimiter = options.delimiter ?? ',';
+  if (delimiter.length !== 1) {
+    throw new SqlAgentError(
+      'The delimiter must be a single character',
+      'INVALID_IMPORT_OPTIONS',
+      'Use e.g. --delimiter ";" or --delimiter "|"'
+    );
+  }
+  const table = quoteTableName(options.table);
+  const totalBytes = (await fsp.stat(filepath)).size;
+  const targetColumns = await tableColumns(client, options.table);
+
+  let bytesRead = 0;
+  const progress = (bytes: number): void => {
+    bytesRead += bytes;
+    options.onProgress?.({ bytesRead, totalBytes });
+  };
+
+  // Columns of the file, named like the table's, and the data COPY reads
+  let columns: string[];
+  let header = false;
+  let source: AsyncIterable<Buffer | string>;
+  let copyOptions: string[];
+  if (format === 'csv') {
+    const firstLine = parseCsvLine(await readFirstLine(filepath), delimiter).map(name =>
+      mapColumn(name, options.columns)
+    );
+    header = options.header ?? firstLine.every(name => targetColumns.includes(name));
+    if (!header && options.columns) {
+      throw new SqlAgentError(
+        'A column mapping needs a header row',
+        'INVALID_IMPORT_OPTIONS',
+        'Add a header line to the file, or load its columns in table order without a mapping'
+      );
+    }
+    columns = header ? firstLine : targetColumns.slice(0, firstLine.length);
+    source = (async function* () {
+      for await (const chunk of createReadStream(filepath)) {
+        progress((chunk as Buffer).length);
+        yield chunk as Buffer;
+      }
+    })();
+    copyOptions = [
+      'FORMAT csv',
+      `HEADER ${header}`,
+      `DELIMITER ${quoteLiteral(delimiter)}`,
+      `NULL ${quoteLiteral(options.nullMarker ?? '')}`,
+    ];
+  } else {
+    const fields = await firstNdjsonFields(filepath);
+    columns = fields.map(name => mapColumn(name, options.columns));
+    source = ndjsonToCsv(filepath, fields, progress);
+    copyOptions = ['FORMAT csv'];
+  }
+
+  if (columns.length === 0) {
+    throw new SqlAgentError(`No rows found in ${filepath}`, 'IMPORT_EMPTY_FILE');
+  }
+
+  if (options.timeoutMs && options.timeoutMs > 0) {
+    await client.query(`SET LOCAL statement_timeout = ${options.timeoutMs}`);
+  }
+  if (options.truncate) {
+    await client.query(`TRUNCATE ${table}`);
+  }
+
+  const columnList = columns.map(quoteIdentifier).join(', ');
+  const upsertKeys = options.upsertKeys ?? [];
+  const target = upsertKeys.length > 0 ? STAGING_TABLE : table;
+  if (upsertKeys.length > 0) {
+    // Only the loaded columns, without constraints, so partial rows can be staged
+    await client.query(
+      `CREATE TEMP TABLE ${STAGING_TABLE} ON COMMIT DROP AS SELECT ${columnList} FROM ${table} WITH NO DATA`
+    );
+  }
+
+  let rowCount = await copyFromStdin(
+    client,
+    `COPY ${target} (${columnList}) FROM STDIN WITH (${copyOptions.join(', ')})`,
+    source
+  );
+
+  if (upsertKeys.length > 0) {
+    const updates = columns
+      .filter(column => !upsertKeys.includes(column))
+      .map(column => `${quoteIdentifier(column)} = EXCLUDED.${quoteIdentifier(column)}`);
+    const conflict = `ON CONFLICT (${upsertKeys.map(quoteIdentifier).join(', ')})`;
+    const merged = await client.query(
+      `INSERT INTO ${table} (${columnList}) SELECT ${columnList} FROM ${STAGING_TABLE} ` +
+        (updates.length > 0
+          ? `${conflict} DO UPDATE SET ${updates.join(', ')}`
+          : `${conflict} DO NOTHING`)
+    );
+    rowCount = merged.rowCount ?? 0;
+  }
+
+  return { table: options.table, format, columns, rowCount, bytes: totalBytes };
+}
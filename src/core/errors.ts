@@ -0,0 +1,14 @@
+/**
+ * Error type shared by the CLI, the MCP handler and the core executor.
+ * The `code` is stable and machine-readable; `hint` is an optional human tip.
+ */
+export class SqlAgentError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly hint?: string
+  ) {
+    super(message);
+    this.name = 'SqlAgentError';
+  }
+}
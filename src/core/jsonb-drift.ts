@@ -0,0 +1,235 @@
+/**
+ * JSONB drift detection
+ * Saves the inferred structure of json and jsonb columns to a snapshot file and
+ * compares a later inference against it: fields that were added or removed,
+ * became optional or changed type. Snapshots keep types and presence but no
+ * example values, so they can be committed alongside the code.
+ */
+
+import { JsonDocumentStructure, JsonStructure } from '../jsonb-analyzer';
+import { SqlAgentError } from './errors';
+
+export const SNAPSHOT_VERSION = 1;
+
+export interface SnapshotField {
+  types: string[];
+  optional: boolean;
+  presence: number;
+  arrayElementTypes?: string[];
+  fields?: Record<string, SnapshotField>;
+}
+
+export interface SnapshotColumn {
+  // Whether the values are arrays of objects, whose elements the fields describe
+  arrayElements: boolean;
+  fields: Record<string, SnapshotField>;
+}
+
+export interface JsonbSnapshot {
+  version: number;
+  createdAt: string;
+  // Keyed by `schema.table.column`
+  columns: Record<string, SnapshotColumn>;
+}
+
+export type JsonbChangeKind = 'added' | 'removed' | 'optional' | 'type';
+
+export interface JsonbChange {
+  // `schema.table.column`
+  column: string;
+  // Dotted field path; empty for the column itself
+  path: string;
+  kind: JsonbChangeKind;
+  before?: string;
+  after?: string;
+}
+
+export interface JsonbSnapshotResult {
+  outputPath: string;
+  columns: string[];
+  bytes: number;
+  duration: number;
+}
+
+export interface JsonbDiffResult {
+  snapshotPath: string;
+  createdAt: string;
+  columns: string[];
+  changes: JsonbChange[];
+  duration: number;
+}
+
+function snapshotFields(structure: JsonStructure): Record<string, SnapshotField> {
+  return Object.fromEntries(
+    Object.entries(structure).map(([key, info]) => [
+      key,
+      {
+        types: Array.from(info.types).sort(),
+        optional: info.optional,
+        presence: info.presence,
+        ...(info.arrayElementTypes && {
+          arrayElementTypes: Array.from(info.arrayElementTypes).sort(),
+        }),
+        ...(info.nestedStructure && { fields: snapshotFields(info.nestedStructure) }),
+      },
+    ])
+  );
+}
+
+/**
+ * The snapshot of one inferred structure
+ */
+export function snapshotColumn(structure: JsonDocumentStructure): SnapshotColumn {
+  return { arrayElements: structure.arrayElements, fields: snapshotFields(structure.fields) };
+}
+
+/**
+ * A snapshot of inferred structures keyed by `schema.table.column`
+ */
+export function createSnapshot(structures: Record<string, JsonDocumentStructure>): JsonbSnapshot {
+  return {
+    version: SNAPSHOT_VERSION,
+    createdAt: new Date().toISOString(),
+    columns: Object.fromEntries(
+      Object.entries(structures).map(([column, structure]) => [column, snapshotColumn(structure)])
+    ),
+  };
+}
+
+/**
+ * Parse the content of a snapshot file
+ */
+export function parseSnapshot(content: string): JsonbSnapshot {
+  let snapshot: JsonbSnapshot;
+  try {
+    snapshot = JSON.parse(content);
+  } catch (error) {
+    throw new SqlAgentError(
+      `Invalid JSONB snapshot: ${error instanceof Error ? error.message : String(error)}`,
+      'INVALID_SNAPSHOT'
+    );
+  }
+  if (!snapshot || typeof snapshot.columns !== 'object' || snapshot.columns === null) {
+    throw new SqlAgentError('Invalid JSONB snapshot: no columns', 'INVALID_SNAPSHOT');
+  }
+  if (snapshot.version !== SNAPSHOT_VERSION) {
+    throw new SqlAgentError(
+      `Unsupported JSONB snapshot version: ${snapshot.version}`,
+      'INVALID_SNAPSHOT',
+      'Take a new snapshot with sequelae jsonb snapshot'
+    );
+  }
+  return snapshot;
+}
+
+/**
+ * Type of a field as compared between snapshots, e.g. `number | string` or `array<string>`
+ */
+export function describeFieldType(field: SnapshotField): string {
+  return field.types
+    .map(type =>
+      type === 'array' && field.arrayElementTypes?.length
+        ? `array<${field.arrayElementTypes.join(' | ')}>`
+        : type
+    )
+    .join(' | ');
+}
+
+function diffFields(
+  column: string,
+  before: Record<string, SnapshotField>,
+  after: Record<string, SnapshotField>,
+  parent: string[],
+  changes: JsonbChange[]
+): void {
+  for (const [key, field] of Object.entries(before)) {
+    const path = [...parent, key].join('.');
+    const current = after[key];
+    if (!current) {
+      changes.push({ column, path, kind: 'removed', before: describeFieldType(field) });
+      continue;
+    }
+    const [beforeType, afterType] = [describeFieldType(field), describeFieldType(current)];
+    if (beforeType !== afterType) {
+      changes.push({ column, path, kind: 'type', before: beforeType, after: afterType });
+    }
+    if (!field.optional && current.optional) {
+      changes.push({ column, path, kind: 'optional' });
+    }
+    if (field.fields && current.fields) {
+      diffFields(column, field.fields, current.fields, [...parent, key], changes);
+    }
+  }
+  for (const [key, field] of Object.entries(after)) {
+    if (!before[key]) {
+      changes.push({
+        column,
+        path: [...parent, key].join('.'),
+        kind: 'added',
+        after: describeFieldType(field),
+      });
+    }
+  }
+}
+
+/**
+ * Changes from a snapshot column to the current one. Columns that no longer
+ * exist are reported as removed.
+ */
+export function diffSnapshotColumns(
+  column: string,
+  before: SnapshotColumn,
+  after: SnapshotColumn | undefined
+): JsonbChange[] {
+  const documentType = (snapshot: SnapshotColumn): string =>
+    snapshot.arrayElements ? 'array<object>' : 'object';
+  if (!after) {
+    return [{ column, path: '', kind: 'removed', before: documentType(before) }];
+  }
+  const changes: JsonbChange[] = [];
+  if (before.arrayElements !== after.arrayElements) {
+    changes.push({
+      column,
+      path: '',
+      kind: 'type',
+      before: documentType(before),
+      after: documentType(after),
+    });
+  }
+  diffFields(column, before.fields, after.fields, [], changes);
+  return changes;
+}
+
+/**
+ * Readable lines for the changes of a diff, grouped by column
+ */
+export function formatJsonbDrift(result: JsonbDiffResult): string[] {
+  if (result.changes.length === 0) {
+    return [`No drift in ${result.columns.length} columns since ${result.createdAt}`];
+  }
+  const lines: string[] = [];
+  for (const column of result.columns) {
+    const changes = result.changes.filter(change => change.column === column);
+    if (changes.length === 0) {
+      continue;
+    }
+    lines.push(column);
+    for (const change of changes) {
+      const path = change.path || '(column)';
+      switch (change.kind) {
+        case 'added':
+          lines.push(`  + ${path}: ${change.after}`);
+          break;
+        case 'removed':
+          lines.push(`  - ${path}: ${change.before}`);
+          break;
+        case 'optional':
+          lines.push(`  ? ${path}: now optional`);
+          break;
+        default:
+          lines.push(`  ~ ${path}: ${change.before} -> ${change.after}`);
+      }
+    }
+  }
+  return lines;
+}
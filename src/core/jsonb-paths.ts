@@ -0,0 +1,276 @@
+/**
+ * JSONB path discovery
+ * Lists the paths of an inferred JSON structure with the SQL expressions and
+ * jsonpath that reach them, the indexes that can serve those expressions and
+ * expression indexes worth creating for scalar paths most rows have.
+ */
+
+import {
+  JsonDocumentStructure,
+  JsonFieldInfo,
+  JsonStructure,
+  SamplingOptions,
+} from '../jsonb-analyzer';
+import { ColumnInfo, IndexInfo, TableInfo } from './schema-introspection';
+import { quoteIdentifier, quoteLiteral } from './sql-tokenizer';
+
+export interface JsonbPathIndex {
+  name: string;
+  // containment: a GIN index on the column or an object above the path;
+  // expression: an index on the accessor itself
+  kind: 'containment' | 'expression';
+  // The operators or comparisons the index serves for this path
+  usage: string;
+}
+
+export interface JsonbPathInfo {
+  // Keys from the document root, e.g. ['user', 'email']
+  keys: string[];
+  // SQL expression reading the value; scalars are extracted as text and cast
+  accessor: string;
+  jsonpath: string;
+  // Containment filter matching the first example value (jsonb only)
+  containment?: string;
+  types: string[];
+  // Share of the sampled rows that have the path (0-100)
+  presence: number;
+  indexes: JsonbPathIndex[];
+}
+
+export interface JsonbColumnPaths {
+  column: string;
+  dataType: string;
+  // Whether the values are arrays of objects, whose elements the paths describe
+  arrayElements: boolean;
+  paths: JsonbPathInfo[];
+  suggestedIndexes: string[];
+}
+
+export interface JsonbPathsOptions {
+  // A single json or jsonb column; defaults to all of them
+  column?: string;
+  // Rows to sample or a sampling strategy, 100 rows by default
+  sampling?: number | SamplingOptions;
+  // Scalar paths present in at least this share of rows get an index suggestion, 50 by default
+  minPresence?: number;
+}
+
+export interface JsonbPathsResult {
+  schema: string;
+  table: string;
+  columns: JsonbColumnPaths[];
+  duration: number;
+}
+
+const SCALAR_CASTS: Record<string, string> = {
+  number: 'numeric',
+  boolean: 'boolean',
+};
+
+// Identifier limit of PostgreSQL; longer index names are truncated
+const MAX_IDENTIFIER_LENGTH = 63;
+
+function jsonpathKey(key: string): string {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(key) ? `.${key}` : `.${JSON.stringify(key)}`;
+}
+
+/** The single scalar type of a field besides null, if it has one */
+function scalarType(info: JsonFieldInfo): string | undefined {
+  const types = Array.from(info.types).filter(type => type !== 'null');
+  return types.length === 1 && ['string', 'number', 'boolean'].includes(types[0])
+    ? types[0]
+    : undefined;
+}
+
+/**
+ * Expression reaching `keys` from `base`: `->` down to the value, `->>` for a
+ * scalar, cast when it is not a string
+ */
+function accessorFor(base: string, keys: string[], scalar?: string): string {
+  const literals = keys.map(quoteLiteral);
+  if (!scalar) {
+    return [base, ...literals].join('->');
+  }
+  const text = `${[base, ...literals.slice(0, -1)].join('->')}->>${literals[literals.length - 1]}`;
+  return SCALAR_CASTS[scalar] ? `(${text})::${SCALAR_CASTS[scalar]}` : text;
+}
+
+/** Nested JSON literal holding `value` at `keys` */
+function nestedLiteral(keys: string[], value: unknown): unknown {
+  return keys.reduceRight<unknown>((inner, key) => ({ [key]: inner }), value);
+}
+
+/**
+ * Compare SQL expressions the way pg_get_indexdef prints them: without casts to
+ * text, parentheses, quotes around plain identifiers and whitespace
+ */
+function normalizeExpression(expression: string): string {
+  return expression
+    .replace(/::text\b/g, '')
+    .replace(/[()\s]/g, '')
+    .replace(/"([a-z_][a-z0-9_$]*)"/g, '$1');
+}
+
+/**
+ * Indexes able to serve a path: GIN indexes on the column or on an object above
+ * the path serve containment, expression indexes on its accessor serve
+ * comparisons
+ */
+function servingIndexes(
+  indexes: IndexInfo[],
+  column: string,
+  keys: string[],
+  scalar?: string
+): JsonbPathIndex[] {
+  const served: JsonbPathIndex[] = [];
+  const prefixes = new Set(
+    keys.map((_, depth) => normalizeExpression(accessorFor(column, keys.slice(0, depth))))
+  );
+  // An index on the text of a scalar serves it too, e.g. for equality
+  const targets = new Set(
+    [accessorFor(column, keys, scalar), accessorFor(column, keys, scalar && 'string')].map(
+      normalizeExpression
+    )
+  );
+
+  for (const index of indexes) {
+    if (index.columns.length === 0) {
+      continue;
+    }
+    const expression = normalizeExpression(index.columns[0]);
+    if (index.method === 'gin' && prefixes.has(expression)) {
+      const pathOps = /\bjsonb_path_ops\b/.test(index.definition);
+      served.push({
+        name: index.name,
+        kind: 'containment',
+        usage: pathOps ? '@> containment, @? and @@ jsonpath' : '@> containment, ? key exists',
+      });
+    } else if (targets.has(expression) && index.method !== 'gin') {
+      served.push({
+        name: index.name,
+        kind: 'expression',
+        usage: index.method === 'btree' ? 'equality, range and sort' : `${index.method} lookup`,
+      });
+    }
+  }
+  return served;
+}
+
+function indexName(table: string, column: string, keys: string[]): string {
+  return [table, column, ...keys, 'idx']
+    .join('_')
+    .replace(/[^A-Za-z0-9_]+/g, '_')
+    .toLowerCase()
+    .slice(0, MAX_IDENTIFIER_LENGTH);
+}
+
+/**
+ * Paths of the inferred structure of a json or jsonb column, with the indexes
+ * that serve them and CREATE INDEX statements for common scalar paths
+ */
+export function describeJsonbPaths(
+  table: TableInfo,
+  column: ColumnInfo,
+  structure: JsonDocumentStructure,
+  options: JsonbPathsOptions = {}
+): JsonbColumnPaths {
+  const minPresence = options.minPresence ?? 50;
+  const isJsonb = column.data_type === 'jsonb';
+  const { arrayElements } = structure;
+  const quotedColumn = quoteIdentifier(column.column_name);
+  const quotedTable = `${quoteIdentifier(table.schema)}.${quoteIdentifier(table.name)}`;
+  // Elements of array documents are reached through the set-returning function
+  const base = arrayElements
+    ? `${isJsonb ? 'jsonb' : 'json'}_array_elements(${quotedColumn})`
+    : quotedColumn;
+
+  const paths: JsonbPathInfo[] = [];
+  const suggestedIndexes: string[] = [];
+  const walk = (fields: JsonStructure, parentKeys: string[], parentPresence: number): void => {
+    for (const [key, info] of Object.entries(fields)) {
+      const keys = [...parentKeys, key];
+      const scalar = scalarType(info);
+      const accessor = accessorFor(base, keys, scalar);
+      const presence = Math.round((parentPresence * info.presence) / 10) / 10;
+      const indexes = arrayElements
+        ? []
+        : servingIndexes(table.indexes ?? [], quotedColumn, keys, scalar);
+      const example = info.examples[0];
+      const contained = arrayElements
+        ? [nestedLiteral(keys, example)]
+        : nestedLiteral(keys, example);
+
+      paths.push({
+        keys,
+        accessor,
+        jsonpath: `$${arrayElements ? '[*]' : ''}${keys.map(jsonpathKey).join('')}`,
+        ...(isJsonb &&
+          scalar &&
+          example !== undefined && {
+            containment: `${quotedColumn} @> ${quoteLiteral(JSON.stringify(contained))}`,
+          }),
+        types: Array.from(info.types),
+        presence,
+        indexes,
+      });
+
+      if (
+        scalar &&
+        !arrayElements &&
+        presence >= minPresence &&
+        !indexes.some(index => index.kind === 'expression')
+      ) {
+        suggestedIndexes.push(
+          `CREATE INDEX ${quoteIdentifier(indexName(table.name, column.column_name, keys))} ON ${quotedTable} ((${accessor}))`
+        );
+      }
+
+      // Nested fields are measured against the objects holding them
+      if (info.nestedStructure) {
+        const objects = info.typeCounts.object ?? 0;
+        walk(info.nestedStructure, keys, (presence * objects) / info.count);
+      }
+    }
+  };
+  walk(structure.fields, [], 100);
+
+  return {
+    column: column.column_name,
+    dataType: column.data_type,
+    arrayElements,
+    paths,
+    suggestedIndexes,
+  };
+}
+
+/**
+ * Readable lines for the paths of each column
+ */
+export function formatJsonbPaths(result: JsonbPathsResult): string[] {
+  const lines: string[] = [];
+  for (const column of result.columns) {
+    lines.push(
+      `${result.schema}.${result.table}.${column.column} (${column.dataType}${column.arrayElements ? ', array of objects' : ''})`
+    );
+    if (column.paths.length === 0) {
+      lines.push('  (no data to analyze)');
+    }
+    for (const path of column.paths) {
+      lines.push(`  ${path.keys.join('.')}: ${path.types.join(' | ')}, ${path.presence}% present`);
+      lines.push(`    SQL: ${path.accessor}`);
+      lines.push(`    jsonpath: ${path.jsonpath}`);
+      if (path.containment) {
+        lines.push(`    Filter: ${path.containment}`);
+      }
+      for (const index of path.indexes) {
+        lines.push(`    Index: ${index.name} (${index.usage})`);
+      }
+    }
+    if (column.suggestedIndexes.length > 0) {
+      lines.push('  Suggested indexes:');
+      lines.push(...column.suggestedIndexes.map(statement => `    ${statement};`));
+    }
+    lines.push('');
+  }
+  return lines;
+}
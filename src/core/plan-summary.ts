@@ -0,0 +1,303 @@
+/**
+ * Query plan summary
+ * Condenses the output of EXPLAIN (FORMAT JSON) into the few facts worth acting
+ * on: total cost, the most expensive nodes, sequential scans of large tables,
+ * row-estimate misestimates and sorts that spilled to disk.
+ */
+
+/** A plan node as EXPLAIN (FORMAT JSON) reports it; only the fields used here are typed */
+export interface PlanNode {
+  'Node Type': string;
+  'Relation Name'?: string;
+  // Schema of the relation, reported with VERBOSE
+  Schema?: string;
+  Alias?: string;
+  'Index Name'?: string;
+  'Startup Cost'?: number;
+  'Total Cost'?: number;
+  'Plan Rows'?: number;
+  'Actual Total Time'?: number;
+  'Actual Rows'?: number;
+  'Actual Loops'?: number;
+  Filter?: string;
+  'Rows Removed by Filter'?: number;
+  'Sort Key'?: string[];
+  'Sort Method'?: string;
+  'Sort Space Used'?: number;
+  'Sort Space Type'?: string;
+  Plans?: PlanNode[];
+  [key: string]: unknown;
+}
+
+/** One entry of the array EXPLAIN (FORMAT JSON) returns */
+export interface ExplainOutput {
+  Plan: PlanNode;
+  'Planning Time'?: number;
+  'Execution Time'?: number;
+  [key: string]: unknown;
+}
+
+export interface PlanNodeSummary {
+  nodeType: string;
+  relation?: string;
+  index?: string;
+  // Cost of the node itself, without its children
+  selfCost: number;
+  totalCost: number;
+  estimatedRows: number;
+  // Only with ANALYZE: rows per loop, loops and time spent in the node itself
+  actualRows?: number;
+  loops?: number;
+  selfTimeMs?: number;
+}
+
+export interface SeqScanSummary {
+  relation: string;
+  // Estimated rows in the table (pg_class.reltuples)
+  tableRows: number;
+  filter?: string;
+  rowsRemovedByFilter?: number;
+}
+
+export interface MisestimateSummary {
+  nodeType: string;
+  relation?: string;
+  estimatedRows: number;
+  actualRows: number;
+  // How many times more (or fewer) rows there were than estimated
+  factor: number;
+}
+
+export interface SortSpillSummary {
+  sortKey: string[];
+  method?: string;
+  spaceUsedKb?: number;
+}
+
+export interface PlanSummary {
+  totalCost: number;
+  estimatedRows: number;
+  // Only with ANALYZE
+  actualRows?: number;
+  planningTimeMs?: number;
+  executionTimeMs?: number;
+  expensiveNodes: PlanNodeSummary[];
+  seqScans: SeqScanSummary[];
+  misestimates: MisestimateSummary[];
+  sortSpills: SortSpillSummary[];
+  // One line per finding, phrased as something to look into
+  findings: string[];
+}
+
+export interface SummarizeOptions {
+  // Estimated rows per table, keyed by relation name (`schema.name` for VERBOSE plans),
+  // used to spot scans of large tables
+  tableRows?: Record<string, number>;
+  // Tables with at least this many rows count as large (defaults to 10000)
+  largeTableRows?: number;
+  // Actual rows off from the estimate by at least this factor count as misestimated (defaults to 10)
+  misestimateFactor?: number;
+  // Number of expensive nodes to report (defaults to 5)
+  topNodes?: number;
+}
+
+const DEFAULT_LARGE_TABLE_ROWS = 10000;
+const DEFAULT_MISESTIMATE_FACTOR = 10;
+const DEFAULT_TOP_NODES = 5;
+
+/**
+ * Summarize the output of EXPLAIN (FORMAT JSON), with or without ANALYZE
+ */
+export function summarizePlan(output: ExplainOutput, options: SummarizeOptions = {}): PlanSummary {
+  const largeTableRows = options.largeTableRows ?? DEFAULT_LARGE_TABLE_ROWS;
+  const misestimateFactor = options.misestimateFactor ?? DEFAULT_MISESTIMATE_FACTOR;
+  const root = output.Plan;
+
+  const nodes: PlanNodeSummary[] = [];
+  const seqScans: SeqScanSummary[] = [];
+  const misestimates: MisestimateSummary[] = [];
+  const sortSpills: SortSpillSummary[] = [];
+
+  for (const node of walkPlan(root)) {
+    const children = node.Plans ?? [];
+    const summary: PlanNodeSummary = {
+      nodeType: node['Node Type'],
+      ...(node['Relation Name'] && { relation: relationName(node) }),
+      ...(node['Index Name'] && { index: node['Index Name'] }),
+      selfCost: round(
+        Math.max(
+          0,
+          (node['Total Cost'] ?? 0) -
+            children.reduce((sum, child) => sum + (child['Total Cost'] ?? 0), 0)
+        )
+      ),
+      totalCost: node['Total Cost'] ?? 0,
+      estimatedRows: node['Plan Rows'] ?? 0,
+    };
+    if (node['Actual Rows'] !== undefined) {
+      const loops = node['Actual Loops'] ?? 1;
+      summary.actualRows = node['Actual Rows'];
+      summary.loops = loops;
+      summary.selfTimeMs = round(
+        Math.max(
+          0,
+          (node['Actual Total Time'] ?? 0) * loops -
+            children.reduce(
+              (sum, child) =>
+                sum + (child['Actual Total Time'] ?? 0) * (child['Actual Loops'] ?? 1),
+              0
+            )
+        )
+      );
+    }
+    nodes.push(summary);
+
+    const relation = relationName(node);
+    const tableRows = relation !== undefined ? options.tableRows?.[relation] : undefined;
+    if (
+      node['Node Type'] === 'Seq Scan' &&
+      relation &&
+      tableRows !== undefined &&
+      tableRows >= largeTableRows
+    ) {
+      seqScans.push({
+        relation,
+        tableRows,
+        ...(node.Filter && { filter: node.Filter }),
+        ...(node['Rows Removed by Filter'] !== undefined && {
+          rowsRemovedByFilter: node['Rows Removed by Filter'],
+        }),
+      });
+    }
+
+    // Nodes that never ran have nothing to compare with
+    if (summary.actualRows !== undefined && summary.loops) {
+      const factor = misestimate(summary.estimatedRows, summary.actualRows);
+      if (factor >= misestimateFactor) {
+        misestimates.push({
+          nodeType: summary.nodeType,
+          ...(relation && { relation }),
+          estimatedRows: summary.estimatedRows,
+          actualRows: summary.actualRows,
+          factor: round(factor),
+        });
+      }
+    }
+
+    if (node['Sort Space Type'] === 'Disk') {
+      sortSpills.push({
+        sortKey: node['Sort Key'] ?? [],
+        ...(node['Sort Method'] && { method: node['Sort Method'] }),
+        ...(node['Sort Space Used'] !== undefined && { spaceUsedKb: node['Sort Space Used'] }),
+      });
+    }
+  }
+
+  const analyzed = root['Actual Rows'] !== undefined;
+  const expensiveNodes = [...nodes]
+    .sort((a, b) =>
+      analyzed ? (b.selfTimeMs ?? 0) - (a.selfTimeMs ?? 0) : b.selfCost - a.selfCost
+    )
+    .slice(0, options.topNodes ?? DEFAULT_TOP_NODES);
+
+  return {
+    totalCost: root['Total Cost'] ?? 0,
+    estimatedRows: root['Plan Rows'] ?? 0,
+    ...(analyzed && { actualRows: root['Actual Rows'] }),
+    ...(output['Planning Time'] !== undefined && { planningTimeMs: output['Planning Time'] }),
+    ...(output['Execution Time'] !== undefined && { executionTimeMs: output['Execution Time'] }),
+    expensiveNodes,
+    seqScans,
+    misestimates,
+    sortSpills,
+    findings: describeFindings(seqScans, misestimates, sortSpills),
+  };
+}
+
+/**
+ * Format a plan summary as indented text for terminals and text-mode tool output
+ */
+export function formatPlanSummary(summary: PlanSummary): string {
+  const lines: string[] = [];
+  let totals = `Total cost: ${summary.totalCost}, estimated rows: ${summary.estimatedRows}`;
+  if (summary.actualRows !== undefined) {
+    totals += `, actual rows: ${summary.actualRows}`;
+  }
+  lines.push(totals);
+  if (summary.executionTimeMs !== undefined) {
+    lines.push(
+      `Planning: ${summary.planningTimeMs ?? 0}ms, execution: ${summary.executionTimeMs}ms`
+    );
+  }
+
+  lines.push('Most expensive nodes:');
+  for (const node of summary.expensiveNodes) {
+    const target = [
+      node.relation && `on ${node.relation}`,
+      node.index && `using ${node.index}`,
+    ].filter(Boolean);
+    const measure =
+      node.selfTimeMs !== undefined
+        ? `${node.selfTimeMs}ms, rows ${node.actualRows} x ${node.loops} (est. ${node.estimatedRows})`
+        : `cost ${node.selfCost}, rows ${node.estimatedRows}`;
+    lines.push(`  - ${[node.nodeType, ...target].join(' ')}: ${measure}`);
+  }
+
+  if (summary.findings.length > 0) {
+    lines.push('Findings:');
+    lines.push(...summary.findings.map(finding => `  - ${finding}`));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Name of the relation a node reads, schema-qualified when the plan reports schemas
+ */
+export function relationName(node: PlanNode): string | undefined {
+  const name = node['Relation Name'];
+  return name && node.Schema ? `${node.Schema}.${name}` : name;
+}
+
+function* walkPlan(node: PlanNode): Generator<PlanNode> {
+  yield node;
+  for (const child of node.Plans ?? []) {
+    yield* walkPlan(child);
+  }
+}
+
+function misestimate(estimated: number, actual: number): number {
+  const low = Math.max(Math.min(estimated, actual), 1);
+  const high = Math.max(estimated, actual, 1);
+  return high / low;
+}
+
+function describeFindings(
+  seqScans: SeqScanSummary[],
+  misestimates: MisestimateSummary[],
+  sortSpills: SortSpillSummary[]
+): string[] {
+  const findings: string[] = [];
+  for (const scan of seqScans) {
+    findings.push(
+      scan.filter
+        ? `Seq Scan on ${scan.relation} (~${scan.tableRows} rows) filtering ${scan.filter}: an index on the filtered columns may help`
+        : `Seq Scan on ${scan.relation} (~${scan.tableRows} rows) reads the whole table`
+    );
+  }
+  for (const entry of misestimates) {
+    const where = entry.relation ? ` on ${entry.relation}` : '';
+    findings.push(
+      `${entry.nodeType}${where} estimated ${entry.estimatedRows} rows but got ${entry.actualRows}: statistics may be stale, try ANALYZE`
+    );
+  }
+  for (const spill of sortSpills) {
+    const key = spill.sortKey.length > 0 ? ` by ${spill.sortKey.join(', ')}` : '';
+    const size = spill.spaceUsedKb !== undefined ? ` (${spill.spaceUsedKb} kB)` : '';
+    findings.push(`Sort${key} spilled to disk${size}: raise work_mem or sort fewer rows`);
+  }
+  return findings;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
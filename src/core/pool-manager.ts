@@ -1,5 +1,6 @@
 import { Pool, PoolConfig, PoolClient } from 'pg';
 import { logger } from '../utils/logger';
+import { DEFAULT_CONNECTION } from './connections';
 
 export interface PoolManagerConfig {
   connectionString: string;
@@ -8,23 +9,26 @@ export interface PoolManagerConfig {
   connectionTimeoutMillis?: number;
   statementTimeout?: number;
   ssl?: boolean | { rejectUnauthorized: boolean };
+  readOnly?: boolean;
 }
 
 /**
- * Manages a singleton connection pool for the application
+ * Manages one connection pool per named connection for the application
  */
 export class PoolManager {
-  private static instance: PoolManager;
+  private static instances: Map<string, PoolManager> = new Map();
   private pool: Pool | null = null;
   private config: PoolManagerConfig | null = null;
 
   private constructor() {}
 
-  static getInstance(): PoolManager {
-    if (!PoolManager.instance) {
-      PoolManager.instance = new PoolManager();
+  static getInstance(connection: string = DEFAULT_CONNECTION): PoolManager {
+    let instance = PoolManager.instances.get(connection);
+    if (!instance) {
+      instance = new PoolManager();
+      PoolManager.instances.set(connection, instance);
     }
-    return PoolManager.instance;
+    return instance;
   }
 
   /**
@@ -80,8 +84,9 @@ export class PoolManager {
     const pool = this.getPool();
 
     for (let attempt = 0; attempt < maxRetries; attempt++) {
+      let client: PoolClient;
       try {
-        return await pool.connect();
+        client = await pool.connect();
       } catch (error) {
         logger.warn(`Failed to get client (attempt ${attempt + 1}/${maxRetries})`, { error });
 
@@ -92,12 +97,40 @@ export class PoolManager {
         // Simple exponential backoff: 1s, 2s, 4s
         const delay = initialDelay * Math.pow(2, attempt);
         await new Promise(resolve => setTimeout(resolve, delay));
+        continue;
       }
+
+      // Enforce read-only mode on every checkout, so a session can never be left writable
+      if (this.config?.readOnly) {
+        try {
+          await client.query('SET SESSION CHARACTERISTICS AS TRANSACTION READ ONLY');
+        } catch (error) {
+          client.release();
+          throw error;
+        }
+      }
+      return client;
     }
 
     throw new Error('Failed to get client after all retries');
   }
 
+  /**
+   * Enable or disable read-only mode for clients checked out from now on
+   */
+  setReadOnly(readOnly: boolean): void {
+    if (this.config) {
+      this.config = { ...this.config, readOnly };
+    }
+  }
+
+  /**
+   * Check if read-only mode is enabled
+   */
+  isReadOnly(): boolean {
+    return this.config?.readOnly === true;
+  }
+
   /**
    * Check if pool is initialized
    */
@@ -135,6 +168,7 @@ export class PoolManager {
     maxConnections: number;
     idleTimeout: number;
     connectionTimeout: number;
+    readOnly: boolean;
   } {
     const stats = this.getStats();
     return {
@@ -143,6 +177,7 @@ export class PoolManager {
       maxConnections: this.config?.maxConnections || 10,
       idleTimeout: this.config?.idleTimeoutMillis || 10000,
       connectionTimeout: this.config?.connectionTimeoutMillis || 0,
+      readOnly: this.isReadOnly(),
     };
   }
 
@@ -158,12 +193,19 @@ export class PoolManager {
   }
 
   /**
-   * Reset the singleton instance (mainly for testing)
+   * Close the pools of every connection
+   */
+  static async closeAll(): Promise<void> {
+    await Promise.all([...PoolManager.instances.values()].map(instance => instance.close()));
+  }
+
+  /**
+   * Reset every instance (mainly for testing)
    */
   static reset(): void {
-    if (PoolManager.instance) {
-      PoolManager.instance.close();
-      PoolManager.instance = new PoolManager();
+    for (const instance of PoolManager.instances.values()) {
+      instance.close();
     }
+    PoolManager.instances.clear();
   }
 }
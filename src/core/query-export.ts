@@ -0,0 +1,201 @@
+/**
+ * Writing query results to files
+ * Rows arrive from a cursor and are written in chunks as they come, so exports of
+ * any size run in constant memory. Columnar output collects each column in a
+ * temporary file and assembles the document at the end.
+ */
+
+import { promises as fsp, createReadStream } from 'fs';
+import { tmpdir } from 'os';
+import { extname, join } from 'path';
+import { createRowWriter, jsonValue } from '../utils/row-writer';
+import { SqlAgentError } from './errors';
+
+export type ExportFormat = 'csv' | 'ndjson' | 'json' | 'columnar';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'ndjson', 'json', 'columnar'];
+
+export interface ExportOptions {
+  // File to write; relative paths are resolved against the working directory
+  outputPath: string;
+  // Defaults to the format matching the file extension, else csv
+  format?: ExportFormat;
+  timeoutMs?: number;
+}
+
+export interface ExportResult {
+  outputPath: string;
+  format: ExportFormat;
+  rowCount: number;
+  // Size of the written file
+  bytes: number;
+  duration: number;
+}
+
+const EXTENSION_FORMATS: Record<string, ExportFormat> = {
+  '.csv': 'csv',
+  '.ndjson': 'ndjson',
+  '.jsonl': 'ndjson',
+  '.json': 'json',
+};
+
+// Buffered output is written once it grows past this many characters
+const FLUSH_SIZE = 64 * 1024;
+
+/**
+ * Export format for a file: the requested one, else the one its extension implies, else CSV
+ */
+export function resolveExportFormat(outputPath: string, format?: string): ExportFormat {
+  if (format === undefined) {
+    return EXTENSION_FORMATS[extname(outputPath).toLowerCase()] ?? 'csv';
+  }
+  if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+    throw new SqlAgentError(
+      `Unknown export format: ${format}`,
+      'INVALID_EXPORT_FORMAT',
+      `Use one of ${EXPORT_FORMATS.join(', ')}`
+    );
+  }
+  return format as ExportFormat;
+}
+
+/**
+ * Appends text to a file, writing in chunks of about FLUSH_SIZE characters
+ */
+class FileSink {
+  private chunks: string[] = [];
+  private size = 0;
+  private closed = false;
+  bytes = 0;
+
+  private constructor(private handle: fsp.FileHandle) {}
+
+  static async open(path: string): Promise<FileSink> {
+    return new FileSink(await fsp.open(path, 'w'));
+  }
+
+  write(text: string): void {
+    this.chunks.push(text);
+    this.size += text.length;
+  }
+
+  /**
+   * Write the buffered text once enough has accumulated, or always with `force`
+   */
+  async flush(force = false): Promise<void> {
+    if (this.size === 0 || (!force && this.size < FLUSH_SIZE)) {
+      return;
+    }
+    const data = Buffer.from(this.chunks.join(''));
+    this.chunks = [];
+    this.size = 0;
+    await this.handle.write(data);
+    this.bytes += data.length;
+  }
+
+  /**
+   * Copy a file into this one without reading it into memory
+   */
+  async append(path: string): Promise<void> {
+    await this.flush(true);
+    for await (const chunk of createReadStream(path)) {
+      await this.handle.write(chunk as Buffer);
+      this.bytes += (chunk as Buffer).length;
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    try {
+      await this.flush(true);
+    } finally {
+      await this.handle.close();
+    }
+  }
+}
+
+/**
+ * Write rows to a file and return how many were written and the file size.
+ * A partially written file is removed when the rows fail mid-way.
+ */
+export async function writeExport(
+  rows: AsyncIterable<Record<string, unknown>>,
+  outputPath: string,
+  format: ExportFormat
+): Promise<{ rowCount: number; bytes: number }> {
+  const sink = await FileSink.open(outputPath);
+  try {
+    const rowCount =
+      format === 'columnar'
+        ? await writeColumnar(rows, sink)
+        : await writeLines(rows, sink, format);
+    await sink.close();
+    return { rowCount, bytes: sink.bytes };
+  } catch (error) {
+    await sink.close().catch(() => undefined);
+    await fsp.rm(outputPath, { force: true });
+    throw error;
+  }
+}
+
+async function writeLines(
+  rows: AsyncIterable<Record<string, unknown>>,
+  sink: FileSink,
+  format: 'csv' | 'ndjson' | 'json'
+): Promise<number> {
+  const writer = createRowWriter(format, line => sink.write(`${line}\n`));
+  for await (const row of rows) {
+    writer.write(row);
+    await sink.flush();
+  }
+  return writer.end();
+}
+
+/**
+ * `{"columns": [...], "rowCount": n, "data": {"<column>": [values...]}}`, the
+ * column-oriented layout of Parquet and Arrow, as JSON
+ */
+async function writeColumnar(
+  rows: AsyncIterable<Record<string, unknown>>,
+  sink: FileSink
+): Promise<number> {
+  const dir = await fsp.mkdtemp(join(tmpdir(), 'sequelae-export-'));
+  const columnSinks: FileSink[] = [];
+  let columns: string[] = [];
+  let rowCount = 0;
+
+  try {
+    for await (const row of rows) {
+      if (rowCount === 0) {
+        columns = Object.keys(row);
+        for (let index = 0; index < columns.length; index++) {
+          columnSinks.push(await FileSink.open(join(dir, String(index))));
+        }
+      }
+      for (let index = 0; index < columns.length; index++) {
+        const value = JSON.stringify(jsonValue(row[columns[index]])) ?? 'null';
+        columnSinks[index].write(rowCount === 0 ? value : `,${value}`);
+        await columnSinks[index].flush();
+      }
+      rowCount++;
+    }
+    for (const columnSink of columnSinks) {
+      await columnSink.close();
+    }
+
+    sink.write(`{"columns":${JSON.stringify(columns)},"rowCount":${rowCount},"data":{`);
+    for (let index = 0; index < columns.length; index++) {
+      sink.write(`${index > 0 ? ',' : ''}${JSON.stringify(columns[index])}:[`);
+      await sink.append(join(dir, String(index)));
+      sink.write(']');
+    }
+    sink.write('}}\n');
+    return rowCount;
+  } finally {
+    await Promise.all(columnSinks.map(columnSink => columnSink.close().catch(() => undefined)));
+    await fsp.rm(dir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,95 @@
+import { SqlAgentError } from './errors';
+import { tokenize } from './sql-tokenizer';
+
+/**
+ * Bind values for a query: an array for positional `$1..$n` placeholders,
+ * or an object for named `:name` placeholders.
+ */
+export type QueryParams = unknown[] | Record<string, unknown>;
+
+export interface PreparedQuery {
+  text: string;
+  values?: unknown[];
+}
+
+/**
+ * Validate bind values against the placeholders in `sql` and convert named
+ * placeholders to positional ones so they can be passed to pg as real bind values.
+ */
+export function prepareQuery(sql: string, params?: QueryParams): PreparedQuery {
+  if (params === undefined || params === null) {
+    return { text: sql };
+  }
+
+  const tokens = tokenize(sql);
+  const positional = tokens.filter(t => t.type === 'positional_param');
+  const named = tokens.filter(t => t.type === 'named_param');
+
+  if (Array.isArray(params)) {
+    if (named.length > 0) {
+      throw new SqlAgentError(
+        `Query uses named placeholder ${named[0].text} but positional parameters were provided`,
+        'INVALID_PARAMS',
+        'Pass named parameters as an object, or use $1..$n placeholders'
+      );
+    }
+
+    const placeholderCount = positional.reduce(
+      (max, t) => Math.max(max, parseInt(t.text.slice(1), 10)),
+      0
+    );
+    if (placeholderCount !== params.length) {
+      throw new SqlAgentError(
+        `Query expects ${placeholderCount} parameter(s) but ${params.length} were provided`,
+        'INVALID_PARAMS'
+      );
+    }
+
+    return { text: sql, values: params };
+  }
+
+  if (typeof params !== 'object') {
+    throw new SqlAgentError('Parameters must be an array or an object', 'INVALID_PARAMS');
+  }
+
+  if (positional.length > 0) {
+    throw new SqlAgentError(
+      `Query uses positional placeholder ${positional[0].text} but named parameters were provided`,
+      'INVALID_PARAMS',
+      'Pass positional parameters as an array, or use :name placeholders'
+    );
+  }
+
+  const indexes = new Map<string, number>();
+  const values: unknown[] = [];
+  let text = '';
+  let cursor = 0;
+
+  for (const token of named) {
+    const name = token.text.slice(1);
+    if (!Object.prototype.hasOwnProperty.call(params, name)) {
+      throw new SqlAgentError(`Missing value for named parameter :${name}`, 'INVALID_PARAMS');
+    }
+
+    let index = indexes.get(name);
+    if (index === undefined) {
+      values.push(params[name]);
+      index = values.length;
+      indexes.set(name, index);
+    }
+
+    text += sql.slice(cursor, token.start) + `$${index}`;
+    cursor = token.start + token.text.length;
+  }
+  text += sql.slice(cursor);
+
+  const unused = Object.keys(params).filter(name => !indexes.has(name));
+  if (unused.length > 0) {
+    throw new SqlAgentError(
+      `Named parameter(s) not used in query: ${unused.map(n => `:${n}`).join(', ')}`,
+      'INVALID_PARAMS'
+    );
+  }
+
+  return { text, values };
+}
@@ -0,0 +1,729 @@
+/**
+ * Schema introspection
+ * The schema query behind the CLI `schema` command and the sql_schema tool,
+ * and the parsing and text rendering of its result. The query returns one row
+ * per table, view, enum type or missing table, told apart by its `type` column;
+ * indexes, foreign keys and check constraints come from the system catalogs.
+ */
+
+import {
+  exportJsonStructure,
+  JsonbFormat,
+  JsonDocumentStructure,
+  JsonSchema,
+} from '../jsonb-analyzer';
+
+export interface SchemaResult {
+  tables: TableInfo[];
+  missingTables?: MissingTableInfo[];
+  // Views and materialized views
+  views?: ViewInfo[];
+  enums?: EnumInfo[];
+}
+
+export interface TableInfo {
+  schema: string;
+  name: string;
+  comment?: string | null;
+  columns: ColumnInfo[];
+  // One row per key column, as information_schema reports them
+  constraints: ConstraintInfo[];
+  indexes?: IndexInfo[];
+  foreignKeys?: ForeignKeyInfo[];
+  checks?: CheckConstraintInfo[];
+}
+
+export interface ColumnInfo {
+  column_name: string;
+  data_type: string;
+  is_nullable: string;
+  column_default: string | null;
+  character_maximum_length: number | null;
+  // Underlying type name, e.g. `int4`, `_text` for text[] or the name of an enum type
+  udt_name?: string;
+  // Schema of the underlying type, telling apart enum types of the same name
+  udt_schema?: string;
+  is_identity?: string;
+  // ALWAYS or BY DEFAULT for identity columns
+  identity_generation?: string | null;
+  // ALWAYS for generated columns, else NEVER
+  is_generated?: string;
+  generation_expression?: string | null;
+  comment?: string | null;
+  // Inferred structure of a JSONB column: JSON Schema, or Zod, TypeScript or text source
+  jsonbStructure?: JsonSchema | string;
+}
+
+export interface ConstraintInfo {
+  constraint_type: string;
+  constraint_name: string;
+  column_name: string;
+}
+
+export interface IndexInfo {
+  name: string;
+  // Key columns, or expressions for expression indexes
+  columns: string[];
+  // CREATE INDEX statement that recreates the index
+  definition: string;
+  unique: boolean;
+  primary: boolean;
+  // Access method: btree, gin, gist, hash, brin...
+  method: string;
+  // WHERE clause of a partial index
+  predicate: string | null;
+}
+
+export interface ForeignKeyInfo {
+  name: string;
+  columns: string[];
+  referencedSchema: string;
+  referencedTable: string;
+  referencedColumns: string[];
+  onDelete: string;
+  onUpdate: string;
+}
+
+export interface CheckConstraintInfo {
+  name: string;
+  expression: string;
+}
+
+export interface ViewInfo {
+  schema: string;
+  name: string;
+  materialized: boolean;
+  definition: string;
+  comment?: string | null;
+  columns: ColumnInfo[];
+}
+
+export interface EnumInfo {
+  schema: string;
+  name: string;
+  values: string[];
+}
+
+export interface MissingTableInfo {
+  table_name: string;
+  // Closest table and view names in any schema, qualified outside public
+  suggestions: string[];
+  // Columns with the requested name, for names that are columns rather than tables
+  columnMatches?: ColumnMatch[];
+}
+
+export interface ColumnMatch {
+  schema: string;
+  table: string;
+  column: string;
+}
+
+export interface SchemaQuery {
+  text: string;
+  values: unknown[];
+}
+
+/**
+ * Condition on `table_schema`: the public schema, or every schema but the system ones
+ */
+export function buildSchemaCondition(allSchemas: boolean): string {
+  return allSchemas
+    ? "table_schema NOT IN ('pg_catalog', 'information_schema')"
+    : "table_schema = 'public'";
+}
+
+/** json_build_object fields of a column of information_schema.columns `c` */
+const COLUMN_FIELDS = `'column_name', c.column_name,
+              'data_type', c.data_type,
+              'udt_name', c.udt_name,
+              'udt_schema', c.udt_schema,
+              'is_nullable', c.is_nullable,
+              'column_default', c.column_default,
+              'character_maximum_length', c.character_maximum_length,
+              'is_identity', c.is_identity,
+              'identity_generation', c.identity_generation,
+              'is_generated', c.is_generated,
+              'generation_expression', c.generation_expression,
+              'comment', col_description(
+                format('%I.%I', c.table_schema, c.table_name)::regclass,
+                c.ordinal_position
+              )`;
+
+const referentialAction = (column: string): string => `CASE ${column}
+                    WHEN 'a' THEN 'NO ACTION'
+                    WHEN 'r' THEN 'RESTRICT'
+                    WHEN 'c' THEN 'CASCADE'
+                    WHEN 'n' THEN 'SET NULL'
+                    WHEN 'd' THEN 'SET DEFAULT'
+                  END`;
+
+const constraintColumns = (keys: string, relation: string): string => `(
+                    SELECT json_agg(a.attname ORDER BY k.ord)
+                    FROM unnest(${keys}) WITH ORDINALITY AS k(attnum, ord)
+                    JOIN pg_attribute a ON a.attrelid = ${relation} AND a.attnum = k.attnum
+                  )`;
+
+// Requested names split into schema (NULL when not qualified) and table name
+const REQUESTED_TABLES = `
+      requested_tables AS (
+        SELECT
+          requested,
+          CASE
+            WHEN strpos(requested, '.') > 0 THEN lower(split_part(requested, '.', 1))
+          END AS table_schema,
+          lower(CASE
+            WHEN strpos(requested, '.') > 0 THEN substr(requested, strpos(requested, '.') + 1)
+            ELSE requested
+          END) AS table_name
+        FROM unnest($1::text[]) AS requested
+      ),`;
+
+// Comment, indexes, foreign keys and check constraints of every table, as JSON
+const TABLE_DETAILS = `
+      table_details AS (
+        SELECT
+          n.nspname AS table_schema,
+          cl.relname AS table_name,
+          json_build_object(
+            'comment', obj_description(cl.oid, 'pg_class'),
+            'indexes', COALESCE((
+              SELECT json_agg(
+                json_build_object(
+                  'name', ic.relname,
+                  'columns', (
+                    SELECT json_agg(pg_get_indexdef(x.indexrelid, k.ord, true) ORDER BY k.ord)
+                    FROM generate_series(1, x.indnkeyatts) AS k(ord)
+                  ),
+                  'definition', pg_get_indexdef(x.indexrelid),
+                  'unique', x.indisunique,
+                  'primary', x.indisprimary,
+                  'method', am.amname,
+                  'predicate', pg_get_expr(x.indpred, x.indrelid, true)
+                ) ORDER BY ic.relname
+              )
+              FROM pg_index x
+              JOIN pg_class ic ON ic.oid = x.indexrelid
+              JOIN pg_am am ON am.oid = ic.relam
+              WHERE x.indrelid = cl.oid
+            ), '[]'),
+            'foreignKeys', COALESCE((
+              SELECT json_agg(
+                json_build_object(
+                  'name', con.conname,
+                  'columns', ${constraintColumns('con.conkey', 'con.conrelid')},
+                  'referencedSchema', rn.nspname,
+                  'referencedTable', rc.relname,
+                  'referencedColumns', ${constraintColumns('con.confkey', 'con.confrelid')},
+                  'onDelete', ${referentialAction('con.confdeltype')},
+                  'onUpdate', ${referentialAction('con.confupdtype')}
+                ) ORDER BY con.conname
+              )
+              FROM pg_constraint con
+              JOIN pg_class rc ON rc.oid = con.confrelid
+              JOIN pg_namespace rn ON rn.oid = rc.relnamespace
+              WHERE con.conrelid = cl.oid AND con.contype = 'f'
+            ), '[]'),
+            'checks', COALESCE((
+              SELECT json_agg(
+                json_build_object(
+                  'name', con.conname,
+                  'expression', pg_get_expr(con.conbin, con.conrelid, true)
+                ) ORDER BY con.conname
+              )
+              FROM pg_constraint con
+              WHERE con.conrelid = cl.oid AND con.contype = 'c'
+            ), '[]')
+          )::text AS details
+        FROM pg_class cl
+        JOIN pg_namespace n ON n.oid = cl.relnamespace
+        WHERE cl.relkind IN ('r', 'p')
+      ),`;
+
+// Views and materialized views with their columns, shaped like information_schema.columns
+const VIEW_COLUMNS = `(
+            SELECT json_agg(
+              json_build_object(
+                'column_name', a.attname,
+                'data_type', CASE
+                  WHEN t.typcategory = 'A' THEN 'ARRAY'
+                  WHEN t.typtype IN ('e', 'c') THEN 'USER-DEFINED'
+                  ELSE format_type(a.atttypid, NULL)
+                END,
+                'udt_name', t.typname,
+                'udt_schema', tn.nspname,
+                'is_nullable', CASE WHEN a.attnotnull THEN 'NO' ELSE 'YES' END,
+                'column_default', NULL,
+                'character_maximum_length', CASE
+                  WHEN t.typname IN ('varchar', 'bpchar') AND a.atttypmod > 4 THEN a.atttypmod - 4
+                END,
+                'comment', col_description(v.oid, a.attnum)
+              ) ORDER BY a.attnum
+            )
+            FROM pg_attribute a
+            JOIN pg_type t ON t.oid = a.atttypid
+            JOIN pg_namespace tn ON tn.oid = t.typnamespace
+            WHERE a.attrelid = v.oid AND a.attnum > 0 AND NOT a.attisdropped
+          )`;
+
+/**
+ * The schema query, shared by the CLI and MCP. Without `tables` it covers every
+ * table, view and enum type in scope (the public schema, or all schemas with
+ * `allSchemas`). Requested names are bound as `$1::text[]`: a bare name is looked
+ * up in the schemas in scope, `schema.table` in its schema, both ignoring case.
+ * Enum types are then limited to those the requested tables use, and names matching
+ * nothing come back as missing tables, with the table, view and column names of
+ * every schema to suggest from.
+ */
+export function buildSchemaQuery(tables: string[] | undefined, allSchemas: boolean): SchemaQuery {
+  const requested = tables !== undefined && tables.length > 0;
+  const condition = buildSchemaCondition(allSchemas);
+  // Whether relation `alias` is in scope or, with requested tables, named by one of them
+  const selected = (alias: string): string =>
+    requested
+      ? `EXISTS (
+            SELECT 1 FROM requested_tables rt
+            WHERE lower(${alias}.table_name) = rt.table_name
+              AND (lower(${alias}.table_schema) = rt.table_schema
+                OR rt.table_schema IS NULL AND ${alias}.${condition})
+          )`
+      : `${alias}.${condition}`;
+  const enumFilter = requested
+    ? `(e.table_schema, e.table_name) IN (
+            SELECT col->>'udt_schema', ltrim(col->>'udt_name', '_')
+            FROM (
+              SELECT columns FROM table_info
+              UNION ALL
+              SELECT columns FROM view_info
+            ) used,
+            json_array_elements(used.columns::json) AS col
+          )`
+    : `e.${condition}`;
+
+  const missing = requested
+    ? `
+      UNION ALL
+      SELECT 
+        'missing' as type,
+        NULL as table_schema,
+        NULL as table_name,
+        NULL as columns,
+        NULL as constraints,
+        NULL as details,
+        mt.missing_table,
+        json_build_object(
+          'relations', (
+            SELECT json_agg(json_build_object('schema', rn.table_schema, 'name', rn.table_name))
+            FROM relation_names rn
+          ),
+          'columns', (
+            SELECT json_agg(
+              json_build_object('schema', c.table_schema, 'table', c.table_name, 'column', c.column_name)
+              ORDER BY c.table_schema, c.table_name
+            )
+            FROM information_schema.columns c
+            WHERE lower(c.column_name) = mt.table_name
+              AND c.table_schema NOT IN ('pg_catalog', 'information_schema')
+              AND (mt.table_schema IS NULL
+                OR lower(c.table_schema) = mt.table_schema
+                OR lower(c.table_name) = mt.table_schema)
+          )
+        )::text as suggestions
+      FROM missing_tables mt`
+    : '';
+
+  const text = `
+      WITH${requested ? REQUESTED_TABLES : ''}
+      table_info AS (
+        SELECT 
+          t.table_schema,
+          t.table_name,
+          json_agg(
+            json_build_object(
+              ${COLUMN_FIELDS}
+            ) ORDER BY c.ordinal_position
+          )::text as columns
+        FROM information_schema.tables t
+        JOIN information_schema.columns c 
+          ON t.table_schema = c.table_schema 
+          AND t.table_name = c.table_name
+        WHERE t.table_type = 'BASE TABLE'
+          AND ${selected('t')}
+        GROUP BY t.table_schema, t.table_name
+      ),
+      constraint_info AS (
+        SELECT 
+          tc.table_schema,
+          tc.table_name,
+          json_agg(
+            json_build_object(
+              'constraint_name', tc.constraint_name,
+              'constraint_type', tc.constraint_type,
+              'column_name', kcu.column_name
+            )
+          )::text as constraints
+        FROM information_schema.table_constraints tc
+        JOIN information_schema.key_column_usage kcu
+          ON tc.constraint_name = kcu.constraint_name
+          AND tc.table_schema = kcu.table_schema
+          AND tc.table_name = kcu.table_name
+        JOIN table_info ti
+          ON ti.table_schema = tc.table_schema
+          AND ti.table_name = tc.table_name
+        GROUP BY tc.table_schema, tc.table_name
+      ),${TABLE_DETAILS}
+      view_info AS (
+        SELECT
+          v.table_schema,
+          v.table_name,
+          ${VIEW_COLUMNS}::text AS columns,
+          json_build_object(
+            'materialized', v.relkind = 'm',
+            'definition', pg_get_viewdef(v.oid, true),
+            'comment', obj_description(v.oid, 'pg_class')
+          )::text AS details
+        FROM (
+          SELECT n.nspname AS table_schema, c.relname AS table_name, c.oid, c.relkind
+          FROM pg_class c
+          JOIN pg_namespace n ON n.oid = c.relnamespace
+        ) v
+        WHERE v.relkind IN ('v', 'm')
+          AND ${selected('v')}
+      ),
+      enum_info AS (
+        SELECT
+          e.table_schema,
+          e.table_name,
+          json_build_object(
+            'values', (
+              SELECT json_agg(en.enumlabel ORDER BY en.enumsortorder)
+              FROM pg_enum en
+              WHERE en.enumtypid = e.oid
+            )
+          )::text AS details
+        FROM (
+          SELECT n.nspname AS table_schema, t.typname AS table_name, t.oid, t.typtype
+          FROM pg_type t
+          JOIN pg_namespace n ON n.oid = t.typnamespace
+        ) e
+        WHERE e.typtype = 'e'
+          AND ${enumFilter}
+      )${
+        requested
+          ? `,
+      missing_tables AS (
+        SELECT rt.requested as missing_table, rt.table_schema, rt.table_name
+        FROM requested_tables rt
+        WHERE NOT EXISTS (
+          SELECT 1
+          FROM (
+            SELECT table_schema, table_name FROM table_info
+            UNION ALL
+            SELECT table_schema, table_name FROM view_info
+          ) f
+          WHERE lower(f.table_name) = rt.table_name
+            AND (rt.table_schema IS NULL OR lower(f.table_schema) = rt.table_schema)
+        )
+      ),
+      relation_names AS (
+        SELECT n.nspname AS table_schema, c.relname AS table_name
+        FROM pg_class c
+        JOIN pg_namespace n ON n.oid = c.relnamespace
+        WHERE c.relkind IN ('r', 'p', 'v', 'm', 'f')
+          AND n.nspname !~ '^pg_'
+          AND n.nspname <> 'information_schema'
+      )`
+          : ''
+      }
+      SELECT 
+        'found' as type,
+        ti.table_schema,
+        ti.table_name,
+        ti.columns,
+        COALESCE(ci.constraints, '[]') as constraints,
+        COALESCE(td.details, '{}') as details,
+        NULL as missing_table,
+        NULL as suggestions
+      FROM table_info ti
+      LEFT JOIN constraint_info ci
+        ON ti.table_schema = ci.table_schema
+        AND ti.table_name = ci.table_name
+      LEFT JOIN table_details td
+        ON ti.table_schema = td.table_schema
+        AND ti.table_name = td.table_name
+      UNION ALL
+      SELECT
+        'view' as type,
+        vi.table_schema,
+        vi.table_name,
+        COALESCE(vi.columns, '[]') as columns,
+        '[]' as constraints,
+        vi.details,
+        NULL as missing_table,
+        NULL as suggestions
+      FROM view_info vi
+      UNION ALL
+      SELECT
+        'enum' as type,
+        ei.table_schema,
+        ei.table_name,
+        NULL as columns,
+        NULL as constraints,
+        ei.details,
+        NULL as missing_table,
+        NULL as suggestions
+      FROM enum_info ei${missing}
+      ORDER BY type, table_schema, table_name;
+    `;
+
+  return { text, values: requested ? [tables] : [] };
+}
+
+/**
+ * `schema.name`, or just `name` in the public schema
+ */
+export function qualifiedName(schema: string, name: string): string {
+  return schema === 'public' ? name : `${schema}.${name}`;
+}
+
+/**
+ * Column matches of a missing table as `table.column`, qualified outside public
+ */
+export function formatColumnMatches(matches: ColumnMatch[]): string {
+  return matches
+    .map(match => `${qualifiedName(match.schema, match.table)}.${match.column}`)
+    .join(', ');
+}
+
+/**
+ * Levenshtein distance between two strings
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * The relations closest to a missing name, by edit distance of their names ignoring
+ * case. Names within a third of their length of it qualify, as do names containing
+ * it or sharing its first three characters; a relation outside the requested schema
+ * counts one edit further away.
+ */
+export function suggestRelations(
+  requested: string,
+  relations: { schema: string; name: string }[],
+  limit = 3
+): string[] {
+  const dot = requested.indexOf('.');
+  const wantedSchema = dot > 0 ? requested.slice(0, dot).toLowerCase() : undefined;
+  const wanted = requested.slice(dot + 1).toLowerCase();
+  const maxDistance = Math.max(2, Math.floor(wanted.length / 3));
+
+  return relations
+    .map(relation => {
+      const name = relation.name.toLowerCase();
+      const distance =
+        editDistance(wanted, name) +
+        (wantedSchema !== undefined && relation.schema.toLowerCase() !== wantedSchema ? 1 : 0);
+      const related =
+        wanted.length >= 3 &&
+        (name.includes(wanted) || wanted.includes(name) || name.startsWith(wanted.slice(0, 3)));
+      return { relation, distance, matches: distance <= maxDistance || related };
+    })
+    .filter(candidate => candidate.matches)
+    .sort(
+      (a, b) =>
+        a.distance - b.distance ||
+        a.relation.name.length - b.relation.name.length ||
+        qualifiedName(a.relation.schema, a.relation.name).localeCompare(
+          qualifiedName(b.relation.schema, b.relation.name)
+        )
+    )
+    .slice(0, limit)
+    .map(({ relation }) => qualifiedName(relation.schema, relation.name));
+}
+
+/**
+ * Turn the rows of the schema query into tables, views, enum types and missing tables
+ */
+export function parseSchemaRows(rows: Record<string, unknown>[]): SchemaResult {
+  const tables: TableInfo[] = [];
+  const views: ViewInfo[] = [];
+  const enums: EnumInfo[] = [];
+  const missingTables: MissingTableInfo[] = [];
+
+  for (const row of rows) {
+    const details = row.details ? JSON.parse(row.details as string) : {};
+    if (row.type === 'found') {
+      tables.push({
+        schema: row.table_schema as string,
+        name: row.table_name as string,
+        ...(details.comment && { comment: details.comment }),
+        columns: JSON.parse(row.columns as string),
+        constraints: JSON.parse(row.constraints as string),
+        indexes: details.indexes ?? [],
+        foreignKeys: details.foreignKeys ?? [],
+        checks: details.checks ?? [],
+      });
+    } else if (row.type === 'view') {
+      views.push({
+        schema: row.table_schema as string,
+        name: row.table_name as string,
+        materialized: details.materialized === true,
+        definition: details.definition ?? '',
+        ...(details.comment && { comment: details.comment }),
+        columns: JSON.parse(row.columns as string),
+      });
+    } else if (row.type === 'enum') {
+      enums.push({
+        schema: row.table_schema as string,
+        name: row.table_name as string,
+        values: details.values ?? [],
+      });
+    } else if (row.type === 'missing') {
+      const candidates = row.suggestions ? JSON.parse(row.suggestions as string) : {};
+      const columnMatches: ColumnMatch[] = candidates.columns ?? [];
+      missingTables.push({
+        table_name: row.missing_table as string,
+        suggestions: suggestRelations(row.missing_table as string, candidates.relations ?? []),
+        ...(columnMatches.length > 0 && { columnMatches }),
+      });
+    }
+  }
+
+  return {
+    tables,
+    ...(missingTables.length > 0 && { missingTables }),
+    ...(views.length > 0 && { views }),
+    ...(enums.length > 0 && { enums }),
+  };
+}
+
+/**
+ * Copy of a schema result with `jsonbStructure` set on the JSONB columns that have
+ * an inferred structure (keyed by `schema.table.column`)
+ */
+export function withJsonbStructures(
+  schema: SchemaResult,
+  structures: Record<string, JsonDocumentStructure>,
+  format: JsonbFormat
+): SchemaResult {
+  return {
+    ...schema,
+    tables: schema.tables.map(table => ({
+      ...table,
+      columns: table.columns.map(column => {
+        const structure = structures[`${table.schema}.${table.name}.${column.column_name}`];
+        return structure
+          ? { ...column, jsonbStructure: exportJsonStructure(structure, format) }
+          : column;
+      }),
+    })),
+  };
+}
+
+/**
+ * Lines showing the inferred structure of a column under its column line. Text
+ * structures come indented already; the other formats are indented here.
+ */
+export function formatJsonbStructure(column: ColumnInfo, format: JsonbFormat): string[] {
+  if (column.jsonbStructure === undefined) {
+    return [];
+  }
+  const text =
+    typeof column.jsonbStructure === 'string'
+      ? column.jsonbStructure
+      : JSON.stringify(column.jsonbStructure, null, 2);
+  const lines = format === 'text' ? [text] : text.split('\n').map(line => `        ${line}`);
+  return [`      Structure of ${column.column_name}:`, ...lines];
+}
+
+/**
+ * One line for a column: name, type, nullability, default or generation, and comment
+ */
+export function formatColumn(column: ColumnInfo): string {
+  const nullable = column.is_nullable === 'YES' ? ' (nullable)' : '';
+  const dataType = column.character_maximum_length
+    ? `${column.data_type}(${column.character_maximum_length})`
+    : column.data_type;
+  let extra = column.column_default ? ` DEFAULT ${column.column_default}` : '';
+  if (column.is_identity === 'YES') {
+    extra = ` GENERATED ${column.identity_generation} AS IDENTITY`;
+  } else if (column.is_generated === 'ALWAYS') {
+    extra = ` GENERATED ALWAYS AS (${column.generation_expression}) STORED`;
+  }
+  const comment = column.comment ? ` -- ${column.comment}` : '';
+  return `    - ${column.column_name}: ${dataType}${nullable}${extra}${comment}`;
+}
+
+/**
+ * Indented lines for the indexes, foreign keys and check constraints of a table
+ */
+export function formatTableDetails(table: TableInfo): string[] {
+  const lines: string[] = [];
+  if (table.indexes && table.indexes.length > 0) {
+    lines.push('  Indexes:');
+    for (const index of table.indexes) {
+      const kind = index.primary ? 'PRIMARY KEY ' : index.unique ? 'UNIQUE ' : '';
+      const where = index.predicate ? ` WHERE ${index.predicate}` : '';
+      lines.push(
+        `    - ${index.name}: ${kind}${index.method} (${index.columns.join(', ')})${where}`
+      );
+    }
+  }
+  if (table.foreignKeys && table.foreignKeys.length > 0) {
+    lines.push('  Foreign keys:');
+    for (const key of table.foreignKeys) {
+      const actions = [
+        key.onDelete !== 'NO ACTION' ? ` ON DELETE ${key.onDelete}` : '',
+        key.onUpdate !== 'NO ACTION' ? ` ON UPDATE ${key.onUpdate}` : '',
+      ].join('');
+      lines.push(
+        `    - ${key.name}: (${key.columns.join(', ')}) -> ` +
+          `${key.referencedSchema}.${key.referencedTable} (${key.referencedColumns.join(', ')})${actions}`
+      );
+    }
+  }
+  if (table.checks && table.checks.length > 0) {
+    lines.push('  Checks:');
+    for (const check of table.checks) {
+      lines.push(`    - ${check.name}: ${check.expression}`);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Lines for the views and enum types of a schema result
+ */
+export function formatViewsAndEnums(result: SchemaResult): string[] {
+  const lines: string[] = [];
+  for (const view of result.views ?? []) {
+    const kind = view.materialized ? 'materialized view' : 'view';
+    lines.push(`👁  ${view.schema}.${view.name} (${kind})`);
+    if (view.comment) {
+      lines.push(`  ${view.comment}`);
+    }
+    lines.push('  Columns:');
+    lines.push(...view.columns.map(formatColumn));
+    lines.push('');
+  }
+  if (result.enums && result.enums.length > 0) {
+    lines.push('🏷  ENUM TYPES:');
+    for (const type of result.enums) {
+      lines.push(`  - ${type.schema}.${type.name}: ${type.values.join(' | ')}`);
+    }
+    lines.push('');
+  }
+  return lines;
+}
@@ -0,0 +1,803 @@
+/**
+ * SQL statement classifier
+ * Labels each statement with what it does to the database (read, write, DDL, ...)
+ * and which relations it touches, using the tokenizer so comments, dollar quoting
+ * and CTEs such as `WITH x AS (DELETE ...)` are handled correctly.
+ */
+
+import { SqlStatement, SqlToken, splitStatements } from './sql-tokenizer';
+
+export type StatementCategory =
+  | 'read'
+  | 'write'
+  | 'ddl'
+  | 'transaction'
+  | 'privileged'
+  | 'session'
+  | 'maintenance'
+  | 'unknown';
+
+export const STATEMENT_CATEGORIES: StatementCategory[] = [
+  'read',
+  'write',
+  'ddl',
+  'transaction',
+  'privileged',
+  'session',
+  'maintenance',
+  'unknown',
+];
+
+export interface TableReference {
+  /** Schema as written in the statement; undefined when the name is unqualified */
+  schema?: string;
+  name: string;
+  /** Whether the statement modifies or defines this relation rather than only reading it */
+  target: boolean;
+}
+
+export interface ClassifiedStatement {
+  text: string;
+  /** Offset of the statement in the original SQL */
+  start: number;
+  /** Leading command, e.g. `SELECT`, `DELETE` or `CREATE TABLE` (the main command for WITH queries) */
+  command: string;
+  category: StatementCategory;
+  tables: TableReference[];
+  /** Why the statement destroys data or objects, e.g. `DELETE without WHERE`; undefined otherwise */
+  destructive?: string;
+  /** Columns removed by `ALTER TABLE ... DROP COLUMN` */
+  droppedColumns?: string[];
+  /** PostgreSQL refuses to run the statement inside a transaction block, e.g. `VACUUM` */
+  noTransactionBlock?: boolean;
+  /** Functions called whose effects a rollback does not undo, e.g. `nextval` */
+  nonTransactionalCalls?: string[];
+}
+
+// Categories that can be raised by what a statement contains, least to most powerful
+const ESCALATION_RANK: Partial<Record<StatementCategory, number>> = {
+  read: 0,
+  write: 1,
+  ddl: 2,
+  privileged: 3,
+};
+
+const QUERY_STARTERS = new Set([
+  'SELECT',
+  'VALUES',
+  'TABLE',
+  'WITH',
+  'INSERT',
+  'UPDATE',
+  'DELETE',
+  'MERGE',
+]);
+const DML_COMMANDS = new Set(['INSERT', 'UPDATE', 'DELETE', 'MERGE']);
+
+// Statements whose own clauses can reference relations through FROM / JOIN
+const QUERY_COMMANDS = new Set([...QUERY_STARTERS, 'CREATE', 'DECLARE']);
+
+// Keywords that end a FROM list
+const FROM_LIST_TERMINATORS = new Set([
+  'WHERE',
+  'GROUP',
+  'HAVING',
+  'ORDER',
+  'LIMIT',
+  'OFFSET',
+  'WINDOW',
+  'UNION',
+  'INTERSECT',
+  'EXCEPT',
+  'RETURNING',
+  'FOR',
+  'FETCH',
+  'SELECT',
+  'VALUES',
+  'SET',
+  'ON',
+  'WHEN',
+]);
+
+const TRANSACTION_COMMANDS = new Set([
+  'BEGIN',
+  'START',
+  'COMMIT',
+  'END',
+  'ROLLBACK',
+  'ABORT',
+  'SAVEPOINT',
+  'RELEASE',
+]);
+const SESSION_COMMANDS = new Set([
+  'SET',
+  'RESET',
+  'DISCARD',
+  'LISTEN',
+  'UNLISTEN',
+  'NOTIFY',
+  'PREPARE',
+  'DEALLOCATE',
+]);
+const MAINTENANCE_COMMANDS = new Set(['VACUUM', 'ANALYZE', 'ANALYSE', 'REINDEX', 'CLUSTER']);
+const PRIVILEGED_COMMANDS = new Set([
+  'GRANT',
+  'REVOKE',
+  'REASSIGN',
+  'SECURITY',
+  'LOAD',
+  'CHECKPOINT',
+]);
+const DDL_COMMANDS = new Set(['CREATE', 'ALTER', 'DROP', 'COMMENT', 'REFRESH', 'IMPORT']);
+
+// Object types whose creation or change needs elevated privileges
+const PRIVILEGED_OBJECTS = new Set([
+  'ROLE',
+  'USER',
+  'GROUP',
+  'DATABASE',
+  'TABLESPACE',
+  'SUBSCRIPTION',
+  'SYSTEM',
+  'LANGUAGE',
+  'EVENT TRIGGER',
+  'DEFAULT PRIVILEGES',
+  'OWNED',
+]);
+// Words that may precede the object type in CREATE / ALTER / DROP
+const OBJECT_MODIFIERS = new Set([
+  'OR',
+  'REPLACE',
+  'TEMP',
+  'TEMPORARY',
+  'UNLOGGED',
+  'GLOBAL',
+  'LOCAL',
+  'UNIQUE',
+  'RECURSIVE',
+  'TRUSTED',
+  'PROCEDURAL',
+  'CONSTRAINT',
+]);
+// First words of two-word object types
+const COMPOUND_OBJECTS = new Set(['MATERIALIZED', 'FOREIGN', 'EVENT', 'DEFAULT']);
+// Object types whose names are relations
+const RELATION_OBJECTS = new Set([
+  'TABLE',
+  'VIEW',
+  'MATERIALIZED VIEW',
+  'FOREIGN TABLE',
+  'SEQUENCE',
+  'INDEX',
+]);
+const NAME_PREFIXES = new Set(['IF', 'NOT', 'EXISTS', 'ONLY', 'CONCURRENTLY', 'TABLE', 'LATERAL']);
+
+// Functions with side effects outside the current statement
+const WRITE_FUNCTIONS = new Set(['nextval', 'setval']);
+const PRIVILEGED_FUNCTIONS = new Set([
+  'pg_terminate_backend',
+  'pg_cancel_backend',
+  'pg_reload_conf',
+  'pg_rotate_logfile',
+  'pg_switch_wal',
+  'pg_promote',
+  'pg_read_file',
+  'pg_read_binary_file',
+  'pg_ls_dir',
+  'pg_stat_file',
+  'lo_import',
+  'lo_export',
+  'dblink',
+  'dblink_exec',
+]);
+
+// Settings that set_config() switches roles with
+const ROLE_SETTINGS = new Set(['role', 'session_authorization']);
+
+// Functions whose effects survive a rollback of the transaction that called them
+const NON_TRANSACTIONAL_FUNCTIONS = new Set([
+  'nextval',
+  'setval',
+  'dblink',
+  'dblink_exec',
+  'lo_export',
+  'pg_terminate_backend',
+  'pg_cancel_backend',
+]);
+
+// Commands that cannot run inside a transaction block
+const NO_TRANSACTION_BLOCK_COMMANDS = new Set([
+  'VACUUM',
+  'CREATE DATABASE',
+  'DROP DATABASE',
+  'CREATE TABLESPACE',
+  'DROP TABLESPACE',
+  'ALTER SYSTEM',
+]);
+
+// Transaction statements that work inside an open transaction block
+const IN_TRANSACTION_COMMANDS = new Set([
+  'SAVEPOINT',
+  'RELEASE',
+  'ROLLBACK TO',
+  'SET TRANSACTION',
+  'SET CONSTRAINTS',
+]);
+
+/**
+ * Whether the statement opens or ends a transaction block, so it must not be
+ * wrapped in one
+ */
+export function controlsTransaction(statement: ClassifiedStatement): boolean {
+  return statement.category === 'transaction' && !IN_TRANSACTION_COMMANDS.has(statement.command);
+}
+
+/**
+ * Split a script and classify every statement in it
+ */
+export function classifySql(sql: string): ClassifiedStatement[] {
+  return splitStatements(sql).map(classifyStatement);
+}
+
+/**
+ * Classify a single statement produced by `splitStatements`
+ */
+export function classifyStatement(statement: SqlStatement): ClassifiedStatement {
+  const result = classifyTokens(statement.tokens);
+  return { text: statement.text, start: statement.start, ...result };
+}
+
+interface Classification {
+  command: string;
+  category: StatementCategory;
+  tables: TableReference[];
+  destructive?: string;
+  droppedColumns?: string[];
+  noTransactionBlock?: boolean;
+  nonTransactionalCalls?: string[];
+}
+
+function classifyTokens(tokens: SqlToken[]): Classification {
+  let i = 0;
+  while (tokens[i]?.text === '(') i++;
+
+  const verb = keyword(tokens[i]);
+  const second = keyword(tokens[i + 1]);
+  const roleSwitch = verb === 'SET' ? readRoleSwitch(tokens, i + 1) : undefined;
+  const tables: TableReference[] = [];
+  let command = verb;
+  let category: StatementCategory = 'unknown';
+  let scanFrom = i;
+  let destructive: string | undefined;
+  let droppedColumns: string[] | undefined;
+
+  if (verb === 'EXPLAIN') {
+    return classifyExplain(tokens, i + 1);
+  } else if (QUERY_STARTERS.has(verb) || verb === 'DECLARE') {
+    category = DML_COMMANDS.has(verb) ? 'write' : 'read';
+  } else if (verb === 'SHOW' || verb === 'FETCH' || verb === 'MOVE' || verb === 'CLOSE') {
+    category = 'read';
+  } else if (verb === 'COPY') {
+    return classifyCopy(tokens, i + 1);
+  } else if (DDL_COMMANDS.has(verb)) {
+    const head = readObjectType(tokens, i + 1);
+    command = head.objectType ? `${verb} ${head.objectType}` : verb;
+    category = PRIVILEGED_OBJECTS.has(head.objectType) ? 'privileged' : 'ddl';
+    scanFrom = readDdlTargets(tokens, head.next, verb, head.objectType, tables);
+    if (verb === 'DROP') {
+      destructive = command;
+    } else if (verb === 'ALTER' && head.objectType === 'TABLE') {
+      droppedColumns = readDroppedColumns(tokens, scanFrom);
+      destructive = droppedColumns.length > 0 ? 'ALTER TABLE ... DROP COLUMN' : undefined;
+    }
+  } else if (verb === 'TRUNCATE' || verb === 'LOCK') {
+    category = 'write';
+    scanFrom = readNameList(tokens, i + 1, true, tables);
+    destructive = verb === 'TRUNCATE' ? verb : undefined;
+  } else if (verb === 'CALL' || verb === 'DO') {
+    // Procedures and anonymous blocks can do anything their owner can
+    category = 'write';
+  } else if (verb === 'PREPARE' && second === 'TRANSACTION') {
+    command = 'PREPARE TRANSACTION';
+    category = 'transaction';
+  } else if ((verb === 'COMMIT' || verb === 'ROLLBACK') && second === 'PREPARED') {
+    command = `${verb} PREPARED`;
+    category = 'transaction';
+  } else if (verb === 'ROLLBACK' && second === 'TO') {
+    command = 'ROLLBACK TO';
+    category = 'transaction';
+  } else if (TRANSACTION_COMMANDS.has(verb)) {
+    category = 'transaction';
+  } else if (verb === 'SET' && (second === 'TRANSACTION' || second === 'CONSTRAINTS')) {
+    command = `SET ${second}`;
+    category = 'transaction';
+  } else if (roleSwitch) {
+    command = roleSwitch;
+    category = 'privileged';
+  } else if (SESSION_COMMANDS.has(verb)) {
+    category = 'session';
+  } else if (MAINTENANCE_COMMANDS.has(verb)) {
+    category = 'maintenance';
+    scanFrom = readMaintenanceTargets(tokens, i + 1, tables);
+  } else if (PRIVILEGED_COMMANDS.has(verb)) {
+    category = 'privileged';
+  }
+
+  const noTransactionBlock = runsOutsideTransaction(command, tokens, i);
+  if (category === 'unknown' || category === 'privileged' || !command) {
+    return {
+      command: command || 'UNKNOWN',
+      category,
+      tables,
+      ...(destructive && { destructive }),
+      ...(noTransactionBlock && { noTransactionBlock }),
+    };
+  }
+
+  const scan = scanRelations(tokens, scanFrom, QUERY_COMMANDS.has(verb));
+  if (verb === 'WITH' && scan.mainCommand) {
+    command = scan.mainCommand;
+  }
+  destructive = destructive ?? (scan.unfilteredDelete ? 'DELETE without WHERE' : undefined);
+  return {
+    command,
+    category: escalate(category, scan.escalation),
+    tables: [...tables, ...scan.tables],
+    ...(destructive && { destructive }),
+    ...(droppedColumns && droppedColumns.length > 0 && { droppedColumns }),
+    ...(noTransactionBlock && { noTransactionBlock }),
+    ...(scan.nonTransactionalCalls.length > 0 && {
+      nonTransactionalCalls: scan.nonTransactionalCalls,
+    }),
+  };
+}
+
+/**
+ * Whether PostgreSQL refuses to run the statement inside a transaction block
+ */
+function runsOutsideTransaction(command: string, tokens: SqlToken[], start: number): boolean {
+  if (NO_TRANSACTION_BLOCK_COMMANDS.has(command)) {
+    return true;
+  }
+  // CONCURRENTLY and the REINDEX scope appear within the first few words
+  const head = tokens.slice(start, start + 6).map(keyword);
+  if (command === 'CREATE INDEX' || command === 'DROP INDEX') {
+    return head.includes('CONCURRENTLY');
+  }
+  if (command === 'REINDEX') {
+    return ['CONCURRENTLY', 'SYSTEM', 'DATABASE'].some(word => head.includes(word));
+  }
+  return false;
+}
+
+/**
+ * Columns dropped by the actions of an ALTER TABLE statement. `COLUMN` is optional
+ * in `DROP [COLUMN] name`, so any DROP action other than a constraint drops a column.
+ */
+function readDroppedColumns(tokens: SqlToken[], start: number): string[] {
+  const columns: string[] = [];
+  let depth = 0;
+  let actionStart = true;
+
+  for (let i = start; i < tokens.length; i++) {
+    const text = tokens[i].text;
+    if (text === '(') depth++;
+    if (text === ')') depth--;
+    if (depth > 0) continue;
+
+    if (actionStart && keyword(tokens[i]) === 'DROP' && keyword(tokens[i + 1]) !== 'CONSTRAINT') {
+      let j = i + 1;
+      while (['COLUMN', 'IF', 'EXISTS'].includes(keyword(tokens[j]))) j++;
+      if (tokens[j]?.type === 'word' || tokens[j]?.type === 'quoted_identifier') {
+        columns.push(identifierValue(tokens[j]));
+      }
+    }
+    actionStart = text === ',';
+  }
+  return columns;
+}
+
+/**
+ * `EXPLAIN` only runs the statement when ANALYZE is on
+ */
+function classifyExplain(tokens: SqlToken[], start: number): Classification {
+  let i = start;
+  let analyze = false;
+
+  if (tokens[i]?.text === '(') {
+    const close = findClosingParen(tokens, i);
+    for (let j = i + 1; j < close; j++) {
+      const word = keyword(tokens[j]);
+      if (word === 'ANALYZE' || word === 'ANALYSE') {
+        const value = tokens[j + 1]?.text.toUpperCase() ?? '';
+        analyze = !['FALSE', 'OFF', '0'].includes(value);
+      }
+    }
+    i = close + 1;
+  } else {
+    while (['ANALYZE', 'ANALYSE', 'VERBOSE'].includes(keyword(tokens[i]))) {
+      if (keyword(tokens[i]) !== 'VERBOSE') analyze = true;
+      i++;
+    }
+  }
+
+  const inner = classifyTokens(tokens.slice(i));
+  if (analyze) {
+    return { ...inner, command: 'EXPLAIN' };
+  }
+  return {
+    command: 'EXPLAIN',
+    category: 'read',
+    tables: inner.tables.map(table => ({ ...table, target: false })),
+  };
+}
+
+/**
+ * `COPY ... FROM STDIN` writes, `COPY ... TO STDOUT` reads, and server-side
+ * files or programs need elevated privileges
+ */
+function classifyCopy(tokens: SqlToken[], start: number): Classification {
+  const tables: TableReference[] = [];
+  let i = start;
+  let escalation: StatementCategory = 'read';
+
+  if (tokens[i]?.text === '(') {
+    const close = findClosingParen(tokens, i);
+    const inner = scanRelations(tokens.slice(i + 1, close), 0, true);
+    tables.push(...inner.tables);
+    escalation = inner.escalation;
+    i = close + 1;
+  } else {
+    const { ref, next } = readName(tokens, i, true);
+    i = next;
+    if (tokens[i]?.text === '(') i = findClosingParen(tokens, i) + 1;
+    if (ref) tables.push({ ...ref, target: keyword(tokens[i]) === 'FROM' });
+  }
+
+  const direction = keyword(tokens[i]);
+  const source = tokens[i + 1];
+  const category: StatementCategory =
+    source?.type === 'string' || keyword(source) === 'PROGRAM'
+      ? 'privileged'
+      : direction === 'FROM'
+        ? 'write'
+        : 'read';
+
+  return { command: 'COPY', category: escalate(category, escalation), tables };
+}
+
+/**
+ * Read the object type after CREATE / ALTER / DROP / COMMENT ON / REFRESH
+ */
+function readObjectType(tokens: SqlToken[], start: number): { objectType: string; next: number } {
+  let i = start;
+  if (keyword(tokens[i]) === 'ON') i++; // COMMENT ON
+  while (OBJECT_MODIFIERS.has(keyword(tokens[i]))) i++;
+
+  const word = keyword(tokens[i]);
+  if (!word) {
+    return { objectType: '', next: i };
+  }
+  if (COMPOUND_OBJECTS.has(word) && keyword(tokens[i + 1])) {
+    return { objectType: `${word} ${keyword(tokens[i + 1])}`, next: i + 2 };
+  }
+  return { objectType: word, next: i + 1 };
+}
+
+function readDdlTargets(
+  tokens: SqlToken[],
+  start: number,
+  verb: string,
+  objectType: string,
+  tables: TableReference[]
+): number {
+  // CREATE INDEX name ON table, CREATE TRIGGER name ... ON table, CREATE RULE name AS ON event TO table
+  const tableKeyword: Record<string, string> = {
+    INDEX: 'ON',
+    TRIGGER: 'ON',
+    POLICY: 'ON',
+    RULE: 'TO',
+  };
+  if (verb === 'CREATE' && tableKeyword[objectType]) {
+    const on = tokens.findIndex(
+      (t, idx) => idx >= start && keyword(t) === tableKeyword[objectType]
+    );
+    return on === -1 ? start : readNameList(tokens, on + 1, true, tables, false);
+  }
+  if (!RELATION_OBJECTS.has(objectType)) {
+    return start;
+  }
+  return readNameList(tokens, start, true, tables, verb === 'DROP');
+}
+
+function readMaintenanceTargets(
+  tokens: SqlToken[],
+  start: number,
+  tables: TableReference[]
+): number {
+  let i = start;
+  if (tokens[i]?.text === '(') i = findClosingParen(tokens, i) + 1;
+  while (
+    ['FULL', 'FREEZE', 'VERBOSE', 'ANALYZE', 'ANALYSE', 'TABLE', 'INDEX', 'CONCURRENTLY'].includes(
+      keyword(tokens[i])
+    )
+  ) {
+    i++;
+  }
+  return readNameList(tokens, i, true, tables);
+}
+
+interface RelationScan {
+  tables: TableReference[];
+  escalation: StatementCategory;
+  mainCommand?: string;
+  /** A DELETE somewhere in the statement has no WHERE clause */
+  unfilteredDelete: boolean;
+  nonTransactionalCalls: string[];
+}
+
+interface ScanContext {
+  verb: string;
+  query: boolean;
+  fromList: boolean;
+  where?: boolean;
+}
+
+/**
+ * Walk a statement collecting the relations it reads or writes and anything
+ * that makes it more powerful than its leading command suggests
+ */
+function scanRelations(tokens: SqlToken[], start: number, topLevelQuery: boolean): RelationScan {
+  const tables: TableReference[] = [];
+  const cteNames = new Set<string>();
+  let escalation: StatementCategory = 'read';
+  let mainCommand: string | undefined;
+  let unfilteredDelete = false;
+  const nonTransactionalCalls = new Set<string>();
+  const closeContext = (context: ScanContext): void => {
+    if (context.verb === 'DELETE' && !context.where) unfilteredDelete = true;
+  };
+  const stack: ScanContext[] = [
+    { verb: keyword(tokens[start]), query: topLevelQuery, fromList: false },
+  ];
+
+  let i = start;
+  while (i < tokens.length) {
+    const token = tokens[i];
+    const context = stack[stack.length - 1];
+    const previous = tokens[i - 1];
+
+    if (token.text === '(') {
+      const verb = keyword(tokens[i + 1]);
+      stack.push({ verb, query: QUERY_STARTERS.has(verb), fromList: false });
+      i++;
+      continue;
+    }
+    if (token.text === ')') {
+      if (stack.length > 1) closeContext(stack.pop() as ScanContext);
+      i++;
+      continue;
+    }
+    if (token.text === ',' && context.fromList) {
+      i = readFromItem(tokens, i + 1, tables);
+      continue;
+    }
+
+    // Quoted names call the same functions: "pg_terminate_backend"(123)
+    if (
+      (token.type === 'word' || token.type === 'quoted_identifier') &&
+      tokens[i + 1]?.text === '('
+    ) {
+      const name = identifierValue(token);
+      if (PRIVILEGED_FUNCTIONS.has(name) || switchesRole(name, tokens[i + 2])) {
+        escalation = escalate(escalation, 'privileged');
+      }
+      if (WRITE_FUNCTIONS.has(name)) escalation = escalate(escalation, 'write');
+      if (NON_TRANSACTIONAL_FUNCTIONS.has(name)) nonTransactionalCalls.add(name);
+    }
+
+    const word = keyword(token);
+    if (!word) {
+      i++;
+      continue;
+    }
+
+    // CTE names are not relations
+    if (
+      context.verb === 'WITH' &&
+      ['WITH', 'RECURSIVE', ','].includes(keyword(previous) || previous?.text || '')
+    ) {
+      cteNames.add(identifierValue(token));
+    }
+
+    const startsStatement =
+      i === start ||
+      previous?.text === '(' ||
+      (context.verb === 'WITH' && previous?.text === ')' && QUERY_STARTERS.has(word));
+    if (startsStatement && QUERY_STARTERS.has(word) && word !== 'WITH') {
+      context.verb = word;
+      if (stack.length === 1 && !mainCommand) mainCommand = word;
+    }
+
+    if (startsStatement && DML_COMMANDS.has(word)) {
+      escalation = escalate(escalation, 'write');
+      let j = i + 1;
+      if (word === 'INSERT' || word === 'MERGE' || word === 'DELETE') j++; // INTO / FROM
+      i = readNameList(tokens, j, true, tables, false);
+      continue;
+    }
+    if (startsStatement && word === 'TABLE') {
+      i = readNameList(tokens, i + 1, false, tables, false);
+      continue;
+    }
+
+    if (context.query && (word === 'FROM' || word === 'JOIN')) {
+      context.fromList = word === 'FROM';
+      i = readFromItem(tokens, i + 1, tables);
+      continue;
+    }
+    if (word === 'USING' && (context.verb === 'DELETE' || context.verb === 'MERGE')) {
+      context.fromList = context.verb === 'DELETE';
+      i = readFromItem(tokens, i + 1, tables);
+      continue;
+    }
+    if (word === 'INTO' && context.verb === 'SELECT' && context.query) {
+      // SELECT ... INTO creates a table
+      escalation = escalate(escalation, 'ddl');
+      while (['TEMP', 'TEMPORARY', 'UNLOGGED', 'TABLE'].includes(keyword(tokens[i + 1]))) i++;
+      i = readNameList(tokens, i + 1, true, tables, false);
+      continue;
+    }
+    if (FROM_LIST_TERMINATORS.has(word)) {
+      context.fromList = false;
+    }
+    if (word === 'WHERE') {
+      context.where = true;
+    }
+
+    i++;
+  }
+
+  stack.forEach(closeContext);
+
+  return {
+    tables: tables.filter(table => table.schema || table.target || !cteNames.has(table.name)),
+    escalation,
+    mainCommand,
+    unfilteredDelete,
+    nonTransactionalCalls: [...nonTransactionalCalls],
+  };
+}
+
+/**
+ * Read one FROM / JOIN item: a relation name, or nothing for subqueries and functions
+ */
+function readFromItem(tokens: SqlToken[], start: number, tables: TableReference[]): number {
+  let i = start;
+  while (keyword(tokens[i]) === 'ONLY' || keyword(tokens[i]) === 'LATERAL') i++;
+  const { ref, next } = readName(tokens, i);
+  if (ref) tables.push({ ...ref, target: false });
+  return next;
+}
+
+/**
+ * Read a comma-separated list of relation names, skipping IF [NOT] EXISTS / ONLY,
+ * `*` inheritance markers and column lists
+ */
+function readNameList(
+  tokens: SqlToken[],
+  start: number,
+  target: boolean,
+  tables: TableReference[],
+  multiple = true
+): number {
+  let i = start;
+  for (;;) {
+    while (NAME_PREFIXES.has(keyword(tokens[i]))) i++;
+    const { ref, next } = readName(tokens, i, true);
+    if (!ref) {
+      return next;
+    }
+    tables.push({ ...ref, target });
+    i = next;
+    if (tokens[i]?.text === '*') i++;
+    if (!multiple || tokens[i]?.text !== ',') {
+      return i;
+    }
+    i++;
+  }
+}
+
+/**
+ * Read a possibly qualified name. Unless a column list may follow,
+ * names followed by `(` are function calls, not relations.
+ */
+function readName(
+  tokens: SqlToken[],
+  start: number,
+  columnsMayFollow = false
+): { ref?: { schema?: string; name: string }; next: number } {
+  const parts: string[] = [];
+  let i = start;
+
+  while (tokens[i]?.type === 'word' || tokens[i]?.type === 'quoted_identifier') {
+    parts.push(identifierValue(tokens[i]));
+    i++;
+    if (tokens[i]?.text !== '.') break;
+    i++;
+  }
+
+  if (parts.length === 0 || (!columnsMayFollow && tokens[i]?.text === '(')) {
+    return { next: parts.length === 0 ? start : i };
+  }
+  const name = parts[parts.length - 1];
+  const schema = parts.length > 1 ? parts[parts.length - 2] : undefined;
+  return { ref: schema ? { schema, name } : { name }, next: i };
+}
+
+function findClosingParen(tokens: SqlToken[], open: number): number {
+  let depth = 0;
+  for (let i = open; i < tokens.length; i++) {
+    if (tokens[i].text === '(') depth++;
+    if (tokens[i].text === ')' && --depth === 0) return i;
+  }
+  return tokens.length;
+}
+
+function escalate(category: StatementCategory, to: StatementCategory): StatementCategory {
+  const current = ESCALATION_RANK[category];
+  const next = ESCALATION_RANK[to];
+  if (next === undefined) {
+    return category;
+  }
+  if (current === undefined) {
+    return to === 'privileged' ? to : category;
+  }
+  return next > current ? to : category;
+}
+
+/**
+ * `SET [SESSION | LOCAL] ROLE` or `SET [SESSION | LOCAL] SESSION AUTHORIZATION`
+ * starting after SET: the command it names, if any
+ */
+function readRoleSwitch(tokens: SqlToken[], start: number): string | undefined {
+  let i = start;
+  if (keyword(tokens[i]) === 'SESSION' || keyword(tokens[i]) === 'LOCAL') i++;
+  if (keyword(tokens[i]) === 'ROLE') {
+    return 'SET ROLE';
+  }
+  // The SESSION of SET SESSION AUTHORIZATION was taken for a scope modifier above
+  if (
+    keyword(tokens[i]) === 'AUTHORIZATION' ||
+    (keyword(tokens[i]) === 'SESSION' && keyword(tokens[i + 1]) === 'AUTHORIZATION')
+  ) {
+    return 'SET SESSION AUTHORIZATION';
+  }
+  return undefined;
+}
+
+/**
+ * Whether a call is set_config() of the role or session authorization, which
+ * switches roles like SET ROLE
+ */
+function switchesRole(name: string, firstArgument: SqlToken | undefined): boolean {
+  if (name !== 'set_config' || firstArgument?.type !== 'string') {
+    return false;
+  }
+  const setting = firstArgument.text.replace(/^[Ee]?'|'$/g, '').toLowerCase();
+  return ROLE_SETTINGS.has(setting);
+}
+
+function keyword(token: SqlToken | undefined): string {
+  return token?.type === 'word' ? token.text.toUpperCase() : '';
+}
+
+/**
+ * Identifier as PostgreSQL stores it: unquoted names fold to lower case
+ */
+function identifierValue(token: SqlToken): string {
+  if (token.type === 'quoted_identifier') {
+    return token.text.slice(1, -1).replace(/""/g, '"');
+  }
+  return token.text.toLowerCase();
+}
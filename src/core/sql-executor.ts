@@ -1,65 +1,230 @@
-import { QueryResult as PgQueryResult } from 'pg';
+import { PoolClient } from 'pg';
 import { PoolManager } from './pool-manager';
-import { readFileSync, existsSync, statSync, accessSync, constants } from 'fs';
-import { resolve, dirname, isAbsolute, normalize } from 'path';
+import { readFileSync, existsSync, statSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
 import { spawn } from 'child_process';
 import { BackupOptions, BackupResult } from '../types/backup';
 import { logger } from '../utils/logger';
+import { resolveOutputPath } from '../utils/output-path';
+import { prepareQuery, PreparedQuery, QueryParams } from './query-params';
+import { splitStatements, getLineAndColumn, quoteIdentifier, SqlStatement } from './sql-tokenizer';
+import {
+  classifyStatement,
+  controlsTransaction,
+  ClassifiedStatement,
+  TableReference,
+} from './sql-classifier';
+import {
+  enforcePolicy,
+  loadPolicyFromEnv,
+  requiredConfirmations,
+  ConfirmationReason,
+  SqlPolicy,
+} from './sql-policy';
+import { SqlAgentError } from './errors';
+import { connectionSetting } from './connections';
+import { summarizePlan, relationName, ExplainOutput, PlanNode, PlanSummary } from './plan-summary';
+import { ExportOptions, ExportResult, resolveExportFormat, writeExport } from './query-export';
+import { ImportOptions, ImportResult, importStatements, loadFileIntoTable } from './data-import';
+import {
+  buildSchemaQuery,
+  ColumnInfo,
+  parseSchemaRows,
+  SchemaResult,
+  TableInfo,
+} from './schema-introspection';
+import { GenerateTypesOptions, GeneratedTypes, generateTypes } from './type-generator';
+import { describeJsonbPaths, JsonbPathsOptions, JsonbPathsResult } from './jsonb-paths';
+import {
+  createSnapshot,
+  diffSnapshotColumns,
+  parseSnapshot,
+  snapshotColumn,
+  JsonbDiffResult,
+  JsonbSnapshotResult,
+} from './jsonb-drift';
+import {
+  analyzeJsonDocuments,
+  resolveSampling,
+  sampleJsonbColumn,
+  JsonDocumentStructure,
+  SamplingOptions,
+} from '../jsonb-analyzer';
+
+export type {
+  SchemaResult,
+  TableInfo,
+  ColumnInfo,
+  ConstraintInfo,
+  IndexInfo,
+  ForeignKeyInfo,
+  CheckConstraintInfo,
+  ViewInfo,
+  EnumInfo,
+  MissingTableInfo,
+  ColumnMatch,
+} from './schema-introspection';
 
 export interface QueryResult {
   command?: string;
   rowCount?: number;
   rows?: Record<string, unknown>[];
   duration?: number;
+  // Per-statement results, present when the SQL contained more than one statement.
+  // The top-level fields then describe the last statement.
+  statements?: StatementResult[];
+  // Set when the query ran in a transaction that was rolled back
+  dryRun?: boolean;
+  // Effects of a dry run that the rollback does not undo, such as advanced sequences
+  warnings?: string[];
+}
+
+export interface StatementResult {
+  command?: string;
+  rowCount?: number;
+  rows?: Record<string, unknown>[];
+  duration?: number;
+  line: number;
 }
 
-export interface SchemaResult {
-  tables: TableInfo[];
-  missingTables?: MissingTableInfo[];
+// Error raised while running a multi-statement script, annotated with where it failed.
+// `position` is 1-based and relative to the whole script, like PostgreSQL reports it.
+export interface StatementError extends Error {
+  position?: number;
+  statementIndex?: number;
+  line?: number;
+  column?: number;
 }
 
-export interface TableInfo {
-  schema: string;
-  name: string;
-  columns: ColumnInfo[];
-  constraints: ConstraintInfo[];
+export interface ExecuteOptions {
+  // The caller confirmed statements the policy marks as `confirm`
+  confirmed?: boolean;
+  // Run the statements and report their results, then roll everything back
+  dryRun?: boolean;
+  // Run on a session client from beginSession, inside the transaction it holds open
+  client?: PoolClient;
+  // Run on a client the caller keeps checked out across calls, e.g. for an interactive
+  // shell. Unlike `client`, no transaction is held open for it.
+  pinnedClient?: PoolClient;
 }
 
-export interface ColumnInfo {
-  column_name: string;
-  data_type: string;
-  is_nullable: string;
-  column_default: string | null;
-  character_maximum_length: number | null;
+export interface StreamOptions {
+  // Rows fetched from the cursor per round trip (defaults to 1000)
+  batchSize?: number;
+  timeoutMs?: number;
 }
 
-export interface ConstraintInfo {
-  constraint_type: string;
-  constraint_name: string;
-  column_name: string;
+export interface ExplainOptions {
+  // Run the statement to get actual row counts and timings; writes are rolled back
+  analyze?: boolean;
+  // Report buffer usage
+  buffers?: boolean;
+  timeoutMs?: number;
 }
 
-export interface MissingTableInfo {
-  table_name: string;
-  suggestions: string[];
+export interface ExplainResult {
+  // The plan as EXPLAIN (FORMAT JSON) returned it
+  plan: ExplainOutput;
+  summary: PlanSummary;
+  analyzed: boolean;
+  duration: number;
+  // Effects of an analyzed write that the rollback does not undo
+  warnings?: string[];
 }
 
+// What a statement needing confirmation would affect, measured in a rolled-back transaction
+export interface StatementImpact {
+  statementIndex: number;
+  command: string;
+  reasons: string[];
+  // Rows the statement would change, or rows held by the tables it would truncate or drop
+  affectedRows?: number;
+  // Objects such as views and foreign keys that depend on what the statement removes
+  dependentObjects: string[];
+  // Set when the dry run of the statement failed
+  error?: string;
+}
+
+export interface ImpactPreview {
+  statements: StatementImpact[];
+  // Statements that were measured but not dry-run, because a rollback would not undo them
+  warnings?: string[];
+}
+
+export interface SqlExecutorOptions {
+  // Run every query in a read-only transaction (defaults to POSTGRES_READ_ONLY=true)
+  readOnly?: boolean;
+  // Statement policy checked before anything runs (defaults to the SEQUELAE_POLICY_FILE policy)
+  policy?: SqlPolicy;
+  // Named connection the executor uses; it gets its own pool and settings (defaults to `default`)
+  connection?: string;
+}
+
+// SQLSTATE raised by PostgreSQL for writes inside a read-only transaction
+const READ_ONLY_SQL_TRANSACTION = '25006';
+
+const DML_COMMANDS = ['INSERT', 'UPDATE', 'DELETE', 'MERGE'];
+
+// Commands a cursor can be declared for
+const CURSOR_COMMANDS = ['SELECT', 'VALUES', 'TABLE'];
+const DEFAULT_STREAM_BATCH_SIZE = 1000;
+
+// Savepoint that scopes each call on a session, so a failed call leaves the session usable
+const SESSION_CALL_SAVEPOINT = 'sequelae_call';
+
+// Commands EXPLAIN accepts
+const EXPLAIN_COMMANDS = [...CURSOR_COMMANDS, ...DML_COMMANDS];
+
+// Relation kinds that hold rows: tables, partitioned tables and materialized views
+const ROW_RELKINDS = ['r', 'p', 'm'];
+
+// Objects that block or are removed by dropping a relation (or some of its columns)
+const DEPENDENT_OBJECTS_SQL = `
+  SELECT DISTINCT
+    CASE WHEN r.ev_class IS NOT NULL
+      THEN 'view ' || r.ev_class::regclass::text
+      ELSE pg_describe_object(d.classid, d.objid, d.objsubid)
+    END AS object
+  FROM pg_depend d
+  LEFT JOIN pg_rewrite r ON d.classid = 'pg_rewrite'::regclass AND r.oid = d.objid
+  WHERE d.refclassid = 'pg_class'::regclass
+    AND d.refobjid = $1
+    AND d.deptype = 'n'
+    AND (r.ev_class IS NULL OR r.ev_class <> $1)
+    AND ($2::text[] IS NULL OR d.refobjsubid IN (
+      SELECT attnum FROM pg_attribute WHERE attrelid = $1 AND attname = ANY($2::text[])
+    ))
+  ORDER BY 1
+`;
+
 export class SqlExecutor {
   private poolManager: PoolManager;
   private connectionString: string;
+  private policy?: SqlPolicy;
+
+  /**
+   * Statement policy checked before queries run, if any
+   */
+  get sqlPolicy(): SqlPolicy | undefined {
+    return this.policy;
+  }
 
   // Getter for poolManager to allow health checks
   get poolManagerInstance(): PoolManager {
     return this.poolManager;
   }
 
-  constructor(connectionString: string) {
+  constructor(connectionString: string, options: SqlExecutorOptions = {}) {
     this.connectionString = connectionString;
-    this.poolManager = PoolManager.getInstance();
+    this.poolManager = PoolManager.getInstance(options.connection);
+    this.policy = options.policy ?? loadPolicyFromEnv();
+
+    // Settings can differ per connection, e.g. POSTGRES_SSL_MODE_STAGING
+    const setting = (key: string): string | undefined => connectionSetting(options.connection, key);
 
     // Configure SSL based on environment variables
-    const sslMode = process.env.POSTGRES_SSL_MODE || 'require';
-    const rejectUnauthorized = process.env.POSTGRES_SSL_REJECT_UNAUTHORIZED !== 'false';
+    const sslMode = setting('POSTGRES_SSL_MODE') || 'require';
+    const rejectUnauthorized = setting('POSTGRES_SSL_REJECT_UNAUTHORIZED') !== 'false';
 
     let sslConfig: boolean | { rejectUnauthorized: boolean } = false;
 
@@ -75,22 +240,27 @@ export class SqlExecutor {
     }
 
     // Configure connection timeout from environment or use default
-    const connectionTimeoutMillis = process.env.POSTGRES_CONNECTION_TIMEOUT
-      ? parseInt(process.env.POSTGRES_CONNECTION_TIMEOUT)
+    const connectionTimeoutMillis = setting('POSTGRES_CONNECTION_TIMEOUT')
+      ? parseInt(setting('POSTGRES_CONNECTION_TIMEOUT') as string)
       : 30000; // 30 seconds default
 
-    const idleTimeoutMillis = process.env.POSTGRES_IDLE_TIMEOUT
-      ? parseInt(process.env.POSTGRES_IDLE_TIMEOUT)
+    const idleTimeoutMillis = setting('POSTGRES_IDLE_TIMEOUT')
+      ? parseInt(setting('POSTGRES_IDLE_TIMEOUT') as string)
       : 10000; // 10 seconds default
 
-    const max = process.env.POSTGRES_MAX_CONNECTIONS
-      ? parseInt(process.env.POSTGRES_MAX_CONNECTIONS)
+    const max = setting('POSTGRES_MAX_CONNECTIONS')
+      ? parseInt(setting('POSTGRES_MAX_CONNECTIONS') as string)
       : 10; // 10 connections default
 
-    const statementTimeout = process.env.POSTGRES_STATEMENT_TIMEOUT
-      ? parseInt(process.env.POSTGRES_STATEMENT_TIMEOUT)
+    const statementTimeout = setting('POSTGRES_STATEMENT_TIMEOUT')
+      ? parseInt(setting('POSTGRES_STATEMENT_TIMEOUT') as string)
       : 120000; // 2 minutes default
 
+    // Read-only applies if it is enabled globally or for this connection
+    const readOnly =
+      options.readOnly ??
+      (process.env.POSTGRES_READ_ONLY === 'true' || setting('POSTGRES_READ_ONLY') === 'true');
+
     // Initialize pool manager if not already initialized
     if (!this.poolManager.isInitialized()) {
       this.poolManager.initialize({
@@ -100,288 +270,1012 @@ export class SqlExecutor {
         idleTimeoutMillis,
         connectionTimeoutMillis,
         statementTimeout,
+        readOnly,
       });
+    } else if (readOnly) {
+      this.poolManager.setReadOnly(true);
     }
   }
 
+  /**
+   * Whether queries run in read-only mode
+   */
+  get readOnly(): boolean {
+    return this.poolManager.isReadOnly();
+  }
+
   async executeQuery(
     sql: string,
     useTransaction: boolean = true,
-    timeoutMs?: number
+    timeoutMs?: number,
+    params?: QueryParams,
+    options: ExecuteOptions = {}
   ): Promise<QueryResult> {
+    // Validate bind values before checking out a connection
+    const { prepared, statements } = this.prepareStatements(sql, params);
+
+    const classified = statements.map(classifyStatement);
+    if (this.policy) {
+      // A dry run changes nothing, so it needs no confirmation
+      enforcePolicy(this.policy, classified, sql, options.confirmed || options.dryRun);
+    }
+
+    // In read-only mode every call runs in its own read-only transaction, and
+    // session calls run in the session's transaction, so scripts must not end it early
+    const readOnly = this.readOnly;
+    const session = options.client;
+    if (session) {
+      this.assertNoSessionTransactionControl(classified);
+    } else if (readOnly) {
+      this.assertNoTransactionControl(classified);
+    }
+    const dryRun = options.dryRun === true;
+    if (dryRun) {
+      this.assertDryRunnable(classified, sql);
+    }
+    const wrapInTransaction =
+      session !== undefined ||
+      readOnly ||
+      dryRun ||
+      (useTransaction && !classified.some(statement => controlsTransaction(statement)));
+
     const start = Date.now();
-    const client = await this.poolManager.getClient();
+    const borrowed = session ?? options.pinnedClient;
+    const client = borrowed ?? (await this.poolManager.getClient());
 
     // Set statement timeout if provided
     if (timeoutMs && timeoutMs > 0) {
       try {
         await client.query(`SET statement_timeout = ${timeoutMs}`);
       } catch (error) {
-        client.release();
+        if (!borrowed) {
+          client.release();
+        }
         throw error;
       }
     }
 
     try {
-      if (useTransaction && !this.isTransactionCommand(sql)) {
-        await client.query('BEGIN');
+      if (wrapInTransaction) {
+        await this.beginScope(client, session !== undefined);
       }
 
-      const result = await client.query(sql);
+      let result: QueryResult;
+      if (statements.length > 1) {
+        const statementResults = await this.executeStatements(client, sql, statements);
+        const { line: _line, ...last } = statementResults[statementResults.length - 1];
+        result = { ...last, statements: statementResults };
+      } else {
+        const pgResult = prepared.values
+          ? await client.query(prepared.text, prepared.values)
+          : await client.query(prepared.text);
+        result = {
+          command: pgResult.command,
+          rowCount: pgResult.rowCount || 0,
+          rows: pgResult.rows || [],
+        };
+      }
 
-      if (useTransaction && !this.isTransactionCommand(sql)) {
-        await client.query('COMMIT');
+      if (wrapInTransaction) {
+        await this.endScope(client, session !== undefined, !dryRun);
       }
 
-      const duration = Date.now() - start;
+      if (dryRun) {
+        const warnings = this.dryRunWarnings(classified);
+        result = { ...result, dryRun, ...(warnings.length > 0 && { warnings }) };
+      }
 
       return {
-        command: result.command,
-        rowCount: result.rowCount || 0,
-        rows: result.rows || [],
-        duration,
+        ...result,
+        duration: Date.now() - start,
       };
     } catch (error) {
-      if (useTransaction && !this.isTransactionCommand(sql)) {
+      if (wrapInTransaction) {
         try {
-          await client.query('ROLLBACK');
+          await this.endScope(client, session !== undefined, false);
         } catch (rollbackError) {
           logger.error('Error during rollback:', { error: rollbackError });
         }
       }
+      throw this.toReadOnlyError(error);
+    } finally {
+      if (!borrowed) {
+        client.release();
+      }
+    }
+  }
+
+  /**
+   * Check out a client and open a transaction on it that stays open across calls.
+   * Pass the client as `client` to executeQuery to run statements in the transaction,
+   * and end it with endSession.
+   */
+  async beginSession(): Promise<PoolClient> {
+    const client = await this.poolManager.getClient();
+    try {
+      await client.query(this.readOnly ? 'BEGIN READ ONLY' : 'BEGIN');
+    } catch (error) {
+      client.release();
       throw error;
+    }
+    return client;
+  }
+
+  /**
+   * Commit or roll back a session transaction and return its client to the pool
+   */
+  async endSession(client: PoolClient, commit: boolean): Promise<void> {
+    try {
+      await client.query(commit ? 'COMMIT' : 'ROLLBACK');
+    } catch (error) {
+      // The connection's state is unknown, so do not return it to the pool
+      client.release(error as Error);
+      throw this.toReadOnlyError(error);
+    }
+    client.release();
+  }
+
+  /**
+   * Create a named savepoint in a session transaction
+   */
+  async createSavepoint(client: PoolClient, name: string): Promise<void> {
+    await client.query(`SAVEPOINT ${quoteIdentifier(name)}`);
+  }
+
+  /**
+   * Undo everything a session did since the savepoint, keeping the savepoint
+   */
+  async rollbackToSavepoint(client: PoolClient, name: string): Promise<void> {
+    await client.query(`ROLLBACK TO SAVEPOINT ${quoteIdentifier(name)}`);
+  }
+
+  /**
+   * Stream the rows of a query through a server-side cursor, fetching `batchSize`
+   * rows at a time so large results never sit in memory at once. Only a single
+   * SELECT, VALUES or TABLE statement can be streamed.
+   */
+  async *streamQuery(
+    sql: string,
+    params?: QueryParams,
+    options: StreamOptions = {}
+  ): AsyncGenerator<Record<string, unknown>, void, undefined> {
+    const { prepared, statements } = this.prepareStatements(sql, params);
+    const classified = statements.map(classifyStatement);
+    if (
+      classified.length !== 1 ||
+      classified[0].category !== 'read' ||
+      !CURSOR_COMMANDS.includes(classified[0].command)
+    ) {
+      throw new SqlAgentError(
+        'Only a single SELECT, VALUES or TABLE statement can be streamed',
+        'STREAM_UNSUPPORTED',
+        'Run other statements without streaming'
+      );
+    }
+    if (this.policy) {
+      enforcePolicy(this.policy, classified, sql);
+    }
+
+    const batchSize = options.batchSize ?? DEFAULT_STREAM_BATCH_SIZE;
+    const client = await this.poolManager.getClient();
+    let finished = false;
+
+    try {
+      // Cursors only live as long as their transaction
+      await client.query(this.readOnly ? 'BEGIN READ ONLY' : 'BEGIN');
+      if (options.timeoutMs && options.timeoutMs > 0) {
+        await client.query(`SET LOCAL statement_timeout = ${options.timeoutMs}`);
+      }
+      const declare = `DECLARE sequelae_stream NO SCROLL CURSOR FOR ${prepared.text}`;
+      if (prepared.values) {
+        await client.query(declare, prepared.values);
+      } else {
+        await client.query(declare);
+      }
+
+      for (;;) {
+        const batch = await client.query(`FETCH ${batchSize} FROM sequelae_stream`);
+        for (const row of batch.rows) {
+          yield row;
+        }
+        if (batch.rows.length < batchSize) {
+          break;
+        }
+      }
+
+      await client.query('CLOSE sequelae_stream');
+      await client.query('COMMIT');
+      finished = true;
+    } catch (error) {
+      throw this.toReadOnlyError(error);
+    } finally {
+      // Also reached when the consumer stops iterating early
+      if (!finished) {
+        try {
+          await client.query('ROLLBACK');
+        } catch (rollbackError) {
+          logger.error('Error during rollback:', { error: rollbackError });
+        }
+      }
+      client.release();
+    }
+  }
+
+  /**
+   * Stream the rows of a query into a file (see streamQuery for what can be streamed).
+   * The output path is validated like a backup path.
+   */
+  async exportQuery(
+    sql: string,
+    params: QueryParams | undefined,
+    options: ExportOptions
+  ): Promise<ExportResult> {
+    const start = Date.now();
+    const outputPath = resolveOutputPath(options.outputPath);
+    const format = resolveExportFormat(outputPath, options.format);
+    const { rowCount, bytes } = await writeExport(
+      this.streamQuery(sql, params, { timeoutMs: options.timeoutMs }),
+      outputPath,
+      format
+    );
+    return { outputPath, format, rowCount, bytes, duration: Date.now() - start };
+  }
+
+  /**
+   * Load a CSV or NDJSON file into a table with COPY FROM STDIN. The load runs in
+   * one transaction, so a failure leaves the table unchanged.
+   */
+  async importFile(filepath: string, options: ImportOptions): Promise<ImportResult> {
+    const start = Date.now();
+    if (!existsSync(filepath)) {
+      throw new SqlAgentError(`File not found: ${filepath}`, 'FILE_NOT_FOUND');
+    }
+    if (this.policy) {
+      const statements = importStatements(options).flatMap(sql =>
+        splitStatements(sql).map(classifyStatement)
+      );
+      enforcePolicy(this.policy, statements, undefined, options.confirmed);
+    }
+
+    const client = await this.poolManager.getClient();
+    try {
+      await client.query(this.readOnly ? 'BEGIN READ ONLY' : 'BEGIN');
+      const result = await loadFileIntoTable(client, filepath, options);
+      await client.query('COMMIT');
+      return { ...result, duration: Date.now() - start };
+    } catch (error) {
+      try {
+        await client.query('ROLLBACK');
+      } catch (rollbackError) {
+        logger.error('Error during rollback:', { error: rollbackError });
+      }
+      throw this.toReadOnlyError(error);
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Run EXPLAIN (FORMAT JSON) for a single statement and summarize the plan.
+   * The statement runs only with `analyze`, and always inside a transaction that
+   * is rolled back, so analyzing a write changes nothing.
+   */
+  async explain(
+    sql: string,
+    params?: QueryParams,
+    options: ExplainOptions = {}
+  ): Promise<ExplainResult> {
+    const { prepared, statements } = this.prepareStatements(sql, params);
+    const classified = statements.map(classifyStatement);
+    if (classified.length !== 1 || !EXPLAIN_COMMANDS.includes(classified[0].command)) {
+      throw new SqlAgentError(
+        'Only a single SELECT, VALUES, TABLE, INSERT, UPDATE, DELETE or MERGE statement can be explained',
+        'EXPLAIN_UNSUPPORTED',
+        'Explain the statements of a script one at a time'
+      );
+    }
+    if (this.policy) {
+      // Nothing is kept, so only denied statements are refused
+      enforcePolicy(this.policy, classified, sql, true);
+    }
+
+    const analyze = options.analyze === true;
+    // VERBOSE adds the schema of each scanned relation, to look up the right table
+    const explainOptions = [
+      'FORMAT JSON',
+      'VERBOSE',
+      analyze && 'ANALYZE',
+      options.buffers && 'BUFFERS',
+    ]
+      .filter(Boolean)
+      .join(', ');
+    const start = Date.now();
+    const client = await this.poolManager.getClient();
+
+    try {
+      await client.query(this.readOnly ? 'BEGIN READ ONLY' : 'BEGIN');
+      if (options.timeoutMs && options.timeoutMs > 0) {
+        await client.query(`SET LOCAL statement_timeout = ${options.timeoutMs}`);
+      }
+      const text = `EXPLAIN (${explainOptions}) ${prepared.text}`;
+      const result = prepared.values
+        ? await client.query(text, prepared.values)
+        : await client.query(text);
+      const plan = (result.rows[0]['QUERY PLAN'] as ExplainOutput[])[0];
+
+      // Sequential scans only matter on large tables, so look up their sizes
+      const tableRows: Record<string, number> = {};
+      for (const node of this.seqScans(plan.Plan)) {
+        const found = await client.query(
+          `SELECT c.reltuples FROM pg_class c
+           JOIN pg_namespace n ON n.oid = c.relnamespace
+           WHERE n.nspname = $1 AND c.relname = $2`,
+          [node.Schema, node['Relation Name']]
+        );
+        if (found.rows.length > 0) {
+          tableRows[relationName(node) as string] = Math.max(Number(found.rows[0].reltuples), 0);
+        }
+      }
+
+      const warnings =
+        analyze && classified[0].category !== 'read' ? this.dryRunWarnings(classified) : [];
+      return {
+        plan,
+        summary: summarizePlan(plan, { tableRows }),
+        analyzed: analyze,
+        duration: Date.now() - start,
+        ...(warnings.length > 0 && { warnings }),
+      };
+    } catch (error) {
+      throw this.toReadOnlyError(error);
     } finally {
+      try {
+        await client.query('ROLLBACK');
+      } catch (rollbackError) {
+        logger.error('Error during rollback:', { error: rollbackError });
+      }
       client.release();
     }
   }
 
-  private isTransactionCommand(sql: string): boolean {
-    const trimmedSql = sql.trim().toUpperCase();
-    return (
-      trimmedSql.startsWith('BEGIN') ||
-      trimmedSql.startsWith('COMMIT') ||
-      trimmedSql.startsWith('ROLLBACK') ||
-      trimmedSql.startsWith('START TRANSACTION')
+  /**
+   * Dry-run a query in a transaction that is always rolled back and report what
+   * its destructive or policy-confirmed statements would affect. Pass `confirmations`
+   * to preview a precomputed set of statements instead.
+   */
+  async previewImpact(
+    sql: string,
+    params?: QueryParams,
+    confirmations?: ConfirmationReason[],
+    session?: PoolClient
+  ): Promise<ImpactPreview> {
+    const { prepared, statements } = this.prepareStatements(sql, params);
+    const classified = statements.map(classifyStatement);
+    const reasonsByStatement = confirmations ?? requiredConfirmations(classified, this.policy);
+
+    // Statements that open or end transactions cannot run inside the preview transaction
+    let executing = !classified.some(statement => controlsTransaction(statement));
+    const impacts: StatementImpact[] = [];
+    const warnings: string[] = [];
+    const client = session ?? (await this.poolManager.getClient());
+
+    try {
+      await this.beginScope(client, session !== undefined);
+
+      for (const [index, statement] of classified.entries()) {
+        const reasons = reasonsByStatement
+          .filter(c => c.statementIndex === index)
+          .map(c => c.reason);
+        const isDml = DML_COMMANDS.includes(statement.command);
+        const impact: StatementImpact | undefined =
+          reasons.length > 0
+            ? { statementIndex: index, command: statement.command, reasons, dependentObjects: [] }
+            : undefined;
+
+        if (impact && !isDml) {
+          // Measure before running the statement, which may remove what is measured
+          await client.query('SAVEPOINT sequelae_preview');
+          try {
+            await this.measureImpact(client, statement, impact);
+            await client.query('RELEASE SAVEPOINT sequelae_preview');
+          } catch (error) {
+            await client.query('ROLLBACK TO SAVEPOINT sequelae_preview');
+            impact.error = error instanceof Error ? error.message : String(error);
+          }
+        }
+
+        // Effects outside the transaction would happen before the user confirms
+        if (executing && (statement.noTransactionBlock || statement.nonTransactionalCalls)) {
+          warnings.push(...this.nonTransactionalWarnings(classified, index));
+          if (statement.noTransactionBlock) {
+            warnings.push(
+              `${this.describeStatement(classified, index)} cannot run inside a transaction, so it was not dry-run`
+            );
+          }
+          executing = false;
+        }
+
+        if (executing) {
+          await client.query('SAVEPOINT sequelae_preview');
+          try {
+            const result = prepared.values
+              ? await client.query(prepared.text, prepared.values)
+              : await client.query(statement.text);
+            if (impact && isDml) {
+              impact.affectedRows = result.rowCount || 0;
+            }
+            await client.query('RELEASE SAVEPOINT sequelae_preview');
+          } catch (error) {
+            await client.query('ROLLBACK TO SAVEPOINT sequelae_preview');
+            if (impact) {
+              impact.error = error instanceof Error ? error.message : String(error);
+            }
+            // Later statements may depend on this one, so stop running them
+            executing = false;
+          }
+        }
+
+        if (impact) {
+          impacts.push(impact);
+        }
+      }
+    } finally {
+      try {
+        await this.endScope(client, session !== undefined, false);
+      } catch (rollbackError) {
+        logger.error('Error during rollback:', { error: rollbackError });
+      }
+      if (!session) {
+        client.release();
+      }
+    }
+
+    return { statements: impacts, ...(warnings.length > 0 && { warnings }) };
+  }
+
+  /**
+   * Impact of the statements of a load that need confirmation. The statements
+   * before the load (a TRUNCATE) are previewed; the load itself reads the file,
+   * so it is only listed.
+   */
+  async previewImport(
+    statements: string[],
+    confirmations: ConfirmationReason[]
+  ): Promise<ImpactPreview> {
+    const load = statements.length - 1;
+    const before = confirmations.filter(c => c.statementIndex < load);
+    const preview =
+      before.length > 0
+        ? await this.previewImpact(statements.slice(0, load).join(';\n'), undefined, before)
+        : { statements: [] };
+    const loadReasons = confirmations.filter(c => c.statementIndex === load);
+    if (loadReasons.length > 0) {
+      preview.statements.push({
+        statementIndex: load,
+        command: loadReasons[0].command,
+        reasons: loadReasons.map(c => c.reason),
+        dependentObjects: [],
+      });
+    }
+    return preview;
+  }
+
+  /**
+   * Count the rows held by the relations a statement removes and find the objects depending on them
+   */
+  private async measureImpact(
+    client: PoolClient,
+    statement: ClassifiedStatement,
+    impact: StatementImpact
+  ): Promise<void> {
+    for (const table of statement.tables.filter(t => t.target)) {
+      const relation = this.qualifiedName(table);
+      const found = await client.query(
+        'SELECT oid, relkind FROM pg_class WHERE oid = to_regclass($1)',
+        [relation]
+      );
+      if (found.rows.length === 0) {
+        continue;
+      }
+      const { oid, relkind } = found.rows[0];
+
+      if (ROW_RELKINDS.includes(relkind)) {
+        const count = await client.query(`SELECT count(*) AS count FROM ${relation}`);
+        impact.affectedRows = (impact.affectedRows || 0) + Number(count.rows[0].count);
+      }
+
+      const dependents = await client.query(DEPENDENT_OBJECTS_SQL, [
+        oid,
+        statement.droppedColumns ?? null,
+      ]);
+      impact.dependentObjects.push(...dependents.rows.map(row => row.object as string));
+    }
+  }
+
+  /**
+   * Sequential scans anywhere in a plan, one per table they read
+   */
+  private seqScans(node: PlanNode, scans = new Map<string, PlanNode>()): PlanNode[] {
+    if (node['Node Type'] === 'Seq Scan' && node.Schema && node['Relation Name']) {
+      scans.set(relationName(node) as string, node);
+    }
+    for (const child of node.Plans ?? []) {
+      this.seqScans(child, scans);
+    }
+    return [...scans.values()];
+  }
+
+  private qualifiedName(table: TableReference): string {
+    return table.schema
+      ? `${quoteIdentifier(table.schema)}.${quoteIdentifier(table.name)}`
+      : quoteIdentifier(table.name);
+  }
+
+  /**
+   * Validate bind values and split the script into statements
+   */
+  private prepareStatements(
+    sql: string,
+    params?: QueryParams
+  ): { prepared: PreparedQuery; statements: SqlStatement[] } {
+    const prepared = prepareQuery(sql, params);
+    const statements = splitStatements(sql);
+    if (prepared.values && statements.length > 1) {
+      throw new SqlAgentError(
+        'Parameters can only be used with a single statement',
+        'INVALID_PARAMS',
+        'Split the script into separate calls, one statement each'
+      );
+    }
+    return { prepared, statements };
+  }
+
+  /**
+   * Run each statement of a script on its own so results, timings and errors
+   * can be reported per statement
+   */
+  private async executeStatements(
+    client: PoolClient,
+    source: string,
+    statements: SqlStatement[]
+  ): Promise<StatementResult[]> {
+    const results: StatementResult[] = [];
+
+    for (const [index, statement] of statements.entries()) {
+      const start = Date.now();
+      try {
+        const result = await client.query(statement.text);
+        results.push({
+          command: result.command,
+          rowCount: result.rowCount || 0,
+          rows: result.rows || [],
+          duration: Date.now() - start,
+          line: getLineAndColumn(source, statement.start).line,
+        });
+      } catch (error) {
+        const err = error as StatementError;
+        // PostgreSQL reports positions relative to the statement it was sent
+        const offset = statement.start + (err.position ? Number(err.position) - 1 : 0);
+        const { line, column } = getLineAndColumn(source, offset);
+        err.position = offset + 1;
+        err.statementIndex = index;
+        err.line = line;
+        err.column = column;
+        throw err;
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Start the transaction a call runs in: a new transaction, or a savepoint in a session's
+   */
+  private async beginScope(client: PoolClient, inSession: boolean): Promise<void> {
+    if (inSession) {
+      await client.query(`SAVEPOINT ${SESSION_CALL_SAVEPOINT}`);
+    } else {
+      await client.query(this.readOnly ? 'BEGIN READ ONLY' : 'BEGIN');
+    }
+  }
+
+  /**
+   * Keep or undo what a call did; a session's transaction stays open either way
+   */
+  private async endScope(client: PoolClient, inSession: boolean, keep: boolean): Promise<void> {
+    if (!inSession) {
+      await client.query(keep ? 'COMMIT' : 'ROLLBACK');
+      return;
+    }
+    if (!keep) {
+      await client.query(`ROLLBACK TO SAVEPOINT ${SESSION_CALL_SAVEPOINT}`);
+    }
+    await client.query(`RELEASE SAVEPOINT ${SESSION_CALL_SAVEPOINT}`);
+  }
+
+  private assertNoSessionTransactionControl(statements: ClassifiedStatement[]): void {
+    for (const statement of statements) {
+      if (controlsTransaction(statement)) {
+        throw new SqlAgentError(
+          `${statement.command} is not allowed in a session`,
+          'SESSION_TRANSACTION_CONTROL',
+          'The session holds the transaction open; commit or roll back the session instead'
+        );
+      }
+    }
+  }
+
+  private assertNoTransactionControl(statements: ClassifiedStatement[]): void {
+    for (const statement of statements) {
+      if (controlsTransaction(statement)) {
+        throw new SqlAgentError(
+          `${statement.command} is not allowed in read-only mode`,
+          'READ_ONLY_VIOLATION',
+          'Each call already runs in its own read-only transaction'
+        );
+      }
+    }
+  }
+
+  /**
+   * Refuse statements that cannot run inside the transaction a dry run rolls back
+   */
+  private assertDryRunnable(statements: ClassifiedStatement[], sql: string): void {
+    for (const [index, statement] of statements.entries()) {
+      const controls = controlsTransaction(statement);
+      if (!controls && !statement.noTransactionBlock) {
+        continue;
+      }
+      const error = new SqlAgentError(
+        `${this.describeStatement(statements, index)} cannot be dry-run: ${
+          controls ? 'it controls the transaction' : 'it cannot run inside a transaction block'
+        }`,
+        'DRY_RUN_UNSUPPORTED',
+        'A dry run executes everything in one transaction and rolls it back; run this statement without dry run'
+      );
+      if (statements.length > 1) {
+        const { line, column } = getLineAndColumn(sql, statement.start);
+        Object.assign(error, { statementIndex: index, line, column });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Effects of the statements that a rollback does not undo
+   */
+  private dryRunWarnings(statements: ClassifiedStatement[]): string[] {
+    const warnings: string[] = [];
+    for (const [index, statement] of statements.entries()) {
+      warnings.push(...this.nonTransactionalWarnings(statements, index));
+      if (statement.command === 'INSERT' || statement.command === 'MERGE') {
+        warnings.push(
+          `${this.describeStatement(statements, index)} may have advanced sequences of serial or identity columns, which are not rolled back`
+        );
+      }
+    }
+    return warnings;
+  }
+
+  /**
+   * Warnings for the calls of a statement whose effects a rollback does not undo
+   */
+  private nonTransactionalWarnings(statements: ClassifiedStatement[], index: number): string[] {
+    const subject = this.describeStatement(statements, index);
+    return (statements[index].nonTransactionalCalls ?? []).map(
+      name => `${subject} calls ${name}(), whose effects are not rolled back`
+    );
+  }
+
+  private describeStatement(statements: ClassifiedStatement[], index: number): string {
+    const { command } = statements[index];
+    return statements.length > 1 ? `Statement ${index + 1} (${command})` : command;
+  }
+
+  /**
+   * Turn PostgreSQL's "read-only transaction" error into a structured error
+   */
+  private toReadOnlyError(error: unknown): unknown {
+    const err = error as StatementError & { code?: string };
+    if (err?.code !== READ_ONLY_SQL_TRANSACTION) {
+      return error;
+    }
+    return Object.assign(
+      new SqlAgentError(
+        `Write rejected in read-only mode: ${err.message}`,
+        'READ_ONLY_VIOLATION',
+        'Read-only mode is enabled; only statements that do not modify data are allowed'
+      ),
+      {
+        position: err.position,
+        statementIndex: err.statementIndex,
+        line: err.line,
+        column: err.column,
+      }
     );
   }
 
   async executeFile(
     filepath: string,
     useTransaction: boolean = true,
-    timeoutMs?: number
+    timeoutMs?: number,
+    params?: QueryParams,
+    options: ExecuteOptions = {}
   ): Promise<QueryResult> {
+    const sql = this.readSqlFile(filepath);
+    return this.executeQuery(sql, useTransaction, timeoutMs, params, options);
+  }
+
+  /**
+   * Read a SQL file, resolved against the working directory
+   */
+  readSqlFile(filepath: string): string {
     const resolvedPath = resolve(process.cwd(), filepath);
 
     if (!existsSync(resolvedPath)) {
       throw new Error(`File not found: ${resolvedPath}`);
     }
 
-    const sql = readFileSync(resolvedPath, 'utf8');
-    return this.executeQuery(sql, useTransaction, timeoutMs);
+    return readFileSync(resolvedPath, 'utf8');
   }
 
-  async getSchema(tables?: string[], allSchemas = false): Promise<SchemaResult> {
-    const schemaCondition = allSchemas
-      ? "table_schema NOT IN ('pg_catalog', 'information_schema')"
-      : "table_schema = 'public'";
-
-    let sql: string;
+  /**
+   * Read the schema through the pool, or on `client` to see what its open
+   * transaction changed
+   */
+  async getSchema(
+    tables?: string[],
+    allSchemas = false,
+    client?: PoolClient
+  ): Promise<SchemaResult> {
+    const { text, values } = buildSchemaQuery(tables, allSchemas);
+    const result = await (client ?? this.poolManager.getPool()).query(text, values);
+    return parseSchemaRows(result.rows);
+  }
 
-    if (tables && tables.length > 0) {
-      const tableCondition = tables.map(t => `'${t}'`).join(',');
-      sql = this.buildSpecificTablesQuery(tableCondition, schemaCondition);
-    } else {
-      sql = this.buildAllTablesQuery(schemaCondition);
+  /**
+   * Infer the structure of the json and jsonb columns of tables from a sample of
+   * their rows, keyed by `schema.table.column`. `sampling` is a row count or a
+   * sampling strategy. Columns that cannot be read are logged and left out.
+   */
+  async inferJsonbStructures(
+    tables: TableInfo[],
+    sampling: number | SamplingOptions = 10
+  ): Promise<Record<string, JsonDocumentStructure>> {
+    // Reject bad options before any table is read
+    resolveSampling(sampling);
+    const structures: Record<string, JsonDocumentStructure> = {};
+    const jsonColumns = tables.flatMap(table =>
+      table.columns
+        .filter(column => column.data_type === 'jsonb' || column.data_type === 'json')
+        .map(column => ({ table, column: column.column_name }))
+    );
+    if (jsonColumns.length === 0) {
+      return structures;
     }
 
-    const pool = this.poolManager.getPool();
-    const result = await pool.query(sql);
-    return this.parseSchemaResult(result);
+    const client = await this.poolManager.getClient();
+    try {
+      for (const { table, column } of jsonColumns) {
+        const key = `${table.schema}.${table.name}.${column}`;
+        try {
+          structures[key] = analyzeJsonDocuments(
+            await sampleJsonbColumn(client, table, column, sampling)
+          );
+        } catch (error) {
+          logger.error('Error sampling JSON column:', {
+            column: key,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+    } finally {
+      client.release();
+    }
+    return structures;
   }
 
-  async close(): Promise<void> {
-    // Don't close the shared pool, just mark this executor as closed
-    // The pool will be closed when the application exits
+  /**
+   * List the paths of the json and jsonb columns of a table from a sample of its
+   * rows, with the indexes serving them and indexes worth adding
+   */
+  async getJsonbPaths(table: string, options: JsonbPathsOptions = {}): Promise<JsonbPathsResult> {
+    const start = Date.now();
+    const schema = await this.getSchema([table]);
+    const info = schema.tables[0];
+    if (!info) {
+      const suggestions = schema.missingTables?.[0]?.suggestions ?? [];
+      throw new SqlAgentError(
+        `Table not found: ${table}`,
+        'UNKNOWN_TABLE',
+        suggestions.length > 0 ? `Did you mean: ${suggestions.join(', ')}?` : undefined
+      );
+    }
+
+    const columns = info.columns.filter(
+      column =>
+        (column.data_type === 'jsonb' || column.data_type === 'json') &&
+        (options.column === undefined || column.column_name === options.column)
+    );
+    if (options.column !== undefined && columns.length === 0) {
+      throw new SqlAgentError(
+        `Not a json or jsonb column of ${info.schema}.${info.name}: ${options.column}`,
+        'INVALID_COLUMN'
+      );
+    }
+
+    const structures = await this.inferJsonbStructures(
+      [{ ...info, columns }],
+      options.sampling ?? 100
+    );
+    return {
+      schema: info.schema,
+      table: info.name,
+      columns: columns
+        .filter(column => structures[`${info.schema}.${info.name}.${column.column_name}`])
+        .map(column =>
+          describeJsonbPaths(
+            info,
+            column,
+            structures[`${info.schema}.${info.name}.${column.column_name}`],
+            options
+          )
+        ),
+      duration: Date.now() - start,
+    };
   }
 
-  private buildSpecificTablesQuery(tableCondition: string, schemaCondition: string): string {
-    return `
-      WITH requested_tables AS (
-        SELECT unnest(ARRAY[${tableCondition}]) as table_name
-      ),
-      existing_tables AS (
-        SELECT table_schema, table_name 
-        FROM information_schema.tables 
-        WHERE table_type = 'BASE TABLE' 
-          AND ${schemaCondition}
-      ),
-      table_info AS (
-        SELECT 
-          t.table_schema,
-          t.table_name,
-          json_agg(
-            json_build_object(
-              'column_name', c.column_name,
-              'data_type', c.data_type,
-              'is_nullable', c.is_nullable,
-              'column_default', c.column_default,
-              'character_maximum_length', c.character_maximum_length
-            ) ORDER BY c.ordinal_position
-          )::text as columns
-        FROM information_schema.tables t
-        JOIN information_schema.columns c 
-          ON t.table_schema = c.table_schema 
-          AND t.table_name = c.table_name
-        JOIN requested_tables rt ON t.table_name = rt.table_name
-        WHERE ${schemaCondition}
-          AND t.table_type = 'BASE TABLE'
-        GROUP BY t.table_schema, t.table_name
-      ),
-      constraint_info AS (
-        SELECT 
-          tc.table_schema,
-          tc.table_name,
-          json_agg(
-            json_build_object(
-              'constraint_name', tc.constraint_name,
-              'constraint_type', tc.constraint_type,
-              'column_name', kcu.column_name
-            )
-          )::text as constraints
-        FROM information_schema.table_constraints tc
-        JOIN information_schema.key_column_usage kcu
-          ON tc.constraint_name = kcu.constraint_name
-          AND tc.table_schema = kcu.table_schema
-        JOIN requested_tables rt ON tc.table_name = rt.table_name
-        WHERE ${schemaCondition}
-        GROUP BY tc.table_schema, tc.table_name
-      ),
-      missing_tables AS (
-        SELECT rt.table_name as missing_table,
-               string_agg(et.table_name, ', ') as suggestions
-        FROM requested_tables rt
-        LEFT JOIN existing_tables et ON rt.table_name = et.table_name
-        WHERE et.table_name IS NULL
-        GROUP BY rt.table_name
-      )
-      SELECT 
-        'found' as type,
-        ti.table_schema,
-        ti.table_name,
-        ti.columns,
-        COALESCE(ci.constraints, '[]') as constraints,
-        NULL as missing_table,
-        NULL as suggestions
-      FROM table_info ti
-      LEFT JOIN constraint_info ci
-        ON ti.table_schema = ci.table_schema
-        AND ti.table_name = ci.table_name
-      UNION ALL
-      SELECT 
-        'missing' as type,
-        NULL as table_schema,
-        NULL as table_name,
-        NULL as columns,
-        NULL as constraints,
-        mt.missing_table,
-        (SELECT string_agg(tn, ', ') FROM (
-           SELECT table_name as tn
-           FROM existing_tables
-           WHERE LOWER(table_name) LIKE LOWER(LEFT(mt.missing_table, 3) || '%')
-              OR LOWER(table_name) LIKE '%' || LOWER(LEFT(mt.missing_table, 3)) || '%'
-           ORDER BY 
-             CASE WHEN LOWER(table_name) LIKE LOWER(LEFT(mt.missing_table, 3) || '%') THEN 0 ELSE 1 END,
-             LENGTH(table_name)
-           LIMIT 3
-         ) s) as suggestions
-      FROM missing_tables mt
-      ORDER BY type, table_schema, table_name;
-    `;
-  }
-
-  private buildAllTablesQuery(schemaCondition: string): string {
-    return `
-      WITH table_info AS (
-        SELECT 
-          t.table_schema,
-          t.table_name,
-          json_agg(
-            json_build_object(
-              'column_name', c.column_name,
-              'data_type', c.data_type,
-              'is_nullable', c.is_nullable,
-              'column_default', c.column_default,
-              'character_maximum_length', c.character_maximum_length
-            ) ORDER BY c.ordinal_position
-          )::text as columns
-        FROM information_schema.tables t
-        JOIN information_schema.columns c 
-          ON t.table_schema = c.table_schema 
-          AND t.table_name = c.table_name
-        WHERE ${schemaCondition}
-          AND t.table_type = 'BASE TABLE'
-        GROUP BY t.table_schema, t.table_name
-      ),
-      constraint_info AS (
-        SELECT 
-          tc.table_schema,
-          tc.table_name,
-          json_agg(
-            json_build_object(
-              'constraint_name', tc.constraint_name,
-              'constraint_type', tc.constraint_type,
-              'column_name', kcu.column_name
-            )
-          )::text as constraints
-        FROM information_schema.table_constraints tc
-        JOIN information_schema.key_column_usage kcu
-          ON tc.constraint_name = kcu.constraint_name
-          AND tc.table_schema = kcu.table_schema
-        WHERE ${schemaCondition}
-        GROUP BY tc.table_schema, tc.table_name
-      )
-      SELECT 
-        'found' as type,
-        ti.table_schema,
-        ti.table_name,
-        ti.columns,
-        COALESCE(ci.constraints, '[]') as constraints,
-        NULL as missing_table,
-        NULL as suggestions
-      FROM table_info ti
-      LEFT JOIN constraint_info ci
-        ON ti.table_schema = ci.table_schema
-        AND ti.table_name = ci.table_name
-      ORDER BY ti.table_schema, ti.table_name;
-    `;
-  }
-
-  private parseSchemaResult(result: PgQueryResult): SchemaResult {
-    const tables: TableInfo[] = [];
-    const missingTables: MissingTableInfo[] = [];
-
-    for (const row of result.rows) {
-      if (row.type === 'found') {
-        tables.push({
-          schema: row.table_schema as string,
-          name: row.table_name as string,
-          columns: JSON.parse(row.columns as string),
-          constraints: JSON.parse(row.constraints as string),
-        });
-      } else if (row.type === 'missing') {
-        missingTables.push({
-          table_name: row.missing_table as string,
-          suggestions: row.suggestions ? (row.suggestions as string).split(', ') : [],
-        });
+  /**
+   * Infer the structures of columns given as `table.column` or
+   * `schema.table.column`, keyed by `schema.table.column`. Columns that do not
+   * exist (anymore) are left out, or rejected when `strict` is set.
+   */
+  private async inferColumnStructures(
+    columns: string[],
+    sampling: number | SamplingOptions,
+    strict: boolean
+  ): Promise<Record<string, JsonDocumentStructure>> {
+    const requested = columns.map(spec => {
+      const parts = spec.split('.');
+      if (parts.length < 2 || parts.length > 3 || parts.some(part => part === '')) {
+        throw new SqlAgentError(
+          `Invalid column: ${spec}`,
+          'INVALID_COLUMN',
+          'Name columns as table.column or schema.table.column'
+        );
+      }
+      const column = parts.pop() as string;
+      return {
+        spec,
+        table: parts.join('.'),
+        schema: parts.length === 2 ? parts[0] : undefined,
+        name: parts[parts.length - 1],
+        column,
+      };
+    });
+    const schema = await this.getSchema(Array.from(new Set(requested.map(r => r.table))));
+
+    const tables = new Map<TableInfo, ColumnInfo[]>();
+    for (const { spec, schema: schemaName, name, column } of requested) {
+      const table = schema.tables.find(
+        candidate =>
+          candidate.name.toLowerCase() === name.toLowerCase() &&
+          (schemaName === undefined || candidate.schema.toLowerCase() === schemaName.toLowerCase())
+      );
+      const info = table?.columns.find(
+        candidate =>
+          candidate.column_name === column &&
+          (candidate.data_type === 'jsonb' || candidate.data_type === 'json')
+      );
+      if (!table || !info) {
+        if (strict) {
+          throw table
+            ? new SqlAgentError(
+                `Not a json or jsonb column of ${table.schema}.${table.name}: ${column}`,
+                'INVALID_COLUMN'
+              )
+            : new SqlAgentError(
+                `Table not found: ${spec.slice(0, -column.length - 1)}`,
+                'UNKNOWN_TABLE'
+              );
+        }
+        continue;
       }
+      tables.set(table, [...(tables.get(table) ?? []), info]);
     }
 
+    return this.inferJsonbStructures(
+      Array.from(tables, ([table, tableColumns]) => ({ ...table, columns: tableColumns })),
+      sampling
+    );
+  }
+
+  /**
+   * Save the inferred structure of json and jsonb columns to a snapshot file
+   */
+  async snapshotJsonb(
+    columns: string[],
+    outputPath: string,
+    sampling: number | SamplingOptions = 100
+  ): Promise<JsonbSnapshotResult> {
+    const start = Date.now();
+    const resolvedPath = resolveOutputPath(outputPath);
+    const structures = await this.inferColumnStructures(columns, sampling, true);
+    const content = `${JSON.stringify(createSnapshot(structures), null, 2)}\n`;
+    writeFileSync(resolvedPath, content);
     return {
-      tables,
-      ...(missingTables.length > 0 && { missingTables }),
+      outputPath: resolvedPath,
+      columns: Object.keys(structures),
+      bytes: Buffer.byteLength(content),
+      duration: Date.now() - start,
     };
   }
 
+  /**
+   * Compare the current inferred structure of the columns of a snapshot file
+   * with the snapshot
+   */
+  async diffJsonb(
+    snapshotPath: string,
+    sampling: number | SamplingOptions = 100
+  ): Promise<JsonbDiffResult> {
+    const start = Date.now();
+    const resolvedPath = resolve(process.cwd(), snapshotPath);
+    if (!existsSync(resolvedPath)) {
+      throw new SqlAgentError(`File not found: ${resolvedPath}`, 'FILE_NOT_FOUND');
+    }
+    const snapshot = parseSnapshot(readFileSync(resolvedPath, 'utf8'));
+    const columns = Object.keys(snapshot.columns);
+    const structures = await this.inferColumnStructures(columns, sampling, false);
+
+    return {
+      snapshotPath: resolvedPath,
+      createdAt: snapshot.createdAt,
+      columns,
+      changes: columns.flatMap(column => {
+        const structure = structures[column];
+        return diffSnapshotColumns(
+          column,
+          snapshot.columns[column],
+          structure && snapshotColumn(structure)
+        );
+      }),
+      duration: Date.now() - start,
+    };
+  }
+
+  /**
+   * Generate TypeScript declarations for tables, views and enum types. The
+   * structure of JSONB columns is inferred from a sample of their rows.
+   */
+  async generateTypes(options: GenerateTypesOptions = {}): Promise<GeneratedTypes> {
+    const start = Date.now();
+    const outputPath = options.outputPath && resolveOutputPath(options.outputPath);
+    const schema = await this.getSchema(options.tables, options.allSchemas);
+    const samples = options.jsonbSamples ?? 10;
+
+    const jsonbStructures =
+      samples > 0 ? await this.inferJsonbStructures(schema.tables, samples) : {};
+
+    const source = generateTypes(schema, { jsonbStructures });
+    if (outputPath) {
+      writeFileSync(outputPath, source);
+    }
+    return {
+      source,
+      tables: schema.tables.length,
+      views: schema.views?.length ?? 0,
+      enums: schema.enums?.length ?? 0,
+      ...(outputPath && { outputPath, bytes: Buffer.byteLength(source) }),
+      duration: Date.now() - start,
+    };
+  }
+
+  async close(): Promise<void> {
+    // Don't close the shared pool, just mark this executor as closed
+    // The pool will be closed when the application exits
+  }
+
   async backup(options: BackupOptions = {}): Promise<BackupResult> {
     const start = Date.now();
 
@@ -470,24 +1364,7 @@ export class SqlExecutor {
               : 'sql';
       let outputPath = options.outputPath || `backup_${timestamp}.${defaultExt}`;
 
-      // Prevent directory traversal attacks
-      outputPath = normalize(outputPath);
-      if (outputPath.includes('..')) {
-        throw new Error('Invalid output path: directory traversal not allowed');
-      }
-
-      // Make path absolute if not already
-      if (!isAbsolute(outputPath)) {
-        outputPath = resolve(process.cwd(), outputPath);
-      }
-
-      // Check if directory is writable
-      const outputDir = dirname(outputPath);
-      try {
-        accessSync(outputDir, constants.W_OK);
-      } catch (_error) {
-        throw new Error(`Output directory not writable: ${outputDir}`);
-      }
+      outputPath = resolveOutputPath(outputPath);
 
       if (options.format !== 'directory') {
         args.push('-f', outputPath);
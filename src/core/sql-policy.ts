@@ -0,0 +1,274 @@
+/**
+ * Statement policy
+ * Decides whether classified statements may run: allow, deny or require
+ * confirmation per statement category, schema or table.
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import { resolve } from 'path';
+import { SqlAgentError } from './errors';
+import { ClassifiedStatement, StatementCategory, STATEMENT_CATEGORIES } from './sql-classifier';
+import { getLineAndColumn } from './sql-tokenizer';
+
+export type PolicyAction = 'allow' | 'deny' | 'confirm';
+
+/** An action for every category, or one per category (missing categories are allowed) */
+export type PolicyRule = PolicyAction | Partial<Record<StatementCategory, PolicyAction>>;
+
+export interface SqlPolicy {
+  /** Action for categories not listed in `categories` (defaults to allow) */
+  default?: PolicyAction;
+  categories?: Partial<Record<StatementCategory, PolicyAction>>;
+  /** Rules keyed by schema name; unqualified table names are assumed to be in `public` */
+  schemas?: Record<string, PolicyRule>;
+  /** Rules keyed by `schema.table`, or by a bare table name to match it in any schema */
+  tables?: Record<string, PolicyRule>;
+}
+
+export interface PolicyMatch {
+  statementIndex: number;
+  command: string;
+  category: StatementCategory;
+  action: PolicyAction;
+  /** The rule that produced the action, e.g. `category ddl` or `table public.users` */
+  reason: string;
+}
+
+/** Why a statement must be confirmed before it runs */
+export interface ConfirmationReason {
+  statementIndex: number;
+  command: string;
+  reason: string;
+}
+
+export interface PolicyDecision {
+  /** The strictest action over all statements */
+  action: PolicyAction;
+  /** Every rule that did not simply allow a statement */
+  matches: PolicyMatch[];
+}
+
+const POLICY_ACTIONS: PolicyAction[] = ['allow', 'deny', 'confirm'];
+const ACTION_RANK: Record<PolicyAction, number> = { allow: 0, confirm: 1, deny: 2 };
+
+/**
+ * Check the statements against the policy. The strictest matching rule wins,
+ * so a table rule can tighten but never loosen a category rule.
+ */
+export function evaluatePolicy(
+  policy: SqlPolicy,
+  statements: ClassifiedStatement[]
+): PolicyDecision {
+  const matches: PolicyMatch[] = [];
+
+  statements.forEach((statement, statementIndex) => {
+    const { command, category } = statement;
+    const record = (action: PolicyAction | undefined, reason: string): void => {
+      if (action && action !== 'allow') {
+        matches.push({ statementIndex, command, category, action, reason });
+      }
+    };
+
+    record(policy.categories?.[category] ?? policy.default, `category ${category}`);
+
+    for (const table of statement.tables) {
+      // Tables a statement only reads are judged as reads
+      const effective = table.target ? category : 'read';
+      const schema = table.schema ?? 'public';
+      const qualified = `${schema}.${table.name}`;
+
+      const schemaRule = policy.schemas?.[schema];
+      record(ruleAction(schemaRule, effective), `schema ${schema}`);
+
+      const tableRule = policy.tables?.[qualified] ?? policy.tables?.[table.name];
+      record(ruleAction(tableRule, effective), `table ${qualified}`);
+    }
+  });
+
+  const action = matches.reduce<PolicyAction>(
+    (strictest, match) =>
+      ACTION_RANK[match.action] > ACTION_RANK[strictest] ? match.action : strictest,
+    'allow'
+  );
+  return { action, matches };
+}
+
+/**
+ * Throw a POLICY_VIOLATION or CONFIRMATION_REQUIRED error if the policy does not allow
+ * the statements. Errors for scripts point at the offending statement in `sql`.
+ * Once the caller has confirmed the statements, only denials are errors.
+ */
+export function enforcePolicy(
+  policy: SqlPolicy,
+  statements: ClassifiedStatement[],
+  sql?: string,
+  confirmed = false
+): void {
+  const decision = evaluatePolicy(policy, statements);
+  if (decision.action === 'allow' || (decision.action === 'confirm' && confirmed)) {
+    return;
+  }
+
+  const match = decision.matches.find(m => m.action === decision.action) as PolicyMatch;
+  const subject =
+    statements.length > 1
+      ? `Statement ${match.statementIndex + 1} (${match.command})`
+      : `${match.command} statement`;
+
+  const error =
+    decision.action === 'deny'
+      ? new SqlAgentError(
+          `${subject} denied by policy: ${match.reason}`,
+          'POLICY_VIOLATION',
+          'The SQL policy does not allow this statement'
+        )
+      : new SqlAgentError(
+          `${subject} requires confirmation by policy: ${match.reason}`,
+          'CONFIRMATION_REQUIRED',
+          'The SQL policy requires this statement to be confirmed before it runs'
+        );
+  if (statements.length > 1 && sql !== undefined) {
+    const { line, column } = getLineAndColumn(sql, statements[match.statementIndex].start);
+    Object.assign(error, { statementIndex: match.statementIndex, line, column });
+  }
+  throw error;
+}
+
+/**
+ * List what must be confirmed before the statements run: destructive statements
+ * (unless `includeDestructive` is false) and statements the policy marks `confirm`.
+ * Returns nothing when the policy denies the statements, since they will not run at all.
+ */
+export function requiredConfirmations(
+  statements: ClassifiedStatement[],
+  policy?: SqlPolicy,
+  includeDestructive = true
+): ConfirmationReason[] {
+  const reasons: ConfirmationReason[] = [];
+
+  if (policy) {
+    const decision = evaluatePolicy(policy, statements);
+    if (decision.action === 'deny') {
+      return [];
+    }
+    for (const match of decision.matches) {
+      reasons.push({
+        statementIndex: match.statementIndex,
+        command: match.command,
+        reason: `policy requires confirmation (${match.reason})`,
+      });
+    }
+  }
+
+  if (includeDestructive) {
+    statements.forEach((statement, statementIndex) => {
+      if (statement.destructive) {
+        reasons.push({ statementIndex, command: statement.command, reason: statement.destructive });
+      }
+    });
+  }
+
+  return reasons.sort((a, b) => a.statementIndex - b.statementIndex);
+}
+
+/**
+ * Validate a parsed policy document
+ */
+export function parsePolicy(value: unknown, source = 'policy'): SqlPolicy {
+  const fail = (message: string): never => {
+    throw new SqlAgentError(`Invalid ${source}: ${message}`, 'INVALID_POLICY');
+  };
+
+  if (!isObject(value)) {
+    return fail('expected a JSON object');
+  }
+  for (const key of Object.keys(value)) {
+    if (!['default', 'categories', 'schemas', 'tables'].includes(key)) {
+      fail(`unknown key "${key}"`);
+    }
+  }
+
+  if (value.default !== undefined && !isAction(value.default)) {
+    fail(`default must be one of ${POLICY_ACTIONS.join(', ')}`);
+  }
+  if (value.categories !== undefined) {
+    validateCategoryMap(value.categories, 'categories', fail);
+  }
+  for (const section of ['schemas', 'tables'] as const) {
+    const rules = value[section];
+    if (rules === undefined) continue;
+    if (!isObject(rules)) {
+      fail(`${section} must be an object`);
+      continue;
+    }
+    for (const [name, rule] of Object.entries(rules)) {
+      if (!isAction(rule)) {
+        validateCategoryMap(rule, `${section}.${name}`, fail);
+      }
+    }
+  }
+
+  return value as SqlPolicy;
+}
+
+/**
+ * Read and validate a JSON policy file
+ */
+export function loadPolicy(filepath: string): SqlPolicy {
+  const resolvedPath = resolve(process.cwd(), filepath);
+  if (!existsSync(resolvedPath)) {
+    throw new SqlAgentError(`Policy file not found: ${resolvedPath}`, 'INVALID_POLICY');
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(resolvedPath, 'utf8'));
+  } catch (error) {
+    throw new SqlAgentError(
+      `Invalid policy file ${resolvedPath}: ${error instanceof Error ? error.message : String(error)}`,
+      'INVALID_POLICY'
+    );
+  }
+  return parsePolicy(parsed, `policy file ${resolvedPath}`);
+}
+
+/**
+ * Load the policy named by SEQUELAE_POLICY_FILE, if any
+ */
+export function loadPolicyFromEnv(): SqlPolicy | undefined {
+  const filepath = process.env.SEQUELAE_POLICY_FILE;
+  return filepath ? loadPolicy(filepath) : undefined;
+}
+
+function ruleAction(
+  rule: PolicyRule | undefined,
+  category: StatementCategory
+): PolicyAction | undefined {
+  if (rule === undefined || typeof rule === 'string') {
+    return rule;
+  }
+  return rule[category];
+}
+
+function validateCategoryMap(value: unknown, path: string, fail: (message: string) => never): void {
+  if (!isObject(value)) {
+    fail(`${path} must be an action or an object of category actions`);
+    return;
+  }
+  for (const [category, action] of Object.entries(value)) {
+    if (!STATEMENT_CATEGORIES.includes(category as StatementCategory)) {
+      fail(`${path} has unknown category "${category}"`);
+    }
+    if (!isAction(action)) {
+      fail(`${path}.${category} must be one of ${POLICY_ACTIONS.join(', ')}`);
+    }
+  }
+}
+
+function isAction(value: unknown): value is PolicyAction {
+  return POLICY_ACTIONS.includes(value as PolicyAction);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,281 @@
+/**
+ * Lightweight PostgreSQL tokenizer
+ * Understands comments, quoted strings/identifiers, dollar quoting and placeholders,
+ * which is enough to rewrite parameters and reason about statements safely.
+ */
+
+export type SqlTokenType =
+  | 'whitespace'
+  | 'line_comment'
+  | 'block_comment'
+  | 'string'
+  | 'dollar_string'
+  | 'quoted_identifier'
+  | 'word'
+  | 'number'
+  | 'positional_param'
+  | 'named_param'
+  | 'operator'
+  | 'punctuation'
+  | 'semicolon';
+
+export interface SqlToken {
+  type: SqlTokenType;
+  text: string;
+  start: number;
+}
+
+const WORD_START = /[A-Za-z_\u0080-\uffff]/;
+const WORD_PART = /[A-Za-z0-9_$\u0080-\uffff]/;
+const DIGIT = /[0-9]/;
+const PUNCTUATION = new Set(['(', ')', '[', ']', ',', '.']);
+const OPERATOR_CHARS = new Set([
+  '+',
+  '-',
+  '*',
+  '/',
+  '<',
+  '>',
+  '=',
+  '~',
+  '!',
+  '@',
+  '#',
+  '%',
+  '^',
+  '&',
+  '|',
+  '`',
+  '?',
+  ':',
+]);
+
+/**
+ * Split SQL text into tokens. Never throws: unterminated strings or comments
+ * simply run to the end of the input.
+ */
+export function tokenize(sql: string): SqlToken[] {
+  const tokens: SqlToken[] = [];
+  let i = 0;
+
+  const push = (type: SqlTokenType, end: number): void => {
+    tokens.push({ type, text: sql.slice(i, end), start: i });
+    i = end;
+  };
+
+  while (i < sql.length) {
+    const ch = sql[i];
+    const next = sql[i + 1];
+
+    if (/\s/.test(ch)) {
+      let end = i + 1;
+      while (end < sql.length && /\s/.test(sql[end])) end++;
+      push('whitespace', end);
+    } else if (ch === '-' && next === '-') {
+      const newline = sql.indexOf('\n', i);
+      push('line_comment', newline === -1 ? sql.length : newline);
+    } else if (ch === '/' && next === '*') {
+      push('block_comment', scanBlockComment(sql, i));
+    } else if (ch === "'") {
+      push('string', scanQuoted(sql, i, "'", false));
+    } else if ((ch === 'E' || ch === 'e') && next === "'") {
+      push('string', scanQuoted(sql, i + 1, "'", true));
+    } else if (ch === '"') {
+      push('quoted_identifier', scanQuoted(sql, i, '"', false));
+    } else if (ch === '$') {
+      const positional = /^\$[0-9]+/.exec(sql.slice(i));
+      const tag = /^\$([A-Za-z_][A-Za-z0-9_]*)?\$/.exec(sql.slice(i));
+      if (positional) {
+        push('positional_param', i + positional[0].length);
+      } else if (tag) {
+        const closing = sql.indexOf(tag[0], i + tag[0].length);
+        push('dollar_string', closing === -1 ? sql.length : closing + tag[0].length);
+      } else {
+        push('operator', i + 1);
+      }
+    } else if (ch === ':' && next === ':') {
+      push('operator', i + 2);
+    } else if (ch === ':' && next !== undefined && WORD_START.test(next)) {
+      let end = i + 2;
+      while (end < sql.length && /[A-Za-z0-9_]/.test(sql[end])) end++;
+      push('named_param', end);
+    } else if (ch === ';') {
+      push('semicolon', i + 1);
+    } else if (DIGIT.test(ch) || (ch === '.' && next !== undefined && DIGIT.test(next))) {
+      push('number', scanNumber(sql, i));
+    } else if (WORD_START.test(ch)) {
+      let end = i + 1;
+      while (end < sql.length && WORD_PART.test(sql[end])) end++;
+      push('word', end);
+    } else if (PUNCTUATION.has(ch)) {
+      push('punctuation', i + 1);
+    } else if (OPERATOR_CHARS.has(ch)) {
+      let end = i + 1;
+      while (
+        end < sql.length &&
+        OPERATOR_CHARS.has(sql[end]) &&
+        sql[end] !== ':' &&
+        !(sql[end] === '-' && sql[end + 1] === '-') &&
+        !(sql[end] === '/' && sql[end + 1] === '*')
+      ) {
+        end++;
+      }
+      push('operator', end);
+    } else {
+      push('punctuation', i + 1);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * True for tokens that carry no meaning for the parser (whitespace and comments)
+ */
+export function isTrivia(token: SqlToken): boolean {
+  return (
+    token.type === 'whitespace' || token.type === 'line_comment' || token.type === 'block_comment'
+  );
+}
+
+function scanBlockComment(sql: string, start: number): number {
+  let depth = 0;
+  let i = start;
+  while (i < sql.length) {
+    if (sql[i] === '/' && sql[i + 1] === '*') {
+      depth++;
+      i += 2;
+    } else if (sql[i] === '*' && sql[i + 1] === '/') {
+      depth--;
+      i += 2;
+      if (depth === 0) return i;
+    } else {
+      i++;
+    }
+  }
+  return sql.length;
+}
+
+function scanQuoted(sql: string, start: number, quote: string, backslashEscapes: boolean): number {
+  let i = start + 1;
+  while (i < sql.length) {
+    if (backslashEscapes && sql[i] === '\\') {
+      i += 2;
+    } else if (sql[i] === quote) {
+      if (sql[i + 1] === quote) {
+        i += 2;
+      } else {
+        return i + 1;
+      }
+    } else {
+      i++;
+    }
+  }
+  return sql.length;
+}
+
+function scanNumber(sql: string, start: number): number {
+  const match = /^(?:[0-9]+(?:\.[0-9]*)?|\.[0-9]+)(?:[eE][+-]?[0-9]+)?/.exec(sql.slice(start));
+  return start + (match ? match[0].length : 1);
+}
+
+export interface SqlStatement {
+  /** Statement text without surrounding comments, whitespace or the terminating semicolon */
+  text: string;
+  /** Offset of the first character of `text` in the original SQL */
+  start: number;
+  /** Offset just past the last character of `text` */
+  end: number;
+  /** Significant tokens of the statement, with offsets into the original SQL */
+  tokens: SqlToken[];
+}
+
+/**
+ * Split a SQL script into statements on top-level semicolons.
+ * Semicolons inside strings, comments, dollar-quoted bodies and
+ * `BEGIN ATOMIC ... END` function bodies do not end a statement.
+ */
+export function splitStatements(sql: string): SqlStatement[] {
+  const statements: SqlStatement[] = [];
+  let current: SqlToken[] = [];
+  let atomicDepth = 0;
+
+  const flush = (): void => {
+    if (current.length > 0) {
+      const first = current[0];
+      const last = current[current.length - 1];
+      const end = last.start + last.text.length;
+      statements.push({
+        text: sql.slice(first.start, end),
+        start: first.start,
+        end,
+        tokens: current,
+      });
+    }
+    current = [];
+    atomicDepth = 0;
+  };
+
+  for (const token of tokenize(sql)) {
+    if (isTrivia(token)) {
+      continue;
+    }
+    if (token.type === 'semicolon' && atomicDepth === 0) {
+      flush();
+      continue;
+    }
+
+    if (token.type === 'word') {
+      const word = token.text.toUpperCase();
+      const previous = current[current.length - 1];
+      if (word === 'ATOMIC' && previous?.text.toUpperCase() === 'BEGIN') {
+        atomicDepth++;
+      } else if (atomicDepth > 0 && word === 'CASE') {
+        atomicDepth++;
+      } else if (atomicDepth > 0 && word === 'END') {
+        atomicDepth--;
+      }
+    }
+    current.push(token);
+  }
+  flush();
+
+  return statements;
+}
+
+/**
+ * Whether SQL text ends with a semicolon that terminates its last statement, i.e.
+ * not one inside a string, comment or `BEGIN ATOMIC` body
+ */
+export function endsStatement(sql: string): boolean {
+  const statements = splitStatements(sql);
+  const last = statements[statements.length - 1];
+  if (!last) {
+    return false;
+  }
+  // A semicolon inside the statement would have been part of its text
+  return tokenize(sql.slice(last.end)).some(token => token.type === 'semicolon');
+}
+
+/**
+ * Convert a character offset into a 1-based line and column
+ */
+export function getLineAndColumn(sql: string, offset: number): { line: number; column: number } {
+  const before = sql.slice(0, Math.max(0, offset));
+  const lines = before.split('\n');
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+}
+
+/**
+ * Quote an identifier so it can be spliced into SQL safely
+ */
+export function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Quote a string literal so it can be spliced into SQL safely
+ */
+export function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
@@ -0,0 +1,242 @@
+/**
+ * TypeScript type generation
+ * Turns a schema result into a declaration file: a row interface per table and
+ * view, Insert and Update variants per table, and a union type per enum. Column
+ * types follow what node-postgres returns by default, so bigint and numeric are
+ * strings and timestamps are Dates. JSON columns with an inferred structure get
+ * a nested object type (an array type when they hold arrays of objects), all
+ * other JSON columns the `Json` type.
+ */
+
+import { JsonDocumentStructure, JsonFieldInfo, JsonStructure } from '../jsonb-analyzer';
+import { ColumnInfo, SchemaResult } from './schema-introspection';
+
+export interface TypeGenerationOptions {
+  // Inferred JSONB structures keyed by `schema.table.column`
+  jsonbStructures?: Record<string, JsonDocumentStructure>;
+}
+
+export interface GenerateTypesOptions {
+  // Specific tables and views, optionally schema-qualified; defaults to all in scope
+  tables?: string[];
+  allSchemas?: boolean;
+  // Rows sampled per JSONB column to infer its structure; 0 skips sampling
+  jsonbSamples?: number;
+  // File to write the declarations to, validated like an export path
+  outputPath?: string;
+}
+
+export interface GeneratedTypes {
+  source: string;
+  tables: number;
+  views: number;
+  enums: number;
+  outputPath?: string;
+  bytes?: number;
+  duration: number;
+}
+
+/** TypeScript types of the built-in types, by `udt_name`; anything else is a string */
+const TYPE_MAP: Record<string, string> = {
+  int2: 'number',
+  int4: 'number',
+  float4: 'number',
+  float8: 'number',
+  oid: 'number',
+  // Returned as strings, since they may not fit a JavaScript number
+  int8: 'string',
+  numeric: 'string',
+  money: 'string',
+  bool: 'boolean',
+  json: 'Json',
+  jsonb: 'Json',
+  date: 'Date',
+  timestamp: 'Date',
+  timestamptz: 'Date',
+  bytea: 'Buffer',
+  point: '{ x: number; y: number }',
+  interval:
+    '{ years?: number; months?: number; days?: number; hours?: number; minutes?: number; seconds?: number; milliseconds?: number }',
+};
+
+const JSON_TYPE =
+  'export type Json = string | number | boolean | null | Json[] | { [key: string]: Json };';
+
+const JSON_OBJECT = '{ [key: string]: Json }';
+
+/**
+ * PascalCase name for a database object, prefixed with its schema outside public
+ */
+export function typeName(schema: string, name: string): string {
+  const words = (schema === 'public' ? [name] : [schema, name])
+    .flatMap(part => part.split(/[^A-Za-z0-9]+/))
+    .filter(Boolean);
+  const pascal = words.map(word => word[0].toUpperCase() + word.slice(1)).join('');
+  return /^[0-9]/.test(pascal) || pascal === '' ? `_${pascal}` : pascal;
+}
+
+function stringLiteral(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+}
+
+function propertyName(name: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : stringLiteral(name);
+}
+
+function union(types: string[]): string {
+  return Array.from(new Set(types)).join(' | ');
+}
+
+function arrayOf(type: string): string {
+  return type.includes(' | ') ? `(${type})[]` : `${type}[]`;
+}
+
+/**
+ * TypeScript object type for an inferred JSON structure, with nested lines indented
+ * past `indent`. Values of unknown shape are typed `Json`.
+ */
+export function structureType(structure: JsonStructure, indent = ''): string {
+  const fields = Object.entries(structure);
+  if (fields.length === 0) {
+    return JSON_OBJECT;
+  }
+  const lines = fields.map(
+    ([field, info]) =>
+      `${indent}  ${propertyName(field)}${info.optional ? '?' : ''}: ${fieldType(info, `${indent}  `)};`
+  );
+  return `{\n${lines.join('\n')}\n${indent}}`;
+}
+
+function fieldType(info: JsonFieldInfo, indent: string): string {
+  return union(
+    Array.from(info.types).map(type => {
+      if (type === 'object') {
+        return info.nestedStructure ? structureType(info.nestedStructure, indent) : JSON_OBJECT;
+      }
+      if (type === 'array') {
+        const elements = Array.from(info.arrayElementTypes ?? []).map(element =>
+          element === 'object' ? JSON_OBJECT : element === 'array' ? 'Json[]' : element
+        );
+        return elements.length > 0 ? arrayOf(union(elements)) : 'Json[]';
+      }
+      return ['string', 'number', 'boolean', 'null'].includes(type) ? type : 'Json';
+    })
+  );
+}
+
+/**
+ * Render a schema result as TypeScript declarations
+ */
+export function generateTypes(schema: SchemaResult, options: TypeGenerationOptions = {}): string {
+  const used = new Set<string>();
+  const uniqueName = (name: string): string => {
+    let unique = name;
+    for (let suffix = 2; used.has(unique); suffix++) {
+      unique = `${name}${suffix}`;
+    }
+    used.add(unique);
+    return unique;
+  };
+
+  // Table and view names are claimed first, so they keep their plain names
+  const relations = [
+    ...schema.tables.map(table => ({ ...table, isView: false })),
+    ...(schema.views ?? []).map(view => ({ ...view, isView: true })),
+  ].map(relation => ({
+    ...relation,
+    typeName: uniqueName(typeName(relation.schema, relation.name)),
+  }));
+
+  // Type names of the enums, by `schema.name`
+  const enumTypes = new Map<string, string>();
+  const blocks: string[] = [];
+  for (const type of schema.enums ?? []) {
+    const name = uniqueName(typeName(type.schema, type.name));
+    enumTypes.set(`${type.schema}.${type.name}`, name);
+    const values = type.values.map(stringLiteral);
+    blocks.push(`export type ${name} = ${values.length > 0 ? values.join(' | ') : 'never'};`);
+  }
+
+  let usesJson = false;
+  const columnType = (column: ColumnInfo, schemaName: string, table: string): string => {
+    const udt = column.udt_name ?? column.data_type;
+    const isArray = column.data_type === 'ARRAY' || udt.startsWith('_');
+    const base = isArray ? udt.replace(/^_/, '') : udt;
+    const structure = isArray
+      ? undefined
+      : options.jsonbStructures?.[`${schemaName}.${table}.${column.column_name}`];
+
+    let type: string;
+    if (structure && Object.keys(structure.fields).length > 0) {
+      type = structureType(structure.fields, '  ');
+      if (structure.arrayElements) {
+        type = arrayOf(type);
+      }
+    } else {
+      type =
+        enumTypes.get(`${column.udt_schema ?? schemaName}.${base}`) ?? TYPE_MAP[base] ?? 'string';
+    }
+    if (type.includes('Json')) {
+      usesJson = true;
+    }
+    if (isArray) {
+      type = arrayOf(type);
+    }
+    return column.is_nullable === 'YES' ? `${type} | null` : type;
+  };
+
+  for (const relation of relations) {
+    const { columns } = relation;
+    const types = columns.map(column => columnType(column, relation.schema, relation.name));
+    const property = (column: ColumnInfo, index: number, optional: boolean): string => {
+      const comment = column.comment ? `  /** ${column.comment.replace(/\*\//g, '* /')} */\n` : '';
+      return `${comment}  ${propertyName(column.column_name)}${optional ? '?' : ''}: ${types[index]};`;
+    };
+    const header = (name: string, doc?: string | null): string =>
+      `${doc ? `/** ${doc.replace(/\*\//g, '* /')} */\n` : ''}export interface ${name} {`;
+
+    const rowType = [
+      header(relation.typeName, relation.comment),
+      ...columns.map((column, index) => property(column, index, false)),
+      '}',
+    ];
+    blocks.push(rowType.join('\n'));
+    if (relation.isView) {
+      continue;
+    }
+
+    // Generated columns and GENERATED ALWAYS identities cannot be written
+    const writable = columns
+      .map((column, index) => ({ column, index }))
+      .filter(
+        ({ column }) => column.is_generated !== 'ALWAYS' && column.identity_generation !== 'ALWAYS'
+      );
+    const insert = [
+      header(uniqueName(`${relation.typeName}Insert`)),
+      ...writable.map(({ column, index }) =>
+        property(
+          column,
+          index,
+          column.column_default !== null ||
+            column.is_nullable === 'YES' ||
+            column.is_identity === 'YES'
+        )
+      ),
+      '}',
+    ];
+    const update = [
+      header(uniqueName(`${relation.typeName}Update`)),
+      ...writable.map(({ column, index }) => property(column, index, true)),
+      '}',
+    ];
+    blocks.push(insert.join('\n'), update.join('\n'));
+  }
+
+  return [
+    '// Generated by sequelae from the database schema. Do not edit.',
+    ...(usesJson ? [JSON_TYPE] : []),
+    ...blocks,
+  ]
+    .join('\n\n')
+    .concat('\n');
+}
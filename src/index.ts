@@ -4,21 +4,173 @@
 
 // Export MCP server and related types
 export { SqlAgentMcpServer } from './mcp';
-export { SQL_AGENT_TOOLS, getToolDefinition, validateToolInput } from './mcp/tool-definition';
+export {
+  SQL_AGENT_TOOLS,
+  getToolDefinition,
+  getAvailableTools,
+  validateToolInput,
+} from './mcp/tool-definition';
 export { McpToolHandler, McpToolRequest, McpToolResponse } from './mcp/tool-handler';
 export type { McpToolDefinition, McpPropertySchema } from './mcp/tool-definition';
-export type { McpServerInfo, McpToolsListResponse } from './mcp';
+export type { McpServerInfo, McpToolsListResponse, McpServerOptions } from './mcp';
+export type { McpToolHandlerOptions } from './mcp/tool-handler';
 
 // Export SQL executor
 export { SqlExecutor } from './core/sql-executor';
 export type {
+  SqlExecutorOptions,
+  ExecuteOptions,
+  StreamOptions,
+  ExplainOptions,
+  ExplainResult,
+  ImpactPreview,
+  StatementImpact,
   QueryResult,
+  StatementResult,
+  StatementError,
   SchemaResult,
   TableInfo,
   ColumnInfo,
   ConstraintInfo,
+  IndexInfo,
+  ForeignKeyInfo,
+  CheckConstraintInfo,
+  ViewInfo,
+  EnumInfo,
   MissingTableInfo,
+  ColumnMatch,
 } from './core/sql-executor';
+export {
+  parseSchemaRows,
+  suggestRelations,
+  withJsonbStructures,
+} from './core/schema-introspection';
+
+// Export JSONB sampling, structure analysis and its JSON Schema, Zod and TypeScript exporters
+export {
+  analyzeJsonStructure,
+  analyzeJsonDocuments,
+  resolveSampling,
+  exportJsonStructure,
+  toJsonSchema,
+  toZod,
+  JSONB_FORMATS,
+  SAMPLING_STRATEGIES,
+} from './jsonb-analyzer';
+export type {
+  JsonStructure,
+  JsonDocumentStructure,
+  JsonFieldInfo,
+  JsonSchema,
+  JsonbFormat,
+  SamplingOptions,
+  SamplingStrategy,
+  StringFormat,
+} from './jsonb-analyzer';
+
+// Export query parameter helpers and shared error type
+export { prepareQuery } from './core/query-params';
+export type { QueryParams, PreparedQuery } from './core/query-params';
+export { SqlAgentError } from './core/errors';
+
+// Export named connection helpers
+export {
+  DEFAULT_CONNECTION,
+  connectionEnvSuffix,
+  connectionSetting,
+  listConnections,
+  resolveConnectionString,
+} from './core/connections';
+
+// Export config file helpers
+export {
+  findConfigFile,
+  parseConfig,
+  loadConfig,
+  loadProjectConfig,
+  configToEnv,
+  applyConfig,
+  effectiveConfig,
+} from './core/config';
+export type { SequelaeConfig, ConnectionConfig, LoadedConfig } from './core/config';
+
+// Export statement classifier and policy engine
+export { classifySql, classifyStatement, STATEMENT_CATEGORIES } from './core/sql-classifier';
+export type { StatementCategory, ClassifiedStatement, TableReference } from './core/sql-classifier';
+export {
+  evaluatePolicy,
+  enforcePolicy,
+  requiredConfirmations,
+  parsePolicy,
+  loadPolicy,
+} from './core/sql-policy';
+export type {
+  SqlPolicy,
+  ConfirmationReason,
+  PolicyAction,
+  PolicyRule,
+  PolicyMatch,
+  PolicyDecision,
+} from './core/sql-policy';
+
+// Export query plan summary
+export { summarizePlan, formatPlanSummary } from './core/plan-summary';
+export type {
+  ExplainOutput,
+  PlanNode,
+  PlanSummary,
+  PlanNodeSummary,
+  SeqScanSummary,
+  MisestimateSummary,
+  SortSpillSummary,
+  SummarizeOptions,
+} from './core/plan-summary';
+
+// Export query exports
+export { EXPORT_FORMATS, resolveExportFormat, writeExport } from './core/query-export';
+export type { ExportFormat, ExportOptions, ExportResult } from './core/query-export';
+
+// Export data import
+export { IMPORT_FORMATS, loadFileIntoTable, resolveImportFormat } from './core/data-import';
+export type { ImportFormat, ImportOptions, ImportProgress, ImportResult } from './core/data-import';
+
+// Export TypeScript type generation
+export { generateTypes, typeName } from './core/type-generator';
+export type {
+  GenerateTypesOptions,
+  GeneratedTypes,
+  TypeGenerationOptions,
+} from './core/type-generator';
+
+// Export JSONB path discovery
+export { describeJsonbPaths, formatJsonbPaths } from './core/jsonb-paths';
+export type {
+  JsonbColumnPaths,
+  JsonbPathIndex,
+  JsonbPathInfo,
+  JsonbPathsOptions,
+  JsonbPathsResult,
+} from './core/jsonb-paths';
+
+// Export JSONB drift detection
+export {
+  createSnapshot,
+  describeFieldType,
+  diffSnapshotColumns,
+  formatJsonbDrift,
+  parseSnapshot,
+  snapshotColumn,
+  SNAPSHOT_VERSION,
+} from './core/jsonb-drift';
+export type {
+  JsonbChange,
+  JsonbChangeKind,
+  JsonbDiffResult,
+  JsonbSnapshot,
+  JsonbSnapshotResult,
+  SnapshotColumn,
+  SnapshotField,
+} from './core/jsonb-drift';
 
 // Export backup types
 export type { BackupOptions, BackupResult } from './types/backup';
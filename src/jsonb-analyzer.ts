@@ -1,101 +1,240 @@
 import { Client, PoolClient } from 'pg';
+import { structureType } from './core/type-generator';
+import { SqlAgentError } from './core/errors';
+import { quoteIdentifier } from './core/sql-tokenizer';
 
 export interface JsonStructure {
   [key: string]: JsonFieldInfo;
 }
 
+/**
+ * Inferred structure of the documents of a JSON column
+ */
+export interface JsonDocumentStructure {
+  // Whether the documents are arrays of objects, whose elements `fields` describe
+  arrayElements: boolean;
+  fields: JsonStructure;
+}
+
 export interface JsonFieldInfo {
   types: Set<string>;
   optional: boolean;
   arrayElementTypes?: Set<string>;
   nestedStructure?: JsonStructure;
+  // Objects the field appears in, and the share of the analyzed objects that is (0-100)
+  count: number;
+  presence: number;
+  // How many of those values have each JSON type
+  typeCounts: Record<string, number>;
+  // Up to three distinct scalar values
+  examples: unknown[];
+  // Distinct scalar values seen, counting at most DISTINCT_LIMIT
+  distinct: number;
+  // Format every string value matches
+  format?: StringFormat;
+}
+
+export type StringFormat = 'uuid' | 'date' | 'date-time' | 'email' | 'uri';
+
+export type SamplingStrategy = 'first' | 'system' | 'bernoulli' | 'recent' | 'full';
+
+export const SAMPLING_STRATEGIES: SamplingStrategy[] = [
+  'first',
+  'system',
+  'bernoulli',
+  'recent',
+  'full',
+];
+
+export interface SamplingOptions {
+  // first: the first rows the scan returns; system / bernoulli: a TABLESAMPLE of
+  // `percent` of the table; recent: the newest rows by `orderBy`; full: every row
+  // up to `limit`. Defaults to first.
+  strategy?: SamplingStrategy;
+  // Rows to sample: 10 by default, 10000 for a full scan
+  limit?: number;
+  // Share of the table TABLESAMPLE reads, 10 by default
+  percent?: number;
+  // Column that orders rows for `recent`, newest first
+  orderBy?: string;
+}
+
+const FULL_SCAN_LIMIT = 10000;
+
+// Distinct values are counted up to this many per field
+const DISTINCT_LIMIT = 1000;
+
+const STRING_FORMATS: [StringFormat, RegExp][] = [
+  ['uuid', /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i],
+  ['date', /^\d{4}-\d{2}-\d{2}$/],
+  ['date-time', /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/i],
+  ['email', /^[^\s@]+@[^\s@]+\.[^\s@]+$/],
+  ['uri', /^[a-z][a-z0-9+.-]*:\/\/\S+$/i],
+];
+
+type ResolvedSampling = Required<Omit<SamplingOptions, 'orderBy'>> &
+  Pick<SamplingOptions, 'orderBy'>;
+
+/**
+ * Check sampling options and fill in their defaults
+ */
+export function resolveSampling(sampling: number | SamplingOptions = {}): ResolvedSampling {
+  const options = typeof sampling === 'number' ? { limit: sampling } : sampling;
+  const strategy = options.strategy ?? 'first';
+  if (!SAMPLING_STRATEGIES.includes(strategy)) {
+    throw new SqlAgentError(
+      `Unknown sampling strategy: ${strategy}`,
+      'INVALID_SAMPLING',
+      `Use one of ${SAMPLING_STRATEGIES.join(', ')}`
+    );
+  }
+  if (strategy === 'recent' && !options.orderBy) {
+    throw new SqlAgentError(
+      'Sampling the most recent rows needs a column to order by',
+      'INVALID_SAMPLING'
+    );
+  }
+  const limit = options.limit ?? (strategy === 'full' ? FULL_SCAN_LIMIT : 10);
+  const percent = options.percent ?? 10;
+  if (!(limit > 0) || !(percent > 0 && percent <= 100)) {
+    throw new SqlAgentError(
+      'The sample size must be positive and the sample percentage between 0 and 100',
+      'INVALID_SAMPLING'
+    );
+  }
+  return { strategy, limit, percent, orderBy: options.orderBy };
 }
 
+/**
+ * Sample the non-null values of a json or jsonb column. Identifiers are quoted,
+ * so mixed-case and reserved names work; query errors are passed on.
+ */
 export async function sampleJsonbColumn(
   client: Client | PoolClient,
-  table: string,
+  table: { schema: string; name: string },
   column: string,
-  limit: number = 10
+  sampling: number | SamplingOptions = 10
 ): Promise<any[]> {
-  try {
-    const query = `
-      SELECT ${column} 
-      FROM ${table} 
-      WHERE ${column} IS NOT NULL 
-      LIMIT $1
-    `;
-    const result = await client.query(query, [limit]);
-    return result.rows.map(row => row[column]);
-  } catch (error) {
-    console.error(`Error sampling JSONB column ${table}.${column}:`, error);
-    return [];
-  }
+  const { strategy, limit, percent, orderBy } = resolveSampling(sampling);
+  const tableSample =
+    strategy === 'system' || strategy === 'bernoulli'
+      ? ` TABLESAMPLE ${strategy.toUpperCase()} ($2)`
+      : '';
+  const order =
+    strategy === 'recent' ? `ORDER BY ${quoteIdentifier(orderBy as string)} DESC NULLS LAST` : '';
+  const query = `
+    SELECT ${quoteIdentifier(column)} AS value
+    FROM ${quoteIdentifier(table.schema)}.${quoteIdentifier(table.name)}${tableSample}
+    WHERE ${quoteIdentifier(column)} IS NOT NULL
+    ${order}
+    LIMIT $1
+  `;
+  const result = await client.query(query, tableSample ? [limit, percent] : [limit]);
+  return result.rows.map(row => row.value);
+}
+
+/** What is gathered about a field while the objects are read */
+interface FieldAccumulator {
+  count: number;
+  typeCounts: Record<string, number>;
+  arrayElementTypes?: Set<string>;
+  objects: Record<string, unknown>[];
+  distinct: Set<string>;
+  examples: unknown[];
+  // Formats all strings so far match; undefined until the first string
+  formats?: StringFormat[];
 }
 
+/**
+ * Infer the structure of JSON documents. Fields of objects nested in the samples
+ * are analyzed against the objects they appear in, so a nested field is optional
+ * when some of its parent objects lack it. The elements of documents that are
+ * arrays are analyzed like documents of their own.
+ */
 export function analyzeJsonStructure(samples: any[]): JsonStructure {
-  const structure: JsonStructure = {};
-  const totalSamples = samples.length;
+  const documents = samples.flatMap(sample => (Array.isArray(sample) ? sample : [sample]));
+  const objects = documents.filter(
+    document => document && typeof document === 'object' && !Array.isArray(document)
+  );
+  return analyzeObjects(objects, documents.length);
+}
 
-  if (totalSamples === 0) return structure;
+/**
+ * Infer the structure of the documents of a JSON column, noting whether they are
+ * all arrays, so the fields describe their elements
+ */
+export function analyzeJsonDocuments(samples: any[]): JsonDocumentStructure {
+  return {
+    arrayElements: samples.length > 0 && samples.every(sample => Array.isArray(sample)),
+    fields: analyzeJsonStructure(samples),
+  };
+}
 
-  // Count occurrences of each field
-  const fieldCounts: { [key: string]: number } = {};
+function analyzeObjects(objects: Record<string, unknown>[], total: number): JsonStructure {
+  const fields = new Map<string, FieldAccumulator>();
+
+  for (const object of objects) {
+    for (const [key, value] of Object.entries(object)) {
+      let field = fields.get(key);
+      if (!field) {
+        field = { count: 0, typeCounts: {}, objects: [], distinct: new Set(), examples: [] };
+        fields.set(key, field);
+      }
+      field.count++;
+      const valueType = getJsonType(value);
+      field.typeCounts[valueType] = (field.typeCounts[valueType] || 0) + 1;
 
-  // Analyze each sample
-  for (const sample of samples) {
-    if (sample && typeof sample === 'object' && !Array.isArray(sample)) {
-      analyzeObject(sample, structure, fieldCounts);
+      if (Array.isArray(value)) {
+        field.arrayElementTypes = field.arrayElementTypes ?? new Set<string>();
+        for (const element of value) {
+          field.arrayElementTypes.add(getJsonType(element));
+        }
+      } else if (valueType === 'object') {
+        field.objects.push(value as Record<string, unknown>);
+      } else if (valueType !== 'null') {
+        recordScalar(field, value);
+      }
     }
   }
 
-  // Mark fields as optional if they don't appear in all samples
-  for (const [field, info] of Object.entries(structure)) {
-    info.optional = (fieldCounts[field] || 0) < totalSamples;
+  const structure: JsonStructure = {};
+  for (const [key, field] of fields) {
+    structure[key] = {
+      types: new Set(Object.keys(field.typeCounts)),
+      optional: field.count < total,
+      ...(field.arrayElementTypes && { arrayElementTypes: field.arrayElementTypes }),
+      ...(field.objects.length > 0 && {
+        nestedStructure: analyzeObjects(field.objects, field.objects.length),
+      }),
+      count: field.count,
+      presence: Math.round((field.count / total) * 1000) / 10,
+      typeCounts: field.typeCounts,
+      examples: field.examples,
+      distinct: field.distinct.size,
+      ...(field.formats && field.formats.length > 0 && { format: field.formats[0] }),
+    };
   }
-
   return structure;
 }
 
-function analyzeObject(
-  obj: any,
-  structure: JsonStructure,
-  fieldCounts: { [key: string]: number }
-): void {
-  for (const [key, value] of Object.entries(obj)) {
-    // Track field occurrence
-    fieldCounts[key] = (fieldCounts[key] || 0) + 1;
-
-    // Initialize field info if not exists
-    if (!structure[key]) {
-      structure[key] = {
-        types: new Set<string>(),
-        optional: false,
-      };
-    }
-
-    const fieldInfo = structure[key];
-    const valueType = getJsonType(value);
-    fieldInfo.types.add(valueType);
-
-    // Handle arrays
-    if (Array.isArray(value)) {
-      if (!fieldInfo.arrayElementTypes) {
-        fieldInfo.arrayElementTypes = new Set<string>();
-      }
-      for (const element of value) {
-        fieldInfo.arrayElementTypes.add(getJsonType(element));
-      }
-    }
-
-    // Handle nested objects
-    if (value && typeof value === 'object' && !Array.isArray(value)) {
-      if (!fieldInfo.nestedStructure) {
-        fieldInfo.nestedStructure = {};
-      }
-      const nestedCounts: { [key: string]: number } = {};
-      analyzeObject(value, fieldInfo.nestedStructure, nestedCounts);
+function recordScalar(field: FieldAccumulator, value: unknown): void {
+  const key = JSON.stringify(value);
+  if (!field.distinct.has(key) && field.distinct.size < DISTINCT_LIMIT) {
+    field.distinct.add(key);
+    if (field.examples.length < 3) {
+      field.examples.push(
+        typeof value === 'string' && value.length > 100 ? `${value.slice(0, 100)}…` : value
+      );
     }
   }
+  if (typeof value === 'string') {
+    const matching = STRING_FORMATS.filter(([, pattern]) => pattern.test(value)).map(
+      ([format]) => format
+    );
+    field.formats = field.formats
+      ? field.formats.filter(format => matching.includes(format))
+      : matching;
+  }
 }
 
 function getJsonType(value: any): string {
@@ -126,7 +265,7 @@ export function formatJsonStructure(structure: JsonStructure, indent: number = 0
       typeStr = types.join(' | ');
     }
 
-    lines.push(`${indentStr}- ${field}${optional}: ${typeStr}`);
+    lines.push(`${indentStr}- ${field}${optional}: ${typeStr}  [${formatFieldStats(info)}]`);
 
     // Format nested structure
     if (info.nestedStructure && types.includes('object')) {
@@ -139,3 +278,204 @@ export function formatJsonStructure(structure: JsonStructure, indent: number = 0
 
   return lines.join('\n');
 }
+
+/**
+ * Presence, type breakdown, format, cardinality and examples of a field, e.g.
+ * `80% present, string 75% / null 25%, format email, 3 distinct, e.g. "a@b.co"`
+ */
+export function formatFieldStats(info: JsonFieldInfo): string {
+  const stats = [`${info.presence}% present`];
+  const types = Object.entries(info.typeCounts);
+  if (types.length > 1) {
+    stats.push(
+      types.map(([type, count]) => `${type} ${Math.round((count / info.count) * 100)}%`).join(' / ')
+    );
+  }
+  if (info.format) {
+    stats.push(`format ${info.format}`);
+  }
+  if (info.examples.length > 0) {
+    const distinct = info.distinct >= DISTINCT_LIMIT ? `${DISTINCT_LIMIT}+` : `${info.distinct}`;
+    stats.push(`${distinct} distinct`);
+    stats.push(`e.g. ${info.examples.map(example => JSON.stringify(example)).join(', ')}`);
+  }
+  return stats.join(', ');
+}
+
+export type JsonbFormat = 'text' | 'jsonschema' | 'zod' | 'typescript';
+
+export const JSONB_FORMATS: JsonbFormat[] = ['text', 'jsonschema', 'zod', 'typescript'];
+
+/** The subset of JSON Schema (draft 2020-12) the exporter produces */
+export interface JsonSchema {
+  $schema?: string;
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+  format?: string;
+  examples?: unknown[];
+  // Sampling statistics of a field: presence in percent, values per type, distinct values
+  'x-stats'?: { presence: number; types: Record<string, number>; distinct: number };
+}
+
+const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+/**
+ * One schema for a set of alternatives: a type list when they are all plain
+ * types, else `anyOf`
+ */
+function combineSchemas(schemas: JsonSchema[]): JsonSchema {
+  if (schemas.length === 1) {
+    return schemas[0];
+  }
+  if (
+    schemas.every(schema => Object.keys(schema).length === 1 && typeof schema.type === 'string')
+  ) {
+    return { type: schemas.map(schema => schema.type as string) };
+  }
+  return { anyOf: schemas };
+}
+
+function objectSchema(structure: JsonStructure): JsonSchema {
+  const required = Object.keys(structure).filter(field => !structure[field].optional);
+  return {
+    type: 'object',
+    properties: Object.fromEntries(
+      Object.entries(structure).map(([field, info]) => [field, fieldSchema(info)])
+    ),
+    ...(required.length > 0 && { required }),
+  };
+}
+
+function fieldSchema(info: JsonFieldInfo): JsonSchema {
+  const schema = combineSchemas(
+    Array.from(info.types).map(type => {
+      if (type === 'object' && info.nestedStructure) {
+        return objectSchema(info.nestedStructure);
+      }
+      if (type === 'array' && info.arrayElementTypes && info.arrayElementTypes.size > 0) {
+        return {
+          type: 'array',
+          items: combineSchemas(
+            Array.from(info.arrayElementTypes).map(element => ({ type: element }))
+          ),
+        };
+      }
+      return { type };
+    })
+  );
+  return {
+    ...schema,
+    ...(info.format && { format: info.format }),
+    ...(info.examples.length > 0 && { examples: info.examples }),
+    'x-stats': { presence: info.presence, types: info.typeCounts, distinct: info.distinct },
+  };
+}
+
+/**
+ * JSON Schema (draft 2020-12) for an inferred structure: fields that are not
+ * optional are required, and nested objects and array elements are described too.
+ * Fields carry their detected format, example values and an `x-stats` annotation.
+ */
+export function toJsonSchema(structure: JsonStructure): JsonSchema {
+  return { $schema: JSON_SCHEMA_DIALECT, ...objectSchema(structure) };
+}
+
+const ZOD_FORMATS: Record<StringFormat, string> = {
+  uuid: '.uuid()',
+  date: '.date()',
+  'date-time': '.datetime({ offset: true })',
+  email: '.email()',
+  uri: '.url()',
+};
+
+function zodKey(field: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(field) ? field : JSON.stringify(field);
+}
+
+function zodUnion(schemas: string[]): string {
+  const unique = Array.from(new Set(schemas));
+  if (unique.length === 1) {
+    return unique[0];
+  }
+  const nonNull = unique.filter(schema => schema !== 'z.null()');
+  if (nonNull.length === 1) {
+    return `${nonNull[0]}.nullable()`;
+  }
+  return `z.union([${unique.join(', ')}])`;
+}
+
+function zodField(info: JsonFieldInfo, indent: string): string {
+  return zodUnion(
+    Array.from(info.types).map(type => {
+      if (type === 'object') {
+        return info.nestedStructure
+          ? toZod(info.nestedStructure, indent)
+          : 'z.record(z.string(), z.unknown())';
+      }
+      if (type === 'array') {
+        const elements = Array.from(info.arrayElementTypes ?? []).map(element =>
+          element === 'object'
+            ? 'z.record(z.string(), z.unknown())'
+            : element === 'array'
+              ? 'z.array(z.unknown())'
+              : ['string', 'number', 'boolean', 'null'].includes(element)
+                ? `z.${element}()`
+                : 'z.unknown()'
+        );
+        return `z.array(${elements.length > 0 ? zodUnion(elements) : 'z.unknown()'})`;
+      }
+      if (type === 'string' && info.format) {
+        return `z.string()${ZOD_FORMATS[info.format]}`;
+      }
+      return ['string', 'number', 'boolean', 'null'].includes(type) ? `z.${type}()` : 'z.unknown()';
+    })
+  );
+}
+
+/**
+ * Zod source for an inferred structure, with nested lines indented past `indent`
+ */
+export function toZod(structure: JsonStructure, indent = ''): string {
+  const fields = Object.entries(structure);
+  if (fields.length === 0) {
+    return 'z.record(z.string(), z.unknown())';
+  }
+  const lines = fields.map(
+    ([field, info]) =>
+      `${indent}  ${zodKey(field)}: ${zodField(info, `${indent}  `)}${info.optional ? '.optional()' : ''},`
+  );
+  return `z.object({\n${lines.join('\n')}\n${indent}})`;
+}
+
+/**
+ * The inferred structure of a column's documents in the given format: JSON Schema
+ * as an object, the other formats as text. Arrays of objects are described as
+ * arrays of their elements.
+ */
+export function exportJsonStructure(
+  structure: JsonDocumentStructure,
+  format: JsonbFormat
+): JsonSchema | string {
+  const { arrayElements, fields } = structure;
+  switch (format) {
+    case 'jsonschema': {
+      const schema = toJsonSchema(fields);
+      if (!arrayElements) {
+        return schema;
+      }
+      const { $schema, ...items } = schema;
+      return { $schema, type: 'array', items };
+    }
+    case 'zod':
+      return arrayElements ? `z.array(${toZod(fields)})` : toZod(fields);
+    case 'typescript':
+      return arrayElements ? `${structureType(fields)}[]` : structureType(fields);
+    default:
+      return arrayElements && Object.keys(fields).length > 0
+        ? `    (array of objects with:)\n${formatJsonStructure(fields)}`
+        : formatJsonStructure(fields);
+  }
+}
@@ -0,0 +1,50 @@
+import { randomUUID } from 'crypto';
+
+/**
+ * One-time confirmation tokens for destructive queries.
+ * A token is bound to the exact request it was issued for and expires after `ttlMs`.
+ */
+
+interface PendingConfirmation {
+  key: string;
+  expiresAt: number;
+}
+
+export class ConfirmationStore {
+  private pending: Map<string, PendingConfirmation> = new Map();
+
+  constructor(private ttlMs: number = 5 * 60 * 1000) {}
+
+  /**
+   * Issue a token for the request identified by `key`
+   */
+  issue(key: string): { token: string; expiresAt: number } {
+    this.prune();
+    const token = randomUUID();
+    const expiresAt = Date.now() + this.ttlMs;
+    this.pending.set(token, { key, expiresAt });
+    return { token, expiresAt };
+  }
+
+  /**
+   * Use up a token. Returns false if it is unknown, expired or was issued for another request.
+   */
+  consume(token: string, key: string): boolean {
+    this.prune();
+    const pending = this.pending.get(token);
+    if (!pending || pending.key !== key) {
+      return false;
+    }
+    this.pending.delete(token);
+    return true;
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [token, pending] of this.pending.entries()) {
+      if (pending.expiresAt <= now) {
+        this.pending.delete(token);
+      }
+    }
+  }
+}
@@ -3,7 +3,7 @@
  * This module handles tool discovery and registration for MCP protocol
  */
 
-import { SQL_AGENT_TOOLS } from './tool-definition';
+import { getAvailableTools } from './tool-definition';
 import { McpToolHandler } from './tool-handler';
 import { RateLimiter, RateLimiterOptions } from '../utils/rate-limiter';
 
@@ -21,13 +21,20 @@ export interface McpToolsListResponse {
   }>;
 }
 
+export interface McpServerOptions {
+  // Hide write tools and run every query read-only (defaults to POSTGRES_READ_ONLY=true)
+  readOnly?: boolean;
+}
+
 export class SqlAgentMcpServer {
   private handler: McpToolHandler;
   private rateLimiter?: RateLimiter;
   private cleanupInterval?: NodeJS.Timeout;
+  private readOnly: boolean;
 
-  constructor(rateLimiterOptions?: RateLimiterOptions) {
-    this.handler = new McpToolHandler();
+  constructor(rateLimiterOptions?: RateLimiterOptions, options: McpServerOptions = {}) {
+    this.readOnly = options.readOnly ?? process.env.POSTGRES_READ_ONLY === 'true';
+    this.handler = new McpToolHandler(undefined, { readOnly: this.readOnly });
 
     // Initialize rate limiter if options provided
     if (rateLimiterOptions) {
@@ -55,7 +62,7 @@ export class SqlAgentMcpServer {
    */
   listTools(): McpToolsListResponse {
     return {
-      tools: SQL_AGENT_TOOLS.map(tool => ({
+      tools: getAvailableTools(this.readOnly).map(tool => ({
         name: tool.name,
         description: tool.description,
         inputSchema: tool.inputSchema as Record<string, unknown>,
@@ -0,0 +1,85 @@
+import { randomUUID } from 'crypto';
+import { QueryResult } from '../core/sql-executor';
+
+/**
+ * Results of recent queries kept so callers can page through them without
+ * re-running the query. Results are tied to the query (or file) that produced
+ * them, expire after `ttlMs` and the oldest are evicted beyond `maxEntries`.
+ */
+
+interface CachedResult {
+  source: string;
+  result: QueryResult;
+  expiresAt: number;
+}
+
+export interface ResultPosition {
+  handle: string;
+  result: QueryResult;
+  offset: number;
+}
+
+export class ResultCache {
+  private results: Map<string, CachedResult> = new Map();
+
+  constructor(
+    private ttlMs: number = 10 * 60 * 1000,
+    private maxEntries: number = 20
+  ) {}
+
+  /**
+   * Keep a result and return its handle
+   */
+  store(source: string, result: QueryResult): string {
+    this.prune();
+    const handle = randomUUID();
+    this.results.set(handle, { source, result, expiresAt: Date.now() + this.ttlMs });
+    while (this.results.size > this.maxEntries) {
+      const oldest = this.results.keys().next().value as string;
+      this.results.delete(oldest);
+    }
+    return handle;
+  }
+
+  /**
+   * Find the result and offset a cursor points at. Returns undefined if the cursor is
+   * malformed, expired, evicted or belongs to another query.
+   */
+  resolve(cursor: string, source: string): ResultPosition | undefined {
+    this.prune();
+    const decoded = decodeCursor(cursor);
+    const cached = decoded && this.results.get(decoded.handle);
+    if (!decoded || !cached || cached.source !== source) {
+      return undefined;
+    }
+    return { handle: decoded.handle, result: cached.result, offset: decoded.offset };
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [handle, cached] of this.results.entries()) {
+      if (cached.expiresAt <= now) {
+        this.results.delete(handle);
+      }
+    }
+  }
+}
+
+/**
+ * Opaque cursor pointing at the page of a cached result that starts at `offset`
+ */
+export function encodeCursor(handle: string, offset: number): string {
+  return Buffer.from(JSON.stringify({ h: handle, o: offset })).toString('base64url');
+}
+
+function decodeCursor(cursor: string): { handle: string; offset: number } | undefined {
+  try {
+    const { h, o } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof h === 'string' && Number.isInteger(o) && o >= 0) {
+      return { handle: h, offset: o };
+    }
+  } catch {
+    // Not a cursor we issued
+  }
+  return undefined;
+}
@@ -0,0 +1,160 @@
+import { randomUUID } from 'crypto';
+import { PoolClient } from 'pg';
+import { SqlAgentError } from '../core/errors';
+import { logger } from '../utils/logger';
+
+/**
+ * Open MCP sessions: transactions that span several tool calls on a pinned client.
+ * Calls on a session run one at a time, in the order they arrive. A session left
+ * idle for `idleTimeoutMs` is closed and handed to `onExpire`, which rolls it back.
+ */
+
+export interface Session {
+  id: string;
+  // Named connection the session was started on
+  connection: string;
+  client: PoolClient;
+  // Savepoints created in the session, oldest first
+  savepoints: string[];
+}
+
+interface OpenSession extends Session {
+  // Calls waiting for or running on the session
+  active: number;
+  // Settles once the last queued call is done
+  queue: Promise<unknown>;
+  timer?: NodeJS.Timeout;
+}
+
+export class SessionStore {
+  private sessions: Map<string, OpenSession> = new Map();
+  // Sessions whose client is still being checked out
+  private opening = 0;
+
+  constructor(
+    private onExpire: (session: Session) => Promise<void>,
+    private idleTimeoutMs: number = 5 * 60 * 1000,
+    private maxSessions: number = 5
+  ) {}
+
+  get idleTimeout(): number {
+    return this.idleTimeoutMs;
+  }
+
+  /**
+   * Open a session on the client `begin` returns, once there is room for another one
+   */
+  async open(begin: () => Promise<PoolClient>, connection: string): Promise<Session> {
+    if (this.sessions.size + this.opening >= this.maxSessions) {
+      throw new SqlAgentError(
+        `Too many open sessions (at most ${this.maxSessions})`,
+        'SESSION_LIMIT',
+        'Commit or roll back a session before starting another'
+      );
+    }
+
+    this.opening++;
+    let client: PoolClient;
+    try {
+      client = await begin();
+    } finally {
+      this.opening--;
+    }
+
+    const session: OpenSession = {
+      id: randomUUID(),
+      connection,
+      client,
+      savepoints: [],
+      active: 0,
+      queue: Promise.resolve(),
+    };
+    this.sessions.set(session.id, session);
+    this.arm(session);
+    return session;
+  }
+
+  /**
+   * Connection a session was started on, if it is open
+   */
+  connectionOf(sessionId: string): string | undefined {
+    return this.sessions.get(sessionId)?.connection;
+  }
+
+  /**
+   * Run `fn` on a session once the calls queued before it are done
+   */
+  async use<T>(sessionId: string, fn: (session: Session) => Promise<T>): Promise<T> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw this.unknownSession();
+    }
+
+    session.active++;
+    this.disarm(session);
+    // The session may have been closed by a call queued before this one
+    const run = session.queue.then(() =>
+      this.sessions.has(sessionId) ? fn(session) : Promise.reject(this.unknownSession())
+    );
+    session.queue = run.catch(() => undefined);
+
+    try {
+      return await run;
+    } finally {
+      session.active--;
+      if (session.active === 0 && this.sessions.has(sessionId)) {
+        this.arm(session);
+      }
+    }
+  }
+
+  /**
+   * Close a session once the calls queued before it are done, and end it with `end`
+   */
+  async close<T>(sessionId: string, end: (session: Session) => Promise<T>): Promise<T> {
+    return this.use(sessionId, session => {
+      this.sessions.delete(sessionId);
+      return end(session);
+    });
+  }
+
+  /**
+   * Close every open session, ending each with `end`
+   */
+  async closeAll(end: (session: Session) => Promise<void>): Promise<void> {
+    for (const sessionId of [...this.sessions.keys()]) {
+      try {
+        await this.close(sessionId, end);
+      } catch (error) {
+        logger.error('Error closing session:', { sessionId, error });
+      }
+    }
+  }
+
+  private arm(session: OpenSession): void {
+    session.timer = setTimeout(() => {
+      this.sessions.delete(session.id);
+      logger.info('Rolling back idle session', { sessionId: session.id });
+      this.onExpire(session).catch(error => {
+        logger.error('Error rolling back idle session:', { sessionId: session.id, error });
+      });
+    }, this.idleTimeoutMs);
+    // An idle session must not keep the process alive
+    session.timer.unref();
+  }
+
+  private disarm(session: OpenSession): void {
+    if (session.timer) {
+      clearTimeout(session.timer);
+      session.timer = undefined;
+    }
+  }
+
+  private unknownSession(): SqlAgentError {
+    return new SqlAgentError(
+      'Unknown or expired session',
+      'INVALID_SESSION',
+      `Sessions end on commit or rollback and are rolled back after ${this.idleTimeoutMs}ms without calls; start a new one with sql_begin`
+    );
+  }
+}
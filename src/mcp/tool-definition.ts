@@ -20,6 +20,8 @@ export interface McpToolDefinition {
     properties: Record<string, McpPropertySchema>;
     required?: string[];
   };
+  // Tools that need to write to the database are hidden in read-only mode
+  requiresWrite?: boolean;
 }
 
 export const SQL_AGENT_TOOLS: McpToolDefinition[] = [
@@ -33,11 +35,44 @@ export const SQL_AGENT_TOOLS: McpToolDefinition[] = [
           type: 'string',
           description: 'The SQL query to execute',
         },
+        params: {
+          type: 'array',
+          description: 'Positional bind values for $1..$n placeholders in the query',
+        },
+        namedParams: {
+          type: 'object',
+          description: 'Named bind values for :name placeholders in the query',
+        },
+        confirmationToken: {
+          type: 'string',
+          description:
+            'Token from a "confirmation required" result; re-issue the same call with it to run the query',
+        },
+        sessionId: {
+          type: 'string',
+          description:
+            'Session from sql_begin to run the query in; its changes stay uncommitted until sql_commit',
+        },
+        dryRun: {
+          type: 'boolean',
+          description:
+            'Run the query in a transaction that is always rolled back and report what it would change',
+          default: false,
+        },
+        connection: {
+          type: 'string',
+          description: 'Named connection to use (DATABASE_URL_<NAME>); defaults to DATABASE_URL',
+        },
         json: {
           type: 'boolean',
           description: 'Return results in JSON format',
           default: true,
         },
+        format: {
+          type: 'string',
+          description:
+            'Return rows as table, csv, tsv, markdown, ndjson, json or vertical text instead of the JSON result (overrides json)',
+        },
         transaction: {
           type: 'boolean',
           description: 'Wrap query in a transaction (auto-commit on success, rollback on error)',
@@ -48,6 +83,21 @@ export const SQL_AGENT_TOOLS: McpToolDefinition[] = [
           description: 'Query timeout in milliseconds',
           default: 120000,
         },
+        limit: {
+          type: 'number',
+          description:
+            'Most rows to return (capped by the server row limit); more rows are available through nextCursor',
+        },
+        offset: {
+          type: 'number',
+          description: 'Number of result rows to skip',
+          default: 0,
+        },
+        cursor: {
+          type: 'string',
+          description:
+            'nextCursor from an earlier response with the same query, to fetch the next page without running it again',
+        },
       },
       required: ['query'],
     },
@@ -62,11 +112,31 @@ export const SQL_AGENT_TOOLS: McpToolDefinition[] = [
           type: 'string',
           description: 'Path to the SQL file to execute',
         },
+        confirmationToken: {
+          type: 'string',
+          description:
+            'Token from a "confirmation required" result; re-issue the same call with it to run the file',
+        },
+        dryRun: {
+          type: 'boolean',
+          description:
+            'Run the file in a transaction that is always rolled back and report what it would change',
+          default: false,
+        },
+        connection: {
+          type: 'string',
+          description: 'Named connection to use (DATABASE_URL_<NAME>); defaults to DATABASE_URL',
+        },
         json: {
           type: 'boolean',
           description: 'Return results in JSON format',
           default: true,
         },
+        format: {
+          type: 'string',
+          description:
+            'Return rows as table, csv, tsv, markdown, ndjson, json or vertical text instead of the JSON result (overrides json)',
+        },
         transaction: {
           type: 'boolean',
           description:
@@ -78,9 +148,281 @@ export const SQL_AGENT_TOOLS: McpToolDefinition[] = [
           description: 'Query timeout in milliseconds',
           default: 120000,
         },
+        limit: {
+          type: 'number',
+          description:
+            'Most rows to return (capped by the server row limit); more rows are available through nextCursor',
+        },
+        offset: {
+          type: 'number',
+          description: 'Number of result rows to skip',
+          default: 0,
+        },
+        cursor: {
+          type: 'string',
+          description:
+            'nextCursor from an earlier response with the same filepath, to fetch the next page without running it again',
+        },
       },
       required: ['filepath'],
     },
+    requiresWrite: true,
+  },
+  {
+    name: 'sql_explain',
+    description:
+      'Explain how PostgreSQL runs a query and summarize the plan: cost, expensive nodes, sequential scans of large tables, misestimates and sort spills',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'The SQL statement to explain',
+        },
+        params: {
+          type: 'array',
+          description: 'Positional bind values for $1..$n placeholders in the query',
+        },
+        namedParams: {
+          type: 'object',
+          description: 'Named bind values for :name placeholders in the query',
+        },
+        analyze: {
+          type: 'boolean',
+          description:
+            'Run the query to measure actual rows and timings (EXPLAIN ANALYZE); changes are rolled back',
+          default: false,
+        },
+        buffers: {
+          type: 'boolean',
+          description: 'Report buffer usage',
+          default: false,
+        },
+        includePlan: {
+          type: 'boolean',
+          description: 'Also return the full JSON plan',
+          default: false,
+        },
+        connection: {
+          type: 'string',
+          description: 'Named connection to use (DATABASE_URL_<NAME>); defaults to DATABASE_URL',
+        },
+        json: {
+          type: 'boolean',
+          description: 'Return results in JSON format',
+          default: true,
+        },
+        timeout: {
+          type: 'number',
+          description: 'Query timeout in milliseconds',
+          default: 120000,
+        },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'sql_export',
+    description:
+      'Stream the rows of a query into a file (CSV, NDJSON, JSON or columnar JSON) without returning them, and report rows written, bytes and duration',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'A single SELECT, VALUES or TABLE statement',
+        },
+        outputPath: {
+          type: 'string',
+          description: 'File to write, relative to the server working directory',
+        },
+        format: {
+          type: 'string',
+          description:
+            'csv, ndjson, json or columnar (one array per column); defaults to the file extension, else csv',
+        },
+        params: {
+          type: 'array',
+          description: 'Positional bind values for $1..$n placeholders in the query',
+        },
+        namedParams: {
+          type: 'object',
+          description: 'Named bind values for :name placeholders in the query',
+        },
+        connection: {
+          type: 'string',
+          description: 'Named connection to use (DATABASE_URL_<NAME>); defaults to DATABASE_URL',
+        },
+        json: {
+          type: 'boolean',
+          description: 'Return results in JSON format',
+          default: true,
+        },
+        timeout: {
+          type: 'number',
+          description: 'Query timeout in milliseconds',
+          default: 120000,
+        },
+      },
+      required: ['query', 'outputPath'],
+    },
+  },
+  {
+    name: 'sql_import',
+    description:
+      'Bulk load a CSV or NDJSON file into a table with COPY FROM STDIN, in one transaction that is rolled back on any error',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        filepath: {
+          type: 'string',
+          description: 'File to load, relative to the server working directory',
+        },
+        table: {
+          type: 'string',
+          description: 'Target table, optionally schema-qualified (schema.table)',
+        },
+        format: {
+          type: 'string',
+          description: 'csv or ndjson; defaults to ndjson for .ndjson / .jsonl files, else csv',
+        },
+        header: {
+          type: 'boolean',
+          description:
+            'Whether the first CSV line names the columns (detected when omitted: it does if every field is a column of the table)',
+        },
+        columns: {
+          type: 'object',
+          description: 'Map of file column names to table column names, e.g. {"E-mail": "email"}',
+        },
+        delimiter: {
+          type: 'string',
+          description: 'CSV field delimiter',
+          default: ',',
+        },
+        nullMarker: {
+          type: 'string',
+          description: 'CSV text that stands for NULL (defaults to an unquoted empty field)',
+        },
+        truncate: {
+          type: 'boolean',
+          description: 'Empty the table before loading',
+          default: false,
+        },
+        upsertKeys: {
+          type: 'array',
+          description:
+            'Unique columns to upsert on: rows are staged and merged with INSERT ... ON CONFLICT',
+          items: { type: 'string' },
+        },
+        confirmationToken: {
+          type: 'string',
+          description:
+            'Token from a "confirmation required" result; re-issue the same call with it to run the load',
+        },
+        connection: {
+          type: 'string',
+          description: 'Named connection to use (DATABASE_URL_<NAME>); defaults to DATABASE_URL',
+        },
+        json: {
+          type: 'boolean',
+          description: 'Return results in JSON format',
+          default: true,
+        },
+        timeout: {
+          type: 'number',
+          description: 'Timeout for each statement of the load in milliseconds',
+          default: 120000,
+        },
+      },
+      required: ['filepath', 'table'],
+    },
+    requiresWrite: true,
+  },
+  {
+    name: 'sql_begin',
+    description:
+      'Start a session: a transaction that stays open across sql_exec calls until sql_commit or sql_rollback. Idle sessions are rolled back.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        connection: {
+          type: 'string',
+          description: 'Named connection to use (DATABASE_URL_<NAME>); defaults to DATABASE_URL',
+        },
+        json: {
+          type: 'boolean',
+          description: 'Return results in JSON format',
+          default: true,
+        },
+      },
+    },
+  },
+  {
+    name: 'sql_savepoint',
+    description: 'Create a savepoint in a session that sql_rollback can return to',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: {
+          type: 'string',
+          description: 'Session returned by sql_begin',
+        },
+        name: {
+          type: 'string',
+          description: 'Savepoint name',
+        },
+        json: {
+          type: 'boolean',
+          description: 'Return results in JSON format',
+          default: true,
+        },
+      },
+      required: ['sessionId', 'name'],
+    },
+  },
+  {
+    name: 'sql_commit',
+    description: 'Commit a session and end it',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: {
+          type: 'string',
+          description: 'Session returned by sql_begin',
+        },
+        json: {
+          type: 'boolean',
+          description: 'Return results in JSON format',
+          default: true,
+        },
+      },
+      required: ['sessionId'],
+    },
+  },
+  {
+    name: 'sql_rollback',
+    description:
+      'Roll back a session and end it, or roll back to a savepoint and keep the session open',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: {
+          type: 'string',
+          description: 'Session returned by sql_begin',
+        },
+        savepoint: {
+          type: 'string',
+          description: 'Savepoint to roll back to instead of ending the session',
+        },
+        json: {
+          type: 'boolean',
+          description: 'Return results in JSON format',
+          default: true,
+        },
+      },
+      required: ['sessionId'],
+    },
   },
   {
     name: 'sql_schema',
@@ -101,6 +443,107 @@ export const SQL_AGENT_TOOLS: McpToolDefinition[] = [
           description: 'Include all schemas, not just public',
           default: false,
         },
+        analyzeJsonb: {
+          type: 'boolean',
+          description:
+            'Sample json and jsonb columns and add their inferred structure to each as jsonbStructure; on by default when jsonbFormat or jsonbSampling is given',
+          default: false,
+        },
+        jsonbFormat: {
+          type: 'string',
+          description:
+            'Format of the inferred JSONB structures: jsonschema (JSON Schema 2020-12), zod, typescript or text (default)',
+        },
+        jsonbSampling: {
+          type: 'object',
+          description:
+            'How JSON rows are sampled for analyzeJsonb: { strategy: first (default) | system | bernoulli (random TABLESAMPLE of percent, default 10) | recent (newest by orderBy) | full, limit: rows (default 10, 10000 for full), percent, orderBy }. Each field reports its presence, type breakdown, format, distinct values and examples',
+        },
+        connection: {
+          type: 'string',
+          description: 'Named connection to use (DATABASE_URL_<NAME>); defaults to DATABASE_URL',
+        },
+        json: {
+          type: 'boolean',
+          description: 'Return results in JSON format',
+          default: true,
+        },
+      },
+    },
+  },
+  {
+    name: 'sql_jsonb_paths',
+    description:
+      'List the paths found in sampled json and jsonb values of a table with their ->/->> SQL expression, jsonpath, @> filter, value types and presence, the GIN and expression indexes serving each path, and CREATE INDEX suggestions for common scalar paths',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        table: {
+          type: 'string',
+          description: 'Table to analyze, optionally schema-qualified (schema.table)',
+        },
+        column: {
+          type: 'string',
+          description: 'A single json or jsonb column (all of them when omitted)',
+        },
+        jsonbSampling: {
+          type: 'object',
+          description:
+            'How rows are sampled, as for sql_schema: { strategy: first | system | bernoulli | recent | full, limit (default 100), percent, orderBy }',
+        },
+        minPresence: {
+          type: 'number',
+          description:
+            'Suggest indexes for scalar paths present in at least this percentage of rows',
+          default: 50,
+        },
+        connection: {
+          type: 'string',
+          description: 'Named connection to use (DATABASE_URL_<NAME>); defaults to DATABASE_URL',
+        },
+        json: {
+          type: 'boolean',
+          description: 'Return results in JSON format',
+          default: true,
+        },
+      },
+      required: ['table'],
+    },
+  },
+  {
+    name: 'sql_generate_types',
+    description:
+      'Generate TypeScript interfaces for tables and views (with Insert and Update variants for tables) and union types for enums, inferring nested types for JSONB columns from sampled rows',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        tables: {
+          type: 'array',
+          items: {
+            type: 'string',
+          },
+          description: 'Specific tables and views, optionally schema-qualified (empty for all)',
+          default: [],
+        },
+        allSchemas: {
+          type: 'boolean',
+          description: 'Include all schemas, not just public',
+          default: false,
+        },
+        jsonbSamples: {
+          type: 'number',
+          description: 'Rows sampled per JSONB column to infer its structure (0 to skip)',
+          default: 10,
+        },
+        outputPath: {
+          type: 'string',
+          description:
+            'File to write the declarations to, relative to the server working directory; the declarations are returned when omitted',
+        },
+        connection: {
+          type: 'string',
+          description: 'Named connection to use (DATABASE_URL_<NAME>); defaults to DATABASE_URL',
+        },
         json: {
           type: 'boolean',
           description: 'Return results in JSON format',
@@ -155,6 +598,10 @@ export const SQL_AGENT_TOOLS: McpToolDefinition[] = [
           type: 'string',
           description: 'Path to save the backup file (defaults to timestamped filename)',
         },
+        connection: {
+          type: 'string',
+          description: 'Named connection to use (DATABASE_URL_<NAME>); defaults to DATABASE_URL',
+        },
       },
     },
   },
@@ -174,6 +621,10 @@ export const SQL_AGENT_TOOLS: McpToolDefinition[] = [
           description: 'Include connection pool statistics',
           default: true,
         },
+        connection: {
+          type: 'string',
+          description: 'Named connection to use (DATABASE_URL_<NAME>); defaults to DATABASE_URL',
+        },
         json: {
           type: 'boolean',
           description: 'Return results in JSON format',
@@ -191,6 +642,13 @@ export function getToolDefinition(name: string): McpToolDefinition | undefined {
   return SQL_AGENT_TOOLS.find(tool => tool.name === name);
 }
 
+/**
+ * Get the tools available in the given mode
+ */
+export function getAvailableTools(readOnly = false): McpToolDefinition[] {
+  return readOnly ? SQL_AGENT_TOOLS.filter(tool => !tool.requiresWrite) : SQL_AGENT_TOOLS;
+}
+
 /**
  * Validate tool input against schema
  */
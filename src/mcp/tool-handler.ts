@@ -1,5 +1,29 @@
-import { SqlExecutor } from '../core/sql-executor';
-import { validateToolInput } from './tool-definition';
+import { createHash } from 'crypto';
+import { SqlExecutor, QueryResult, StatementError, ImpactPreview } from '../core/sql-executor';
+import { QueryParams } from '../core/query-params';
+import { SqlAgentError } from '../core/errors';
+import { classifySql } from '../core/sql-classifier';
+import { requiredConfirmations } from '../core/sql-policy';
+import { formatPlanSummary } from '../core/plan-summary';
+import { ExportFormat } from '../core/query-export';
+import { ImportFormat, ImportOptions, importStatements } from '../core/data-import';
+import { formatJsonbPaths } from '../core/jsonb-paths';
+import {
+  formatColumn,
+  formatColumnMatches,
+  formatJsonbStructure,
+  formatTableDetails,
+  formatViewsAndEnums,
+  withJsonbStructures,
+} from '../core/schema-introspection';
+import { JSONB_FORMATS, JsonbFormat, SamplingOptions } from '../jsonb-analyzer';
+import { validateToolInput, getToolDefinition } from './tool-definition';
+import { ConfirmationStore } from './confirmation-store';
+import { ResultCache, encodeCursor } from './result-cache';
+import { SessionStore, Session } from './session-store';
+import { DEFAULT_CONNECTION, resolveConnectionString } from '../core/connections';
+import { logger } from '../utils/logger';
+import { formatRows, RowFormat, ROW_FORMATS } from '../utils/row-writer';
 import * as packageJson from '../../package.json';
 
 export interface McpToolRequest {
@@ -18,6 +42,7 @@ export interface McpToolResponse {
 interface HealthInfo {
   status: 'healthy' | 'unhealthy';
   timestamp: string;
+  connection: string;
   connectionTest?: {
     success: boolean;
     latency?: number;
@@ -35,6 +60,7 @@ interface HealthInfo {
     maxConnections: number;
     idleTimeout: number;
     connectionTimeout: number;
+    readOnly?: boolean;
     note?: string;
   };
   tool?: {
@@ -43,11 +69,85 @@ interface HealthInfo {
   };
 }
 
+export interface McpToolHandlerOptions {
+  // Reject write tools and run every query read-only (defaults to POSTGRES_READ_ONLY=true)
+  readOnly?: boolean;
+  // Ask for confirmation before destructive statements run (defaults to MCP_CONFIRM_DESTRUCTIVE!=false)
+  confirmDestructive?: boolean;
+  // How long confirmation tokens stay valid (defaults to MCP_CONFIRMATION_TTL_MS or 5 minutes)
+  confirmationTtlMs?: number;
+  // Most rows a tool returns per call (defaults to MCP_MAX_ROWS or 1000)
+  maxRows?: number;
+  // Row caps for specific tools, e.g. { sql_exec: 200 } (defaults to MCP_TOOL_MAX_ROWS)
+  toolMaxRows?: Record<string, number>;
+  // How long results stay available for paging (defaults to MCP_RESULT_CACHE_TTL_MS or 10 minutes)
+  resultCacheTtlMs?: number;
+  // How long a session may sit idle before it is rolled back (defaults to MCP_SESSION_IDLE_TIMEOUT_MS or 5 minutes)
+  sessionIdleTimeoutMs?: number;
+  // Most sessions open at once, each holding a connection (defaults to MCP_MAX_SESSIONS or 5)
+  maxSessions?: number;
+}
+
+// Which rows of a result a call asks for
+interface PageRequest {
+  limit?: number;
+  offset: number;
+  cursor?: string;
+}
+
+const DEFAULT_MAX_ROWS = 1000;
+
 export class McpToolHandler {
-  private executor: SqlExecutor | null = null;
+  // One executor per named connection
+  private executors: Map<string, SqlExecutor> = new Map();
+  private readOnly: boolean;
+  private confirmDestructive: boolean;
+  private confirmations: ConfirmationStore;
+  private maxRows: number;
+  private toolMaxRows: Record<string, number>;
+  private results: ResultCache;
+  private sessions: SessionStore;
 
-  constructor(private connectionString?: string) {
+  constructor(
+    private connectionString?: string,
+    options: McpToolHandlerOptions = {}
+  ) {
     // Connection string can be provided later via environment
+    this.readOnly = options.readOnly ?? process.env.POSTGRES_READ_ONLY === 'true';
+    this.confirmDestructive =
+      options.confirmDestructive ?? process.env.MCP_CONFIRM_DESTRUCTIVE !== 'false';
+    this.confirmations = new ConfirmationStore(
+      options.confirmationTtlMs ??
+        (process.env.MCP_CONFIRMATION_TTL_MS
+          ? parseInt(process.env.MCP_CONFIRMATION_TTL_MS)
+          : undefined)
+    );
+    this.maxRows =
+      options.maxRows ??
+      (process.env.MCP_MAX_ROWS ? parseInt(process.env.MCP_MAX_ROWS) : DEFAULT_MAX_ROWS);
+    this.toolMaxRows = options.toolMaxRows ?? {};
+    if (!options.toolMaxRows && process.env.MCP_TOOL_MAX_ROWS) {
+      try {
+        this.toolMaxRows = JSON.parse(process.env.MCP_TOOL_MAX_ROWS);
+      } catch {
+        logger.warn('Invalid MCP_TOOL_MAX_ROWS format, ignoring tool-specific row caps');
+      }
+    }
+    this.results = new ResultCache(
+      options.resultCacheTtlMs ??
+        (process.env.MCP_RESULT_CACHE_TTL_MS
+          ? parseInt(process.env.MCP_RESULT_CACHE_TTL_MS)
+          : undefined)
+    );
+    this.sessions = new SessionStore(
+      session => this.endSession(session, false),
+      options.sessionIdleTimeoutMs ??
+        (process.env.MCP_SESSION_IDLE_TIMEOUT_MS
+          ? parseInt(process.env.MCP_SESSION_IDLE_TIMEOUT_MS)
+          : undefined),
+      options.maxSessions ??
+        (process.env.MCP_MAX_SESSIONS ? parseInt(process.env.MCP_MAX_SESSIONS) : undefined)
+    );
   }
 
   async handleToolCall(request: McpToolRequest): Promise<McpToolResponse> {
@@ -58,29 +158,59 @@ export class McpToolHandler {
         return this.errorResponse(validation.error || 'Invalid input');
       }
 
-      // Ensure we have a connection
-      const connString = this.connectionString || process.env.DATABASE_URL;
-      if (!connString) {
-        return this.errorResponse('DATABASE_URL environment variable is not set');
+      // Write tools are hidden in read-only mode; refuse them if called anyway
+      if (this.readOnly && getToolDefinition(request.tool)?.requiresWrite) {
+        return this.errorResponse(
+          `Tool ${request.tool} is not available in read-only mode (READ_ONLY_VIOLATION)`
+        );
       }
 
-      // Initialize executor if needed
-      if (!this.executor) {
-        this.executor = new SqlExecutor(connString);
+      // Session tools run on the connection the session was started on
+      if (['sql_savepoint', 'sql_commit', 'sql_rollback'].includes(request.tool)) {
+        switch (request.tool) {
+          case 'sql_savepoint':
+            return this.handleSqlSavepoint(request.arguments);
+          case 'sql_commit':
+            return this.handleSqlCommit(request.arguments);
+          default:
+            return this.handleSqlRollback(request.arguments);
+        }
+      }
+
+      // Calls on a session default to the session's connection
+      const sessionId = request.arguments.sessionId;
+      const executor = this.getExecutor(
+        (request.arguments.connection as string | undefined) ??
+          (typeof sessionId === 'string' ? this.sessions.connectionOf(sessionId) : undefined)
+      );
+      if (!executor) {
+        return this.errorResponse('DATABASE_URL environment variable is not set');
       }
 
       // Route to appropriate handler
       switch (request.tool) {
         case 'sql_exec':
-          return this.handleSqlExec(request.arguments);
+          return this.handleSqlExec(request.arguments, executor);
         case 'sql_file':
-          return this.handleSqlFile(request.arguments);
+          return this.handleSqlFile(request.arguments, executor);
+        case 'sql_begin':
+          return this.handleSqlBegin(request.arguments, executor);
+        case 'sql_explain':
+          return this.handleSqlExplain(request.arguments, executor);
+        case 'sql_export':
+          return this.handleSqlExport(request.arguments, executor);
+        case 'sql_import':
+          return this.handleSqlImport(request.arguments, executor);
         case 'sql_schema':
-          return this.handleSqlSchema(request.arguments);
+          return this.handleSqlSchema(request.arguments, executor);
+        case 'sql_jsonb_paths':
+          return this.handleSqlJsonbPaths(request.arguments, executor);
+        case 'sql_generate_types':
+          return this.handleSqlGenerateTypes(request.arguments, executor);
         case 'sql_backup':
-          return this.handleSqlBackup(request.arguments);
+          return this.handleSqlBackup(request.arguments, executor);
         case 'sql_health':
-          return this.handleSqlHealth(request.arguments);
+          return this.handleSqlHealth(request.arguments, executor);
         default:
           return this.errorResponse(`Unknown tool: ${request.tool}`);
       }
@@ -89,11 +219,32 @@ export class McpToolHandler {
     }
   }
 
-  private async handleSqlExec(args: Record<string, unknown>): Promise<McpToolResponse> {
+  private async handleSqlExec(
+    args: Record<string, unknown>,
+    executor: SqlExecutor
+  ): Promise<McpToolResponse> {
     const query = args.query as string;
-    const jsonMode = args.json !== false; // Default true
+    const format = args.format as RowFormat | undefined;
+    const jsonMode = args.json !== false && format === undefined; // Default true
     const useTransaction = args.transaction !== false; // Default true
     const timeout = args.timeout as number | undefined;
+    const confirmationToken = args.confirmationToken as string | undefined;
+    const dryRun = args.dryRun === true;
+    const sessionId = args.sessionId as string | undefined;
+
+    if (args.params !== undefined && args.namedParams !== undefined) {
+      return this.errorResponse('Cannot specify both params and namedParams');
+    }
+    const params = (args.params ?? args.namedParams) as QueryParams | undefined;
+
+    if (format !== undefined && !ROW_FORMATS.includes(format)) {
+      return this.errorResponse(`Unknown format: ${format}. Use one of ${ROW_FORMATS.join(', ')}`);
+    }
+
+    const page = this.readPageRequest(args);
+    if (typeof page === 'string') {
+      return this.errorResponse(page);
+    }
 
     // Set timeout environment variable if provided
     if (timeout) {
@@ -101,58 +252,70 @@ export class McpToolHandler {
     }
 
     try {
-      if (!this.executor) {
-        throw new Error('SqlExecutor not initialized');
+      // Later pages come from the cached result, without running the query again
+      if (page.cursor !== undefined) {
+        return this.resultPage('sql_exec', query, page, jsonMode, format);
       }
-      const result = await this.executor.executeQuery(query, useTransaction, timeout);
 
-      if (jsonMode) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(
-                {
-                  success: true,
-                  command: result.command,
-                  rowCount: result.rowCount,
-                  rows: result.rows,
-                  duration: result.duration,
-                },
-                null,
-                2
-              ),
-            },
-          ],
-        };
-      } else {
-        // Format as table-like text
-        let text = `Command: ${result.command}\n`;
-        text += `Rows: ${result.rowCount}\n`;
-        text += `Duration: ${result.duration}ms\n\n`;
-
-        if (result.rows && result.rows.length > 0) {
-          // Simple table formatting
-          const headers = Object.keys(result.rows[0]);
-          text += headers.join(' | ') + '\n';
-          text += headers.map(() => '---').join(' | ') + '\n';
-
-          for (const row of result.rows) {
-            text += headers.map(h => String(row[h] ?? '')).join(' | ') + '\n';
+      const execute = async (session?: Session): Promise<McpToolResponse> => {
+        // Destructive statements, and statements the policy marks `confirm`, only run
+        // once the call is re-issued with the token from a confirmation result
+        let confirmed = false;
+        const confirmations =
+          this.readOnly || dryRun
+            ? []
+            : requiredConfirmations(
+                classifySql(query),
+                executor.sqlPolicy,
+                this.confirmDestructive
+              );
+        if (confirmations.length > 0) {
+          // Tokens are bound to the database the impact was previewed on
+          const connection = session?.connection ?? this.connectionName(args);
+          const key = JSON.stringify([query, params ?? null, sessionId ?? null, connection]);
+          if (confirmationToken === undefined) {
+            const preview = await executor.previewImpact(
+              query,
+              params,
+              confirmations,
+              session?.client
+            );
+            return this.confirmationResponse(key, preview, jsonMode);
           }
+          if (!this.confirmations.consume(confirmationToken, key)) {
+            throw new SqlAgentError(
+              'Invalid or expired confirmation token',
+              'INVALID_CONFIRMATION_TOKEN',
+              'Tokens are single-use and only valid for the query they were issued for; call again without confirmationToken to get a new one'
+            );
+          }
+          confirmed = true;
         }
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text,
-            },
-          ],
-        };
+        const result = await executor.executeQuery(query, useTransaction, timeout, params, {
+          confirmed,
+          dryRun,
+          ...(session && { client: session.client }),
+        });
+        return this.queryResultResponse('sql_exec', query, result, page, jsonMode, format);
+      };
+
+      if (sessionId === undefined) {
+        return await execute();
       }
+      return await this.sessions.use(sessionId, session => {
+        // A session's statements all run on the connection it was started on
+        if (args.connection !== undefined && session.connection !== this.connectionName(args)) {
+          throw new SqlAgentError(
+            `Session ${sessionId} belongs to connection ${session.connection}`,
+            'SESSION_CONNECTION_MISMATCH',
+            'Omit connection, or start a session on this connection with sql_begin'
+          );
+        }
+        return execute(session);
+      });
     } catch (error) {
-      const err = error as Error & { position?: number };
+      const err = error as StatementError;
       if (jsonMode) {
         return {
           content: [
@@ -163,6 +326,12 @@ export class McpToolHandler {
                   success: false,
                   error: err.message,
                   position: err.position,
+                  ...(err.statementIndex !== undefined && {
+                    statementIndex: err.statementIndex,
+                    line: err.line,
+                    column: err.column,
+                  }),
+                  ...(err instanceof SqlAgentError && { code: err.code, hint: err.hint }),
                 },
                 null,
                 2
@@ -171,16 +340,31 @@ export class McpToolHandler {
           ],
         };
       } else {
-        return this.errorResponse(err.message);
+        return this.errorResponse(this.describeError(err));
       }
     }
   }
 
-  private async handleSqlFile(args: Record<string, unknown>): Promise<McpToolResponse> {
+  private async handleSqlFile(
+    args: Record<string, unknown>,
+    executor: SqlExecutor
+  ): Promise<McpToolResponse> {
     const filepath = args.filepath as string;
-    const jsonMode = args.json !== false; // Default true
+    const format = args.format as RowFormat | undefined;
+    const jsonMode = args.json !== false && format === undefined; // Default true
     const useTransaction = args.transaction !== false; // Default true
     const timeout = args.timeout as number | undefined;
+    const dryRun = args.dryRun === true;
+    const confirmationToken = args.confirmationToken as string | undefined;
+
+    if (format !== undefined && !ROW_FORMATS.includes(format)) {
+      return this.errorResponse(`Unknown format: ${format}. Use one of ${ROW_FORMATS.join(', ')}`);
+    }
+
+    const page = this.readPageRequest(args);
+    if (typeof page === 'string') {
+      return this.errorResponse(page);
+    }
 
     // Set timeout environment variable if provided
     if (timeout) {
@@ -188,10 +372,221 @@ export class McpToolHandler {
     }
 
     try {
-      if (!this.executor) {
-        throw new Error('SqlExecutor not initialized');
+      if (page.cursor !== undefined) {
+        return this.resultPage('sql_file', `file:${filepath}`, page, jsonMode, format);
+      }
+
+      // The file goes through the same confirmation flow as sql_exec. Tokens are bound
+      // to its content, and the content that was previewed is the content that runs.
+      const sql = executor.readSqlFile(filepath);
+      let confirmed = false;
+      const confirmations = dryRun
+        ? []
+        : requiredConfirmations(classifySql(sql), executor.sqlPolicy, this.confirmDestructive);
+      if (confirmations.length > 0) {
+        const hash = createHash('sha256').update(sql).digest('hex');
+        const key = JSON.stringify(['sql_file', filepath, hash, this.connectionName(args)]);
+        if (confirmationToken === undefined) {
+          const preview = await executor.previewImpact(sql, undefined, confirmations);
+          return this.confirmationResponse(key, preview, jsonMode, 'sql_file');
+        }
+        if (!this.confirmations.consume(confirmationToken, key)) {
+          throw new SqlAgentError(
+            'Invalid or expired confirmation token',
+            'INVALID_CONFIRMATION_TOKEN',
+            'Tokens are single-use and only valid for the file content they were issued for; call again without confirmationToken to get a new one'
+          );
+        }
+        confirmed = true;
+      }
+
+      const result = await executor.executeQuery(sql, useTransaction, timeout, undefined, {
+        confirmed,
+        dryRun,
+      });
+      return this.queryResultResponse(
+        'sql_file',
+        `file:${filepath}`,
+        result,
+        page,
+        jsonMode,
+        format
+      );
+    } catch (error) {
+      const err = error as StatementError;
+      if (err.statementIndex !== undefined) {
+        return this.errorResponse(
+          `${this.describeError(err)} (statement ${err.statementIndex + 1}, line ${err.line}, column ${err.column})`
+        );
+      }
+      return this.errorResponse(error instanceof Error ? this.describeError(error) : String(error));
+    }
+  }
+
+  private async handleSqlBegin(
+    args: Record<string, unknown>,
+    executor: SqlExecutor
+  ): Promise<McpToolResponse> {
+    const jsonMode = args.json !== false; // Default true
+
+    try {
+      const session = await this.sessions.open(
+        () => executor.beginSession(),
+        this.connectionName(args)
+      );
+      const idleTimeoutMs = this.sessions.idleTimeout;
+
+      if (jsonMode) {
+        return this.jsonResponse({
+          success: true,
+          sessionId: session.id,
+          connection: session.connection,
+          readOnly: this.readOnly,
+          idleTimeoutMs,
+        });
       }
-      const result = await this.executor.executeFile(filepath, useTransaction, timeout);
+      return this.textResponse(
+        `Session ${session.id} started${this.readOnly ? ' (read-only)' : ''}\n` +
+          'Pass sessionId to sql_exec to run queries in it, then call sql_commit or sql_rollback.\n' +
+          `It is rolled back after ${idleTimeoutMs}ms without calls.\n`
+      );
+    } catch (error) {
+      return this.errorResponse(error instanceof Error ? this.describeError(error) : String(error));
+    }
+  }
+
+  private async handleSqlCommit(args: Record<string, unknown>): Promise<McpToolResponse> {
+    const sessionId = args.sessionId as string;
+    const jsonMode = args.json !== false; // Default true
+
+    try {
+      await this.sessions.close(sessionId, session => this.endSession(session, true));
+      return jsonMode
+        ? this.jsonResponse({ success: true, sessionId, committed: true })
+        : this.textResponse(`Session ${sessionId} committed\n`);
+    } catch (error) {
+      return this.errorResponse(error instanceof Error ? this.describeError(error) : String(error));
+    }
+  }
+
+  private async handleSqlRollback(args: Record<string, unknown>): Promise<McpToolResponse> {
+    const sessionId = args.sessionId as string;
+    const savepoint = args.savepoint as string | undefined;
+    const jsonMode = args.json !== false; // Default true
+
+    try {
+      if (savepoint === undefined) {
+        await this.sessions.close(sessionId, session => this.endSession(session, false));
+        return jsonMode
+          ? this.jsonResponse({ success: true, sessionId, rolledBack: true })
+          : this.textResponse(`Session ${sessionId} rolled back\n`);
+      }
+
+      await this.sessions.use(sessionId, async session => {
+        // Rolling back to an unknown savepoint would abort the whole transaction
+        const index = session.savepoints.lastIndexOf(savepoint);
+        if (index === -1) {
+          throw new SqlAgentError(
+            `Unknown savepoint: ${savepoint}`,
+            'UNKNOWN_SAVEPOINT',
+            session.savepoints.length > 0
+              ? `Savepoints in this session: ${session.savepoints.join(', ')}`
+              : 'Create one with sql_savepoint first'
+          );
+        }
+        await this.sessionExecutor(session).rollbackToSavepoint(session.client, savepoint);
+        // Savepoints created after this one are gone
+        session.savepoints.splice(index + 1);
+      });
+      return jsonMode
+        ? this.jsonResponse({ success: true, sessionId, rolledBackTo: savepoint })
+        : this.textResponse(`Session ${sessionId} rolled back to savepoint ${savepoint}\n`);
+    } catch (error) {
+      return this.errorResponse(error instanceof Error ? this.describeError(error) : String(error));
+    }
+  }
+
+  private async handleSqlSavepoint(args: Record<string, unknown>): Promise<McpToolResponse> {
+    const sessionId = args.sessionId as string;
+    const name = args.name as string;
+    const jsonMode = args.json !== false; // Default true
+
+    try {
+      await this.sessions.use(sessionId, async session => {
+        await this.sessionExecutor(session).createSavepoint(session.client, name);
+        session.savepoints.push(name);
+      });
+      return jsonMode
+        ? this.jsonResponse({ success: true, sessionId, savepoint: name })
+        : this.textResponse(`Savepoint ${name} created in session ${sessionId}\n`);
+    } catch (error) {
+      return this.errorResponse(error instanceof Error ? this.describeError(error) : String(error));
+    }
+  }
+
+  /**
+   * Commit or roll back a session's transaction and release its connection
+   */
+  private async endSession(session: Session, commit: boolean): Promise<void> {
+    await this.sessionExecutor(session).endSession(session.client, commit);
+  }
+
+  private sessionExecutor(session: Session): SqlExecutor {
+    const executor = this.executors.get(session.connection);
+    if (!executor) {
+      throw new Error(`No executor for connection ${session.connection}`);
+    }
+    return executor;
+  }
+
+  private connectionName(args: Record<string, unknown>): string {
+    return (args.connection as string | undefined) ?? DEFAULT_CONNECTION;
+  }
+
+  /**
+   * Executor for a named connection, created on first use. Returns undefined when
+   * the default connection is requested and no connection string is configured.
+   */
+  private getExecutor(connection?: string): SqlExecutor | undefined {
+    const name = connection ?? DEFAULT_CONNECTION;
+    let executor = this.executors.get(name);
+    if (!executor) {
+      const connectionString =
+        name === DEFAULT_CONNECTION
+          ? this.connectionString || process.env.DATABASE_URL
+          : resolveConnectionString(name);
+      if (!connectionString) {
+        return undefined;
+      }
+      executor = new SqlExecutor(connectionString, {
+        // A connection may also be read-only on its own (POSTGRES_READ_ONLY_<NAME>)
+        readOnly: this.readOnly || undefined,
+        ...(name !== DEFAULT_CONNECTION && { connection: name }),
+      });
+      this.executors.set(name, executor);
+    }
+    return executor;
+  }
+
+  private async handleSqlExplain(
+    args: Record<string, unknown>,
+    executor: SqlExecutor
+  ): Promise<McpToolResponse> {
+    const query = args.query as string;
+    const jsonMode = args.json !== false; // Default true
+    const includePlan = args.includePlan === true;
+
+    if (args.params !== undefined && args.namedParams !== undefined) {
+      return this.errorResponse('Cannot specify both params and namedParams');
+    }
+    const params = (args.params ?? args.namedParams) as QueryParams | undefined;
+
+    try {
+      const result = await executor.explain(query, params, {
+        analyze: args.analyze === true,
+        buffers: args.buffers === true,
+        timeoutMs: args.timeout as number | undefined,
+      });
 
       if (jsonMode) {
         return {
@@ -201,10 +596,11 @@ export class McpToolHandler {
               text: JSON.stringify(
                 {
                   success: true,
-                  command: result.command,
-                  rowCount: result.rowCount,
-                  rows: result.rows,
+                  analyzed: result.analyzed,
+                  summary: result.summary,
                   duration: result.duration,
+                  ...(result.warnings && { warnings: result.warnings }),
+                  ...(includePlan && { plan: result.plan }),
                 },
                 null,
                 2
@@ -212,50 +608,224 @@ export class McpToolHandler {
             },
           ],
         };
-      } else {
-        // Format as table-like text
-        let text = `Command: ${result.command}\n`;
-        text += `Rows: ${result.rowCount}\n`;
-        text += `Duration: ${result.duration}ms\n\n`;
-
-        if (result.rows && result.rows.length > 0) {
-          // Simple table formatting
-          const headers = Object.keys(result.rows[0]);
-          text += headers.join(' | ') + '\n';
-          text += headers.map(() => '---').join(' | ') + '\n';
-
-          for (const row of result.rows) {
-            text += headers.map(h => String(row[h] ?? '')).join(' | ') + '\n';
-          }
+      }
+
+      let text = formatPlanSummary(result.summary) + '\n';
+      for (const warning of result.warnings ?? []) {
+        text += `Warning: ${warning}\n`;
+      }
+      if (includePlan) {
+        text += `\nPlan:\n${JSON.stringify(result.plan, null, 2)}\n`;
+      }
+      return { content: [{ type: 'text', text }] };
+    } catch (error) {
+      return this.errorResponse(error instanceof Error ? this.describeError(error) : String(error));
+    }
+  }
+
+  private async handleSqlExport(
+    args: Record<string, unknown>,
+    executor: SqlExecutor
+  ): Promise<McpToolResponse> {
+    const query = args.query as string;
+    const jsonMode = args.json !== false; // Default true
+
+    if (args.params !== undefined && args.namedParams !== undefined) {
+      return this.errorResponse('Cannot specify both params and namedParams');
+    }
+    const params = (args.params ?? args.namedParams) as QueryParams | undefined;
+
+    try {
+      const result = await executor.exportQuery(query, params, {
+        outputPath: args.outputPath as string,
+        format: args.format as ExportFormat | undefined,
+        timeoutMs: args.timeout as number | undefined,
+      });
+
+      if (jsonMode) {
+        return this.jsonResponse({ success: true, ...result });
+      }
+      return this.textResponse(
+        `Exported ${result.rowCount} rows to ${result.outputPath}\n` +
+          `Format: ${result.format}\n` +
+          `Size: ${result.bytes} bytes\n` +
+          `Duration: ${result.duration}ms\n`
+      );
+    } catch (error) {
+      return this.errorResponse(error instanceof Error ? this.describeError(error) : String(error));
+    }
+  }
+
+  private async handleSqlJsonbPaths(
+    args: Record<string, unknown>,
+    executor: SqlExecutor
+  ): Promise<McpToolResponse> {
+    const jsonMode = args.json !== false; // Default true
+
+    try {
+      const result = await executor.getJsonbPaths(args.table as string, {
+        column: args.column as string | undefined,
+        sampling: args.jsonbSampling as SamplingOptions | undefined,
+        minPresence: args.minPresence as number | undefined,
+      });
+
+      if (jsonMode) {
+        return this.jsonResponse({ success: true, ...result });
+      }
+      if (result.columns.length === 0) {
+        return this.textResponse(`No json or jsonb columns in ${result.schema}.${result.table}\n`);
+      }
+      return this.textResponse(
+        `${formatJsonbPaths(result).join('\n')}\nDuration: ${result.duration}ms\n`
+      );
+    } catch (error) {
+      return this.errorResponse(error instanceof Error ? this.describeError(error) : String(error));
+    }
+  }
+
+  private async handleSqlGenerateTypes(
+    args: Record<string, unknown>,
+    executor: SqlExecutor
+  ): Promise<McpToolResponse> {
+    const tables = (args.tables as string[]) || [];
+    const jsonMode = args.json !== false; // Default true
+
+    try {
+      const result = await executor.generateTypes({
+        tables: tables.length > 0 ? tables : undefined,
+        allSchemas: args.allSchemas === true,
+        jsonbSamples: args.jsonbSamples as number | undefined,
+        outputPath: args.outputPath as string | undefined,
+      });
+
+      if (jsonMode) {
+        return this.jsonResponse({ success: true, ...result });
+      }
+      if (result.outputPath) {
+        return this.textResponse(
+          `Generated types for ${result.tables} tables, ${result.views} views and ${result.enums} enum types in ${result.outputPath}\n` +
+            `Size: ${result.bytes} bytes\n` +
+            `Duration: ${result.duration}ms\n`
+        );
+      }
+      return this.textResponse(result.source);
+    } catch (error) {
+      return this.errorResponse(error instanceof Error ? this.describeError(error) : String(error));
+    }
+  }
+
+  private async handleSqlImport(
+    args: Record<string, unknown>,
+    executor: SqlExecutor
+  ): Promise<McpToolResponse> {
+    const filepath = args.filepath as string;
+    const table = args.table as string;
+    const jsonMode = args.json !== false; // Default true
+    const confirmationToken = args.confirmationToken as string | undefined;
+    const options: ImportOptions = {
+      table,
+      format: args.format as ImportFormat | undefined,
+      header: args.header as boolean | undefined,
+      columns: args.columns as Record<string, string> | undefined,
+      delimiter: args.delimiter as string | undefined,
+      nullMarker: args.nullMarker as string | undefined,
+      truncate: args.truncate === true,
+      upsertKeys: args.upsertKeys as string[] | undefined,
+      timeoutMs: args.timeout as number | undefined,
+    };
+
+    try {
+      // A truncating load, and loads the policy marks `confirm`, only run once the
+      // call is re-issued with the token from a confirmation result
+      let confirmed = false;
+      const statements = importStatements(options);
+      const confirmations = this.readOnly
+        ? []
+        : requiredConfirmations(
+            statements.flatMap(classifySql),
+            executor.sqlPolicy,
+            this.confirmDestructive
+          );
+      if (confirmations.length > 0) {
+        const { confirmationToken: _token, json: _json, timeout: _timeout, ...call } = args;
+        const key = JSON.stringify(['sql_import', call, this.connectionName(args)]);
+        if (confirmationToken === undefined) {
+          return this.confirmationResponse(
+            key,
+            await executor.previewImport(statements, confirmations),
+            jsonMode,
+            'sql_import'
+          );
+        }
+        if (!this.confirmations.consume(confirmationToken, key)) {
+          throw new SqlAgentError(
+            'Invalid or expired confirmation token',
+            'INVALID_CONFIRMATION_TOKEN',
+            'Tokens are single-use and only valid for the call they were issued for; call again without confirmationToken to get a new one'
+          );
         }
+        confirmed = true;
+      }
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text,
-            },
-          ],
-        };
+      // Progress goes to the server log; the client only sees the final result
+      let reported = 0;
+      const result = await executor.importFile(filepath, {
+        ...options,
+        confirmed,
+        onProgress: ({ bytesRead, totalBytes }) => {
+          const percent = totalBytes > 0 ? Math.floor((bytesRead / totalBytes) * 10) * 10 : 100;
+          if (percent > reported) {
+            reported = percent;
+            logger.info('Import progress', { table, filepath, percent });
+          }
+        },
+      });
+
+      if (jsonMode) {
+        return this.jsonResponse({ success: true, ...result });
       }
+      return this.textResponse(
+        `Imported ${result.rowCount} rows into ${result.table}\n` +
+          `Columns: ${result.columns.join(', ')}\n` +
+          `Format: ${result.format}\n` +
+          `Size: ${result.bytes} bytes\n` +
+          `Duration: ${result.duration}ms\n`
+      );
     } catch (error) {
-      return this.errorResponse(error instanceof Error ? error.message : String(error));
+      return this.errorResponse(error instanceof Error ? this.describeError(error) : String(error));
     }
   }
 
-  private async handleSqlSchema(args: Record<string, unknown>): Promise<McpToolResponse> {
+  private async handleSqlSchema(
+    args: Record<string, unknown>,
+    executor: SqlExecutor
+  ): Promise<McpToolResponse> {
     const tables = (args.tables as string[]) || [];
     const allSchemas = (args.allSchemas as boolean) || false;
+    const jsonbFormat = args.jsonbFormat as JsonbFormat | undefined;
+    const jsonbSampling = args.jsonbSampling as SamplingOptions | undefined;
+    // Sampling or a structure format imply the analysis unless it is turned off
+    const analyzeJsonb =
+      (args.analyzeJsonb as boolean | undefined) ??
+      (jsonbFormat !== undefined || jsonbSampling !== undefined);
     const jsonMode = args.json !== false; // Default true
 
+    if (jsonbFormat !== undefined && !JSONB_FORMATS.includes(jsonbFormat)) {
+      return this.errorResponse(
+        `Unknown JSONB format: ${jsonbFormat}. Use one of ${JSONB_FORMATS.join(', ')}`
+      );
+    }
+
     try {
-      if (!this.executor) {
-        throw new Error('SqlExecutor not initialized');
+      let result = await executor.getSchema(tables.length > 0 ? tables : undefined, allSchemas);
+      // JSON columns are sampled only when the analysis is requested
+      if (analyzeJsonb) {
+        result = withJsonbStructures(
+          result,
+          await executor.inferJsonbStructures(result.tables, jsonbSampling),
+          jsonbFormat ?? 'text'
+        );
       }
-      const result = await this.executor.getSchema(
-        tables.length > 0 ? tables : undefined,
-        allSchemas
-      );
 
       if (jsonMode) {
         return {
@@ -272,15 +842,18 @@ export class McpToolHandler {
 
         for (const table of result.tables) {
           text += `📋 ${table.schema}.${table.name}\n`;
+          if (table.comment) {
+            text += `  ${table.comment}\n`;
+          }
           text += '  Columns:\n';
 
           for (const col of table.columns) {
-            const nullable = col.is_nullable === 'YES' ? ' (nullable)' : '';
-            const dataType = col.character_maximum_length
-              ? `${col.data_type}(${col.character_maximum_length})`
-              : col.data_type;
-            const defaultVal = col.column_default ? ` DEFAULT ${col.column_default}` : '';
-            text += `    - ${col.column_name}: ${dataType}${nullable}${defaultVal}\n`;
+            text += `${formatColumn(col)}\n`;
+          }
+          for (const col of table.columns) {
+            for (const line of formatJsonbStructure(col, jsonbFormat ?? 'text')) {
+              text += `${line}\n`;
+            }
           }
 
           if (table.constraints.length > 0) {
@@ -298,9 +871,16 @@ export class McpToolHandler {
               text += `    - ${type}: ${columns.join(', ')}\n`;
             }
           }
+          for (const line of formatTableDetails(table)) {
+            text += `${line}\n`;
+          }
           text += '\n';
         }
 
+        for (const line of formatViewsAndEnums(result)) {
+          text += `${line}\n`;
+        }
+
         if (result.missingTables && result.missingTables.length > 0) {
           text += '❌ TABLES NOT FOUND:\n';
           for (const missing of result.missingTables) {
@@ -308,6 +888,9 @@ export class McpToolHandler {
             if (missing.suggestions.length > 0) {
               text += ` (Did you mean: ${missing.suggestions.join(', ')}?)`;
             }
+            if (missing.columnMatches) {
+              text += ` (Found as a column: ${formatColumnMatches(missing.columnMatches)})`;
+            }
             text += '\n';
           }
         }
@@ -322,16 +905,15 @@ export class McpToolHandler {
         };
       }
     } catch (error) {
-      return this.errorResponse(error instanceof Error ? error.message : String(error));
+      return this.errorResponse(error instanceof Error ? this.describeError(error) : String(error));
     }
   }
 
-  private async handleSqlBackup(args: Record<string, unknown>): Promise<McpToolResponse> {
+  private async handleSqlBackup(
+    args: Record<string, unknown>,
+    executor: SqlExecutor
+  ): Promise<McpToolResponse> {
     try {
-      if (!this.executor) {
-        throw new Error('SqlExecutor not initialized');
-      }
-
       // Validate mutually exclusive options
       if (args.dataOnly && args.schemaOnly) {
         return this.errorResponse('Cannot specify both dataOnly and schemaOnly options');
@@ -343,7 +925,7 @@ export class McpToolHandler {
         return this.errorResponse(`Invalid format. Must be one of: ${validFormats.join(', ')}`);
       }
 
-      const result = await this.executor.backup({
+      const result = await executor.backup({
         format: args.format as 'plain' | 'custom' | 'directory' | 'tar' | undefined,
         tables: args.tables as string[] | undefined,
         schemas: args.schemas as string[] | undefined,
@@ -383,24 +965,24 @@ export class McpToolHandler {
     }
   }
 
-  private async handleSqlHealth(args: Record<string, unknown>): Promise<McpToolResponse> {
+  private async handleSqlHealth(
+    args: Record<string, unknown>,
+    executor: SqlExecutor
+  ): Promise<McpToolResponse> {
     const includeVersion = args.includeVersion !== false; // Default true
     const includeConnectionInfo = args.includeConnectionInfo !== false; // Default true
     const jsonMode = args.json !== false; // Default true
 
     try {
-      if (!this.executor) {
-        throw new Error('SqlExecutor not initialized');
-      }
-
       const healthInfo: HealthInfo = {
         status: 'healthy',
         timestamp: new Date().toISOString(),
+        connection: this.connectionName(args),
       };
 
       // Test database connection
       try {
-        const testResult = await this.executor.executeQuery('SELECT 1 as test', false);
+        const testResult = await executor.executeQuery('SELECT 1 as test', false);
         healthInfo.connectionTest = {
           success: true,
           latency: testResult.duration,
@@ -416,7 +998,7 @@ export class McpToolHandler {
       // Get database version if requested
       if (includeVersion && healthInfo.status === 'healthy') {
         try {
-          const versionResult = await this.executor.executeQuery('SELECT version()', false);
+          const versionResult = await executor.executeQuery('SELECT version()', false);
           if (versionResult.rows && versionResult.rows.length > 0) {
             healthInfo.database = {
               version: String(versionResult.rows[0].version),
@@ -431,7 +1013,7 @@ export class McpToolHandler {
 
       // Get connection pool info if requested
       if (includeConnectionInfo) {
-        const poolManager = this.executor.poolManagerInstance;
+        const poolManager = executor.poolManagerInstance;
         if (poolManager && poolManager.getStatus) {
           healthInfo.connectionPool = poolManager.getStatus();
         } else {
@@ -468,7 +1050,8 @@ export class McpToolHandler {
         let text = `Health Check Report\n`;
         text += `==================\n\n`;
         text += `Status: ${healthInfo.status.toUpperCase()}\n`;
-        text += `Timestamp: ${healthInfo.timestamp}\n\n`;
+        text += `Timestamp: ${healthInfo.timestamp}\n`;
+        text += `Connection: ${healthInfo.connection}\n\n`;
 
         text += `Connection Test:\n`;
         text += `  Success: ${healthInfo.connectionTest.success}\n`;
@@ -518,6 +1101,246 @@ export class McpToolHandler {
     }
   }
 
+  /**
+   * Format a query result as text, one section per statement for scripts. Rows are a
+   * simple pipe table unless a row format was requested.
+   */
+  private formatQueryResultText(result: QueryResult, format?: RowFormat): string {
+    const formatTable = (rows?: Record<string, unknown>[]): string => {
+      if (!rows || rows.length === 0) {
+        return '';
+      }
+      if (format) {
+        return `${formatRows(format, rows)}\n`;
+      }
+      // Simple table formatting
+      const headers = Object.keys(rows[0]);
+      let table = headers.join(' | ') + '\n';
+      table += headers.map(() => '---').join(' | ') + '\n';
+      for (const row of rows) {
+        table += headers.map(h => String(row[h] ?? '')).join(' | ') + '\n';
+      }
+      return table;
+    };
+
+    let preamble = result.dryRun ? 'Dry run: all changes were rolled back\n' : '';
+    for (const warning of result.warnings ?? []) {
+      preamble += `Warning: ${warning}\n`;
+    }
+
+    if (result.statements) {
+      let text = preamble + `Statements: ${result.statements.length}\n`;
+      text += `Duration: ${result.duration}ms\n`;
+      result.statements.forEach((statement, index) => {
+        text += `\n[${index + 1}] Command: ${statement.command} (line ${statement.line})\n`;
+        text += `Rows: ${statement.rowCount}\n`;
+        text += `Duration: ${statement.duration}ms\n`;
+        const table = formatTable(statement.rows);
+        if (table) {
+          text += '\n' + table;
+        }
+      });
+      return text;
+    }
+
+    let text = preamble + `Command: ${result.command}\n`;
+    text += `Rows: ${result.rowCount}\n`;
+    text += `Duration: ${result.duration}ms\n\n`;
+    text += formatTable(result.rows);
+    return text;
+  }
+
+  /**
+   * Read limit / offset / cursor arguments, or return an error message
+   */
+  private readPageRequest(args: Record<string, unknown>): PageRequest | string {
+    const limit = args.limit as number | undefined;
+    const offset = (args.offset as number | undefined) ?? 0;
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+      return 'limit must be a positive integer';
+    }
+    if (!Number.isInteger(offset) || offset < 0) {
+      return 'offset must be a non-negative integer';
+    }
+    return { limit, offset, cursor: args.cursor as string | undefined };
+  }
+
+  /**
+   * Next page of a result cached by an earlier call
+   */
+  private resultPage(
+    tool: string,
+    source: string,
+    page: PageRequest,
+    jsonMode: boolean,
+    format: RowFormat | undefined
+  ): McpToolResponse {
+    const position = this.results.resolve(page.cursor as string, source);
+    if (!position) {
+      throw new SqlAgentError(
+        'Unknown or expired cursor',
+        'INVALID_CURSOR',
+        'Cursors expire after a while and only work with the query that returned them; run the query again'
+      );
+    }
+    return this.queryResultResponse(
+      tool,
+      source,
+      position.result,
+      { ...page, offset: position.offset },
+      jsonMode,
+      format,
+      position.handle
+    );
+  }
+
+  /**
+   * Successful query result, limited to one page of rows. When rows remain, the
+   * result is cached and the response carries a cursor for the next page.
+   */
+  private queryResultResponse(
+    tool: string,
+    source: string,
+    result: QueryResult,
+    page: PageRequest,
+    jsonMode: boolean,
+    format: RowFormat | undefined,
+    handle?: string
+  ): McpToolResponse {
+    const cap = this.toolMaxRows[tool] ?? this.maxRows;
+    const pageSize = Math.min(page.limit ?? cap, cap);
+    const rows = result.rows ?? [];
+    const pageRows = rows.slice(page.offset, page.offset + pageSize);
+    const end = page.offset + pageRows.length;
+    const truncated = page.offset > 0 || end < rows.length;
+
+    let nextCursor: string | undefined;
+    if (end < rows.length) {
+      nextCursor = encodeCursor(handle ?? this.results.store(source, result), end);
+    }
+
+    // Rows of individual statements are capped but not paged
+    const statements = result.statements?.map(statement =>
+      statement.rows && statement.rows.length > pageSize
+        ? { ...statement, rows: statement.rows.slice(0, pageSize), truncated: true }
+        : statement
+    );
+    const paged: QueryResult = { ...result, rows: pageRows, statements };
+
+    if (jsonMode) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              {
+                success: true,
+                command: result.command,
+                rowCount: result.rowCount,
+                rows: pageRows,
+                duration: result.duration,
+                ...(truncated && { truncated: true, totalRows: rows.length, offset: page.offset }),
+                ...(nextCursor && { nextCursor }),
+                ...(statements && { statements }),
+                ...(result.dryRun && { dryRun: true }),
+                ...(result.warnings && { warnings: result.warnings }),
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    let text = this.formatQueryResultText(paged, format);
+    if (truncated) {
+      text += `\nShowing rows ${page.offset + 1}-${end} of ${rows.length}`;
+      text += nextCursor ? `; pass cursor "${nextCursor}" for the next page\n` : '\n';
+    }
+    return { content: [{ type: 'text', text }] };
+  }
+
+  /**
+   * Result telling the caller the query was not run and what it would affect
+   */
+  private confirmationResponse(
+    key: string,
+    preview: ImpactPreview,
+    jsonMode: boolean,
+    tool = 'sql_exec'
+  ): McpToolResponse {
+    const { token, expiresAt } = this.confirmations.issue(key);
+    const hint = `Re-issue the same ${tool} call with confirmationToken to run it`;
+
+    if (jsonMode) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              {
+                success: false,
+                confirmationRequired: true,
+                code: 'CONFIRMATION_REQUIRED',
+                error: 'Confirmation required: the query was not executed',
+                confirmationToken: token,
+                expiresAt: new Date(expiresAt).toISOString(),
+                impact: preview.statements,
+                ...(preview.warnings && { warnings: preview.warnings }),
+                hint,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    let text = 'Confirmation required: the query was not executed\n';
+    for (const impact of preview.statements) {
+      text += `\n[${impact.statementIndex + 1}] ${impact.command}: ${impact.reasons.join('; ')}\n`;
+      if (impact.affectedRows !== undefined) {
+        text += `Affected rows: ${impact.affectedRows}\n`;
+      }
+      if (impact.dependentObjects.length > 0) {
+        text += `Dependent objects: ${impact.dependentObjects.join(', ')}\n`;
+      }
+      if (impact.error) {
+        text += `Dry run failed: ${impact.error}\n`;
+      }
+    }
+    for (const warning of preview.warnings ?? []) {
+      text += `Warning: ${warning}\n`;
+    }
+    text += `\nConfirmation token: ${token} (expires ${new Date(expiresAt).toISOString()})\n`;
+    text += hint;
+    return { content: [{ type: 'text', text }] };
+  }
+
+  /**
+   * Error message with the error code appended for structured errors
+   */
+  private describeError(error: Error): string {
+    return error instanceof SqlAgentError ? `${error.message} (${error.code})` : error.message;
+  }
+
+  private jsonResponse(value: unknown): McpToolResponse {
+    return this.textResponse(JSON.stringify(value, null, 2));
+  }
+
+  private textResponse(text: string): McpToolResponse {
+    return {
+      content: [
+        {
+          type: 'text',
+          text,
+        },
+      ],
+    };
+  }
+
   private errorResponse(message: string): McpToolResponse {
     return {
       content: [
@@ -530,9 +1353,11 @@ export class McpToolHandler {
   }
 
   async close(): Promise<void> {
-    if (this.executor) {
-      await this.executor.close();
-      this.executor = null;
+    // Open sessions did not finish, so none of their work is kept
+    await this.sessions.closeAll(session => this.endSession(session, false));
+    for (const executor of this.executors.values()) {
+      await executor.close();
     }
+    this.executors.clear();
   }
 }
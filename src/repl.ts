@@ -0,0 +1,422 @@
+/**
+ * Interactive SQL shell
+ * Reads statements until their terminating semicolon, runs them on one pooled
+ * connection kept for the whole session and prints the results. Lines starting
+ * with a backslash are meta-commands, like in psql.
+ */
+
+import { createInterface, Interface } from 'readline';
+import { chmodSync, existsSync, readFileSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { PoolClient } from 'pg';
+import { SqlExecutor, ImpactPreview, QueryResult, TableInfo } from './core/sql-executor';
+import { SqlAgentError } from './core/errors';
+import { ClassifiedStatement, classifySql, controlsTransaction } from './core/sql-classifier';
+import { ConfirmationReason, requiredConfirmations } from './core/sql-policy';
+import { endsStatement } from './core/sql-tokenizer';
+import { createRowWriter } from './utils/row-writer';
+import { formatImpactPreview, formatSqlError, handleExit, SqlError } from './cli';
+
+export const HISTORY_FILE = join(homedir(), '.sequelae_history');
+
+const HISTORY_SIZE = 1000;
+const PROMPT = 'sequelae=> ';
+const CONTINUATION_PROMPT = 'sequelae-> ';
+
+const META_COMMANDS: Record<string, string> = {
+  '\\d': '\\d <table>    Describe a table',
+  '\\dt': '\\dt           List tables',
+  '\\timing': '\\timing       Toggle query timing',
+  '\\x': '\\x            Toggle expanded (one column per line) output',
+  '\\?': '\\?            Show this help',
+  '\\q': '\\q            Quit',
+};
+
+const SQL_KEYWORDS = [
+  'SELECT',
+  'FROM',
+  'WHERE',
+  'JOIN',
+  'LEFT',
+  'INNER',
+  'GROUP BY',
+  'ORDER BY',
+  'LIMIT',
+  'INSERT INTO',
+  'VALUES',
+  'UPDATE',
+  'SET',
+  'DELETE FROM',
+  'RETURNING',
+  'CREATE',
+  'ALTER',
+  'DROP',
+  'BEGIN',
+  'COMMIT',
+  'ROLLBACK',
+];
+
+export interface ReplOptions {
+  input?: NodeJS.ReadableStream;
+  output?: NodeJS.WritableStream;
+  // Where statements are remembered between sessions (defaults to ~/.sequelae_history)
+  historyFile?: string;
+  // Statement timeout in milliseconds
+  timeout?: number;
+  // Run statements that need confirmation without asking
+  assumeYes?: boolean;
+}
+
+export class SqlRepl {
+  private rl?: Interface;
+  private client?: PoolClient;
+  // Whether the user opened a transaction on the client that is still open
+  private inTransaction = false;
+  // Lines of the statement being typed
+  private buffer: string[] = [];
+  private timing = false;
+  private expanded = false;
+  private tables: TableInfo[] = [];
+  private output: NodeJS.WritableStream;
+  private historyFile: string;
+
+  constructor(
+    private executor: SqlExecutor,
+    private options: ReplOptions = {}
+  ) {
+    this.output = options.output ?? process.stdout;
+    this.historyFile = options.historyFile ?? HISTORY_FILE;
+  }
+
+  /**
+   * Run the shell until the user quits or input ends
+   */
+  async start(): Promise<void> {
+    this.client = await this.executor.poolManagerInstance.getClient();
+    try {
+      await this.refreshSchema();
+      const rl = createInterface({
+        input: this.options.input ?? process.stdin,
+        output: this.output,
+        prompt: PROMPT,
+        completer: (line: string) => this.complete(line),
+        history: this.readHistory(),
+        historySize: HISTORY_SIZE,
+      });
+      this.rl = rl;
+
+      // Ctrl-C drops the statement being typed instead of leaving the shell
+      rl.on('SIGINT', () => {
+        if (this.buffer.length > 0) {
+          this.buffer = [];
+          this.print('');
+        } else {
+          this.print('\nUse \\q to quit');
+        }
+        rl.setPrompt(PROMPT);
+        rl.prompt();
+      });
+
+      this.print('Type \\? for help, \\q to quit. Statements end with ;');
+      rl.prompt();
+      for await (const line of rl) {
+        if (!(await this.handleLine(line))) {
+          break;
+        }
+        rl.setPrompt(this.buffer.length > 0 ? CONTINUATION_PROMPT : PROMPT);
+        rl.prompt();
+      }
+      rl.close();
+      this.print(handleExit(false));
+    } finally {
+      this.client.release();
+      this.client = undefined;
+    }
+  }
+
+  /**
+   * Handle one line of input. Returns false when the shell should exit.
+   */
+  async handleLine(line: string): Promise<boolean> {
+    const trimmed = line.trim();
+    if (this.buffer.length === 0) {
+      if (trimmed === '') {
+        return true;
+      }
+      if (trimmed.startsWith('\\')) {
+        this.remember(trimmed);
+        return this.runMetaCommand(trimmed);
+      }
+      if (/^(exit|quit)$/i.test(trimmed)) {
+        return false;
+      }
+    }
+
+    this.buffer.push(line);
+    const sql = this.buffer.join('\n');
+    if (!endsStatement(sql)) {
+      return true;
+    }
+    this.buffer = [];
+    this.remember(sql.replace(/\s*\n\s*/g, ' ').trim());
+    await this.runSql(sql);
+    return true;
+  }
+
+  /**
+   * Complete table, column and meta-command names for the word before the cursor
+   */
+  complete(line: string): [string[], string] {
+    if (/^\\\S*$/.test(line)) {
+      return [Object.keys(META_COMMANDS).filter(command => command.startsWith(line)), line];
+    }
+    const word = /[\w."]*$/.exec(line)?.[0] ?? '';
+    const candidates = line.startsWith('\\d ')
+      ? this.tableNames()
+      : [...this.tableNames(), ...this.columnNames(), ...SQL_KEYWORDS];
+    const lower = word.toLowerCase();
+    const hits = [...new Set(candidates)].filter(candidate =>
+      candidate.toLowerCase().startsWith(lower)
+    );
+    return [hits.sort(), word];
+  }
+
+  private async runMetaCommand(command: string): Promise<boolean> {
+    const [name, ...args] = command.split(/\s+/);
+    switch (name) {
+      case '\\q':
+        return false;
+      case '\\timing':
+        this.timing = !this.timing;
+        this.print(`Timing is ${this.timing ? 'on' : 'off'}.`);
+        return true;
+      case '\\x':
+        this.expanded = !this.expanded;
+        this.print(`Expanded display is ${this.expanded ? 'on' : 'off'}.`);
+        return true;
+      case '\\dt':
+        await this.listTables();
+        return true;
+      case '\\d':
+        if (args.length === 0) {
+          await this.listTables();
+        } else {
+          await this.describeTable(args[0]);
+        }
+        return true;
+      case '\\?':
+        this.print(Object.values(META_COMMANDS).join('\n'));
+        return true;
+      default:
+        this.print(`Invalid command ${name}. Try \\? for help.`);
+        return true;
+    }
+  }
+
+  private async runSql(sql: string): Promise<void> {
+    const classified = classifySql(sql);
+    try {
+      const confirmed = await this.confirm(sql);
+      // Autocommit, like psql: BEGIN ... COMMIT typed by the user spans several inputs
+      const result = await this.executor.executeQuery(sql, false, this.options.timeout, undefined, {
+        confirmed,
+        pinnedClient: this.client,
+      });
+      this.trackTransaction(classified);
+      this.printResult(result);
+      if (classified.some(statement => statement.category === 'ddl')) {
+        await this.refreshSchema();
+      }
+    } catch (error) {
+      // Statements before the failing one ran, and may have opened or ended a transaction
+      this.trackTransaction(classified.slice(0, (error as SqlError).statementIndex ?? 0));
+      this.print(formatSqlError(error as SqlError, false).trimStart());
+    }
+  }
+
+  /**
+   * Follow the transaction blocks the statements that ran opened and ended. A failed
+   * statement leaves its transaction open until the user rolls it back.
+   */
+  private trackTransaction(statements: ClassifiedStatement[]): void {
+    for (const statement of statements) {
+      if (statement.command === 'BEGIN' || statement.command === 'START') {
+        this.inTransaction = true;
+      } else if (controlsTransaction(statement)) {
+        this.inTransaction = false;
+      }
+    }
+  }
+
+  /**
+   * Ask before running destructive statements or statements the policy marks `confirm`
+   */
+  private async confirm(sql: string): Promise<boolean> {
+    if (this.executor.readOnly) {
+      return false;
+    }
+    const confirmations = requiredConfirmations(classifySql(sql), this.executor.sqlPolicy);
+    if (confirmations.length === 0) {
+      return false;
+    }
+    if (this.options.assumeYes) {
+      return true;
+    }
+    const preview = await this.previewImpact(sql, confirmations);
+    this.print(formatImpactPreview(preview).trimStart());
+    const answer = await this.ask('Proceed? [y/N] ');
+    if (!/^y(es)?$/i.test(answer.trim())) {
+      throw new SqlAgentError('Cancelled: the query was not executed', 'CONFIRMATION_REQUIRED');
+    }
+    return true;
+  }
+
+  /**
+   * Preview on the shell's own connection, so the preview sees the changes of an open
+   * transaction and does not wait for the row locks it holds. Outside a transaction
+   * the preview gets one of its own, which is rolled back.
+   */
+  private async previewImpact(
+    sql: string,
+    confirmations: ConfirmationReason[]
+  ): Promise<ImpactPreview> {
+    const client = this.client;
+    if (!client || this.inTransaction) {
+      return this.executor.previewImpact(sql, undefined, confirmations, client);
+    }
+    await client.query('BEGIN');
+    try {
+      return await this.executor.previewImpact(sql, undefined, confirmations, client);
+    } finally {
+      await client.query('ROLLBACK');
+    }
+  }
+
+  private ask(question: string): Promise<string> {
+    const rl = this.rl;
+    if (!rl) {
+      return Promise.resolve('');
+    }
+    return new Promise(resolvePromise => rl.question(question, resolvePromise));
+  }
+
+  private printResult(result: QueryResult): void {
+    const statements = result.statements ?? [{ ...result, line: 1 }];
+    for (const statement of statements) {
+      if (statement.rows && statement.rows.length > 0) {
+        this.printRows(statement.rows);
+      }
+      const rows = statement.rowCount ? ` (${statement.rowCount} rows)` : '';
+      this.print(`${statement.command || 'OK'}${rows}`);
+    }
+    if (this.timing) {
+      this.print(`Time: ${result.duration ?? 0}ms`);
+    }
+  }
+
+  private printRows(rows: Record<string, unknown>[]): void {
+    const format = this.expanded ? 'vertical' : 'table';
+    const writer = createRowWriter(format, line => this.print(line), rows.length);
+    rows.forEach(row => writer.write(row));
+    writer.end();
+  }
+
+  private async listTables(): Promise<void> {
+    await this.refreshSchema();
+    if (this.tables.length === 0) {
+      this.print('No tables found.');
+      return;
+    }
+    this.printRows(
+      this.tables.map(table => ({
+        schema: table.schema,
+        name: table.name,
+        columns: table.columns.length,
+      }))
+    );
+  }
+
+  private async describeTable(name: string): Promise<void> {
+    try {
+      const schema = await this.executor.getSchema([name], false, this.client);
+      const table = schema.tables[0];
+      if (!table) {
+        const suggestions = schema.missingTables?.[0]?.suggestions ?? [];
+        this.print(`Did not find any relation named "${name}".`);
+        if (suggestions.length > 0) {
+          this.print(`Did you mean: ${suggestions.join(', ')}?`);
+        }
+        return;
+      }
+      this.print(`Table "${table.schema}.${table.name}"`);
+      this.printRows(
+        table.columns.map(column => ({
+          column: column.column_name,
+          type: column.character_maximum_length
+            ? `${column.data_type}(${column.character_maximum_length})`
+            : column.data_type,
+          nullable: column.is_nullable === 'YES' ? 'yes' : 'no',
+          default: column.column_default,
+        }))
+      );
+      for (const constraint of table.constraints) {
+        this.print(
+          `${constraint.constraint_type} ${constraint.constraint_name} (${constraint.column_name})`
+        );
+      }
+    } catch (error) {
+      this.print(formatSqlError(error as SqlError, false).trimStart());
+    }
+  }
+
+  /**
+   * Reload the tables and columns used for \dt and tab completion
+   */
+  private async refreshSchema(): Promise<void> {
+    try {
+      this.tables = (await this.executor.getSchema(undefined, false, this.client)).tables;
+    } catch {
+      // Completion is a convenience; the shell works without it
+    }
+  }
+
+  private tableNames(): string[] {
+    return this.tables.flatMap(table => [table.name, `${table.schema}.${table.name}`]);
+  }
+
+  private columnNames(): string[] {
+    return this.tables.flatMap(table => table.columns.map(column => column.column_name));
+  }
+
+  private readHistory(): string[] {
+    if (!existsSync(this.historyFile)) {
+      return [];
+    }
+    // readline wants the most recent entry first
+    return readFileSync(this.historyFile, 'utf8')
+      .split('\n')
+      .filter(Boolean)
+      .reverse()
+      .slice(0, HISTORY_SIZE);
+  }
+
+  /**
+   * Add an entry to the history file, keeping the last HISTORY_SIZE entries.
+   * Statements can hold secrets, so only the owner may read the file.
+   */
+  private remember(entry: string): void {
+    try {
+      const entries = [entry, ...this.readHistory()].slice(0, HISTORY_SIZE).reverse();
+      writeFileSync(this.historyFile, `${entries.join('\n')}\n`, { mode: 0o600 });
+      // The mode only applies to new files
+      chmodSync(this.historyFile, 0o600);
+    } catch {
+      // History is best effort, e.g. with a read-only home directory
+    }
+  }
+
+  private print(line: string): void {
+    this.output.write(`${line}\n`);
+  }
+}
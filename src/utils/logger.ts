@@ -23,7 +23,13 @@ export class Logger {
   private minLevel: LogLevel = LogLevel.INFO;
 
   private constructor() {
-    // Check environment for log settings
+    this.configureFromEnv();
+  }
+
+  /**
+   * Read LOG_FORMAT and LOG_LEVEL, e.g. again once a config file has set them
+   */
+  configureFromEnv(): void {
     this.jsonMode = process.env.LOG_FORMAT === 'json';
 
     const envLevel = process.env.LOG_LEVEL?.toLowerCase();
@@ -0,0 +1,31 @@
+import { accessSync, constants } from 'fs';
+import { dirname, isAbsolute, normalize, resolve } from 'path';
+import { SqlAgentError } from '../core/errors';
+
+/**
+ * Validate a path that backups and exports are written to and make it absolute.
+ * Paths that climb out of their base directory are refused, and the target
+ * directory must exist and be writable.
+ */
+export function resolveOutputPath(outputPath: string): string {
+  // Prevent directory traversal attacks
+  let resolved = normalize(outputPath);
+  if (resolved.includes('..')) {
+    throw new SqlAgentError(
+      'Invalid output path: directory traversal not allowed',
+      'INVALID_OUTPUT_PATH'
+    );
+  }
+
+  if (!isAbsolute(resolved)) {
+    resolved = resolve(process.cwd(), resolved);
+  }
+
+  const outputDir = dirname(resolved);
+  try {
+    accessSync(outputDir, constants.W_OK);
+  } catch (_error) {
+    throw new SqlAgentError(`Output directory not writable: ${outputDir}`, 'OUTPUT_NOT_WRITABLE');
+  }
+  return resolved;
+}
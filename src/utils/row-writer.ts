@@ -0,0 +1,288 @@
+/**
+ * Output formats for query rows, shared by the CLI, the REPL and the MCP tools.
+ * Rows are written incrementally as they arrive, so streamed output starts before
+ * the query finishes.
+ */
+
+export type RowFormat = 'table' | 'csv' | 'tsv' | 'markdown' | 'ndjson' | 'json' | 'vertical';
+
+export const ROW_FORMATS: RowFormat[] = [
+  'table',
+  'csv',
+  'tsv',
+  'markdown',
+  'ndjson',
+  'json',
+  'vertical',
+];
+
+export interface RowWriter {
+  write(row: Record<string, unknown>): void;
+  /**
+   * Flush anything buffered and return the number of rows written
+   */
+  end(): number;
+}
+
+/**
+ * Create a writer that passes each output line to `output`. Table output is
+ * aligned per chunk of `chunkSize` rows, using the column widths of the first chunk.
+ */
+export function createRowWriter(
+  format: RowFormat,
+  output: (line: string) => void,
+  chunkSize = 100
+): RowWriter {
+  switch (format) {
+    case 'csv':
+      return createDelimitedWriter(output, ',', csvField);
+    case 'tsv':
+      return createDelimitedWriter(output, '\t', tsvField);
+    case 'markdown':
+      return createMarkdownWriter(output);
+    case 'ndjson':
+      return createNdjsonWriter(output);
+    case 'json':
+      return createJsonWriter(output);
+    case 'vertical':
+      return createVerticalWriter(output);
+    default:
+      return createTableWriter(output, chunkSize);
+  }
+}
+
+/**
+ * Format a complete result in one go, one line per output line
+ */
+export function formatRows(format: RowFormat, rows: Record<string, unknown>[]): string {
+  const lines: string[] = [];
+  const writer = createRowWriter(format, line => lines.push(line), rows.length || 1);
+  rows.forEach(row => writer.write(row));
+  writer.end();
+  return lines.join('\n');
+}
+
+/**
+ * Text of a value as shown in the text formats. NULL is empty, dates are ISO 8601,
+ * bytea is hex in PostgreSQL's \x notation and json values are serialized.
+ */
+export function cellText(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Buffer.isBuffer(value)) {
+    return `\\x${value.toString('hex')}`;
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+/**
+ * Quote a CSV field when it contains a delimiter, quote or line break (RFC 4180)
+ */
+export function csvField(value: unknown): string {
+  const text = cellText(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const TSV_ESCAPES: Record<string, string> = {
+  '\\': '\\\\',
+  '\t': '\\t',
+  '\n': '\\n',
+  '\r': '\\r',
+};
+
+/**
+ * Escape a TSV field the way COPY's text format does, so tabs and line breaks
+ * inside values cannot split a row
+ */
+export function tsvField(value: unknown): string {
+  return cellText(value).replace(/[\\\t\n\r]/g, char => TSV_ESCAPES[char]);
+}
+
+/**
+ * Escape a Markdown table cell: pipes would start a new cell and line breaks a new row
+ */
+export function markdownCell(value: unknown): string {
+  return cellText(value).replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+}
+
+/**
+ * Value as it is serialized in the JSON formats. Dates serialize as ISO 8601 on their
+ * own; bytea becomes the same hex text as in the other formats.
+ */
+export function jsonValue(value: unknown): unknown {
+  return Buffer.isBuffer(value) ? cellText(value) : value;
+}
+
+function jsonRow(row: Record<string, unknown>): Record<string, unknown> {
+  const entries = Object.entries(row);
+  if (!entries.some(([, value]) => Buffer.isBuffer(value))) {
+    return row;
+  }
+  return Object.fromEntries(entries.map(([column, value]) => [column, jsonValue(value)]));
+}
+
+function createDelimitedWriter(
+  output: (line: string) => void,
+  delimiter: string,
+  field: (value: unknown) => string
+): RowWriter {
+  let columns: string[] | undefined;
+  let count = 0;
+
+  return {
+    write(row) {
+      if (!columns) {
+        columns = Object.keys(row);
+        output(columns.map(field).join(delimiter));
+      }
+      output((columns as string[]).map(column => field(row[column])).join(delimiter));
+      count++;
+    },
+    end() {
+      return count;
+    },
+  };
+}
+
+function createMarkdownWriter(output: (line: string) => void): RowWriter {
+  let columns: string[] | undefined;
+  let count = 0;
+
+  const formatLine = (cells: string[]): string => `| ${cells.join(' | ')} |`;
+
+  return {
+    write(row) {
+      if (!columns) {
+        columns = Object.keys(row);
+        output(formatLine(columns.map(markdownCell)));
+        output(formatLine(columns.map(() => '---')));
+      }
+      output(formatLine((columns as string[]).map(column => markdownCell(row[column]))));
+      count++;
+    },
+    end() {
+      return count;
+    },
+  };
+}
+
+function createNdjsonWriter(output: (line: string) => void): RowWriter {
+  let count = 0;
+
+  return {
+    write(row) {
+      output(JSON.stringify(jsonRow(row)));
+      count++;
+    },
+    end() {
+      return count;
+    },
+  };
+}
+
+/**
+ * A JSON array with one row per line. Each row is held back until the next one
+ * arrives so the separating comma can be placed.
+ */
+function createJsonWriter(output: (line: string) => void): RowWriter {
+  let pending: string | undefined;
+  let count = 0;
+
+  return {
+    write(row) {
+      if (pending === undefined) {
+        output('[');
+      } else {
+        output(`${pending},`);
+      }
+      pending = `  ${JSON.stringify(jsonRow(row))}`;
+      count++;
+    },
+    end() {
+      if (pending === undefined) {
+        output('[]');
+      } else {
+        output(pending);
+        output(']');
+      }
+      return count;
+    },
+  };
+}
+
+/**
+ * One `column | value` line per column, like psql's expanded display
+ */
+function createVerticalWriter(output: (line: string) => void): RowWriter {
+  let columns: string[] | undefined;
+  let width = 0;
+  let count = 0;
+
+  return {
+    write(row) {
+      if (!columns) {
+        columns = Object.keys(row);
+        width = Math.max(0, ...columns.map(column => column.length));
+      }
+      count++;
+      output(`-[ RECORD ${count} ]${'-'.repeat(width)}`);
+      for (const column of columns) {
+        output(`${column.padEnd(width)} | ${cellText(row[column])}`);
+      }
+    },
+    end() {
+      return count;
+    },
+  };
+}
+
+function createTableWriter(output: (line: string) => void, chunkSize: number): RowWriter {
+  let columns: string[] | undefined;
+  let widths: number[] = [];
+  let buffer: string[][] = [];
+  let count = 0;
+
+  const formatLine = (cells: string[]): string =>
+    cells.map((cell, index) => cell.padEnd(widths[index])).join(' | ');
+
+  const flush = (): void => {
+    if (!columns || buffer.length === 0) {
+      return;
+    }
+    if (widths.length === 0) {
+      widths = columns.map((column, index) =>
+        Math.max(column.length, ...buffer.map(cells => cells[index].length))
+      );
+      output(formatLine(columns).trimEnd());
+      output(widths.map(width => '-'.repeat(width)).join('-+-'));
+    }
+    for (const cells of buffer) {
+      output(formatLine(cells).trimEnd());
+    }
+    buffer = [];
+  };
+
+  return {
+    write(row) {
+      if (!columns) {
+        columns = Object.keys(row);
+      }
+      buffer.push((columns as string[]).map(column => cellText(row[column])));
+      count++;
+      if (buffer.length >= chunkSize) {
+        flush();
+      }
+    },
+    end() {
+      flush();
+      return count;
+    },
+  };
+}
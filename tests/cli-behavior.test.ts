@@ -212,7 +212,7 @@ describe('CLI Behavior Tests', () => {
     });
 
     test('should recognize DELETE without exec prefix', async () => {
-      const result = await execSequelae(['DELETE', 'FROM', 'test']);
+      const result = await execSequelae(['DELETE', 'FROM', 'test', '--yes']);
       // This should work as direct SQL
       expect(result.code).toBe(0);
     });
@@ -224,7 +224,7 @@ describe('CLI Behavior Tests', () => {
     });
 
     test('should recognize DROP without exec prefix', async () => {
-      const result = await execSequelae(['DROP', 'TABLE', 'test']);
+      const result = await execSequelae(['DROP', 'TABLE', 'test', '--yes']);
       // This should work as direct SQL
       expect(result.code).toBe(0);
     });
@@ -81,7 +81,9 @@ describeWithDb('CLI Exec Command', () => {
       expect(mockExecutor.executeQuery).toHaveBeenCalledWith(
         'SELECT * FROM users',
         true,
-        undefined
+        undefined,
+        undefined,
+        { confirmed: false, dryRun: false }
       );
       expect(console.table).toHaveBeenCalledWith(mockResult.rows);
       expect(console.log).toHaveBeenCalledWith(expect.stringContaining('2 rows'));
@@ -107,7 +109,9 @@ describeWithDb('CLI Exec Command', () => {
       expect(mockExecutor.executeQuery).toHaveBeenCalledWith(
         'SELECT COUNT(*) FROM users',
         true,
-        undefined
+        undefined,
+        undefined,
+        { confirmed: false, dryRun: false }
       );
       const expectedResult = {
         success: true,
@@ -195,7 +199,13 @@ describeWithDb('CLI Exec Command', () => {
       const { main } = require('../src/cli');
       await main();
 
-      expect(mockExecutor.executeQuery).toHaveBeenCalledWith('SELECT * FROM users', true, 5000);
+      expect(mockExecutor.executeQuery).toHaveBeenCalledWith(
+        'SELECT * FROM users',
+        true,
+        5000,
+        undefined,
+        { confirmed: false, dryRun: false }
+      );
       expect(process.exit).toHaveBeenCalledWith(0);
     });
 
@@ -218,7 +228,9 @@ describeWithDb('CLI Exec Command', () => {
       expect(mockExecutor.executeQuery).toHaveBeenCalledWith(
         'CREATE TABLE test (id int)',
         false,
-        undefined
+        undefined,
+        undefined,
+        { confirmed: false, dryRun: false }
       );
       expect(process.exit).toHaveBeenCalledWith(0);
     });
@@ -8,8 +8,9 @@ import { describeWithDb } from './test-utils';
 jest.mock('pg');
 jest.mock('../src/core/sql-executor');
 jest.mock('fs', () => ({
-  existsSync: jest.fn().mockReturnValue(true),
-  readFileSync: jest.fn(),
+  // SQL files exist; there is no config file
+  existsSync: jest.fn((path: string) => path.endsWith('.sql')),
+  readFileSync: jest.fn().mockReturnValue('SELECT 1'),
 }));
 
 const mockPool = {
@@ -93,7 +94,9 @@ describeWithDb('CLI File Command', () => {
       expect(mockExecutor.executeFile).toHaveBeenCalledWith(
         'migrations/001_init.sql',
         true,
-        undefined
+        undefined,
+        undefined,
+        { confirmed: false, dryRun: false }
       );
       // File execution returns aggregated results
       expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Query executed'));
@@ -226,7 +229,16 @@ describeWithDb('CLI File Command', () => {
       const { main } = require('../src/cli');
       await main();
 
-      expect(mockExecutor.executeFile).toHaveBeenCalledWith('slow_query.sql', true, 5000);
+      expect(mockExecutor.executeFile).toHaveBeenCalledWith(
+        'slow_query.sql',
+        true,
+        5000,
+        undefined,
+        {
+          confirmed: false,
+          dryRun: false,
+        }
+      );
       expect(process.exit).toHaveBeenCalledWith(0);
     });
 
@@ -252,7 +264,36 @@ describeWithDb('CLI File Command', () => {
       const { main } = require('../src/cli');
       await main();
 
-      expect(mockExecutor.executeFile).toHaveBeenCalledWith('maintenance.sql', false, undefined);
+      expect(mockExecutor.executeFile).toHaveBeenCalledWith(
+        'maintenance.sql',
+        false,
+        undefined,
+        undefined,
+        {
+          confirmed: false,
+          dryRun: false,
+        }
+      );
+      expect(process.exit).toHaveBeenCalledWith(0);
+    });
+
+    test('should bind parameters in the file', async () => {
+      mockExecutor.executeFile.mockResolvedValue({ success: true, results: [], totalDuration: 5 });
+
+      process.argv = ['node', 'sequelae', 'file', 'by_user.sql', '--param', '42'];
+      const { main } = require('../src/cli');
+      await main();
+
+      expect(mockExecutor.executeFile).toHaveBeenCalledWith(
+        'by_user.sql',
+        true,
+        undefined,
+        ['42'],
+        {
+          confirmed: false,
+          dryRun: false,
+        }
+      );
       expect(process.exit).toHaveBeenCalledWith(0);
     });
 
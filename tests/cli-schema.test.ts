@@ -1,6 +1,7 @@
 import { Pool } from 'pg';
 import { SqlExecutor } from '../src/core/sql-executor';
 import { describeWithDb } from './test-utils';
+import { analyzeJsonDocuments } from '../src/jsonb-analyzer';
 // Import main is not needed - we'll test through process.argv
 
 // Mock dependencies
@@ -20,6 +21,11 @@ const mockExecutor = {
   executeQuery: jest.fn(),
   executeFile: jest.fn(),
   getSchema: jest.fn(),
+  inferJsonbStructures: jest.fn(),
+  snapshotJsonb: jest.fn(),
+  diffJsonb: jest.fn(),
+  importFile: jest.fn(),
+  previewImport: jest.fn(),
   createBackup: jest.fn(),
   close: jest.fn().mockResolvedValue(undefined),
 };
@@ -33,6 +39,7 @@ const originalProcessExit = process.exit;
 describeWithDb('CLI Schema Command', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    mockExecutor.inferJsonbStructures.mockResolvedValue({});
     console.log = jest.fn();
     console.error = jest.fn();
     console.table = jest.fn();
@@ -55,44 +62,39 @@ describeWithDb('CLI Schema Command', () => {
   });
 
   describe('schema command', () => {
+    const users = {
+      schema: 'public',
+      name: 'users',
+      columns: [
+        { column_name: 'id', data_type: 'integer', is_nullable: 'NO' },
+        { column_name: 'email', data_type: 'varchar', is_nullable: 'NO' },
+      ],
+      constraints: [
+        { constraint_type: 'PRIMARY KEY', constraint_name: 'users_pkey', column_name: 'id' },
+      ],
+    };
+
     test('should show full schema in text mode', async () => {
-      const mockResult = {
-        command: 'SELECT',
-        rowCount: 2,
-        rows: [
+      mockExecutor.getSchema.mockResolvedValue({
+        tables: [
+          users,
           {
-            type: 'found',
-            table_schema: 'public',
-            table_name: 'users',
-            columns: JSON.stringify([
-              { column_name: 'id', data_type: 'integer', is_nullable: 'NO' },
-              { column_name: 'email', data_type: 'varchar', is_nullable: 'NO' },
-            ]),
-            constraints: JSON.stringify([
-              { constraint_type: 'PRIMARY KEY', constraint_name: 'users_pkey', column_name: 'id' },
-            ]),
-          },
-          {
-            type: 'found',
-            table_schema: 'public',
-            table_name: 'posts',
-            columns: JSON.stringify([
+            schema: 'public',
+            name: 'posts',
+            columns: [
               { column_name: 'id', data_type: 'integer', is_nullable: 'NO' },
               { column_name: 'title', data_type: 'text', is_nullable: 'YES' },
-            ]),
-            constraints: JSON.stringify([]),
+            ],
+            constraints: [],
           },
         ],
-      };
-
-      mockExecutor.executeQuery.mockResolvedValue(mockResult);
+      });
 
       process.argv = ['node', 'sequelae', 'schema'];
       const { main } = require('../src/cli');
       await main();
 
-      expect(mockExecutor.executeQuery).toHaveBeenCalled();
-      expect(mockExecutor.executeQuery.mock.calls[0][0]).toContain('information_schema.tables');
+      expect(mockExecutor.getSchema).toHaveBeenCalledWith(undefined, false);
 
       // Should display both tables
       expect(console.log).toHaveBeenCalledWith('📋 public.users');
@@ -101,109 +103,126 @@ describeWithDb('CLI Schema Command', () => {
     });
 
     test('should show specific tables schema', async () => {
-      const mockResult = {
-        command: 'SELECT',
-        rowCount: 1,
-        rows: [
-          {
-            type: 'found',
-            table_schema: 'public',
-            table_name: 'users',
-            columns: JSON.stringify([
-              { column_name: 'id', data_type: 'integer', is_nullable: 'NO' },
-            ]),
-            constraints: JSON.stringify([]),
-          },
-        ],
-      };
-
-      mockExecutor.executeQuery.mockResolvedValue(mockResult);
+      mockExecutor.getSchema.mockResolvedValue({ tables: [users] });
 
-      process.argv = ['node', 'sequelae', 'schema', 'users,posts'];
+      process.argv = ['node', 'sequelae', 'schema', 'users,audit.events'];
       const { main } = require('../src/cli');
       await main();
 
-      expect(mockExecutor.executeQuery).toHaveBeenCalled();
-      // Check that the query includes the specific tables
-      expect(mockExecutor.executeQuery.mock.calls[0][0]).toContain("'users'");
-      expect(mockExecutor.executeQuery.mock.calls[0][0]).toContain("'posts'");
+      expect(mockExecutor.getSchema).toHaveBeenCalledWith(['users', 'audit.events'], false);
       expect(console.log).toHaveBeenCalledWith('📋 public.users');
       expect(process.exit).toHaveBeenCalledWith(0);
     });
 
     test('should show schema in JSON mode', async () => {
-      const mockResult = {
-        command: 'SELECT',
-        rowCount: 1,
-        rows: [
-          {
-            table_schema: 'public',
-            table_name: 'users',
-            columns: JSON.stringify([{ column_name: 'id', data_type: 'integer' }]),
-            constraints: JSON.stringify([]),
-          },
-        ],
-        duration: 50,
-      };
-
-      mockExecutor.executeQuery.mockResolvedValue(mockResult);
+      const schema = { tables: [users], enums: [{ schema: 'public', name: 'mood', values: [] }] };
+      mockExecutor.getSchema.mockResolvedValue(schema);
 
       process.argv = ['node', 'sequelae', '--json', 'schema'];
       const { main } = require('../src/cli');
       await main();
 
-      const expectedOutput = {
-        success: true,
-        command: 'SELECT',
-        rowCount: 1,
-        rows: mockResult.rows,
-        duration: 50,
-      };
-      expect(console.log).toHaveBeenCalledWith(JSON.stringify(expectedOutput));
+      const output = JSON.parse((console.log as jest.Mock).mock.calls[0][0]);
+      expect(output).toEqual({ success: true, ...schema, duration: expect.any(Number) });
       expect(process.exit).toHaveBeenCalledWith(0);
     });
 
-    test('should include system tables with --all flag', async () => {
-      const mockResult = {
-        command: 'SELECT',
-        rowCount: 1,
-        rows: [
-          {
-            table_schema: 'pg_catalog',
-            table_name: 'pg_class',
-            columns: JSON.stringify([]),
-            constraints: JSON.stringify([]),
-          },
-        ],
+    test('should add JSONB structures in the requested format', async () => {
+      const events = {
+        schema: 'public',
+        name: 'events',
+        columns: [{ column_name: 'payload', data_type: 'jsonb', is_nullable: 'NO' }],
+        constraints: [],
       };
+      mockExecutor.getSchema.mockResolvedValue({ tables: [events] });
+      mockExecutor.inferJsonbStructures.mockResolvedValue({
+        'public.events.payload': analyzeJsonDocuments([{ kind: 'click' }]),
+      });
+
+      process.argv = [
+        'node',
+        'sequelae',
+        '--json',
+        'schema',
+        'events',
+        '--jsonb-format',
+        'jsonschema',
+      ];
+      const { main } = require('../src/cli');
+      await main();
+
+      expect(mockExecutor.getSchema).toHaveBeenCalledWith(['events'], false);
+      const output = JSON.parse((console.log as jest.Mock).mock.calls[0][0]);
+      expect(output.tables[0].columns[0].jsonbStructure).toEqual({
+        $schema: 'https://json-schema.org/draft/2020-12/schema',
+        type: 'object',
+        properties: {
+          kind: {
+            type: 'string',
+            examples: ['click'],
+            'x-stats': { presence: 100, types: { string: 1 }, distinct: 1 },
+          },
+        },
+        required: ['kind'],
+      });
+    });
 
-      mockExecutor.executeQuery.mockResolvedValue(mockResult);
+    test('should pass JSONB sampling options to the executor', async () => {
+      mockExecutor.getSchema.mockResolvedValue({ tables: [] });
+      mockExecutor.inferJsonbStructures.mockResolvedValue({});
+
+      process.argv = [
+        'node',
+        'sequelae',
+        'schema',
+        'events',
+        '--sample',
+        'recent',
+        '--sample-order',
+        'created_at',
+        '--sample-size',
+        '500',
+      ];
+      const { main } = require('../src/cli');
+      await main();
 
-      process.argv = ['node', 'sequelae', 'schema', '--all'];
+      expect(mockExecutor.getSchema).toHaveBeenCalledWith(['events'], false);
+      expect(mockExecutor.inferJsonbStructures).toHaveBeenCalledWith([], {
+        strategy: 'recent',
+        limit: 500,
+        percent: undefined,
+        orderBy: 'created_at',
+      });
+      expect(process.exit).toHaveBeenCalledWith(0);
+    });
+
+    test('should reject an unknown JSONB format', async () => {
+      process.argv = ['node', 'sequelae', 'schema', '--jsonb-format', 'yaml'];
       const { main } = require('../src/cli');
       await main();
 
-      // Check that query doesn't exclude system schemas
-      expect(mockExecutor.executeQuery.mock.calls[0][0]).toContain(
-        "table_schema NOT IN ('pg_catalog', 'information_schema')"
+      expect(console.error).toHaveBeenCalledWith(
+        'Error: Unknown JSONB format: yaml\nUse one of text, jsonschema, zod, typescript'
       );
+      expect(process.exit).toHaveBeenCalledWith(1);
+    });
+
+    test('should include system tables with --all flag', async () => {
+      mockExecutor.getSchema.mockResolvedValue({ tables: [] });
+
+      process.argv = ['node', 'sequelae', 'schema', '--all'];
+      const { main } = require('../src/cli');
+      await main();
+
+      expect(mockExecutor.getSchema).toHaveBeenCalledWith(undefined, true);
       expect(process.exit).toHaveBeenCalledWith(0);
     });
 
     test('should handle non-existent table', async () => {
-      const mockResult = {
-        command: 'SELECT',
-        rowCount: 1,
-        rows: [
-          {
-            type: 'missing',
-            missing_table: 'nonexistent',
-            suggestions: 'users, posts',
-          },
-        ],
-      };
-
-      mockExecutor.executeQuery.mockResolvedValue(mockResult);
+      mockExecutor.getSchema.mockResolvedValue({
+        tables: [],
+        missingTables: [{ table_name: 'nonexistent', suggestions: ['users', 'posts'] }],
+      });
 
       process.argv = ['node', 'sequelae', 'schema', 'nonexistent'];
       const { main } = require('../src/cli');
@@ -211,11 +230,12 @@ describeWithDb('CLI Schema Command', () => {
 
       expect(console.log).toHaveBeenCalledWith('❌ TABLES NOT FOUND:\n');
       expect(console.log).toHaveBeenCalledWith('  - "nonexistent"');
+      expect(console.log).toHaveBeenCalledWith('    Did you mean: users, posts?');
       expect(process.exit).toHaveBeenCalledWith(0);
     });
 
     test('should handle schema retrieval error', async () => {
-      mockExecutor.executeQuery.mockRejectedValue(new Error('Permission denied'));
+      mockExecutor.getSchema.mockRejectedValue(new Error('Permission denied'));
 
       process.argv = ['node', 'sequelae', 'schema'];
       const { main } = require('../src/cli');
@@ -226,23 +246,113 @@ describeWithDb('CLI Schema Command', () => {
     });
 
     test('should parse table list with spaces', async () => {
-      const mockResult = {
-        command: 'SELECT',
-        rowCount: 0,
-        rows: [],
-      };
-
-      mockExecutor.executeQuery.mockResolvedValue(mockResult);
+      mockExecutor.getSchema.mockResolvedValue({ tables: [] });
 
       process.argv = ['node', 'sequelae', 'schema', 'users, posts, comments'];
       const { main } = require('../src/cli');
       await main();
 
-      // Check that all tables are included in the query
-      const query = mockExecutor.executeQuery.mock.calls[0][0];
-      expect(query).toContain("'users'");
-      expect(query).toContain("'posts'");
-      expect(query).toContain("'comments'");
+      expect(mockExecutor.getSchema).toHaveBeenCalledWith(['users', 'posts', 'comments'], false);
+      expect(process.exit).toHaveBeenCalledWith(0);
+    });
+  });
+
+  describe('jsonb command', () => {
+    test('should leave the 100-row default sample to the executor without sampling flags', async () => {
+      mockExecutor.snapshotJsonb.mockResolvedValue({
+        outputPath: '/tmp/snapshot.json',
+        columns: ['public.events.payload'],
+        bytes: 120,
+        duration: 5,
+      });
+      process.argv = [
+        'node',
+        'sequelae',
+        'jsonb',
+        'snapshot',
+        'events.payload',
+        '--out',
+        'snapshot.json',
+      ];
+      const { main } = require('../src/cli');
+      await main();
+
+      expect(mockExecutor.snapshotJsonb).toHaveBeenCalledWith(
+        ['events.payload'],
+        'snapshot.json',
+        undefined
+      );
+      expect(process.exit).toHaveBeenCalledWith(0);
+    });
+
+    test('should pass sampling flags and exit with 1 on drift', async () => {
+      mockExecutor.diffJsonb.mockResolvedValue({
+        snapshotPath: '/tmp/snapshot.json',
+        createdAt: '2026-01-01T00:00:00.000Z',
+        columns: ['public.events.payload'],
+        changes: [
+          { column: 'public.events.payload', path: 'kind', kind: 'added', after: 'string' },
+        ],
+        duration: 5,
+      });
+      process.argv = ['node', 'sequelae', 'jsonb', 'diff', 'snapshot.json', '--sample', 'full'];
+      const { main } = require('../src/cli');
+      await main();
+
+      expect(mockExecutor.diffJsonb).toHaveBeenCalledWith('snapshot.json', {
+        strategy: 'full',
+        limit: undefined,
+        percent: undefined,
+        orderBy: undefined,
+      });
+      expect(console.log).toHaveBeenCalledWith('public.events.payload\n  + kind: string');
+      expect(process.exit).toHaveBeenCalledWith(1);
+    });
+  });
+
+  describe('import command', () => {
+    const imported = {
+      table: 'users',
+      format: 'csv',
+      columns: ['email'],
+      rowCount: 2,
+      bytes: 40,
+      duration: 5,
+    };
+
+    test('should not truncate the table without confirmation', async () => {
+      mockExecutor.importFile.mockResolvedValue(imported);
+      process.argv = ['node', 'sequelae', 'import', 'users.csv', '--table', 'users', '--truncate'];
+      const { main } = require('../src/cli');
+      await main();
+
+      expect(mockExecutor.importFile).not.toHaveBeenCalled();
+      expect(console.error).toHaveBeenCalledWith(
+        expect.stringContaining('Statement 1 (TRUNCATE) needs confirmation: TRUNCATE')
+      );
+      expect(process.exit).toHaveBeenCalledWith(1);
+    });
+
+    test('should truncate the table with --yes', async () => {
+      mockExecutor.importFile.mockResolvedValue(imported);
+      process.argv = [
+        'node',
+        'sequelae',
+        'import',
+        'users.csv',
+        '--table',
+        'users',
+        '--truncate',
+        '--yes',
+      ];
+      const { main } = require('../src/cli');
+      await main();
+
+      expect(mockExecutor.previewImport).not.toHaveBeenCalled();
+      expect(mockExecutor.importFile).toHaveBeenCalledWith(
+        'users.csv',
+        expect.objectContaining({ table: 'users', truncate: true, confirmed: true })
+      );
       expect(process.exit).toHaveBeenCalledWith(0);
     });
   });
@@ -0,0 +1,33 @@
+import { ConfirmationStore } from '../src/mcp/confirmation-store';
+
+describe('ConfirmationStore', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should accept a token once for the request it was issued for', () => {
+    const store = new ConfirmationStore();
+    const { token } = store.issue('DROP TABLE users');
+
+    expect(store.consume(token, 'DROP TABLE users')).toBe(true);
+    expect(store.consume(token, 'DROP TABLE users')).toBe(false);
+  });
+
+  test('should reject unknown tokens and tokens for other requests', () => {
+    const store = new ConfirmationStore();
+    const { token } = store.issue('DROP TABLE users');
+
+    expect(store.consume('not-a-token', 'DROP TABLE users')).toBe(false);
+    expect(store.consume(token, 'DROP TABLE orders')).toBe(false);
+  });
+
+  test('should expire tokens after the TTL', () => {
+    jest.useFakeTimers();
+    const store = new ConfirmationStore(1000);
+    const { token, expiresAt } = store.issue('TRUNCATE users');
+
+    expect(expiresAt).toBe(Date.now() + 1000);
+    jest.advanceTimersByTime(1000);
+    expect(store.consume(token, 'TRUNCATE users')).toBe(false);
+  });
+});
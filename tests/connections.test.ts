@@ -0,0 +1,67 @@
+import {
+  connectionEnvSuffix,
+  connectionSetting,
+  listConnections,
+  resolveConnectionString,
+} from '../src/core/connections';
+
+describe('connections', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    for (const key of Object.keys(process.env)) {
+      if (key.startsWith('DATABASE_URL')) {
+        delete process.env[key];
+      }
+    }
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  test('should derive the environment suffix from the connection name', () => {
+    expect(connectionEnvSuffix('staging')).toBe('STAGING');
+    expect(connectionEnvSuffix('prod-replica')).toBe('PROD_REPLICA');
+  });
+
+  test('should resolve the default and named connection strings', () => {
+    process.env.DATABASE_URL = 'postgresql://localhost/main';
+    process.env.DATABASE_URL_STAGING = 'postgresql://localhost/staging';
+
+    expect(resolveConnectionString()).toBe('postgresql://localhost/main');
+    expect(resolveConnectionString('default')).toBe('postgresql://localhost/main');
+    expect(resolveConnectionString('staging')).toBe('postgresql://localhost/staging');
+  });
+
+  test('should reject unknown connections and list the available ones', () => {
+    process.env.DATABASE_URL = 'postgresql://localhost/main';
+    process.env.DATABASE_URL_STAGING = 'postgresql://localhost/staging';
+
+    expect(() => resolveConnectionString('prod')).toThrow(
+      expect.objectContaining({
+        code: 'UNKNOWN_CONNECTION',
+        hint: 'Available connections: default, staging. Define DATABASE_URL_PROD to add this one',
+      })
+    );
+  });
+
+  test('should list configured connections with the default first', () => {
+    process.env.DATABASE_URL_REPORTING = 'postgresql://localhost/reporting';
+    process.env.DATABASE_URL_ANALYTICS = 'postgresql://localhost/analytics';
+    expect(listConnections()).toEqual(['analytics', 'reporting']);
+
+    process.env.DATABASE_URL = 'postgresql://localhost/main';
+    expect(listConnections()).toEqual(['default', 'analytics', 'reporting']);
+  });
+
+  test('should prefer per-connection settings over shared ones', () => {
+    process.env.POSTGRES_SSL_MODE = 'require';
+    process.env.POSTGRES_SSL_MODE_STAGING = 'disable';
+
+    expect(connectionSetting('staging', 'POSTGRES_SSL_MODE')).toBe('disable');
+    expect(connectionSetting('reporting', 'POSTGRES_SSL_MODE')).toBe('require');
+    expect(connectionSetting(undefined, 'POSTGRES_SSL_MODE')).toBe('require');
+  });
+});
@@ -0,0 +1,199 @@
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { PoolClient } from 'pg';
+import {
+  loadFileIntoTable,
+  parseCsvLine,
+  quoteTableName,
+  resolveImportFormat,
+} from '../src/core/data-import';
+
+/**
+ * A client that answers catalog queries and plays the server side of COPY FROM STDIN
+ */
+function fakeClient(columns: string[]): {
+  client: PoolClient;
+  queries: string[];
+  copied: () => string;
+  copyFailures: string[];
+} {
+  const queries: string[] = [];
+  const chunks: string[] = [];
+  const copyFailures: string[] = [];
+
+  const query = jest.fn((sql: any) => {
+    if (typeof sql === 'object' && typeof sql.submit === 'function') {
+      const connection = {
+        stream: { writableNeedDrain: false },
+        query: (text: string) => queries.push(text),
+        sendCopyFromChunk: (chunk: Buffer) => chunks.push(chunk.toString()),
+        endCopyFrom: () => {
+          sql.handleCommandComplete({ text: 'COPY 2' });
+          sql.handleReadyForQuery();
+        },
+        sendCopyFail: (message: string) => {
+          copyFailures.push(message);
+          sql.handleError(new Error(`COPY from stdin failed: ${message}`));
+        },
+      };
+      sql.submit(connection);
+      sql.handleCopyInResponse(connection);
+      return sql;
+    }
+    queries.push(sql);
+    if (sql.includes('pg_attribute')) {
+      return Promise.resolve({ rows: columns.map(attname => ({ attname })) });
+    }
+    if (sql.startsWith('INSERT')) {
+      return Promise.resolve({ rows: [], rowCount: 3 });
+    }
+    return Promise.resolve({ rows: [], rowCount: 0 });
+  });
+
+  return {
+    client: { query } as unknown as PoolClient,
+    queries,
+    copied: () => chunks.join(''),
+    copyFailures,
+  };
+}
+
+describe('data import', () => {
+  let dir: string;
+
+  const writeFile = (name: string, content: string): string => {
+    const file = join(dir, name);
+    writeFileSync(file, content);
+    return file;
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'sequelae-import-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should stream a CSV file with a detected header and a column mapping', async () => {
+    const content = 'E-mail,name\na@b.co,"Smith, Al"\nc@d.co,\n';
+    const file = writeFile('users.csv', content);
+    const { client, queries, copied } = fakeClient(['id', 'email', 'name']);
+    const progress = jest.fn();
+
+    const result = await loadFileIntoTable(client, file, {
+      table: 'users',
+      columns: { 'E-mail': 'email' },
+      onProgress: progress,
+    });
+
+    expect(queries).toContain(
+      `COPY "users" ("email", "name") FROM STDIN WITH (FORMAT csv, HEADER true, DELIMITER ',', NULL '')`
+    );
+    expect(copied()).toBe(content);
+    expect(progress).toHaveBeenLastCalledWith({
+      bytesRead: content.length,
+      totalBytes: content.length,
+    });
+    expect(result).toEqual({
+      table: 'users',
+      format: 'csv',
+      columns: ['email', 'name'],
+      rowCount: 2,
+      bytes: content.length,
+    });
+  });
+
+  test('should load a CSV file without header in table column order', async () => {
+    const file = writeFile('users.csv', '1;a@b.co;NULL\n');
+    const { client, queries } = fakeClient(['id', 'email', 'name']);
+
+    await loadFileIntoTable(client, file, { table: 'users', delimiter: ';', nullMarker: 'NULL' });
+
+    expect(queries).toContain(
+      `COPY "users" ("id", "email", "name") FROM STDIN WITH (FORMAT csv, HEADER false, DELIMITER ';', NULL 'NULL')`
+    );
+  });
+
+  test('should convert NDJSON to CSV for COPY', async () => {
+    const file = writeFile(
+      'events.ndjson',
+      [
+        '{"id":1,"name":"a,b","meta":{"x":1}}',
+        '',
+        '{"id":2,"name":"","meta":null}',
+        '{"id":3}',
+      ].join('\n')
+    );
+    const { client, queries, copied } = fakeClient(['id', 'name', 'meta']);
+
+    const result = await loadFileIntoTable(client, file, { table: 'events' });
+
+    expect(queries).toContain(`COPY "events" ("id", "name", "meta") FROM STDIN WITH (FORMAT csv)`);
+    expect(copied()).toBe('1,"a,b","{""x"":1}"\n2,"",\n3,,\n');
+    expect(result.format).toBe('ndjson');
+  });
+
+  test('should abort the COPY on an invalid NDJSON line', async () => {
+    const file = writeFile('events.ndjson', '{"id":1}\n{"id":2,"extra":true}\n');
+    const { client, copyFailures } = fakeClient(['id']);
+
+    await expect(loadFileIntoTable(client, file, { table: 'events' })).rejects.toMatchObject({
+      code: 'IMPORT_INVALID_ROW',
+      message: 'Unexpected field "extra" on line 2',
+    });
+    expect(copyFailures).toEqual(['Unexpected field "extra" on line 2']);
+  });
+
+  test('should truncate and upsert through a staging table', async () => {
+    const file = writeFile('users.csv', 'id,name\n1,Alice\n');
+    const { client, queries } = fakeClient(['id', 'name']);
+
+    const result = await loadFileIntoTable(client, file, {
+      table: 'public.users',
+      truncate: true,
+      upsertKeys: ['id'],
+      timeoutMs: 5000,
+    });
+
+    expect(queries).toEqual([
+      expect.stringContaining('pg_attribute'),
+      'SET LOCAL statement_timeout = 5000',
+      'TRUNCATE "public"."users"',
+      'CREATE TEMP TABLE sequelae_import_staging ON COMMIT DROP AS SELECT "id", "name" FROM "public"."users" WITH NO DATA',
+      `COPY sequelae_import_staging ("id", "name") FROM STDIN WITH (FORMAT csv, HEADER true, DELIMITER ',', NULL '')`,
+      'INSERT INTO "public"."users" ("id", "name") SELECT "id", "name" FROM sequelae_import_staging ON CONFLICT ("id") DO UPDATE SET "name" = EXCLUDED."name"',
+    ]);
+    expect(result.rowCount).toBe(3);
+  });
+
+  test('should report unknown tables and bad options', async () => {
+    const file = writeFile('users.csv', '1,a\n');
+
+    await expect(
+      loadFileIntoTable(fakeClient([]).client, file, { table: 'nope' })
+    ).rejects.toMatchObject({ code: 'UNKNOWN_TABLE' });
+    await expect(
+      loadFileIntoTable(fakeClient(['id']).client, file, { table: 'users', delimiter: '||' })
+    ).rejects.toMatchObject({ code: 'INVALID_IMPORT_OPTIONS' });
+    await expect(
+      loadFileIntoTable(fakeClient(['id', 'name']).client, file, {
+        table: 'users',
+        columns: { a: 'name' },
+      })
+    ).rejects.toThrow('A column mapping needs a header row');
+  });
+
+  test('should parse quoted CSV fields and resolve names and formats', () => {
+    expect(parseCsvLine('a,"b, c","say ""hi""",\r')).toEqual(['a', 'b, c', 'say "hi"', '']);
+    expect(parseCsvLine('a|b', '|')).toEqual(['a', 'b']);
+    expect(quoteTableName('sales.orders')).toBe('"sales"."orders"');
+    expect(quoteTableName('"My Table"')).toBe('"My Table"');
+    expect(resolveImportFormat('data.JSONL')).toBe('ndjson');
+    expect(resolveImportFormat('data.txt')).toBe('csv');
+    expect(() => resolveImportFormat('data.csv', 'xlsx')).toThrow(
+      expect.objectContaining({ code: 'INVALID_IMPORT_FORMAT' })
+    );
+  });
+});
@@ -549,15 +549,15 @@ describeWithDb('Sequelae E2E Tests', () => {
 
       const json = result.json as any;
       expect(json.success).toBe(true);
-      expect(json.rows).toBeDefined();
+      expect(json.tables).toBeDefined();
 
       // Find our table in the results
-      const tableRow = json.rows.find((r: any) => r.table_name === JSONB_TABLE);
-      expect(tableRow).toBeDefined();
-      expect(tableRow.columns).toBeDefined();
+      const table = json.tables.find((t: any) => t.name === JSONB_TABLE);
+      expect(table).toBeDefined();
+      expect(table.columns).toBeDefined();
 
-      // Parse columns and check JSONB types
-      const columns = JSON.parse(tableRow.columns);
+      // Check JSONB types
+      const columns = table.columns;
       const metadataColumn = columns.find((c: any) => c.column_name === 'metadata');
       const settingsColumn = columns.find((c: any) => c.column_name === 'settings');
 
@@ -584,10 +584,10 @@ describeWithDb('Sequelae E2E Tests', () => {
       expect(result.json).toBeDefined();
 
       const json = result.json as any;
-      const tableRow = json.rows.find((r: any) => r.table_name === EMPTY_JSONB_TABLE);
-      expect(tableRow).toBeDefined();
+      const table = json.tables.find((t: any) => t.name === EMPTY_JSONB_TABLE);
+      expect(table).toBeDefined();
 
-      const columns = JSON.parse(tableRow.columns);
+      const columns = table.columns;
       const dataColumn = columns.find((c: any) => c.column_name === 'data');
       expect(dataColumn.data_type).toBe('jsonb');
 
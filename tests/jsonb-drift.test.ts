@@ -0,0 +1,137 @@
+import {
+  createSnapshot,
+  diffSnapshotColumns,
+  formatJsonbDrift,
+  parseSnapshot,
+  snapshotColumn,
+} from '../src/core/jsonb-drift';
+import { analyzeJsonDocuments } from '../src/jsonb-analyzer';
+
+const snapshotOf = (samples: unknown[]) => snapshotColumn(analyzeJsonDocuments(samples));
+
+describe('jsonb drift', () => {
+  test('should snapshot types and presence without example values', () => {
+    const snapshot = createSnapshot({
+      'public.events.payload': analyzeJsonDocuments([
+        { kind: 'click', user: { email: 'a@b.co' }, tags: ['x'] },
+        { kind: 'view' },
+      ]),
+    });
+
+    expect(snapshot.version).toBe(1);
+    expect(snapshot.columns['public.events.payload']).toEqual({
+      arrayElements: false,
+      fields: {
+        kind: { types: ['string'], optional: false, presence: 100 },
+        user: {
+          types: ['object'],
+          optional: true,
+          presence: 50,
+          fields: { email: { types: ['string'], optional: false, presence: 100 } },
+        },
+        tags: { types: ['array'], optional: true, presence: 50, arrayElementTypes: ['string'] },
+      },
+    });
+    expect(JSON.stringify(snapshot)).not.toContain('a@b.co');
+    expect(parseSnapshot(JSON.stringify(snapshot))).toEqual(snapshot);
+  });
+
+  test('should reject invalid snapshots', () => {
+    expect(() => parseSnapshot('{')).toThrow(expect.objectContaining({ code: 'INVALID_SNAPSHOT' }));
+    expect(() => parseSnapshot('{"version":1}')).toThrow('Invalid JSONB snapshot: no columns');
+    expect(() => parseSnapshot('{"version":2,"columns":{}}')).toThrow(
+      expect.objectContaining({
+        message: 'Unsupported JSONB snapshot version: 2',
+        hint: 'Take a new snapshot with sequelae jsonb snapshot',
+      })
+    );
+  });
+
+  test('should report added, removed, now optional and retyped fields', () => {
+    const before = snapshotOf([
+      { id: 'a', status: 'new', user: { email: 'a@b.co', name: 'A' }, tags: ['x'] },
+    ]);
+    const after = snapshotOf([
+      { id: 1, user: { email: 'a@b.co' }, tags: [1], source: 'api' },
+      { id: 'b', status: 'new', user: { email: 'c@d.co' }, tags: [] },
+    ]);
+
+    expect(diffSnapshotColumns('public.events.payload', before, after)).toEqual([
+      {
+        column: 'public.events.payload',
+        path: 'id',
+        kind: 'type',
+        before: 'string',
+        after: 'number | string',
+      },
+      { column: 'public.events.payload', path: 'status', kind: 'optional' },
+      { column: 'public.events.payload', path: 'user.name', kind: 'removed', before: 'string' },
+      {
+        column: 'public.events.payload',
+        path: 'tags',
+        kind: 'type',
+        before: 'array<string>',
+        after: 'array<number>',
+      },
+      { column: 'public.events.payload', path: 'source', kind: 'added', after: 'string' },
+    ]);
+    expect(diffSnapshotColumns('public.events.payload', before, before)).toEqual([]);
+  });
+
+  test('should report array documents and removed columns', () => {
+    const objects = snapshotOf([{ sku: 'a' }]);
+
+    expect(
+      diffSnapshotColumns('public.orders.lines', objects, snapshotOf([[{ sku: 'a' }]]))
+    ).toEqual([
+      {
+        column: 'public.orders.lines',
+        path: '',
+        kind: 'type',
+        before: 'object',
+        after: 'array<object>',
+      },
+    ]);
+    expect(diffSnapshotColumns('public.orders.lines', objects, undefined)).toEqual([
+      { column: 'public.orders.lines', path: '', kind: 'removed', before: 'object' },
+    ]);
+  });
+
+  test('should format changes grouped by column', () => {
+    const result = {
+      snapshotPath: '/tmp/snapshot.json',
+      createdAt: '2026-01-01T00:00:00.000Z',
+      columns: ['public.events.payload', 'public.orders.lines', 'public.users.prefs'],
+      changes: [
+        {
+          column: 'public.events.payload',
+          path: 'id',
+          kind: 'type' as const,
+          before: 'string',
+          after: 'number | string',
+        },
+        { column: 'public.events.payload', path: 'status', kind: 'optional' as const },
+        {
+          column: 'public.events.payload',
+          path: 'source',
+          kind: 'added' as const,
+          after: 'string',
+        },
+        { column: 'public.users.prefs', path: '', kind: 'removed' as const, before: 'object' },
+      ],
+      duration: 4,
+    };
+
+    expect(formatJsonbDrift(result)).toEqual([
+      'public.events.payload',
+      '  ~ id: string -> number | string',
+      '  ? status: now optional',
+      '  + source: string',
+      'public.users.prefs',
+      '  - (column): object',
+    ]);
+    expect(formatJsonbDrift({ ...result, changes: [] })).toEqual([
+      'No drift in 3 columns since 2026-01-01T00:00:00.000Z',
+    ]);
+  });
+});
@@ -0,0 +1,162 @@
+import { describeJsonbPaths, formatJsonbPaths } from '../src/core/jsonb-paths';
+import { IndexInfo, TableInfo } from '../src/core/schema-introspection';
+import { analyzeJsonDocuments } from '../src/jsonb-analyzer';
+import { column } from './test-utils';
+
+const index = (fields: Partial<IndexInfo>): IndexInfo => ({
+  name: 'idx',
+  columns: [],
+  definition: '',
+  unique: false,
+  primary: false,
+  method: 'btree',
+  predicate: null,
+  ...fields,
+});
+
+const events = (indexes: IndexInfo[] = []): TableInfo => ({
+  schema: 'public',
+  name: 'events',
+  columns: [column({ column_name: 'payload', data_type: 'jsonb' })],
+  constraints: [],
+  indexes,
+});
+
+const samples = [
+  { kind: 'click', user: { email: 'a@b.co', age: 30 }, tags: ['x'] },
+  { kind: 'view', user: { email: 'c@d.co' } },
+  { kind: 'view', score: 2.5 },
+  { kind: 'click' },
+];
+
+describe('jsonb paths', () => {
+  test('should list accessors, jsonpath, filters and presence of every path', () => {
+    const { paths, arrayElements } = describeJsonbPaths(
+      events(),
+      column({ column_name: 'payload', data_type: 'jsonb' }),
+      analyzeJsonDocuments(samples)
+    );
+
+    expect(arrayElements).toBe(false);
+    expect(paths.map(path => path.keys.join('.'))).toEqual([
+      'kind',
+      'user',
+      'user.email',
+      'user.age',
+      'tags',
+      'score',
+    ]);
+    expect(paths[0]).toEqual({
+      keys: ['kind'],
+      accessor: `"payload"->>'kind'`,
+      jsonpath: '$.kind',
+      containment: `"payload" @> '{"kind":"click"}'`,
+      types: ['string'],
+      presence: 100,
+      indexes: [],
+    });
+    expect(paths[1]).toMatchObject({ accessor: `"payload"->'user'`, presence: 50 });
+    expect(paths[2]).toMatchObject({
+      accessor: `"payload"->'user'->>'email'`,
+      jsonpath: '$.user.email',
+      containment: `"payload" @> '{"user":{"email":"a@b.co"}}'`,
+      presence: 50,
+    });
+    expect(paths[3]).toMatchObject({
+      accessor: `("payload"->'user'->>'age')::numeric`,
+      presence: 25,
+    });
+    expect(paths[4].containment).toBeUndefined();
+  });
+
+  test('should flag GIN and expression indexes serving each path', () => {
+    const { paths, suggestedIndexes } = describeJsonbPaths(
+      events([
+        index({
+          name: 'events_payload_gin',
+          method: 'gin',
+          columns: ['payload'],
+          definition:
+            'CREATE INDEX events_payload_gin ON public.events USING gin (payload jsonb_path_ops)',
+        }),
+        index({ name: 'events_kind_idx', columns: [`(payload ->> 'kind'::text)`] }),
+        index({
+          name: 'events_user_gin',
+          method: 'gin',
+          columns: [`(payload -> 'user'::text)`],
+        }),
+        index({ name: 'events_other_idx', columns: [`(payload ->> 'other'::text)`] }),
+      ]),
+      column({ column_name: 'payload', data_type: 'jsonb' }),
+      analyzeJsonDocuments(samples)
+    );
+
+    expect(paths[0].indexes).toEqual([
+      {
+        name: 'events_payload_gin',
+        kind: 'containment',
+        usage: '@> containment, @? and @@ jsonpath',
+      },
+      { name: 'events_kind_idx', kind: 'expression', usage: 'equality, range and sort' },
+    ]);
+    expect(paths[2].indexes.map(served => served.name)).toEqual([
+      'events_payload_gin',
+      'events_user_gin',
+    ]);
+    // kind has an expression index; user.email is covered by GIN containment only
+    expect(suggestedIndexes).toEqual([
+      `CREATE INDEX "events_payload_user_email_idx" ON "public"."events" (("payload"->'user'->>'email'))`,
+    ]);
+  });
+
+  test('should describe the elements of array documents', () => {
+    const result = describeJsonbPaths(
+      events(),
+      column({ column_name: 'Lines', data_type: 'json' }),
+      analyzeJsonDocuments([[{ sku: 'a' }, { sku: 'b', qty: 2 }]]),
+      { minPresence: 0 }
+    );
+
+    expect(result.arrayElements).toBe(true);
+    expect(result.paths[0]).toEqual({
+      keys: ['sku'],
+      accessor: `json_array_elements("Lines")->>'sku'`,
+      jsonpath: '$[*].sku',
+      types: ['string'],
+      presence: 100,
+      indexes: [],
+    });
+    expect(result.suggestedIndexes).toEqual([]);
+  });
+
+  test('should format paths, indexes and suggestions', () => {
+    const lines = formatJsonbPaths({
+      schema: 'public',
+      table: 'events',
+      columns: [
+        describeJsonbPaths(
+          events([index({ name: 'events_kind_idx', columns: [`(payload ->> 'kind'::text)`] })]),
+          column({ column_name: 'payload', data_type: 'jsonb' }),
+          analyzeJsonDocuments([{ kind: 'click', n: 1 }])
+        ),
+      ],
+      duration: 3,
+    });
+
+    expect(lines).toEqual([
+      'public.events.payload (jsonb)',
+      '  kind: string, 100% present',
+      `    SQL: "payload"->>'kind'`,
+      '    jsonpath: $.kind',
+      `    Filter: "payload" @> '{"kind":"click"}'`,
+      '    Index: events_kind_idx (equality, range and sort)',
+      '  n: number, 100% present',
+      `    SQL: ("payload"->>'n')::numeric`,
+      '    jsonpath: $.n',
+      `    Filter: "payload" @> '{"n":1}'`,
+      '  Suggested indexes:',
+      `    CREATE INDEX "events_payload_n_idx" ON "public"."events" ((("payload"->>'n')::numeric));`,
+      '',
+    ]);
+  });
+});
@@ -40,11 +40,20 @@ describe('SqlAgentMcpServer', () => {
     test('should return all available tools', () => {
       const response = server.listTools();
 
-      expect(response.tools).toHaveLength(5);
+      expect(response.tools).toHaveLength(14);
       expect(response.tools.map(t => t.name)).toEqual([
         'sql_exec',
         'sql_file',
+        'sql_explain',
+        'sql_export',
+        'sql_import',
+        'sql_begin',
+        'sql_savepoint',
+        'sql_commit',
+        'sql_rollback',
         'sql_schema',
+        'sql_jsonb_paths',
+        'sql_generate_types',
         'sql_backup',
         'sql_health',
       ]);
@@ -61,6 +70,15 @@ describe('SqlAgentMcpServer', () => {
     });
   });
 
+  describe('read-only mode', () => {
+    test('should hide write tools', () => {
+      const readOnlyServer = new SqlAgentMcpServer(undefined, { readOnly: true });
+
+      expect(readOnlyServer.listTools().tools.map(t => t.name)).not.toContain('sql_file');
+      expect(McpToolHandler).toHaveBeenLastCalledWith(undefined, { readOnly: true });
+    });
+  });
+
   describe('handleRequest', () => {
     test('should handle initialize request', async () => {
       const request = {
@@ -91,7 +109,7 @@ describe('SqlAgentMcpServer', () => {
       const response = await server.handleRequest(request);
 
       expect(response).toHaveProperty('tools');
-      expect((response as any).tools).toHaveLength(5);
+      expect((response as any).tools).toHaveLength(14);
     });
 
     test('should handle tools/call request', async () => {
@@ -1,14 +1,28 @@
-import { SQL_AGENT_TOOLS, getToolDefinition, validateToolInput } from '../src/mcp/tool-definition';
+import {
+  SQL_AGENT_TOOLS,
+  getToolDefinition,
+  getAvailableTools,
+  validateToolInput,
+} from '../src/mcp/tool-definition';
 
 describe('MCP Tool Definition', () => {
   describe('SQL_AGENT_TOOLS', () => {
     test('should define all required tools', () => {
-      expect(SQL_AGENT_TOOLS).toHaveLength(5);
+      expect(SQL_AGENT_TOOLS).toHaveLength(14);
 
       const toolNames = SQL_AGENT_TOOLS.map(t => t.name);
       expect(toolNames).toContain('sql_exec');
       expect(toolNames).toContain('sql_file');
+      expect(toolNames).toContain('sql_explain');
+      expect(toolNames).toContain('sql_export');
+      expect(toolNames).toContain('sql_import');
+      expect(toolNames).toContain('sql_begin');
+      expect(toolNames).toContain('sql_savepoint');
+      expect(toolNames).toContain('sql_commit');
+      expect(toolNames).toContain('sql_rollback');
       expect(toolNames).toContain('sql_schema');
+      expect(toolNames).toContain('sql_jsonb_paths');
+      expect(toolNames).toContain('sql_generate_types');
       expect(toolNames).toContain('sql_backup');
       expect(toolNames).toContain('sql_health');
     });
@@ -44,6 +58,7 @@ describe('MCP Tool Definition', () => {
       expect(sqlSchema).toBeDefined();
       expect(sqlSchema!.inputSchema.properties).toHaveProperty('tables');
       expect(sqlSchema!.inputSchema.properties).toHaveProperty('allSchemas');
+      expect(sqlSchema!.inputSchema.properties).toHaveProperty('analyzeJsonb');
       expect(sqlSchema!.inputSchema.properties).toHaveProperty('json');
       expect(sqlSchema!.inputSchema.required).toBeUndefined();
     });
@@ -71,6 +86,30 @@ describe('MCP Tool Definition', () => {
     });
   });
 
+  describe('getAvailableTools', () => {
+    test('should return every tool by default', () => {
+      expect(getAvailableTools()).toEqual(SQL_AGENT_TOOLS);
+    });
+
+    test('should leave out write tools in read-only mode', () => {
+      const names = getAvailableTools(true).map(tool => tool.name);
+      expect(names).toEqual([
+        'sql_exec',
+        'sql_explain',
+        'sql_export',
+        'sql_begin',
+        'sql_savepoint',
+        'sql_commit',
+        'sql_rollback',
+        'sql_schema',
+        'sql_jsonb_paths',
+        'sql_generate_types',
+        'sql_backup',
+        'sql_health',
+      ]);
+    });
+  });
+
   describe('validateToolInput', () => {
     test('should validate valid sql_exec input', () => {
       const result = validateToolInput('sql_exec', {
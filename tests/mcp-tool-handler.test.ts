@@ -16,6 +16,7 @@ describeWithDb('McpToolHandler', () => {
     mockExecutor = {
       executeQuery: jest.fn(),
       executeFile: jest.fn(),
+      readSqlFile: jest.fn(() => 'CREATE TABLE t (id int)'),
       getSchema: jest.fn(),
       close: jest.fn(),
     } as any;
@@ -88,7 +89,9 @@ describeWithDb('McpToolHandler', () => {
       expect(mockExecutor.executeQuery).toHaveBeenCalledWith(
         'SELECT * FROM users',
         true,
-        undefined
+        undefined,
+        undefined,
+        { confirmed: false, dryRun: false }
       );
       expect(response.content[0].type).toBe('text');
 
@@ -164,14 +167,21 @@ describeWithDb('McpToolHandler', () => {
         rows: [],
         duration: 75,
       };
-      mockExecutor.executeFile.mockResolvedValue(mockResult);
+      mockExecutor.executeQuery.mockResolvedValue(mockResult);
 
       const response = await handler.handleToolCall({
         tool: 'sql_file',
         arguments: { filepath: '/path/to/file.sql' },
       });
 
-      expect(mockExecutor.executeFile).toHaveBeenCalledWith('/path/to/file.sql', true, undefined);
+      expect(mockExecutor.readSqlFile).toHaveBeenCalledWith('/path/to/file.sql');
+      expect(mockExecutor.executeQuery).toHaveBeenCalledWith(
+        'CREATE TABLE t (id int)',
+        true,
+        undefined,
+        undefined,
+        { confirmed: false, dryRun: false }
+      );
       expect(response.content[0].type).toBe('text');
 
       const result = JSON.parse(response.content[0].text!);
@@ -184,7 +194,9 @@ describeWithDb('McpToolHandler', () => {
     });
 
     test('should handle file errors', async () => {
-      mockExecutor.executeFile.mockRejectedValue(new Error('File not found: /bad/path.sql'));
+      mockExecutor.readSqlFile.mockImplementation(() => {
+        throw new Error('File not found: /bad/path.sql');
+      });
 
       const response = await handler.handleToolCall({
         tool: 'sql_file',
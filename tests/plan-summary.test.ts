@@ -0,0 +1,154 @@
+import { summarizePlan, formatPlanSummary, ExplainOutput } from '../src/core/plan-summary';
+
+describe('Plan summary', () => {
+  const estimated: ExplainOutput = {
+    Plan: {
+      'Node Type': 'Hash Join',
+      'Total Cost': 250,
+      'Plan Rows': 100,
+      Plans: [
+        {
+          'Node Type': 'Seq Scan',
+          'Relation Name': 'orders',
+          'Total Cost': 180,
+          'Plan Rows': 100,
+          Filter: "(status = 'open'::text)",
+        },
+        {
+          'Node Type': 'Hash',
+          'Total Cost': 20,
+          'Plan Rows': 50,
+          Plans: [
+            {
+              'Node Type': 'Index Scan',
+              'Relation Name': 'customers',
+              'Index Name': 'customers_pkey',
+              'Total Cost': 20,
+              'Plan Rows': 50,
+            },
+          ],
+        },
+      ],
+    },
+  };
+
+  const analyzed: ExplainOutput = {
+    Plan: {
+      'Node Type': 'Sort',
+      'Total Cost': 900,
+      'Plan Rows': 10,
+      'Actual Total Time': 120,
+      'Actual Rows': 5000,
+      'Actual Loops': 1,
+      'Sort Key': ['created_at'],
+      'Sort Method': 'external merge',
+      'Sort Space Used': 2048,
+      'Sort Space Type': 'Disk',
+      Plans: [
+        {
+          'Node Type': 'Seq Scan',
+          'Relation Name': 'events',
+          'Total Cost': 800,
+          'Plan Rows': 10,
+          'Actual Total Time': 40,
+          'Actual Rows': 5000,
+          'Actual Loops': 1,
+          'Rows Removed by Filter': 95000,
+        },
+      ],
+    },
+    'Planning Time': 0.5,
+    'Execution Time': 121.3,
+  };
+
+  test('should rank nodes by their own cost without ANALYZE', () => {
+    const summary = summarizePlan(estimated);
+
+    expect(summary).toMatchObject({ totalCost: 250, estimatedRows: 100 });
+    expect(summary.actualRows).toBeUndefined();
+    expect(summary.expensiveNodes.map(node => [node.nodeType, node.selfCost])).toEqual([
+      ['Seq Scan', 180],
+      ['Hash Join', 50],
+      ['Index Scan', 20],
+      ['Hash', 0],
+    ]);
+    expect(summary.expensiveNodes[2]).toMatchObject({
+      relation: 'customers',
+      index: 'customers_pkey',
+    });
+  });
+
+  test('should only report sequential scans of large tables', () => {
+    expect(summarizePlan(estimated, { tableRows: { orders: 500 } }).seqScans).toEqual([]);
+
+    const summary = summarizePlan(estimated, { tableRows: { orders: 2000000 } });
+    expect(summary.seqScans).toEqual([
+      { relation: 'orders', tableRows: 2000000, filter: "(status = 'open'::text)" },
+    ]);
+    expect(summary.findings).toEqual([
+      "Seq Scan on orders (~2000000 rows) filtering (status = 'open'::text): an index on the filtered columns may help",
+    ]);
+  });
+
+  test('should qualify relations with the schema VERBOSE reports', () => {
+    const scan = { 'Node Type': 'Seq Scan', 'Relation Name': 'orders', Schema: 'sales' };
+    const summary = summarizePlan(
+      { Plan: { ...scan, 'Total Cost': 100 } },
+      { tableRows: { 'sales.orders': 2000000 } }
+    );
+    expect(summary.seqScans).toEqual([{ relation: 'sales.orders', tableRows: 2000000 }]);
+  });
+
+  test('should report misestimates, sort spills and timings with ANALYZE', () => {
+    const summary = summarizePlan(analyzed);
+
+    expect(summary).toMatchObject({
+      actualRows: 5000,
+      planningTimeMs: 0.5,
+      executionTimeMs: 121.3,
+    });
+    expect(summary.expensiveNodes.map(node => [node.nodeType, node.selfTimeMs])).toEqual([
+      ['Sort', 80],
+      ['Seq Scan', 40],
+    ]);
+    expect(summary.misestimates).toEqual([
+      { nodeType: 'Sort', estimatedRows: 10, actualRows: 5000, factor: 500 },
+      {
+        nodeType: 'Seq Scan',
+        relation: 'events',
+        estimatedRows: 10,
+        actualRows: 5000,
+        factor: 500,
+      },
+    ]);
+    expect(summary.sortSpills).toEqual([
+      { sortKey: ['created_at'], method: 'external merge', spaceUsedKb: 2048 },
+    ]);
+    expect(summary.findings).toContain(
+      'Sort by created_at spilled to disk (2048 kB): raise work_mem or sort fewer rows'
+    );
+  });
+
+  test('should ignore nodes that never ran when looking for misestimates', () => {
+    const summary = summarizePlan({
+      Plan: {
+        'Node Type': 'Seq Scan',
+        'Relation Name': 'events',
+        'Plan Rows': 1000,
+        'Actual Rows': 0,
+        'Actual Loops': 0,
+      },
+    });
+
+    expect(summary.misestimates).toEqual([]);
+  });
+
+  test('should format a summary as text', () => {
+    const text = formatPlanSummary(summarizePlan(analyzed));
+
+    expect(text).toContain('Total cost: 900, estimated rows: 10, actual rows: 5000');
+    expect(text).toContain('Planning: 0.5ms, execution: 121.3ms');
+    expect(text).toContain('  - Seq Scan on events: 40ms, rows 5000 x 1 (est. 10)');
+    expect(text).toContain('Findings:');
+  });
+});
@@ -0,0 +1,95 @@
+import { mkdtempSync, readFileSync, existsSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { resolveExportFormat, writeExport } from '../src/core/query-export';
+
+async function* generate(
+  rows: Record<string, unknown>[],
+  failAfter?: number
+): AsyncGenerator<Record<string, unknown>> {
+  for (const [index, row] of rows.entries()) {
+    if (index === failAfter) {
+      throw new Error('connection lost');
+    }
+    yield row;
+  }
+}
+
+describe('query export', () => {
+  const rows = [
+    { id: 1, name: 'Alice, "Al"', data: Buffer.from([0xbe, 0xef]), meta: { tags: ['a'] } },
+    { id: 2, name: null, data: null, meta: null },
+  ];
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'sequelae-export-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should write CSV and report rows and bytes', async () => {
+    const file = join(dir, 'out.csv');
+    const result = await writeExport(generate(rows), file, 'csv');
+
+    const content = readFileSync(file, 'utf8');
+    expect(content).toBe(
+      'id,name,data,meta\n1,"Alice, ""Al""",\\xbeef,"{""tags"":[""a""]}"\n2,,,\n'
+    );
+    expect(result).toEqual({ rowCount: 2, bytes: Buffer.byteLength(content) });
+  });
+
+  test('should write NDJSON and a JSON array', async () => {
+    await writeExport(generate(rows), join(dir, 'out.ndjson'), 'ndjson');
+    await writeExport(generate(rows), join(dir, 'out.json'), 'json');
+
+    const lines = readFileSync(join(dir, 'out.ndjson'), 'utf8').trim().split('\n');
+    expect(lines.map(line => JSON.parse(line))).toEqual([
+      { id: 1, name: 'Alice, "Al"', data: '\\xbeef', meta: { tags: ['a'] } },
+      { id: 2, name: null, data: null, meta: null },
+    ]);
+    expect(JSON.parse(readFileSync(join(dir, 'out.json'), 'utf8'))).toHaveLength(2);
+  });
+
+  test('should write one array per column in columnar format', async () => {
+    const file = join(dir, 'out.json');
+    const result = await writeExport(generate(rows), file, 'columnar');
+
+    expect(JSON.parse(readFileSync(file, 'utf8'))).toEqual({
+      columns: ['id', 'name', 'data', 'meta'],
+      rowCount: 2,
+      data: {
+        id: [1, 2],
+        name: ['Alice, "Al"', null],
+        data: ['\\xbeef', null],
+        meta: [{ tags: ['a'] }, null],
+      },
+    });
+    expect(result.rowCount).toBe(2);
+  });
+
+  test('should write an empty columnar document without rows', async () => {
+    const file = join(dir, 'empty.json');
+    await writeExport(generate([]), file, 'columnar');
+    expect(JSON.parse(readFileSync(file, 'utf8'))).toEqual({ columns: [], rowCount: 0, data: {} });
+  });
+
+  test('should remove the file when the rows fail mid-way', async () => {
+    const file = join(dir, 'out.csv');
+    await expect(writeExport(generate(rows, 1), file, 'csv')).rejects.toThrow('connection lost');
+    expect(existsSync(file)).toBe(false);
+  });
+
+  test('should pick the format from the extension unless one is given', () => {
+    expect(resolveExportFormat('/tmp/a.NDJSON')).toBe('ndjson');
+    expect(resolveExportFormat('/tmp/a.jsonl')).toBe('ndjson');
+    expect(resolveExportFormat('/tmp/a.json')).toBe('json');
+    expect(resolveExportFormat('/tmp/a.txt')).toBe('csv');
+    expect(resolveExportFormat('/tmp/a.json', 'columnar')).toBe('columnar');
+    expect(() => resolveExportFormat('/tmp/a.csv', 'parquet')).toThrow(
+      expect.objectContaining({ code: 'INVALID_EXPORT_FORMAT' })
+    );
+  });
+});
@@ -0,0 +1,87 @@
+import { prepareQuery } from '../src/core/query-params';
+import { SqlAgentError } from '../src/core/errors';
+
+describe('prepareQuery', () => {
+  test('should pass SQL through untouched without params', () => {
+    expect(prepareQuery('SELECT 1')).toEqual({ text: 'SELECT 1' });
+  });
+
+  describe('positional parameters', () => {
+    test('should pass values through as bind values', () => {
+      expect(prepareQuery('SELECT * FROM users WHERE id = $1 AND name = $2', [1, 'a'])).toEqual({
+        text: 'SELECT * FROM users WHERE id = $1 AND name = $2',
+        values: [1, 'a'],
+      });
+    });
+
+    test('should count reused placeholders once', () => {
+      expect(prepareQuery('SELECT $1, $1, $2', ['a', 'b']).values).toEqual(['a', 'b']);
+    });
+
+    test('should reject too few values', () => {
+      expect(() => prepareQuery('SELECT $1, $2', [1])).toThrow(
+        'Query expects 2 parameter(s) but 1 were provided'
+      );
+    });
+
+    test('should reject too many values', () => {
+      expect(() => prepareQuery('SELECT 1', [1])).toThrow(
+        'Query expects 0 parameter(s) but 1 were provided'
+      );
+    });
+
+    test('should ignore placeholders inside strings and comments', () => {
+      expect(() => prepareQuery("SELECT '$2' -- $3\n, $1", ['x'])).not.toThrow();
+    });
+
+    test('should reject named placeholders with an array', () => {
+      expect(() => prepareQuery('SELECT :id', [1])).toThrow(SqlAgentError);
+    });
+  });
+
+  describe('named parameters', () => {
+    test('should rewrite named placeholders to positional ones', () => {
+      expect(
+        prepareQuery('SELECT * FROM users WHERE email = :email AND id = :id', {
+          email: 'a@b.co',
+          id: 7,
+        })
+      ).toEqual({
+        text: 'SELECT * FROM users WHERE email = $1 AND id = $2',
+        values: ['a@b.co', 7],
+      });
+    });
+
+    test('should reuse the same index for repeated names', () => {
+      expect(prepareQuery('SELECT :a, :b, :a', { a: 1, b: 2 })).toEqual({
+        text: 'SELECT $1, $2, $1',
+        values: [1, 2],
+      });
+    });
+
+    test('should leave casts and quoted text alone', () => {
+      expect(prepareQuery('SELECT :v::text, \':v\', "col:v"', { v: 'x' })).toEqual({
+        text: 'SELECT $1::text, \':v\', "col:v"',
+        values: ['x'],
+      });
+    });
+
+    test('should reject missing values', () => {
+      expect(() => prepareQuery('SELECT :a, :b', { a: 1 })).toThrow(
+        'Missing value for named parameter :b'
+      );
+    });
+
+    test('should reject unused values', () => {
+      expect(() => prepareQuery('SELECT :a', { a: 1, b: 2 })).toThrow(
+        'Named parameter(s) not used in query: :b'
+      );
+    });
+
+    test('should reject positional placeholders with an object', () => {
+      expect(() => prepareQuery('SELECT $1', { a: 1 })).toThrow(
+        expect.objectContaining({ name: 'SqlAgentError', code: 'INVALID_PARAMS' })
+      );
+    });
+  });
+});
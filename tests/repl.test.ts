@@ -0,0 +1,223 @@
+import { mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { PassThrough } from 'stream';
+import { SqlRepl } from '../src/repl';
+import { SqlExecutor } from '../src/core/sql-executor';
+
+describe('SqlRepl', () => {
+  const client = { query: jest.fn().mockResolvedValue({}), release: jest.fn() };
+  const users = {
+    schema: 'public',
+    name: 'users',
+    columns: [
+      {
+        column_name: 'id',
+        data_type: 'integer',
+        is_nullable: 'NO',
+        column_default: null,
+        character_maximum_length: null,
+      },
+      {
+        column_name: 'email',
+        data_type: 'character varying',
+        is_nullable: 'YES',
+        column_default: null,
+        character_maximum_length: 255,
+      },
+    ],
+    constraints: [
+      { constraint_type: 'PRIMARY KEY', constraint_name: 'users_pkey', column_name: 'id' },
+    ],
+  };
+  let executor: jest.Mocked<SqlExecutor>;
+  let output: PassThrough;
+  let dir: string;
+
+  const printed = (): string => output.read()?.toString() ?? '';
+
+  // Let the shell run until it has made `count` calls of `mock`
+  const callsOf = async (mock: jest.MockInstance<unknown, any[]>, count: number): Promise<void> => {
+    while (mock.mock.calls.length < count) {
+      await new Promise(resolvePromise => setImmediate(resolvePromise));
+    }
+    await new Promise(resolvePromise => setImmediate(resolvePromise));
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    executor = {
+      executeQuery: jest.fn().mockResolvedValue({
+        command: 'SELECT',
+        rowCount: 1,
+        rows: [{ id: 1, email: 'a@b.co' }],
+        duration: 3,
+      }),
+      getSchema: jest.fn().mockResolvedValue({ tables: [users] }),
+      previewImpact: jest.fn(),
+      poolManagerInstance: { getClient: jest.fn().mockResolvedValue(client) },
+      readOnly: false,
+      sqlPolicy: undefined,
+    } as any;
+    output = new PassThrough();
+    dir = mkdtempSync(join(tmpdir(), 'sequelae-repl-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const createRepl = (): SqlRepl =>
+    new SqlRepl(executor, { output, historyFile: join(dir, 'history') });
+
+  test('should collect lines until the statement ends with a semicolon', async () => {
+    const repl = createRepl();
+
+    await repl.handleLine('SELECT id, email');
+    expect(executor.executeQuery).not.toHaveBeenCalled();
+    await repl.handleLine('FROM users;');
+
+    expect(executor.executeQuery).toHaveBeenCalledWith(
+      'SELECT id, email\nFROM users;',
+      false,
+      undefined,
+      undefined,
+      { confirmed: false, pinnedClient: undefined }
+    );
+    const text = printed();
+    expect(text).toContain('id | email');
+    expect(text).toContain('1  | a@b.co');
+    expect(text).toContain('SELECT (1 rows)');
+    expect(readFileSync(join(dir, 'history'), 'utf8')).toBe('SELECT id, email FROM users;\n');
+  });
+
+  test('should keep the history private and trimmed to its last 1000 entries', async () => {
+    const historyFile = join(dir, 'history');
+    const old = Array.from({ length: 1000 }, (_, i) => `SELECT ${i};`);
+    writeFileSync(historyFile, `${old.join('\n')}\n`, { mode: 0o644 });
+
+    await createRepl().handleLine('SELECT 1000;');
+
+    const entries = readFileSync(historyFile, 'utf8').split('\n').filter(Boolean);
+    expect(entries).toHaveLength(1000);
+    expect(entries[0]).toBe('SELECT 1;');
+    expect(entries[999]).toBe('SELECT 1000;');
+    expect(statSync(historyFile).mode & 0o777).toBe(0o600);
+  });
+
+  test('should toggle timing and expanded output', async () => {
+    const repl = createRepl();
+
+    await repl.handleLine('\\timing');
+    await repl.handleLine('\\x');
+    await repl.handleLine('SELECT * FROM users;');
+
+    const text = printed();
+    expect(text).toContain('Timing is on.');
+    expect(text).toContain('Expanded display is on.');
+    expect(text).toContain('-[ RECORD 1 ]');
+    expect(text).toContain('email | a@b.co');
+    expect(text).toContain('Time: 3ms');
+  });
+
+  test('should describe and list tables', async () => {
+    const repl = createRepl();
+
+    await repl.handleLine('\\d users');
+    expect(executor.getSchema).toHaveBeenCalledWith(['users'], false, undefined);
+    let text = printed();
+    expect(text).toContain('Table "public.users"');
+    expect(text).toContain('email  | character varying(255) | yes');
+    expect(text).toContain('PRIMARY KEY users_pkey (id)');
+
+    await repl.handleLine('\\dt');
+    text = printed();
+    expect(text).toContain('public | users | 2');
+  });
+
+  test('should print errors and keep going', async () => {
+    executor.executeQuery.mockRejectedValue(new Error('relation "nope" does not exist'));
+    const repl = createRepl();
+
+    expect(await repl.handleLine('SELECT * FROM nope;')).toBe(true);
+    expect(printed()).toContain('Error: relation "nope" does not exist');
+  });
+
+  test('should quit on \\q, exit and quit', async () => {
+    const repl = createRepl();
+    expect(await repl.handleLine('\\q')).toBe(false);
+    expect(await repl.handleLine('exit')).toBe(false);
+    expect(await repl.handleLine('quit')).toBe(false);
+  });
+
+  test('should complete table, column and meta-command names', async () => {
+    const repl = createRepl();
+    await repl.handleLine('\\dt');
+
+    expect(repl.complete('SELECT em')).toEqual([['email'], 'em']);
+    expect(repl.complete('SELECT * FROM us')).toEqual([['users'], 'us']);
+    expect(repl.complete('SELECT * FROM public.u')).toEqual([['public.users'], 'public.u']);
+    expect(repl.complete('\\ti')).toEqual([['\\timing'], '\\ti']);
+  });
+
+  test('should run statements on one pinned client until input ends', async () => {
+    const input = new PassThrough();
+    const repl = new SqlRepl(executor, { input, output, historyFile: join(dir, 'history') });
+
+    const running = repl.start();
+    input.end('SELECT 1;\nSELECT 2;\n');
+    await running;
+
+    expect(executor.poolManagerInstance.getClient).toHaveBeenCalledTimes(1);
+    expect(executor.executeQuery).toHaveBeenCalledTimes(2);
+    expect(executor.executeQuery).toHaveBeenLastCalledWith(
+      'SELECT 2;',
+      false,
+      undefined,
+      undefined,
+      {
+        confirmed: false,
+        pinnedClient: client,
+      }
+    );
+    expect(client.release).toHaveBeenCalledTimes(1);
+    expect(executor.getSchema).toHaveBeenCalledWith(undefined, false, client);
+  });
+
+  test('should preview on the pinned client, inside the transaction the user opened', async () => {
+    executor.previewImpact.mockResolvedValue({ statements: [] });
+    const input = new PassThrough();
+    const repl = new SqlRepl(executor, { input, output, historyFile: join(dir, 'history') });
+    const running = repl.start();
+
+    // Outside a transaction the preview gets one of its own
+    input.write('DELETE FROM users;\n');
+    await callsOf(executor.previewImpact, 1);
+    input.write('y\n');
+    await callsOf(executor.executeQuery, 1);
+    expect(executor.previewImpact).toHaveBeenLastCalledWith(
+      'DELETE FROM users;',
+      undefined,
+      expect.any(Array),
+      client
+    );
+    expect(client.query.mock.calls).toEqual([['BEGIN'], ['ROLLBACK']]);
+
+    input.write('BEGIN;\n');
+    await callsOf(executor.executeQuery, 2);
+    input.write('DELETE FROM users;\n');
+    await callsOf(executor.previewImpact, 2);
+    input.end('y\n');
+    await running;
+
+    expect(executor.previewImpact).toHaveBeenLastCalledWith(
+      'DELETE FROM users;',
+      undefined,
+      expect.any(Array),
+      client
+    );
+    expect(client.query).toHaveBeenCalledTimes(2);
+    expect(executor.executeQuery).toHaveBeenCalledTimes(3);
+    expect(executor.poolManagerInstance.getClient).toHaveBeenCalledTimes(1);
+  });
+});
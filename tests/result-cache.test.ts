@@ -0,0 +1,48 @@
+import { ResultCache, encodeCursor } from '../src/mcp/result-cache';
+
+describe('ResultCache', () => {
+  const result = { command: 'SELECT', rowCount: 3, rows: [{ id: 1 }, { id: 2 }, { id: 3 }] };
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should resolve a cursor to the stored result and offset', () => {
+    const cache = new ResultCache();
+    const handle = cache.store('SELECT id FROM t', result);
+
+    expect(cache.resolve(encodeCursor(handle, 2), 'SELECT id FROM t')).toEqual({
+      handle,
+      result,
+      offset: 2,
+    });
+  });
+
+  test('should reject malformed cursors and cursors for another query', () => {
+    const cache = new ResultCache();
+    const handle = cache.store('SELECT id FROM t', result);
+
+    expect(cache.resolve('not-a-cursor', 'SELECT id FROM t')).toBeUndefined();
+    expect(cache.resolve(encodeCursor(handle, -1), 'SELECT id FROM t')).toBeUndefined();
+    expect(cache.resolve(encodeCursor(handle, 1), 'SELECT id FROM u')).toBeUndefined();
+  });
+
+  test('should expire results after the TTL', () => {
+    jest.useFakeTimers();
+    const cache = new ResultCache(1000);
+    const handle = cache.store('SELECT id FROM t', result);
+
+    jest.advanceTimersByTime(1000);
+    expect(cache.resolve(encodeCursor(handle, 1), 'SELECT id FROM t')).toBeUndefined();
+  });
+
+  test('should evict the oldest results beyond maxEntries', () => {
+    const cache = new ResultCache(60000, 2);
+    const first = cache.store('a', result);
+    const second = cache.store('b', result);
+    cache.store('c', result);
+
+    expect(cache.resolve(encodeCursor(first, 1), 'a')).toBeUndefined();
+    expect(cache.resolve(encodeCursor(second, 1), 'b')).toBeDefined();
+  });
+});
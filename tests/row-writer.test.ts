@@ -0,0 +1,114 @@
+import {
+  createRowWriter,
+  csvField,
+  formatRows,
+  markdownCell,
+  RowFormat,
+  tsvField,
+} from '../src/utils/row-writer';
+
+describe('Row writer', () => {
+  const writeRows = (
+    format: RowFormat,
+    rows: Record<string, unknown>[],
+    chunkSize?: number
+  ): { lines: string[]; count: number } => {
+    const lines: string[] = [];
+    const writer = createRowWriter(format, line => lines.push(line), chunkSize);
+    rows.forEach(row => writer.write(row));
+    return { lines, count: writer.end() };
+  };
+
+  test('should write CSV with a header and quoted fields', () => {
+    const { lines, count } = writeRows('csv', [
+      { id: 1, note: 'plain', tags: ['a', 'b'] },
+      { id: 2, note: 'says "hi", twice', tags: null },
+    ]);
+
+    expect(lines).toEqual(['id,note,tags', '1,plain,"[""a"",""b""]"', '2,"says ""hi"", twice",']);
+    expect(count).toBe(2);
+  });
+
+  test('should write one JSON document per line', () => {
+    const { lines } = writeRows('ndjson', [{ id: 1 }, { id: 2, data: { a: 1 } }]);
+    expect(lines).toEqual(['{"id":1}', '{"id":2,"data":{"a":1}}']);
+  });
+
+  test('should align table columns using the first chunk', () => {
+    const { lines, count } = writeRows(
+      'table',
+      [
+        { id: 1, name: 'alice' },
+        { id: 22, name: 'bob' },
+        { id: 333, name: 'carol' },
+      ],
+      2
+    );
+
+    expect(lines).toEqual(['id | name', '---+------', '1  | alice', '22 | bob', '333 | carol']);
+    expect(count).toBe(3);
+  });
+
+  test('should write nothing for an empty result', () => {
+    expect(writeRows('table', [])).toEqual({ lines: [], count: 0 });
+    expect(writeRows('csv', [])).toEqual({ lines: [], count: 0 });
+  });
+
+  test('should format dates and binary values', () => {
+    expect(csvField(new Date('2024-01-02T03:04:05.000Z'))).toBe('2024-01-02T03:04:05.000Z');
+    expect(csvField(Buffer.from([0xde, 0xad]))).toBe('\\xdead');
+  });
+
+  test('should escape tabs, line breaks and backslashes in TSV', () => {
+    const { lines } = writeRows('tsv', [{ id: 1, note: 'a\tb\nc\\d', missing: null }]);
+    expect(lines).toEqual(['id\tnote\tmissing', '1\ta\\tb\\nc\\\\d\t']);
+    expect(tsvField({ a: 1 })).toBe('{"a":1}');
+  });
+
+  test('should write a Markdown table with escaped cells', () => {
+    const { lines } = writeRows('markdown', [{ id: 1, note: 'a | b\nc' }]);
+    expect(lines).toEqual(['| id | note |', '| --- | --- |', '| 1 | a \\| b<br>c |']);
+    expect(markdownCell(null)).toBe('');
+  });
+
+  test('should write a JSON array with bytea as hex', () => {
+    const rows = [
+      { id: 1, data: Buffer.from([0x01]), at: new Date('2024-01-02T03:04:05.000Z') },
+      { id: 2, data: null, at: null },
+    ];
+    const { lines, count } = writeRows('json', rows);
+
+    expect(JSON.parse(lines.join('\n'))).toEqual([
+      { id: 1, data: '\\x01', at: '2024-01-02T03:04:05.000Z' },
+      { id: 2, data: null, at: null },
+    ]);
+    expect(lines[0]).toBe('[');
+    expect(count).toBe(2);
+    expect(writeRows('json', []).lines).toEqual(['[]']);
+  });
+
+  test('should write one record per block in vertical format', () => {
+    const { lines } = writeRows('vertical', [
+      { id: 1, name: 'alice' },
+      { id: 2, name: null },
+    ]);
+    expect(lines).toEqual([
+      '-[ RECORD 1 ]----',
+      'id   | 1',
+      'name | alice',
+      '-[ RECORD 2 ]----',
+      'id   | 2',
+      'name | ',
+    ]);
+  });
+
+  test('should format a complete result with aligned table columns', () => {
+    expect(
+      formatRows('table', [
+        { id: 1, name: 'a' },
+        { id: 100, name: 'b' },
+      ])
+    ).toBe('id  | name\n----+-----\n1   | a\n100 | b');
+    expect(formatRows('csv', [])).toBe('');
+  });
+});
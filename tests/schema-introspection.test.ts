@@ -0,0 +1,309 @@
+import {
+  buildSchemaQuery,
+  formatColumnMatches,
+  formatColumn,
+  formatTableDetails,
+  formatViewsAndEnums,
+  parseSchemaRows,
+  suggestRelations,
+} from '../src/core/schema-introspection';
+import { column } from './test-utils';
+
+describe('schema introspection', () => {
+  describe('parseSchemaRows', () => {
+    test('should parse tables with their indexes, foreign keys and checks', () => {
+      const details = {
+        comment: 'Customer orders',
+        indexes: [
+          {
+            name: 'orders_pkey',
+            columns: ['id'],
+            definition: 'CREATE UNIQUE INDEX orders_pkey ON public.orders USING btree (id)',
+            unique: true,
+            primary: true,
+            method: 'btree',
+            predicate: null,
+          },
+        ],
+        foreignKeys: [
+          {
+            name: 'orders_customer_fkey',
+            columns: ['customer_id', 'region'],
+            referencedSchema: 'public',
+            referencedTable: 'customers',
+            referencedColumns: ['id', 'region'],
+            onDelete: 'CASCADE',
+            onUpdate: 'NO ACTION',
+          },
+        ],
+        checks: [{ name: 'orders_total_check', expression: 'total >= 0' }],
+      };
+
+      const result = parseSchemaRows([
+        {
+          type: 'found',
+          table_schema: 'public',
+          table_name: 'orders',
+          columns: JSON.stringify([column({})]),
+          constraints: '[]',
+          details: JSON.stringify(details),
+        },
+      ]);
+
+      expect(result).toEqual({
+        tables: [
+          {
+            schema: 'public',
+            name: 'orders',
+            columns: [column({})],
+            constraints: [],
+            ...details,
+          },
+        ],
+      });
+    });
+
+    test('should parse views, enum types and missing tables', () => {
+      const result = parseSchemaRows([
+        {
+          type: 'enum',
+          table_schema: 'public',
+          table_name: 'mood',
+          details: JSON.stringify({ values: ['sad', 'ok', 'happy'] }),
+        },
+        {
+          type: 'missing',
+          missing_table: 'ordrs',
+          suggestions: JSON.stringify({
+            relations: [
+              { schema: 'public', name: 'order_items' },
+              { schema: 'public', name: 'users' },
+              { schema: 'public', name: 'orders' },
+            ],
+            columns: null,
+          }),
+        },
+        {
+          type: 'view',
+          table_schema: 'reporting',
+          table_name: 'daily_totals',
+          columns: JSON.stringify([column({ column_name: 'day', data_type: 'date' })]),
+          constraints: '[]',
+          details: JSON.stringify({ materialized: true, definition: ' SELECT ...', comment: null }),
+        },
+      ]);
+
+      expect(result.tables).toEqual([]);
+      expect(result.enums).toEqual([
+        { schema: 'public', name: 'mood', values: ['sad', 'ok', 'happy'] },
+      ]);
+      expect(result.missingTables).toEqual([
+        { table_name: 'ordrs', suggestions: ['orders', 'order_items'] },
+      ]);
+      expect(result.views).toEqual([
+        {
+          schema: 'reporting',
+          name: 'daily_totals',
+          materialized: true,
+          definition: ' SELECT ...',
+          columns: [column({ column_name: 'day', data_type: 'date' })],
+        },
+      ]);
+    });
+
+    test('should default the details of rows without them', () => {
+      const result = parseSchemaRows([
+        {
+          type: 'found',
+          table_schema: 'public',
+          table_name: 'users',
+          columns: '[]',
+          constraints: '[]',
+        },
+      ]);
+
+      expect(result.tables[0]).toEqual({
+        schema: 'public',
+        name: 'users',
+        columns: [],
+        constraints: [],
+        indexes: [],
+        foreignKeys: [],
+        checks: [],
+      });
+    });
+  });
+
+  describe('suggestRelations', () => {
+    const relations = [
+      { schema: 'public', name: 'users' },
+      { schema: 'public', name: 'user_roles' },
+      { schema: 'public', name: 'posts' },
+      { schema: 'billing', name: 'invoices' },
+      { schema: 'billing', name: 'Payments' },
+      { schema: 'archive', name: 'invoices' },
+    ];
+
+    test('should rank names by edit distance across schemas', () => {
+      expect(suggestRelations('userz', relations)).toEqual(['users', 'user_roles']);
+      expect(suggestRelations('invoice', relations)).toEqual([
+        'archive.invoices',
+        'billing.invoices',
+      ]);
+      expect(suggestRelations('PAYMENT', relations)).toEqual(['billing.Payments']);
+      expect(suggestRelations('comments', relations)).toEqual([]);
+    });
+
+    test('should prefer relations in the requested schema', () => {
+      expect(suggestRelations('billing.invoice', relations)).toEqual([
+        'billing.invoices',
+        'archive.invoices',
+      ]);
+    });
+  });
+
+  describe('buildSchemaQuery', () => {
+    test('should bind requested table names as a single array parameter', () => {
+      const query = buildSchemaQuery(['users', 'audit.events', "x'; DROP TABLE users; --"], false);
+
+      expect(query.values).toEqual([['users', 'audit.events', "x'; DROP TABLE users; --"]]);
+      expect(query.text).toContain('unnest($1::text[])');
+      expect(query.text).not.toContain('DROP TABLE');
+      expect(query.text).toContain('missing_tables');
+    });
+
+    test('should match requested names ignoring case', () => {
+      const { text } = buildSchemaQuery(['Billing.Invoices'], false);
+
+      expect(text).toContain('lower(t.table_name) = rt.table_name');
+      expect(text).toContain('lower(t.table_schema) = rt.table_schema');
+    });
+
+    test('should list every table in scope without parameters', () => {
+      const query = buildSchemaQuery(undefined, true);
+
+      expect(query.values).toEqual([]);
+      expect(query.text).not.toContain('$1');
+      expect(query.text).not.toContain('missing_tables');
+      expect(query.text).toContain("NOT IN ('pg_catalog', 'information_schema')");
+    });
+  });
+
+  describe('formatting', () => {
+    test('should describe identity, generated and commented columns', () => {
+      expect(formatColumn(column({ is_identity: 'YES', identity_generation: 'BY DEFAULT' }))).toBe(
+        '    - id: integer GENERATED BY DEFAULT AS IDENTITY'
+      );
+      expect(
+        formatColumn(
+          column({
+            column_name: 'total',
+            data_type: 'numeric',
+            is_generated: 'ALWAYS',
+            generation_expression: '(price * quantity)',
+          })
+        )
+      ).toBe('    - total: numeric GENERATED ALWAYS AS ((price * quantity)) STORED');
+      expect(
+        formatColumn(
+          column({
+            column_name: 'name',
+            data_type: 'character varying',
+            character_maximum_length: 100,
+            is_nullable: 'YES',
+            column_default: "'anonymous'::character varying",
+            comment: 'Display name',
+          })
+        )
+      ).toBe(
+        "    - name: character varying(100) (nullable) DEFAULT 'anonymous'::character varying -- Display name"
+      );
+    });
+
+    test('should list indexes, foreign keys and checks', () => {
+      const lines = formatTableDetails({
+        schema: 'public',
+        name: 'orders',
+        columns: [],
+        constraints: [],
+        indexes: [
+          {
+            name: 'orders_open_idx',
+            columns: ['lower(status)'],
+            definition: '',
+            unique: false,
+            primary: false,
+            method: 'btree',
+            predicate: 'closed_at IS NULL',
+          },
+          {
+            name: 'orders_pkey',
+            columns: ['id'],
+            definition: '',
+            unique: true,
+            primary: true,
+            method: 'btree',
+            predicate: null,
+          },
+        ],
+        foreignKeys: [
+          {
+            name: 'orders_customer_fkey',
+            columns: ['customer_id'],
+            referencedSchema: 'crm',
+            referencedTable: 'customers',
+            referencedColumns: ['id'],
+            onDelete: 'SET NULL',
+            onUpdate: 'NO ACTION',
+          },
+        ],
+        checks: [{ name: 'orders_total_check', expression: 'total >= 0' }],
+      });
+
+      expect(lines).toEqual([
+        '  Indexes:',
+        '    - orders_open_idx: btree (lower(status)) WHERE closed_at IS NULL',
+        '    - orders_pkey: PRIMARY KEY btree (id)',
+        '  Foreign keys:',
+        '    - orders_customer_fkey: (customer_id) -> crm.customers (id) ON DELETE SET NULL',
+        '  Checks:',
+        '    - orders_total_check: total >= 0',
+      ]);
+    });
+
+    test('should qualify column matches outside the public schema', () => {
+      expect(
+        formatColumnMatches([
+          { schema: 'public', table: 'users', column: 'email' },
+          { schema: 'crm', table: 'contacts', column: 'Email' },
+        ])
+      ).toBe('users.email, crm.contacts.Email');
+    });
+
+    test('should list views and enum types', () => {
+      const lines = formatViewsAndEnums({
+        tables: [],
+        views: [
+          {
+            schema: 'public',
+            name: 'active_users',
+            materialized: false,
+            definition: '',
+            columns: [column({})],
+          },
+        ],
+        enums: [{ schema: 'public', name: 'mood', values: ['sad', 'happy'] }],
+      });
+
+      expect(lines).toEqual([
+        '👁  public.active_users (view)',
+        '  Columns:',
+        '    - id: integer',
+        '',
+        '🏷  ENUM TYPES:',
+        '  - public.mood: sad | happy',
+        '',
+      ]);
+    });
+  });
+});
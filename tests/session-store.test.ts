@@ -0,0 +1,104 @@
+import { PoolClient } from 'pg';
+import { SessionStore } from '../src/mcp/session-store';
+
+describe('SessionStore', () => {
+  const client = {} as PoolClient;
+  const begin = (): Promise<PoolClient> => Promise.resolve(client);
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should run calls on an open session until it is closed', async () => {
+    const store = new SessionStore(jest.fn());
+    const session = await store.open(begin, 'default');
+
+    await expect(store.use(session.id, async s => s.client)).resolves.toBe(client);
+    await expect(store.close(session.id, async () => 'closed')).resolves.toBe('closed');
+    await expect(store.use(session.id, async () => undefined)).rejects.toMatchObject({
+      code: 'INVALID_SESSION',
+    });
+  });
+
+  test('should remember the connection a session was started on', async () => {
+    const store = new SessionStore(jest.fn());
+    const session = await store.open(begin, 'staging');
+
+    expect(session.connection).toBe('staging');
+    expect(store.connectionOf(session.id)).toBe('staging');
+    await store.close(session.id, async () => undefined);
+    expect(store.connectionOf(session.id)).toBeUndefined();
+  });
+
+  test('should run calls on a session one at a time', async () => {
+    const store = new SessionStore(jest.fn());
+    const session = await store.open(begin, 'default');
+    const order: string[] = [];
+    let finishFirst: () => void = () => undefined;
+
+    const first = store.use(session.id, async () => {
+      order.push('first started');
+      await new Promise<void>(resolve => (finishFirst = resolve));
+      order.push('first done');
+    });
+    const second = store.use(session.id, async () => {
+      order.push('second started');
+    });
+    await Promise.resolve();
+    finishFirst();
+    await Promise.all([first, second]);
+
+    expect(order).toEqual(['first started', 'first done', 'second started']);
+  });
+
+  test('should refuse calls queued behind the call that closed the session', async () => {
+    const store = new SessionStore(jest.fn());
+    const session = await store.open(begin, 'default');
+
+    const closing = store.close(session.id, async () => undefined);
+    const queued = store.use(session.id, async () => 'ran');
+
+    await closing;
+    await expect(queued).rejects.toMatchObject({ code: 'INVALID_SESSION' });
+  });
+
+  test('should hand idle sessions to onExpire', async () => {
+    jest.useFakeTimers();
+    const onExpire = jest.fn().mockResolvedValue(undefined);
+    const store = new SessionStore(onExpire, 1000);
+    const session = await store.open(begin, 'default');
+
+    jest.advanceTimersByTime(999);
+    await store.use(session.id, async () => undefined);
+    jest.advanceTimersByTime(999);
+    expect(onExpire).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1);
+    expect(onExpire).toHaveBeenCalledWith(expect.objectContaining({ id: session.id, client }));
+    await expect(store.use(session.id, async () => undefined)).rejects.toMatchObject({
+      code: 'INVALID_SESSION',
+    });
+  });
+
+  test('should limit the number of open sessions', async () => {
+    const store = new SessionStore(jest.fn(), 1000, 1);
+    await store.open(begin, 'default');
+
+    await expect(store.open(begin, 'default')).rejects.toMatchObject({ code: 'SESSION_LIMIT' });
+    await store.closeAll(async () => undefined);
+  });
+
+  test('should close every session', async () => {
+    const store = new SessionStore(jest.fn());
+    const first = await store.open(begin, 'default');
+    const second = await store.open(begin, 'default');
+    const end = jest.fn().mockResolvedValue(undefined);
+
+    await store.closeAll(end);
+
+    expect(end.mock.calls.map(call => call[0].id)).toEqual([first.id, second.id]);
+    await expect(store.use(first.id, async () => undefined)).rejects.toMatchObject({
+      code: 'INVALID_SESSION',
+    });
+  });
+});
@@ -0,0 +1,248 @@
+import { classifySql } from '../src/core/sql-classifier';
+
+function classifyOne(sql: string): ReturnType<typeof classifySql>[number] {
+  const [statement] = classifySql(sql);
+  return statement;
+}
+
+describe('SQL classifier', () => {
+  describe('categories', () => {
+    test.each([
+      ['SELECT * FROM users', 'read', 'SELECT'],
+      ['select 1', 'read', 'SELECT'],
+      ['VALUES (1), (2)', 'read', 'VALUES'],
+      ['SHOW search_path', 'read', 'SHOW'],
+      ['INSERT INTO users (name) VALUES ($1)', 'write', 'INSERT'],
+      ['UPDATE users SET name = 1', 'write', 'UPDATE'],
+      ['DELETE FROM users WHERE id = 1', 'write', 'DELETE'],
+      ['MERGE INTO t USING s ON t.id = s.id WHEN MATCHED THEN DELETE', 'write', 'MERGE'],
+      ['TRUNCATE TABLE users', 'write', 'TRUNCATE'],
+      ['CALL refresh_stats()', 'write', 'CALL'],
+      ['CREATE TABLE users (id int)', 'ddl', 'CREATE TABLE'],
+      ['CREATE OR REPLACE VIEW v AS SELECT 1', 'ddl', 'CREATE VIEW'],
+      ['CREATE UNIQUE INDEX idx ON users (email)', 'ddl', 'CREATE INDEX'],
+      ['DROP MATERIALIZED VIEW IF EXISTS mv', 'ddl', 'DROP MATERIALIZED VIEW'],
+      ['ALTER TABLE users ADD COLUMN age int', 'ddl', 'ALTER TABLE'],
+      ['BEGIN', 'transaction', 'BEGIN'],
+      ['ROLLBACK TO SAVEPOINT sp', 'transaction', 'ROLLBACK TO'],
+      ['SET TRANSACTION ISOLATION LEVEL SERIALIZABLE', 'transaction', 'SET TRANSACTION'],
+      ['GRANT SELECT ON users TO reporting', 'privileged', 'GRANT'],
+      ['CREATE ROLE admin', 'privileged', 'CREATE ROLE'],
+      ['ALTER SYSTEM SET work_mem = 1', 'privileged', 'ALTER SYSTEM'],
+      ['SET ROLE postgres', 'privileged', 'SET ROLE'],
+      ['SET SESSION ROLE postgres', 'privileged', 'SET ROLE'],
+      ['SET LOCAL ROLE postgres', 'privileged', 'SET ROLE'],
+      ['SET SESSION AUTHORIZATION postgres', 'privileged', 'SET SESSION AUTHORIZATION'],
+      ['SET LOCAL SESSION AUTHORIZATION postgres', 'privileged', 'SET SESSION AUTHORIZATION'],
+      ['SET SESSION statement_timeout = 0', 'session', 'SET'],
+      ['SET statement_timeout = 0', 'session', 'SET'],
+      ['VACUUM ANALYZE users', 'maintenance', 'VACUUM'],
+      ['frobnicate everything', 'unknown', 'FROBNICATE'],
+    ])('%s -> %s', (sql, category, command) => {
+      expect(classifyOne(sql)).toMatchObject({ category, command });
+    });
+  });
+
+  describe('things startsWith checks get wrong', () => {
+    test('should see writes inside CTEs', () => {
+      const statement = classifyOne(
+        'WITH gone AS (DELETE FROM users WHERE id = 1 RETURNING *) SELECT * FROM gone'
+      );
+      expect(statement.category).toBe('write');
+      expect(statement.command).toBe('SELECT');
+      expect(statement.tables).toEqual([{ name: 'users', target: true }]);
+    });
+
+    test('should use the main command of a WITH query', () => {
+      const statement = classifyOne('WITH ids AS (SELECT id FROM a) DELETE FROM b USING ids');
+      expect(statement).toMatchObject({ command: 'DELETE', category: 'write' });
+      expect(statement.tables).toEqual([
+        { name: 'a', target: false },
+        { name: 'b', target: true },
+      ]);
+    });
+
+    test('should ignore leading comments', () => {
+      expect(classifyOne('-- harmless\n/* really */ DROP TABLE users')).toMatchObject({
+        category: 'ddl',
+        command: 'DROP TABLE',
+      });
+    });
+
+    test('should ignore keywords in strings and dollar-quoted bodies', () => {
+      expect(classifyOne("SELECT 'DELETE FROM users', $$DROP TABLE x$$")).toMatchObject({
+        category: 'read',
+        tables: [],
+      });
+    });
+
+    test('should treat SELECT INTO as DDL', () => {
+      expect(classifyOne('SELECT * INTO backup FROM users')).toMatchObject({
+        category: 'ddl',
+        tables: [
+          { name: 'backup', target: true },
+          { name: 'users', target: false },
+        ],
+      });
+    });
+
+    test('should not treat FOR UPDATE as a write', () => {
+      expect(classifyOne('SELECT * FROM users FOR UPDATE').category).toBe('read');
+    });
+
+    test('should flag administrative and sequence functions', () => {
+      expect(classifyOne('SELECT pg_terminate_backend(123)').category).toBe('privileged');
+      expect(classifyOne('SELECT "pg_terminate_backend"(123)').category).toBe('privileged');
+      expect(classifyOne(`SELECT "pg_read_file"('/etc/passwd')`).category).toBe('privileged');
+      expect(classifyOne('SELECT pg_catalog."pg_terminate_backend"(123)').category).toBe(
+        'privileged'
+      );
+      expect(classifyOne('SELECT pg_catalog.pg_terminate_backend(123)').category).toBe(
+        'privileged'
+      );
+      // Quoted names are case-sensitive, so this is not the built-in function
+      expect(classifyOne('SELECT "PG_TERMINATE_BACKEND"(123)').category).toBe('read');
+      expect(classifyOne("SELECT nextval('users_id_seq')").category).toBe('write');
+    });
+
+    test('should flag set_config() of the role as a role switch', () => {
+      expect(classifyOne("SELECT set_config('role', 'postgres', false)").category).toBe(
+        'privileged'
+      );
+      expect(
+        classifyOne("SELECT set_config('session_authorization', 'postgres', false)").category
+      ).toBe('privileged');
+      expect(classifyOne("SELECT set_config('work_mem', '64MB', false)").category).toBe('read');
+    });
+
+    test('should classify EXPLAIN by whether it executes the statement', () => {
+      expect(classifyOne('EXPLAIN DELETE FROM users').category).toBe('read');
+      expect(classifyOne('EXPLAIN ANALYZE DELETE FROM users').category).toBe('write');
+      expect(classifyOne('EXPLAIN (ANALYZE true, BUFFERS) DELETE FROM users').category).toBe(
+        'write'
+      );
+      expect(classifyOne('EXPLAIN (ANALYZE off) DELETE FROM users').category).toBe('read');
+    });
+
+    test('should classify COPY by direction and target', () => {
+      expect(classifyOne('COPY users (id, name) FROM STDIN')).toMatchObject({
+        category: 'write',
+        tables: [{ name: 'users', target: true }],
+      });
+      expect(classifyOne('COPY users TO STDOUT').category).toBe('read');
+      expect(classifyOne("COPY users TO '/tmp/users.csv'").category).toBe('privileged');
+      expect(classifyOne("COPY users FROM PROGRAM 'curl x'").category).toBe('privileged');
+    });
+  });
+
+  describe('table references', () => {
+    test('should collect qualified, quoted and joined relations', () => {
+      const statement = classifyOne(
+        'SELECT * FROM sales.orders o JOIN "Customers" c ON c.id = o.customer_id'
+      );
+      expect(statement.tables).toEqual([
+        { schema: 'sales', name: 'orders', target: false },
+        { name: 'Customers', target: false },
+      ]);
+    });
+
+    test('should read comma-separated FROM lists', () => {
+      expect(classifyOne('SELECT * FROM a, b AS x, c WHERE a.id = b.id').tables).toEqual([
+        { name: 'a', target: false },
+        { name: 'b', target: false },
+        { name: 'c', target: false },
+      ]);
+    });
+
+    test('should not mistake function arguments or calls for relations', () => {
+      expect(
+        classifyOne('SELECT EXTRACT(YEAR FROM created_at) FROM generate_series(1, 3)').tables
+      ).toEqual([]);
+    });
+
+    test('should mark write and DDL targets', () => {
+      expect(classifyOne('INSERT INTO audit.log SELECT * FROM events').tables).toEqual([
+        { schema: 'audit', name: 'log', target: true },
+        { name: 'events', target: false },
+      ]);
+      expect(classifyOne('DROP TABLE IF EXISTS a, public.b CASCADE').tables).toEqual([
+        { name: 'a', target: true },
+        { schema: 'public', name: 'b', target: true },
+      ]);
+      expect(classifyOne('CREATE INDEX CONCURRENTLY idx ON ONLY users (email)').tables).toEqual([
+        { name: 'users', target: true },
+      ]);
+    });
+
+    test('should find relations in subqueries', () => {
+      expect(
+        classifyOne('UPDATE users SET score = (SELECT max(score) FROM games) WHERE id = 1').tables
+      ).toEqual([
+        { name: 'users', target: true },
+        { name: 'games', target: false },
+      ]);
+    });
+  });
+
+  describe('destructive statements', () => {
+    test.each([
+      ['DROP TABLE users', 'DROP TABLE'],
+      ['DROP SCHEMA audit CASCADE', 'DROP SCHEMA'],
+      ['TRUNCATE users, orders', 'TRUNCATE'],
+      ['DELETE FROM users', 'DELETE without WHERE'],
+      ['WITH gone AS (DELETE FROM users RETURNING *) SELECT * FROM gone', 'DELETE without WHERE'],
+      ['ALTER TABLE users DROP COLUMN email', 'ALTER TABLE ... DROP COLUMN'],
+    ])('%s', (sql, destructive) => {
+      expect(classifyOne(sql).destructive).toBe(destructive);
+    });
+
+    test.each([
+      'DELETE FROM users WHERE id = 1',
+      'UPDATE users SET name = 1',
+      'ALTER TABLE users DROP CONSTRAINT users_pkey',
+      'SELECT * FROM users',
+    ])('%s is not destructive', sql => {
+      expect(classifyOne(sql).destructive).toBeUndefined();
+    });
+
+    test('should list dropped columns', () => {
+      expect(
+        classifyOne('ALTER TABLE users DROP COLUMN IF EXISTS email, DROP "Age" CASCADE')
+          .droppedColumns
+      ).toEqual(['email', 'Age']);
+    });
+  });
+
+  describe('transaction limits', () => {
+    test.each([
+      'VACUUM users',
+      'CREATE UNIQUE INDEX CONCURRENTLY idx ON users (email)',
+      'DROP INDEX CONCURRENTLY IF EXISTS idx',
+      'REINDEX (VERBOSE) TABLE CONCURRENTLY users',
+      'CREATE DATABASE scratch',
+    ])('%s cannot run in a transaction block', sql => {
+      expect(classifyOne(sql).noTransactionBlock).toBe(true);
+    });
+
+    test.each(['CREATE INDEX idx ON users (email)', 'REINDEX TABLE users', 'SELECT 1'])(
+      '%s can run in a transaction block',
+      sql => {
+        expect(classifyOne(sql).noTransactionBlock).toBeUndefined();
+      }
+    );
+
+    test('should list calls a rollback does not undo', () => {
+      expect(
+        classifyOne("INSERT INTO users (id) VALUES (nextval('users_id_seq'), nextval('x'))")
+          .nonTransactionalCalls
+      ).toEqual(['nextval']);
+      expect(classifyOne('SELECT 1').nonTransactionalCalls).toBeUndefined();
+    });
+  });
+
+  test('should classify every statement of a script', () => {
+    const statements = classifySql('SELECT 1; DELETE FROM users; COMMIT');
+    expect(statements.map(s => s.category)).toEqual(['read', 'write', 'transaction']);
+    expect(statements[1].start).toBe(10);
+  });
+});
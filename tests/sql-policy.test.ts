@@ -0,0 +1,204 @@
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { classifySql } from '../src/core/sql-classifier';
+import {
+  evaluatePolicy,
+  enforcePolicy,
+  parsePolicy,
+  loadPolicy,
+  loadPolicyFromEnv,
+  requiredConfirmations,
+  SqlPolicy,
+} from '../src/core/sql-policy';
+
+describe('SQL policy', () => {
+  describe('evaluatePolicy', () => {
+    test('should allow everything by default', () => {
+      expect(evaluatePolicy({}, classifySql('DROP TABLE users'))).toEqual({
+        action: 'allow',
+        matches: [],
+      });
+    });
+
+    test('should apply category rules and the default', () => {
+      const policy: SqlPolicy = { default: 'confirm', categories: { read: 'allow', ddl: 'deny' } };
+
+      expect(evaluatePolicy(policy, classifySql('SELECT 1')).action).toBe('allow');
+      expect(evaluatePolicy(policy, classifySql('DELETE FROM users')).action).toBe('confirm');
+      expect(evaluatePolicy(policy, classifySql('DROP TABLE users'))).toEqual({
+        action: 'deny',
+        matches: [
+          {
+            statementIndex: 0,
+            command: 'DROP TABLE',
+            category: 'ddl',
+            action: 'deny',
+            reason: 'category ddl',
+          },
+        ],
+      });
+    });
+
+    test('should match tables by qualified or bare name', () => {
+      const policy: SqlPolicy = { tables: { 'public.users': 'deny', orders: 'confirm' } };
+
+      expect(evaluatePolicy(policy, classifySql('SELECT * FROM users')).action).toBe('deny');
+      expect(evaluatePolicy(policy, classifySql('SELECT * FROM sales.users')).action).toBe('allow');
+      expect(evaluatePolicy(policy, classifySql('SELECT * FROM sales.orders')).action).toBe(
+        'confirm'
+      );
+    });
+
+    test('should judge tables that are only read as reads', () => {
+      const policy: SqlPolicy = { schemas: { audit: { write: 'deny', ddl: 'deny' } } };
+
+      expect(
+        evaluatePolicy(policy, classifySql('INSERT INTO public.copy SELECT * FROM audit.log'))
+          .action
+      ).toBe('allow');
+      expect(evaluatePolicy(policy, classifySql('DELETE FROM audit.log')).matches).toEqual([
+        expect.objectContaining({ action: 'deny', reason: 'schema audit' }),
+      ]);
+    });
+
+    test('should let the strictest rule win', () => {
+      const policy: SqlPolicy = { categories: { write: 'confirm' }, tables: { logs: 'allow' } };
+      expect(evaluatePolicy(policy, classifySql('DELETE FROM logs')).action).toBe('confirm');
+    });
+
+    test('should catch writes hidden in CTEs', () => {
+      const policy: SqlPolicy = { categories: { write: 'deny' } };
+      const sql = 'WITH gone AS (DELETE FROM users RETURNING id) SELECT count(*) FROM gone';
+      expect(evaluatePolicy(policy, classifySql(sql)).action).toBe('deny');
+    });
+  });
+
+  describe('enforcePolicy', () => {
+    test('should throw POLICY_VIOLATION for denied statements', () => {
+      expect(() =>
+        enforcePolicy({ categories: { privileged: 'deny' } }, classifySql('GRANT ALL ON t TO x'))
+      ).toThrow(
+        expect.objectContaining({
+          name: 'SqlAgentError',
+          code: 'POLICY_VIOLATION',
+          message: 'GRANT statement denied by policy: category privileged',
+        })
+      );
+    });
+
+    test('should throw CONFIRMATION_REQUIRED for statements needing confirmation', () => {
+      expect(() =>
+        enforcePolicy({ categories: { ddl: 'confirm' } }, classifySql('DROP TABLE users'))
+      ).toThrow(expect.objectContaining({ code: 'CONFIRMATION_REQUIRED' }));
+    });
+
+    test('should point at the offending statement of a script', () => {
+      const sql = 'SELECT 1;\nSELECT 2;\n  TRUNCATE users';
+      expect(() => enforcePolicy({ tables: { users: 'deny' } }, classifySql(sql), sql)).toThrow(
+        expect.objectContaining({
+          message: 'Statement 3 (TRUNCATE) denied by policy: table public.users',
+          statementIndex: 2,
+          line: 3,
+          column: 3,
+        })
+      );
+    });
+
+    test('should report denials before confirmations', () => {
+      const policy: SqlPolicy = { categories: { write: 'confirm', ddl: 'deny' } };
+      expect(() => enforcePolicy(policy, classifySql('DELETE FROM a; DROP TABLE b'))).toThrow(
+        expect.objectContaining({ code: 'POLICY_VIOLATION' })
+      );
+    });
+  });
+
+  describe('requiredConfirmations', () => {
+    test('should list destructive statements and policy confirmations in order', () => {
+      const policy: SqlPolicy = { tables: { orders: { write: 'confirm' } } };
+      const statements = classifySql('DROP TABLE a; SELECT 1; UPDATE orders SET x = 1');
+
+      expect(requiredConfirmations(statements, policy)).toEqual([
+        { statementIndex: 0, command: 'DROP TABLE', reason: 'DROP TABLE' },
+        {
+          statementIndex: 2,
+          command: 'UPDATE',
+          reason: 'policy requires confirmation (table public.orders)',
+        },
+      ]);
+    });
+
+    test('should skip destructive statements when asked', () => {
+      expect(requiredConfirmations(classifySql('TRUNCATE users'), undefined, false)).toEqual([]);
+    });
+
+    test('should require nothing when the policy denies the statements', () => {
+      const policy: SqlPolicy = { categories: { ddl: 'deny' } };
+      expect(requiredConfirmations(classifySql('DROP TABLE users'), policy)).toEqual([]);
+    });
+  });
+
+  describe('parsePolicy', () => {
+    test('should accept a valid policy', () => {
+      const policy = {
+        default: 'allow',
+        categories: { ddl: 'confirm' },
+        schemas: { audit: 'deny' },
+        tables: { users: { write: 'confirm' } },
+      };
+      expect(parsePolicy(policy)).toEqual(policy);
+    });
+
+    test.each([
+      [[], 'expected a JSON object'],
+      [{ rules: {} }, 'unknown key "rules"'],
+      [{ default: 'maybe' }, 'default must be one of allow, deny, confirm'],
+      [{ categories: { destructive: 'deny' } }, 'categories has unknown category "destructive"'],
+      [{ tables: { users: { write: 'nope' } } }, 'tables.users.write must be one of'],
+      [{ schemas: [] }, 'schemas must be an object'],
+    ])('should reject %j', (value, message) => {
+      expect(() => parsePolicy(value)).toThrow(
+        expect.objectContaining({
+          code: 'INVALID_POLICY',
+          message: expect.stringContaining(message),
+        })
+      );
+    });
+  });
+
+  describe('loadPolicy', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'sequelae-policy-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+      delete process.env.SEQUELAE_POLICY_FILE;
+    });
+
+    test('should read a policy file', () => {
+      const file = join(dir, 'policy.json');
+      writeFileSync(file, JSON.stringify({ categories: { ddl: 'deny' } }));
+      expect(loadPolicy(file)).toEqual({ categories: { ddl: 'deny' } });
+    });
+
+    test('should report missing and malformed files', () => {
+      expect(() => loadPolicy(join(dir, 'missing.json'))).toThrow('Policy file not found');
+
+      const file = join(dir, 'broken.json');
+      writeFileSync(file, '{ nope');
+      expect(() => loadPolicy(file)).toThrow(expect.objectContaining({ code: 'INVALID_POLICY' }));
+    });
+
+    test('should load the file named by SEQUELAE_POLICY_FILE', () => {
+      expect(loadPolicyFromEnv()).toBeUndefined();
+
+      const file = join(dir, 'policy.json');
+      writeFileSync(file, JSON.stringify({ default: 'confirm' }));
+      process.env.SEQUELAE_POLICY_FILE = file;
+      expect(loadPolicyFromEnv()).toEqual({ default: 'confirm' });
+    });
+  });
+});
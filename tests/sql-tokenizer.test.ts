@@ -0,0 +1,166 @@
+import {
+  tokenize,
+  isTrivia,
+  splitStatements,
+  endsStatement,
+  getLineAndColumn,
+} from '../src/core/sql-tokenizer';
+
+function significant(sql: string) {
+  return tokenize(sql)
+    .filter(t => !isTrivia(t))
+    .map(t => [t.type, t.text]);
+}
+
+describe('SQL Tokenizer', () => {
+  test('should tokenize a simple query', () => {
+    expect(significant('SELECT id FROM users WHERE id = 1;')).toEqual([
+      ['word', 'SELECT'],
+      ['word', 'id'],
+      ['word', 'FROM'],
+      ['word', 'users'],
+      ['word', 'WHERE'],
+      ['word', 'id'],
+      ['operator', '='],
+      ['number', '1'],
+      ['semicolon', ';'],
+    ]);
+  });
+
+  test('should keep token offsets', () => {
+    const tokens = tokenize('SELECT  1');
+    expect(tokens.map(t => t.start)).toEqual([0, 6, 8]);
+  });
+
+  test('should recognize line and nested block comments', () => {
+    const tokens = tokenize('-- hello\n/* a /* b */ c */SELECT');
+    expect(tokens.map(t => t.type)).toEqual([
+      'line_comment',
+      'whitespace',
+      'block_comment',
+      'word',
+    ]);
+  });
+
+  test('should handle quoted strings with escaped quotes', () => {
+    expect(significant("SELECT 'it''s :not_a_param'")).toEqual([
+      ['word', 'SELECT'],
+      ['string', "'it''s :not_a_param'"],
+    ]);
+  });
+
+  test('should handle escape strings with backslashes', () => {
+    expect(significant("SELECT E'a\\'b'")).toEqual([
+      ['word', 'SELECT'],
+      ['string', "E'a\\'b'"],
+    ]);
+  });
+
+  test('should handle quoted identifiers', () => {
+    expect(significant('SELECT "Weird ""Name"""')).toEqual([
+      ['word', 'SELECT'],
+      ['quoted_identifier', '"Weird ""Name"""'],
+    ]);
+  });
+
+  test('should handle dollar quoting with and without tags', () => {
+    const sql = "SELECT $$ a; b $$, $fn$ 'x'; $1 $fn$";
+    expect(significant(sql)).toEqual([
+      ['word', 'SELECT'],
+      ['dollar_string', '$$ a; b $$'],
+      ['punctuation', ','],
+      ['dollar_string', "$fn$ 'x'; $1 $fn$"],
+    ]);
+  });
+
+  test('should distinguish placeholders from casts', () => {
+    expect(significant('SELECT $1::int, :name')).toEqual([
+      ['word', 'SELECT'],
+      ['positional_param', '$1'],
+      ['operator', '::'],
+      ['word', 'int'],
+      ['punctuation', ','],
+      ['named_param', ':name'],
+    ]);
+  });
+
+  test('should not treat array slices as named parameters', () => {
+    const types = significant('SELECT arr[1:2]').map(([type]) => type);
+    expect(types).not.toContain('named_param');
+  });
+
+  test('should not swallow comments into operators', () => {
+    expect(significant('SELECT 1 +-- comment\n2').map(([, text]) => text)).toEqual([
+      'SELECT',
+      '1',
+      '+',
+      '2',
+    ]);
+  });
+
+  test('should run unterminated strings to the end of input', () => {
+    const tokens = tokenize("SELECT 'oops");
+    expect(tokens[tokens.length - 1]).toMatchObject({ type: 'string', text: "'oops" });
+  });
+});
+
+describe('splitStatements', () => {
+  test('should split on top-level semicolons', () => {
+    const statements = splitStatements('SELECT 1; SELECT 2;\nSELECT 3');
+    expect(statements.map(s => s.text)).toEqual(['SELECT 1', 'SELECT 2', 'SELECT 3']);
+    expect(statements.map(s => s.start)).toEqual([0, 10, 20]);
+  });
+
+  test('should ignore semicolons in strings, comments and dollar quotes', () => {
+    const sql = `
+      INSERT INTO t VALUES ('a;b'); -- trailing; comment
+      CREATE FUNCTION f() RETURNS int AS $$ SELECT 1; $$ LANGUAGE sql;
+      /* ; */ SELECT "semi;colon" FROM t;
+    `;
+    const statements = splitStatements(sql);
+    expect(statements).toHaveLength(3);
+    expect(statements[1].text).toBe(
+      'CREATE FUNCTION f() RETURNS int AS $$ SELECT 1; $$ LANGUAGE sql'
+    );
+    expect(statements[2].text).toBe('SELECT "semi;colon" FROM t');
+  });
+
+  test('should keep BEGIN ATOMIC bodies together', () => {
+    const sql =
+      'CREATE FUNCTION f() RETURNS int LANGUAGE sql BEGIN ATOMIC SELECT 1; SELECT CASE WHEN true THEN 2 END; END; SELECT 2';
+    const statements = splitStatements(sql);
+    expect(statements).toHaveLength(2);
+    expect(statements[0].text.endsWith('END')).toBe(true);
+    expect(statements[1].text).toBe('SELECT 2');
+  });
+
+  test('should skip empty statements and comment-only input', () => {
+    expect(splitStatements(';; -- nothing\n;')).toEqual([]);
+  });
+});
+
+describe('endsStatement', () => {
+  test('should detect a terminating semicolon', () => {
+    expect(endsStatement('SELECT 1;')).toBe(true);
+    expect(endsStatement('SELECT 1;\n-- done')).toBe(true);
+    expect(endsStatement('SELECT 1; SELECT')).toBe(false);
+    expect(endsStatement('SELECT 1')).toBe(false);
+    expect(endsStatement(';')).toBe(false);
+  });
+
+  test('should ignore semicolons in strings, comments and atomic bodies', () => {
+    expect(endsStatement("SELECT 'a;")).toBe(false);
+    expect(endsStatement('SELECT 1 -- ;')).toBe(false);
+    expect(endsStatement('SELECT $$ ;')).toBe(false);
+    expect(endsStatement('CREATE FUNCTION f() RETURNS int BEGIN ATOMIC SELECT 1;')).toBe(false);
+    expect(endsStatement('CREATE FUNCTION f() RETURNS int BEGIN ATOMIC SELECT 1; END;')).toBe(true);
+  });
+});
+
+describe('getLineAndColumn', () => {
+  test('should convert offsets into 1-based line and column', () => {
+    const sql = 'SELECT 1;\nSELECT\n  oops';
+    expect(getLineAndColumn(sql, 0)).toEqual({ line: 1, column: 1 });
+    expect(getLineAndColumn(sql, sql.indexOf('oops'))).toEqual({ line: 3, column: 3 });
+  });
+});
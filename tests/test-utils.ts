@@ -1,5 +1,6 @@
 import { config } from 'dotenv';
 import { resolve } from 'path';
+import { ColumnInfo } from '../src/core/schema-introspection';
 
 // Load .env from root
 config({ path: resolve(__dirname, '..', '.env') });
@@ -17,3 +18,13 @@ export function skipIfNoDb() {
   }
   return false;
 }
+
+// Build a column fixture, defaulting to a non-null integer `id`
+export const column = (fields: Partial<ColumnInfo>): ColumnInfo => ({
+  column_name: 'id',
+  data_type: 'integer',
+  is_nullable: 'NO',
+  column_default: null,
+  character_maximum_length: null,
+  ...fields,
+});
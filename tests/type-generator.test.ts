@@ -0,0 +1,185 @@
+import { generateTypes, typeName } from '../src/core/type-generator';
+import { analyzeJsonDocuments } from '../src/jsonb-analyzer';
+import { ColumnInfo, SchemaResult } from '../src/core/schema-introspection';
+import { column } from './test-utils';
+
+const orders: SchemaResult = {
+  tables: [
+    {
+      schema: 'public',
+      name: 'orders',
+      comment: 'Customer orders',
+      constraints: [],
+      columns: [
+        column({ udt_name: 'int4', is_identity: 'YES', identity_generation: 'ALWAYS' }),
+        column({ column_name: 'total', data_type: 'numeric', udt_name: 'numeric' }),
+        column({
+          column_name: 'status',
+          data_type: 'USER-DEFINED',
+          udt_name: 'order_status',
+          column_default: "'new'::order_status",
+        }),
+        column({ column_name: 'tags', data_type: 'ARRAY', udt_name: '_text', is_nullable: 'YES' }),
+        column({
+          column_name: 'placed at',
+          data_type: 'timestamp with time zone',
+          udt_name: 'timestamptz',
+          column_default: 'now()',
+          comment: 'When the order was placed',
+        }),
+        column({
+          column_name: 'gross',
+          data_type: 'numeric',
+          udt_name: 'numeric',
+          is_generated: 'ALWAYS',
+          generation_expression: '(total * 1.2)',
+        }),
+      ],
+    },
+  ],
+  views: [
+    {
+      schema: 'reporting',
+      name: 'daily_totals',
+      materialized: true,
+      definition: '',
+      columns: [
+        column({ column_name: 'day', data_type: 'date', udt_name: 'date', is_nullable: 'YES' }),
+      ],
+    },
+  ],
+  enums: [{ schema: 'public', name: 'order_status', values: ['new', "it's shipped"] }],
+};
+
+describe('type generator', () => {
+  test('should emit row, insert and update types for tables and row types for views', () => {
+    expect(generateTypes(orders))
+      .toBe(`// Generated by sequelae from the database schema. Do not edit.
+
+export type OrderStatus = 'new' | 'it\\'s shipped';
+
+/** Customer orders */
+export interface Orders {
+  id: number;
+  total: string;
+  status: OrderStatus;
+  tags: string[] | null;
+  /** When the order was placed */
+  'placed at': Date;
+  gross: string;
+}
+
+export interface OrdersInsert {
+  total: string;
+  status?: OrderStatus;
+  tags?: string[] | null;
+  /** When the order was placed */
+  'placed at'?: Date;
+}
+
+export interface OrdersUpdate {
+  total?: string;
+  status?: OrderStatus;
+  tags?: string[] | null;
+  /** When the order was placed */
+  'placed at'?: Date;
+}
+
+export interface ReportingDailyTotals {
+  day: Date | null;
+}
+`);
+  });
+
+  test('should turn inferred JSONB structures into nested types', () => {
+    const source = generateTypes(
+      {
+        tables: [
+          {
+            schema: 'public',
+            name: 'events',
+            constraints: [],
+            columns: [
+              column({ column_name: 'payload', data_type: 'jsonb', udt_name: 'jsonb' }),
+              column({
+                column_name: 'raw',
+                data_type: 'jsonb',
+                udt_name: 'jsonb',
+                is_nullable: 'YES',
+              }),
+              column({ column_name: 'lines', data_type: 'json', udt_name: 'json' }),
+            ],
+          },
+        ],
+      },
+      {
+        jsonbStructures: {
+          'public.events.lines': analyzeJsonDocuments([[{ sku: 'a' }, { sku: 'b' }]]),
+          'public.events.payload': analyzeJsonDocuments([
+            { kind: 'click', target: { id: 1 }, tags: ['a', 2] },
+            { kind: 'view', target: { id: 2 }, extra: null },
+          ]),
+        },
+      }
+    );
+
+    expect(source).toContain(
+      'export type Json = string | number | boolean | null | Json[] | { [key: string]: Json };'
+    );
+    expect(source).toContain(`export interface Events {
+  payload: {
+    kind: string;
+    target: {
+      id: number;
+    };
+    tags?: (string | number)[];
+    extra?: null;
+  };
+  raw: Json | null;
+  lines: {
+    sku: string;
+  }[];
+}`);
+  });
+
+  test('should name types in PascalCase and keep names unique', () => {
+    expect(typeName('public', 'user_roles')).toBe('UserRoles');
+    expect(typeName('billing', 'invoice-lines')).toBe('BillingInvoiceLines');
+    expect(typeName('public', '2fa_codes')).toBe('_2faCodes');
+
+    const source = generateTypes({
+      tables: [],
+      views: [
+        { schema: 'public', name: 'status', materialized: false, definition: '', columns: [] },
+      ],
+      enums: [{ schema: 'public', name: 'status', values: ['on', 'off'] }],
+    });
+    expect(source).toContain('export interface Status {');
+    expect(source).toContain("export type Status2 = 'on' | 'off';");
+  });
+
+  test('should keep enums of the same name in different schemas apart', () => {
+    const status = (udtSchema: string): ColumnInfo =>
+      column({
+        column_name: 'status',
+        data_type: 'USER-DEFINED',
+        udt_name: 'status',
+        udt_schema: udtSchema,
+      });
+    const source = generateTypes({
+      tables: [
+        { schema: 'public', name: 'users', constraints: [], columns: [status('public')] },
+        { schema: 'public', name: 'invoices', constraints: [], columns: [status('billing')] },
+      ],
+      enums: [
+        { schema: 'public', name: 'status', values: ['active', 'banned'] },
+        { schema: 'billing', name: 'status', values: ['paid', 'overdue'] },
+      ],
+    });
+
+    expect(source).toContain("export type Status = 'active' | 'banned';");
+    expect(source).toContain("export type BillingStatus = 'paid' | 'overdue';");
+    expect(source).toMatch(/interface Users \{\n {2}status: Status;/);
+    expect(source).toMatch(/interface Invoices \{\n {2}status: BillingStatus;/);
+  });
+});
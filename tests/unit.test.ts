@@ -12,8 +12,10 @@ import {
   validateFile,
   readSqlFile,
   formatQueryResultsJson,
+  formatQueryResultRows,
   formatSqlError,
   formatCommandResult,
+  formatImpactPreview,
   buildSchemaCondition,
   buildTableList,
   isDirectSqlCommand,
@@ -25,7 +27,16 @@ import {
 } from '../src/cli';
 import { SqlExecutor } from '../src/core/sql-executor';
 import { BackupOptions } from '../src/types/backup';
-import { analyzeJsonStructure, formatJsonStructure } from '../src/jsonb-analyzer';
+import {
+  analyzeJsonStructure,
+  analyzeJsonDocuments,
+  exportJsonStructure,
+  formatJsonStructure,
+  resolveSampling,
+  sampleJsonbColumn,
+  toJsonSchema,
+  toZod,
+} from '../src/jsonb-analyzer';
 
 describe('Sequelae Unit Tests', () => {
   // Helper function to execute sequelae CLI
@@ -124,6 +135,10 @@ describe('Sequelae Unit Tests', () => {
           jsonMode: false,
           allSchemas: false,
           noTransaction: false,
+          readOnly: false,
+          yes: false,
+          dryRun: false,
+          stream: false,
           timeout: undefined,
           filteredArgs: [],
         });
@@ -135,6 +150,10 @@ describe('Sequelae Unit Tests', () => {
           jsonMode: true,
           allSchemas: false,
           noTransaction: false,
+          readOnly: false,
+          yes: false,
+          dryRun: false,
+          stream: false,
           timeout: undefined,
           filteredArgs: ['exec', 'SELECT 1'],
         });
@@ -146,6 +165,10 @@ describe('Sequelae Unit Tests', () => {
           jsonMode: false,
           allSchemas: true,
           noTransaction: false,
+          readOnly: false,
+          yes: false,
+          dryRun: false,
+          stream: false,
           timeout: undefined,
           filteredArgs: ['schema'],
         });
@@ -157,6 +180,10 @@ describe('Sequelae Unit Tests', () => {
           jsonMode: true,
           allSchemas: true,
           noTransaction: false,
+          readOnly: false,
+          yes: false,
+          dryRun: false,
+          stream: false,
           timeout: undefined,
           filteredArgs: ['schema'],
         });
@@ -168,6 +195,10 @@ describe('Sequelae Unit Tests', () => {
           jsonMode: true,
           allSchemas: true,
           noTransaction: false,
+          readOnly: false,
+          yes: false,
+          dryRun: false,
+          stream: false,
           timeout: undefined,
           filteredArgs: ['--help'],
         });
@@ -179,6 +210,10 @@ describe('Sequelae Unit Tests', () => {
           jsonMode: false,
           allSchemas: false,
           noTransaction: true,
+          readOnly: false,
+          yes: false,
+          dryRun: false,
+          stream: false,
           timeout: undefined,
           filteredArgs: ['exec', 'SELECT 1'],
         });
@@ -190,6 +225,10 @@ describe('Sequelae Unit Tests', () => {
           jsonMode: false,
           allSchemas: false,
           noTransaction: false,
+          readOnly: false,
+          yes: false,
+          dryRun: false,
+          stream: false,
           timeout: 5000,
           filteredArgs: ['exec', 'SELECT 1'],
         });
@@ -201,17 +240,76 @@ describe('Sequelae Unit Tests', () => {
           jsonMode: false,
           allSchemas: false,
           noTransaction: false,
+          readOnly: false,
+          yes: false,
+          dryRun: false,
+          stream: false,
           timeout: undefined,
           filteredArgs: ['SELECT 1'], // 'exec' is consumed as invalid timeout value
         });
       });
 
+      test('should collect repeated --param values in order', () => {
+        const result = parseArguments(['exec', 'SELECT $1, $2', '--param', '1', '--param', '-5']);
+        expect(result.params).toEqual(['1', '-5']);
+        expect(result.namedParams).toBeUndefined();
+        expect(result.filteredArgs).toEqual(['exec', 'SELECT $1, $2']);
+      });
+
+      test('should parse --named-param name=value pairs', () => {
+        const result = parseArguments(['exec', 'SELECT :email', '--named-param', 'email=a=b@c.co']);
+        expect(result.namedParams).toEqual({ email: 'a=b@c.co' });
+        expect(result.params).toBeUndefined();
+        expect(result.filteredArgs).toEqual(['exec', 'SELECT :email']);
+      });
+
+      test('should parse --policy file path', () => {
+        const result = parseArguments(['--policy', 'policy.json', 'exec', 'SELECT 1']);
+        expect(result.policyFile).toBe('policy.json');
+        expect(result.filteredArgs).toEqual(['exec', 'SELECT 1']);
+      });
+
+      test('should parse --db connection name', () => {
+        const result = parseArguments(['exec', 'SELECT 1', '--db', 'staging']);
+        expect(result.db).toBe('staging');
+        expect(result.filteredArgs).toEqual(['exec', 'SELECT 1']);
+      });
+
+      test('should parse --stream and --format', () => {
+        const result = parseArguments(['exec', 'SELECT 1', '--stream', '--format', 'csv']);
+        expect(result.stream).toBe(true);
+        expect(result.format).toBe('csv');
+        expect(result.filteredArgs).toEqual(['exec', 'SELECT 1']);
+      });
+
+      test('should leave --format to the backup command', () => {
+        const result = parseArguments(['backup', '--format', 'custom']);
+        expect(result.format).toBeUndefined();
+        expect(result.filteredArgs).toEqual(['backup', '--format', 'custom']);
+      });
+
+      test('should parse --dry-run flag', () => {
+        const result = parseArguments(['--dry-run', 'file', 'migrate.sql']);
+        expect(result.dryRun).toBe(true);
+        expect(result.filteredArgs).toEqual(['file', 'migrate.sql']);
+      });
+
+      test('should parse --yes flag', () => {
+        const result = parseArguments(['exec', 'DROP TABLE users', '--yes']);
+        expect(result.yes).toBe(true);
+        expect(result.filteredArgs).toEqual(['exec', 'DROP TABLE users']);
+      });
+
       test('should ignore invalid --timeout value', () => {
         const result = parseArguments(['--timeout', 'invalid', 'exec', 'SELECT 1']);
         expect(result).toEqual({
           jsonMode: false,
           allSchemas: false,
           noTransaction: false,
+          readOnly: false,
+          yes: false,
+          dryRun: false,
+          stream: false,
           timeout: undefined,
           filteredArgs: ['exec', 'SELECT 1'],
         });
@@ -391,6 +489,55 @@ SELECT * FROM users;`;
       });
     });
 
+    describe('formatQueryResultRows', () => {
+      const result = {
+        command: 'SELECT',
+        rowCount: 2,
+        rows: [
+          { id: 1, name: 'Alice' },
+          { id: 2, name: 'Bob' },
+        ],
+        duration: 12,
+      };
+
+      test('should print only the rows in machine-readable formats', () => {
+        expect(formatQueryResultRows(result, 'csv')).toBe('id,name\n1,Alice\n2,Bob');
+        expect(formatQueryResultRows({ ...result, rows: [] }, 'json')).toBe('[]');
+      });
+
+      test('should keep the summary line in table and vertical formats', () => {
+        expect(formatQueryResultRows(result, 'vertical')).toBe(
+          [
+            '-[ RECORD 1 ]----',
+            'id   | 1',
+            'name | Alice',
+            '-[ RECORD 2 ]----',
+            'id   | 2',
+            'name | Bob',
+            '',
+            '✓ SELECT (2 rows) - 12ms',
+          ].join('\n')
+        );
+      });
+
+      test('should print one section per statement of a script', () => {
+        const output = formatQueryResultRows(
+          {
+            ...result,
+            statements: [
+              { command: 'CREATE', rowCount: 0, duration: 3, line: 1 },
+              { ...result, line: 2 },
+            ],
+          },
+          'table'
+        );
+
+        expect(output).toContain('[1/2] line 1\n✓ CREATE  - 3ms');
+        expect(output).toContain('[2/2] line 2\nid | name\n---+------\n1  | Alice');
+        expect(output).toMatch(/✓ 2 statements executed - 12ms$/);
+      });
+    });
+
     describe('formatQueryResultsJson', () => {
       test('should format query results with rows', () => {
         const mockResult = {
@@ -490,6 +637,45 @@ SELECT * FROM users;`;
           position: 42,
         });
       });
+
+      test('should include the failing statement location', () => {
+        const error = new Error('syntax error') as any;
+        Object.assign(error, { position: 30, statementIndex: 2, line: 4, column: 7 });
+
+        expect(formatSqlError(error, false)).toBe(
+          '\nError: syntax error\nStatement: 3 (line 4, column 7)'
+        );
+        expect(JSON.parse(formatSqlError(error, true))).toEqual({
+          success: false,
+          error: 'syntax error',
+          position: 30,
+          statementIndex: 2,
+          line: 4,
+          column: 7,
+        });
+      });
+    });
+
+    describe('formatImpactPreview', () => {
+      test('should list each statement with its impact', () => {
+        const result = formatImpactPreview({
+          statements: [
+            {
+              statementIndex: 1,
+              command: 'DROP TABLE',
+              reasons: ['DROP TABLE'],
+              affectedRows: 12,
+              dependentObjects: ['view public.active_users'],
+            },
+          ],
+        });
+        expect(result).toBe(
+          '\nThis query needs confirmation:' +
+            '\n  Statement 2 (DROP TABLE): DROP TABLE' +
+            '\n    Affected rows: 12' +
+            '\n    Dependent objects: view public.active_users'
+        );
+      });
     });
 
     describe('formatCommandResult', () => {
@@ -600,6 +786,13 @@ SELECT * FROM users;`;
         expect(isDirectSqlCommand('--help')).toBe(false);
       });
 
+      test('should see past comments and CTEs', () => {
+        expect(isDirectSqlCommand('-- note\nSELECT 1')).toBe(true);
+        expect(isDirectSqlCommand('WITH x AS (DELETE FROM t RETURNING *) SELECT * FROM x')).toBe(
+          true
+        );
+      });
+
       test('should return false for empty string', () => {
         expect(isDirectSqlCommand('')).toBe(false);
       });
@@ -781,6 +974,17 @@ describe('PoolManager', () => {
       expect(poolManager.isInitialized()).toBe(true);
     });
 
+    test('should keep a separate instance per named connection', () => {
+      const staging = PoolManager.getInstance('staging');
+      expect(staging).not.toBe(poolManager);
+      expect(PoolManager.getInstance('staging')).toBe(staging);
+      expect(PoolManager.getInstance('default')).toBe(poolManager);
+
+      staging.initialize({ connectionString: 'postgresql://test@localhost/staging' });
+      expect(staging.isInitialized()).toBe(true);
+      expect(poolManager.isInitialized()).toBe(false);
+    });
+
     test('should return pool status', () => {
       poolManager.initialize({
         connectionString: 'postgresql://test@localhost/test',
@@ -842,6 +1046,49 @@ describe('PoolManager', () => {
       expect(mockPool.connect).toHaveBeenCalledTimes(2);
     });
   });
+
+  describe('read-only mode', () => {
+    test('should make checked-out sessions read-only', async () => {
+      const mockClient = { query: jest.fn().mockResolvedValue({}), release: jest.fn() };
+      const mockPool = {
+        connect: jest.fn().mockResolvedValue(mockClient),
+        on: jest.fn(),
+        end: jest.fn(),
+      };
+
+      poolManager.initialize({
+        connectionString: 'postgresql://test@localhost/test',
+        readOnly: true,
+      });
+      (poolManager as any).pool = mockPool;
+
+      await poolManager.getClient();
+
+      expect(poolManager.isReadOnly()).toBe(true);
+      expect(mockClient.query).toHaveBeenCalledWith(
+        'SET SESSION CHARACTERISTICS AS TRANSACTION READ ONLY'
+      );
+    });
+
+    test('should leave sessions untouched by default', async () => {
+      const mockClient = { query: jest.fn(), release: jest.fn() };
+      const mockPool = {
+        connect: jest.fn().mockResolvedValue(mockClient),
+        on: jest.fn(),
+        end: jest.fn(),
+      };
+
+      poolManager.initialize({
+        connectionString: 'postgresql://test@localhost/test',
+      });
+      (poolManager as any).pool = mockPool;
+
+      await poolManager.getClient();
+
+      expect(poolManager.isReadOnly()).toBe(false);
+      expect(mockClient.query).not.toHaveBeenCalled();
+    });
+  });
 });
 
 describe('JSONB Analyzer', () => {
@@ -926,6 +1173,172 @@ describe('JSONB Analyzer', () => {
       const structure = analyzeJsonStructure(samples);
       expect(Object.keys(structure)).toHaveLength(0);
     });
+
+    test('should report presence, type breakdown, examples and distinct values', () => {
+      const structure = analyzeJsonStructure([
+        { status: 'open', note: 'x' },
+        { status: 'open', note: null },
+        { status: 'closed' },
+        { status: 7 },
+      ]);
+
+      expect(structure.status).toMatchObject({
+        count: 4,
+        presence: 100,
+        typeCounts: { string: 3, number: 1 },
+        examples: ['open', 'closed', 7],
+        distinct: 3,
+      });
+      expect(structure.note).toMatchObject({
+        optional: true,
+        count: 2,
+        presence: 50,
+        typeCounts: { string: 1, null: 1 },
+        examples: ['x'],
+        distinct: 1,
+      });
+    });
+
+    test('should detect string formats every value matches', () => {
+      const structure = analyzeJsonStructure([
+        {
+          id: '0b7c2f6e-9a3d-4c1e-8f2a-1d2e3f4a5b6c',
+          at: '2024-05-01T10:00:00Z',
+          on: '2024-05-01',
+          email: 'a@b.co',
+          url: 'https://example.com/a',
+          name: 'Ann',
+        },
+        {
+          id: 'not-a-uuid',
+          at: '2024-05-02T10:00:00.5+02:00',
+          on: '2024-05-02',
+          email: 'c@d.co',
+          url: 'http://example.org',
+          name: 'b@c.de',
+        },
+      ]);
+
+      expect(structure.id.format).toBeUndefined();
+      expect(structure.at.format).toBe('date-time');
+      expect(structure.on.format).toBe('date');
+      expect(structure.email.format).toBe('email');
+      expect(structure.url.format).toBe('uri');
+      expect(structure.name.format).toBeUndefined();
+    });
+
+    test('should analyze the elements of array documents', () => {
+      const structure = analyzeJsonStructure([
+        [{ sku: 'a', qty: 1 }, { sku: 'b' }],
+        [{ sku: 'c', qty: 2 }],
+      ]);
+
+      expect(structure.sku).toMatchObject({ optional: false, count: 3 });
+      expect(structure.qty).toMatchObject({ optional: true, presence: 66.7 });
+      expect(analyzeJsonDocuments([[{ sku: 'a' }], [{ sku: 'b' }]])).toMatchObject({
+        arrayElements: true,
+        fields: { sku: { optional: false, count: 2 } },
+      });
+      expect(analyzeJsonDocuments([{ sku: 'a' }, [{ sku: 'b' }]]).arrayElements).toBe(false);
+      expect(analyzeJsonDocuments([]).arrayElements).toBe(false);
+    });
+
+    test('should measure nested fields against the objects they appear in', () => {
+      const structure = analyzeJsonStructure([
+        { user: { name: 'Ann', age: 30 } },
+        { user: { name: 'Bo' } },
+        { other: true },
+      ]);
+
+      expect(structure.user.presence).toBe(66.7);
+      expect(structure.user.nestedStructure!.name).toMatchObject({
+        optional: false,
+        presence: 100,
+      });
+      expect(structure.user.nestedStructure!.age).toMatchObject({ optional: true, presence: 50 });
+    });
+  });
+
+  describe('sampling', () => {
+    const events = { schema: 'public', name: 'events' };
+    const fakeClient = () => {
+      const query = jest.fn().mockResolvedValue({ rows: [{ value: { a: 1 } }] });
+      return { client: { query } as any, query };
+    };
+
+    test('should take the first rows by default', async () => {
+      const { client, query } = fakeClient();
+
+      expect(await sampleJsonbColumn(client, events, 'payload')).toEqual([{ a: 1 }]);
+      expect(query.mock.calls[0][0]).toContain('SELECT "payload" AS value');
+      expect(query.mock.calls[0][0]).not.toContain('TABLESAMPLE');
+      expect(query.mock.calls[0][0]).not.toContain('ORDER BY');
+      expect(query.mock.calls[0][1]).toEqual([10]);
+    });
+
+    test('should quote mixed-case, reserved and hostile identifiers', async () => {
+      const { client, query } = fakeClient();
+
+      await sampleJsonbColumn(
+        client,
+        { schema: 'Audit', name: 'order' },
+        'Data"; DROP TABLE x; --'
+      );
+
+      expect(query.mock.calls[0][0]).toContain('FROM "Audit"."order"');
+      expect(query.mock.calls[0][0]).toContain('WHERE "Data""; DROP TABLE x; --" IS NOT NULL');
+    });
+
+    test('should pass on query errors', async () => {
+      const query = jest.fn().mockRejectedValue(new Error('permission denied for table events'));
+
+      await expect(sampleJsonbColumn({ query } as any, events, 'payload')).rejects.toThrow(
+        'permission denied for table events'
+      );
+    });
+
+    test('should sample randomly with TABLESAMPLE', async () => {
+      const { client, query } = fakeClient();
+
+      await sampleJsonbColumn(client, events, 'payload', {
+        strategy: 'bernoulli',
+        limit: 200,
+        percent: 5,
+      });
+
+      expect(query.mock.calls[0][0]).toContain('FROM "public"."events" TABLESAMPLE BERNOULLI ($2)');
+      expect(query.mock.calls[0][1]).toEqual([200, 5]);
+    });
+
+    test('should take the most recent rows by a quoted column', async () => {
+      const { client, query } = fakeClient();
+
+      await sampleJsonbColumn(client, events, 'payload', {
+        strategy: 'recent',
+        orderBy: 'createdAt',
+      });
+
+      expect(query.mock.calls[0][0]).toContain('ORDER BY "createdAt" DESC NULLS LAST');
+    });
+
+    test('should cap a full scan and reject invalid options', () => {
+      expect(resolveSampling({ strategy: 'full' })).toEqual({
+        strategy: 'full',
+        limit: 10000,
+        percent: 10,
+        orderBy: undefined,
+      });
+      expect(resolveSampling(25).limit).toBe(25);
+      expect(() => resolveSampling({ strategy: 'recent' })).toThrow(
+        expect.objectContaining({ code: 'INVALID_SAMPLING' })
+      );
+      expect(() => resolveSampling({ strategy: 'random' as any })).toThrow(
+        'Unknown sampling strategy: random'
+      );
+      expect(() => resolveSampling({ strategy: 'system', percent: 0 })).toThrow(
+        expect.objectContaining({ code: 'INVALID_SAMPLING' })
+      );
+    });
   });
 
   describe('formatJsonStructure', () => {
@@ -974,6 +1387,23 @@ describe('JSONB Analyzer', () => {
       expect(formatted).toContain('  - age: number');
     });
 
+    test('should append field stats', () => {
+      const structure = analyzeJsonStructure([
+        { email: 'a@b.co', n: 1 },
+        { email: 'c@d.co', n: 'x' },
+        { n: 1 },
+        { n: 2 },
+      ]);
+      const formatted = formatJsonStructure(structure);
+
+      expect(formatted).toContain(
+        '- email?: string  [50% present, format email, 2 distinct, e.g. "a@b.co", "c@d.co"]'
+      );
+      expect(formatted).toContain(
+        '- n: number | string  [100% present, number 75% / string 25%, 3 distinct, e.g. 1, "x", 2]'
+      );
+    });
+
     test('should handle empty structure', () => {
       const structure = analyzeJsonStructure([]);
       const formatted = formatJsonStructure(structure);
@@ -981,4 +1411,131 @@ describe('JSONB Analyzer', () => {
       expect(formatted).toBe('    (no data to analyze)');
     });
   });
+
+  describe('exporters', () => {
+    const samples = [
+      { name: 'Ann', tags: ['a', 1], address: { city: 'Oslo' }, score: null },
+      { name: 'Bo', score: 3 },
+    ];
+
+    test('should export JSON Schema 2020-12 with required fields', () => {
+      expect(toJsonSchema(analyzeJsonStructure(samples))).toEqual({
+        $schema: 'https://json-schema.org/draft/2020-12/schema',
+        type: 'object',
+        properties: {
+          name: {
+            type: 'string',
+            examples: ['Ann', 'Bo'],
+            'x-stats': { presence: 100, types: { string: 2 }, distinct: 2 },
+          },
+          tags: {
+            type: 'array',
+            items: { type: ['string', 'number'] },
+            'x-stats': { presence: 50, types: { array: 1 }, distinct: 0 },
+          },
+          address: {
+            type: 'object',
+            properties: {
+              city: {
+                type: 'string',
+                examples: ['Oslo'],
+                'x-stats': { presence: 100, types: { string: 1 }, distinct: 1 },
+              },
+            },
+            required: ['city'],
+            'x-stats': { presence: 50, types: { object: 1 }, distinct: 0 },
+          },
+          score: {
+            type: ['null', 'number'],
+            examples: [3],
+            'x-stats': { presence: 100, types: { null: 1, number: 1 }, distinct: 1 },
+          },
+        },
+        required: ['name', 'score'],
+      });
+    });
+
+    test('should combine nested objects with other types using anyOf', () => {
+      const schema = toJsonSchema(analyzeJsonStructure([{ v: { a: 1 } }, { v: 'x' }]));
+
+      expect(schema.properties?.v).toEqual({
+        anyOf: [
+          {
+            type: 'object',
+            properties: {
+              a: {
+                type: 'number',
+                examples: [1],
+                'x-stats': { presence: 100, types: { number: 1 }, distinct: 1 },
+              },
+            },
+            required: ['a'],
+          },
+          { type: 'string' },
+        ],
+        examples: ['x'],
+        'x-stats': { presence: 100, types: { object: 1, string: 1 }, distinct: 1 },
+      });
+    });
+
+    test('should export Zod source', () => {
+      expect(toZod(analyzeJsonStructure(samples))).toBe(
+        [
+          'z.object({',
+          '  name: z.string(),',
+          '  tags: z.array(z.union([z.string(), z.number()])).optional(),',
+          '  address: z.object({',
+          '    city: z.string(),',
+          '  }).optional(),',
+          '  score: z.number().nullable(),',
+          '})',
+        ].join('\n')
+      );
+      expect(toZod(analyzeJsonStructure([{ 'content-type': 'a' }]))).toContain(
+        '"content-type": z.string(),'
+      );
+      expect(
+        toZod(analyzeJsonStructure([{ id: '0b7c2f6e-9a3d-4c1e-8f2a-1d2e3f4a5b6c' }]))
+      ).toContain('id: z.string().uuid(),');
+    });
+
+    test('should export structures of array documents as arrays', () => {
+      const structure = analyzeJsonDocuments([[{ sku: 'a' }]]);
+
+      expect(exportJsonStructure(structure, 'jsonschema')).toMatchObject({
+        $schema: 'https://json-schema.org/draft/2020-12/schema',
+        type: 'array',
+        items: { type: 'object', required: ['sku'] },
+      });
+      expect(exportJsonStructure(structure, 'zod')).toBe(
+        'z.array(z.object({\n  sku: z.string(),\n}))'
+      );
+      expect(exportJsonStructure(structure, 'typescript')).toBe('{\n  sku: string;\n}[]');
+      expect(exportJsonStructure(structure, 'text')).toContain(
+        '    (array of objects with:)\n    - sku'
+      );
+      // The flag is data, so it survives copies of the structure
+      expect(
+        exportJsonStructure({ ...structure, fields: { ...structure.fields } }, 'typescript')
+      ).toBe('{\n  sku: string;\n}[]');
+    });
+
+    test('should export TypeScript types and text', () => {
+      const structure = analyzeJsonDocuments(samples);
+
+      expect(exportJsonStructure(structure, 'typescript')).toBe(
+        [
+          '{',
+          '  name: string;',
+          '  tags?: (string | number)[];',
+          '  address?: {',
+          '    city: string;',
+          '  };',
+          '  score: null | number;',
+          '}',
+        ].join('\n')
+      );
+      expect(exportJsonStructure(structure, 'text')).toBe(formatJsonStructure(structure.fields));
+    });
+  });
 });